@@ -117,15 +117,19 @@ const AppRouter: React.FC = () => {
           "/register": lazy(() => import("./pages/auth/register")),
           "/forgot": lazy(() => import("./pages/auth/forgot")),
           "/p": getRoute(() => import("./pages/problem"), "p"),
+          "/c": getRoute(() => import("./pages/contest"), "c"),
           "/s": getRoute(() => import("./pages/submission"), "s"),
           "/u": getRoute(() => import("./pages/user"), "u"),
           "/user": getRoute(() => import("./pages/user"), "user"),
           "/groups": getRoute(() => import("./pages/user"), "groups"),
           "/d": getRoute(() => import("./pages/discussion"), "d"),
           "/judge-machine": lazy(() => import("./pages/judge-machine")),
+          "/notifications": lazy(() => import("./pages/notification")),
           ...legacyRoutes({
             "/problem": getRoute(() => import("./pages/problem"), "problem"),
             "/problems": getRoute(() => import("./pages/problem"), "problems"),
+            "/contests": redirect("/c"),
+            "/contest/:id": redirect(request => `/c/${request.params.id}`),
             "/submissions": redirect(request => ({ pathname: "/s", query: request.query })),
             "/submission/:id": redirect(request => `/s/${request.params.id}`),
             "/ranklist": redirect("/u"),
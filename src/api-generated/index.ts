@@ -9,6 +9,8 @@ import * as ImportedGroupApi from "./modules/group";
 import * as ImportedJudgeClientApi from "./modules/judge-client";
 import * as ImportedDiscussionApi from "./modules/discussion";
 import * as ImportedHomepageApi from "./modules/homepage";
+import * as ImportedContestApi from "./modules/contest";
+import * as ImportedNotificationApi from "./modules/notification";
 
 export const user = ImportedUserApi;
 export const auth = ImportedAuthApi;
@@ -19,3 +21,5 @@ export const group = ImportedGroupApi;
 export const judgeClient = ImportedJudgeClientApi;
 export const discussion = ImportedDiscussionApi;
 export const homepage = ImportedHomepageApi;
+export const contest = ImportedContestApi;
+export const notification = ImportedNotificationApi;
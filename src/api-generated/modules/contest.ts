@@ -0,0 +1,58 @@
+// This file is generated automatically, do NOT modify it.
+
+/// <reference path="../types.d.ts" />
+
+import { createGetApi, createPostApi } from "@/api";
+
+export const queryContests = createPostApi<ApiTypes.QueryContestsRequestDto, ApiTypes.QueryContestsResponseDto>(
+  "contest/queryContests",
+  false
+);
+export const getContest = createPostApi<ApiTypes.GetContestRequestDto, ApiTypes.GetContestResponseDto>(
+  "contest/getContest",
+  false
+);
+export const createContest = createPostApi<ApiTypes.CreateContestRequestDto, ApiTypes.CreateContestResponseDto>(
+  "contest/createContest",
+  false
+);
+export const updateContest = createPostApi<ApiTypes.UpdateContestRequestDto, ApiTypes.UpdateContestResponseDto>(
+  "contest/updateContest",
+  false
+);
+export const deleteContest = createPostApi<ApiTypes.DeleteContestRequestDto, ApiTypes.DeleteContestResponseDto>(
+  "contest/deleteContest",
+  false
+);
+export const registerContest = createPostApi<ApiTypes.RegisterContestRequestDto, ApiTypes.RegisterContestResponseDto>(
+  "contest/registerContest",
+  true
+);
+export const getContestRanklist = createPostApi<
+  ApiTypes.GetContestRanklistRequestDto,
+  ApiTypes.GetContestRanklistResponseDto
+>("contest/getContestRanklist", false);
+export const unfreezeContestRanklist = createPostApi<
+  ApiTypes.UnfreezeContestRanklistRequestDto,
+  ApiTypes.UnfreezeContestRanklistResponseDto
+>("contest/unfreezeContestRanklist", false);
+export const startVirtualParticipation = createPostApi<
+  ApiTypes.StartVirtualParticipationRequestDto,
+  ApiTypes.StartVirtualParticipationResponseDto
+>("contest/startVirtualParticipation", true);
+export const queryContestClarifications = createPostApi<
+  ApiTypes.QueryContestClarificationsRequestDto,
+  ApiTypes.QueryContestClarificationsResponseDto
+>("contest/queryContestClarifications", false);
+export const askContestClarification = createPostApi<
+  ApiTypes.AskContestClarificationRequestDto,
+  ApiTypes.AskContestClarificationResponseDto
+>("contest/askContestClarification", true);
+export const replyContestClarification = createPostApi<
+  ApiTypes.ReplyContestClarificationRequestDto,
+  ApiTypes.ReplyContestClarificationResponseDto
+>("contest/replyContestClarification", false);
+export const broadcastContestAnnouncement = createPostApi<
+  ApiTypes.BroadcastContestAnnouncementRequestDto,
+  ApiTypes.BroadcastContestAnnouncementResponseDto
+>("contest/broadcastContestAnnouncement", false);
@@ -56,3 +56,23 @@ export const setDiscussionPermissions = createPostApi<
   ApiTypes.SetDiscussionPermissionsRequestDto,
   ApiTypes.SetDiscussionPermissionsResponseDto
 >("discussion/setDiscussionPermissions", false);
+export const setDiscussionPinned = createPostApi<
+  ApiTypes.SetDiscussionPinnedRequestDto,
+  ApiTypes.SetDiscussionPinnedResponseDto
+>("discussion/setDiscussionPinned", false);
+export const setDiscussionLocked = createPostApi<
+  ApiTypes.SetDiscussionLockedRequestDto,
+  ApiTypes.SetDiscussionLockedResponseDto
+>("discussion/setDiscussionLocked", false);
+export const createDiscussionReport = createPostApi<
+  ApiTypes.CreateDiscussionReportRequestDto,
+  ApiTypes.CreateDiscussionReportResponseDto
+>("discussion/createDiscussionReport", false);
+export const queryDiscussionReports = createPostApi<
+  ApiTypes.QueryDiscussionReportsRequestDto,
+  ApiTypes.QueryDiscussionReportsResponseDto
+>("discussion/queryDiscussionReports", false);
+export const moderateDiscussionReports = createPostApi<
+  ApiTypes.ModerateDiscussionReportsRequestDto,
+  ApiTypes.ModerateDiscussionReportsResponseDto
+>("discussion/moderateDiscussionReports", false);
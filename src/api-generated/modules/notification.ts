@@ -0,0 +1,17 @@
+// This file is generated automatically, do NOT modify it.
+
+/// <reference path="../types.d.ts" />
+
+import { createGetApi, createPostApi } from "@/api";
+
+export const getUnreadNotificationCount = createGetApi<void, ApiTypes.GetUnreadNotificationCountResponseDto>(
+  "notification/getUnreadNotificationCount"
+);
+export const queryNotifications = createPostApi<
+  ApiTypes.QueryNotificationsRequestDto,
+  ApiTypes.QueryNotificationsResponseDto
+>("notification/queryNotifications", false);
+export const markNotificationsRead = createPostApi<
+  ApiTypes.MarkNotificationsReadRequestDto,
+  ApiTypes.MarkNotificationsReadResponseDto
+>("notification/markNotificationsRead", false);
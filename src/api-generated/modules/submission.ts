@@ -21,6 +21,10 @@ export const querySubmissionStatistics = createPostApi<
   ApiTypes.QuerySubmissionStatisticsRequestDto,
   ApiTypes.QuerySubmissionStatisticsResponseDto
 >("submission/querySubmissionStatistics", false);
+export const querySubmissionStatisticsOverview = createPostApi<
+  ApiTypes.QuerySubmissionStatisticsOverviewRequestDto,
+  ApiTypes.QuerySubmissionStatisticsOverviewResponseDto
+>("submission/querySubmissionStatisticsOverview", false);
 export const rejudgeSubmission = createPostApi<
   ApiTypes.RejudgeSubmissionRequestDto,
   ApiTypes.RejudgeSubmissionResponseDto
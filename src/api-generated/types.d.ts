@@ -32,6 +32,30 @@ declare namespace ApiTypes {
   export interface AddUserToGroupResponseDto {
     error?: "PERMISSION_DENIED" | "NO_SUCH_USER" | "NO_SUCH_GROUP" | "USER_ALREADY_IN_GROUP";
   }
+  export interface AskContestClarificationRequestDto {
+    contestId: number;
+    /**
+     * Omit for a general question.
+     */
+    problemId?: number;
+    question: string;
+  }
+  export interface AskContestClarificationResponseDto {
+    error?: "PERMISSION_DENIED" | "NO_SUCH_CONTEST" | "NO_SUCH_PROBLEM" | "CONTEST_NOT_RUNNING" | "NOT_REGISTERED";
+    clarification?: ApiTypes.ContestClarificationDto;
+  }
+  export interface BroadcastContestAnnouncementRequestDto {
+    contestId: number;
+    /**
+     * Omit for a general announcement.
+     */
+    problemId?: number;
+    content: string;
+  }
+  export interface BroadcastContestAnnouncementResponseDto {
+    error?: "PERMISSION_DENIED" | "NO_SUCH_CONTEST" | "NO_SUCH_PROBLEM";
+    clarification?: ApiTypes.ContestClarificationDto;
+  }
   export interface CancelSubmissionRequestDto {
     submissionId: number;
   }
@@ -40,7 +64,7 @@ declare namespace ApiTypes {
   }
   export interface ChangeProblemTypeRequestDto {
     problemId: number;
-    type: "Traditional" | "Interaction" | "SubmitAnswer";
+    type: "Traditional" | "Interaction" | "SubmitAnswer" | "Communication";
   }
   export interface ChangeProblemTypeResponseDto {
     error?: "NO_SUCH_PROBLEM" | "PERMISSION_DENIED" | "PROBLEM_HAS_SUBMISSION";
@@ -49,23 +73,126 @@ declare namespace ApiTypes {
     usernameAvailable?: boolean;
     emailAvailable?: boolean;
   }
+  export interface ContestClarificationDto {
+    id: number;
+    contestId: number;
+    problemId?: number;
+    /**
+     * Null for announcements broadcasted by the contest's managers.
+     */
+    question?: string;
+    questioner?: ApiTypes.UserMetaDto;
+    askTime?: string; // date-time
+    answer?: string;
+    answerer?: ApiTypes.UserMetaDto;
+    answerTime?: string; // date-time
+    /**
+     * If the clarification is visible to all participants.
+     */
+    broadcast: boolean;
+  }
+  export interface ContestMetaDto {
+    id: number;
+    title: string;
+    type: "ICPC" | "OI" | "IOI";
+    startTime: string; // date-time
+    endTime: string; // date-time
+    isPublic: boolean;
+    ownerId: number;
+    participantCount: number;
+  }
+  export interface ContestProblemDto {
+    meta: ApiTypes.ProblemMetaDto;
+    title: string;
+    titleLocale: "en_US" | "zh_CN" | "ja_JP";
+    acceptedParticipantCount?: number;
+    triedParticipantCount?: number;
+    submission?: ApiTypes.SubmissionBasicMetaDto;
+  }
+  export interface ContestRanklistSubmissionDto {
+    submissionId: number;
+    userId: number;
+    problemId: number;
+    submitTime: string; // date-time
+    /**
+     * Omitted for submissions made during the contest. Only the current user's virtual submissions are returned.
+     */
+    kind?: "Virtual" | "Upsolving";
+    /**
+     * Omitted if the submission's result is hidden since the ranklist is frozen.
+     */
+    status?:
+      | "Pending"
+      | "ConfigurationError"
+      | "SystemError"
+      | "Canceled"
+      | "CompilationError"
+      | "FileError"
+      | "RuntimeError"
+      | "TimeLimitExceeded"
+      | "MemoryLimitExceeded"
+      | "OutputLimitExceeded"
+      | "PartiallyCorrect"
+      | "WrongAnswer"
+      | "Accepted"
+      | "JudgementFailed";
+    score?: number;
+    subtaskScores?: number[];
+    /**
+     * If the submission is submitted after the ranklist is frozen. The result of a frozen submission
+     * is only returned to users with the contest's Modify permission.
+     */
+    frozen?: boolean;
+  }
+  export interface ContestVirtualParticipationDto {
+    startTime: string; // date-time
+    endTime: string; // date-time
+  }
+  export interface CreateContestRequestDto {
+    title: string;
+    description: string;
+    type: "ICPC" | "OI" | "IOI";
+    startTime: string; // date-time
+    endTime: string; // date-time
+    isPublic: boolean;
+    problemIds: number[];
+  }
+  export interface CreateContestResponseDto {
+    error?: "PERMISSION_DENIED" | "NO_SUCH_PROBLEM" | "INVALID_TIME_RANGE";
+    errorProblemId?: number;
+    contestId?: number;
+  }
   export interface CreateDiscussionReplyRequestDto {
     discussionId: number;
     content: string;
     isPublic?: boolean;
+    /**
+     * The reply to reply to, which must be in the same discussion.
+     */
+    replyToId?: number;
   }
   export interface CreateDiscussionReplyResponseDto {
-    error?: "PERMISSION_DENIED" | "NO_SUCH_DISCUSSION";
+    error?: "PERMISSION_DENIED" | "NO_SUCH_DISCUSSION" | "NO_SUCH_DISCUSSION_REPLY" | "DISCUSSION_LOCKED";
     reply?: ApiTypes.DiscussionReplyDto;
   }
+  export interface CreateDiscussionReportRequestDto {
+    type: "Discussion" | "DiscussionReply";
+    id: number;
+    reason: string;
+  }
+  export interface CreateDiscussionReportResponseDto {
+    error?: "PERMISSION_DENIED" | "NO_SUCH_DISCUSSION" | "NO_SUCH_DISCUSSION_REPLY" | "ALREADY_REPORTED";
+  }
   export interface CreateDiscussionRequestDto {
     problemId?: number;
     title: string;
     content: string;
     isPublic?: boolean;
+    category?: string;
+    tags?: string[];
   }
   export interface CreateDiscussionResponseDto {
-    error?: "PERMISSION_DENIED" | "NO_SUCH_PROBLEM";
+    error?: "PERMISSION_DENIED" | "NO_SUCH_PROBLEM" | "NO_SUCH_CATEGORY" | "INVALID_TAGS";
     discussionId?: number;
   }
   export interface CreateGroupRequestDto {
@@ -76,7 +203,7 @@ declare namespace ApiTypes {
     groupId?: number;
   }
   export interface CreateProblemRequestDto {
-    type: "Traditional" | "Interaction" | "SubmitAnswer";
+    type: "Traditional" | "Interaction" | "SubmitAnswer" | "Communication";
     statement: ApiTypes.ProblemStatementDto;
   }
   export interface CreateProblemResponseDto {
@@ -91,6 +218,12 @@ declare namespace ApiTypes {
     error?: "PERMISSION_DENIED";
     id?: number;
   }
+  export interface DeleteContestRequestDto {
+    contestId: number;
+  }
+  export interface DeleteContestResponseDto {
+    error?: "PERMISSION_DENIED" | "NO_SUCH_CONTEST";
+  }
   export interface DeleteDiscussionReplyRequestDto {
     discussionReplyId: number;
   }
@@ -153,9 +286,26 @@ declare namespace ApiTypes {
     sortTime: string; // date-time
     replyCount: number;
     isPublic: boolean;
+    /**
+     * Pinned discussions are listed before others.
+     */
+    isPinned: boolean;
+    /**
+     * No new replies could be added to a locked discussion.
+     */
+    isLocked: boolean;
+    /**
+     * The id of one of the categories in the server preference.
+     */
+    category?: string;
+    tags: string[];
     publisherId: number;
     problemId?: number;
   }
+  export interface DiscussionModerationTargetDto {
+    type: "Discussion" | "DiscussionReply";
+    id: number;
+  }
   export interface DiscussionOrReplyReactionsDto {
     count: {};
     currentUserReactions: string[];
@@ -176,6 +326,40 @@ declare namespace ApiTypes {
      * ManagePermission is not valid for replies.
      */
     permissions: ("View" | "Modify" | "ManagePermission" | "ManagePublicness" | "Delete")[];
+    /**
+     * Null if it replies to the discussion.
+     */
+    replyToId?: number;
+    /**
+     * Null if the replied reply is deleted or not visible to the current user.
+     */
+    replyTo?: ApiTypes.DiscussionReplyToDto;
+  }
+  export interface DiscussionReplyToDto {
+    id: number;
+    publisher: ApiTypes.UserMetaDto;
+    /**
+     * Truncated for preview.
+     */
+    content: string;
+  }
+  export interface DiscussionReportDto {
+    id: number;
+    reporter: ApiTypes.UserMetaDto;
+    reason: string;
+    time: string; // date-time
+  }
+  export interface DiscussionReportedContentDto {
+    type: "Discussion" | "DiscussionReply";
+    id: number;
+    discussion: ApiTypes.DiscussionMetaDto;
+    publisher: ApiTypes.UserMetaDto;
+    content: string;
+    isPublic: boolean;
+    /**
+     * In descending order of the report time.
+     */
+    reports: ApiTypes.DiscussionReportDto[];
   }
   export interface DiscussionUserPermissionDto {
     user: ApiTypes.UserMetaDto;
@@ -212,6 +396,48 @@ declare namespace ApiTypes {
   export interface GetAllProblemTagsResponseDto {
     tags: ApiTypes.LocalizedProblemTagDto[];
   }
+  export interface GetContestRanklistRequestDto {
+    contestId: number;
+  }
+  export interface GetContestRanklistResponseDto {
+    error?: "PERMISSION_DENIED" | "NO_SUCH_CONTEST";
+    meta?: ApiTypes.ContestMetaDto;
+    problemIds?: number[];
+    participants?: ApiTypes.UserMetaDto[];
+    submissions?: ApiTypes.ContestRanklistSubmissionDto[];
+    /**
+     * Null if the contest's ranklist won't be frozen.
+     */
+    freezeTime?: string; // date-time
+    frozen?: boolean;
+    /**
+     * The current user's virtual participation, if any.
+     */
+    virtualParticipation?: ApiTypes.ContestVirtualParticipationDto;
+    ranklistSubscriptionKey?: string;
+    permissionOfCurrentUser?: ("View" | "Register" | "Modify" | "Delete")[];
+  }
+  export interface GetContestRequestDto {
+    contestId: number;
+    locale: "en_US" | "zh_CN" | "ja_JP";
+    /**
+     * Pass true to return the contest meta and description only, without problems.
+     */
+    metaOnly?: boolean;
+  }
+  export interface GetContestResponseDto {
+    error?: "PERMISSION_DENIED" | "NO_SUCH_CONTEST";
+    meta?: ApiTypes.ContestMetaDto;
+    owner?: ApiTypes.UserMetaDto;
+    description?: string;
+    /**
+     * Empty before the contest starts, unless the current user has permission to modify the contest.
+     */
+    problems?: ApiTypes.ContestProblemDto[];
+    registered?: boolean;
+    virtualParticipation?: ApiTypes.ContestVirtualParticipationDto;
+    permissionOfCurrentUser?: ("View" | "Register" | "Modify" | "Delete")[];
+  }
   export interface GetDiscussionAndRepliesRequestDto {
     locale: "en_US" | "zh_CN" | "ja_JP";
     discussionId: number;
@@ -265,6 +491,10 @@ declare namespace ApiTypes {
      */
     repliesCountInRange?: number;
     permissionCreateNewDiscussion?: boolean;
+    /**
+     * Only valid for `getDiscussion` = `true`.
+     */
+    discussionSubscriptionKey?: string;
   }
   export interface GetDiscussionAndRepliesResponseProblemDto {
     meta: ApiTypes.ProblemMetaDto;
@@ -322,6 +552,10 @@ declare namespace ApiTypes {
   export interface GetProblemRequestDto {
     id?: number;
     displayId?: number;
+    /**
+     * Access the problem as a problem of the contest, the problem's own permissions are not checked.
+     */
+    contestId?: number;
     owner?: boolean;
     localizedContentsOfLocale?: "en_US" | "zh_CN" | "ja_JP";
     localizedContentsTitleOnly?: boolean;
@@ -369,6 +603,7 @@ declare namespace ApiTypes {
   export interface GetSessionInfoResponseDto {
     userMeta?: ApiTypes.UserMetaDto;
     joinedGroupsCount?: number;
+    unreadNotificationCount?: number;
     userPrivileges?: (
       | "EditHomepage"
       | "ManageUser"
@@ -397,6 +632,9 @@ declare namespace ApiTypes {
     permissionSetPublic?: boolean;
     permissionDelete?: boolean;
   }
+  export interface GetUnreadNotificationCountResponseDto {
+    count: number;
+  }
   export interface GetUserDetailRequestDto {
     userId?: number;
     username?: string;
@@ -545,6 +783,16 @@ declare namespace ApiTypes {
     token?: string;
     username?: string;
   }
+  export interface MarkNotificationsReadRequestDto {
+    /**
+     * If not set, all notifications of the current user are marked as read.
+     */
+    notificationIds?: number[];
+  }
+  export interface MarkNotificationsReadResponseDto {
+    error?: "PERMISSION_DENIED";
+    unreadCount?: number;
+  }
   export interface MigrateUserRequestDto {
     email?: string;
     oldUsername?: string;
@@ -567,12 +815,76 @@ declare namespace ApiTypes {
     export type Username = string;
     export type Wildcard = "Start" | "End" | "Both";
   }
+  export interface ModerateDiscussionReportsRequestDto {
+    /**
+     * `Hide` makes the contents non-public, `Restore` makes them public again.
+     * The reports of the contents are resolved in any case.
+     */
+    action: "Hide" | "Delete" | "Restore";
+    targets: ApiTypes.DiscussionModerationTargetDto[];
+  }
+  export interface ModerateDiscussionReportsResponseDto {
+    error?: "PERMISSION_DENIED";
+  }
+  export interface NotificationDto {
+    id: number;
+    kind: "Mention" | "Reply" | "SubmissionJudged" | "ProblemPermissionGranted";
+    time: string; // date-time
+    read: boolean;
+    /**
+     * The user who mentioned, replied or granted the permission. Not set for `SubmissionJudged`.
+     */
+    user?: ApiTypes.UserMetaDto;
+    /**
+     * Set for `Mention` and `Reply`.
+     */
+    discussion?: ApiTypes.DiscussionMetaDto;
+    /**
+     * Not set if mentioned in the discussion's content.
+     */
+    discussionReplyId?: number;
+    /**
+     * Set for `SubmissionJudged`.
+     */
+    submission?: ApiTypes.SubmissionMetaDto;
+    /**
+     * Set for `ProblemPermissionGranted`.
+     */
+    problem?: ApiTypes.ProblemMetaDto;
+    problemTitle?: string;
+    permissionLevel?: 1 | 2;
+  }
   export interface PreferenceConfig {
     siteName: string;
     security: ApiTypes.PreferenceConfigSecurity;
     pagination: ApiTypes.PreferenceConfigPagination;
     misc: ApiTypes.PreferenceConfigMisc;
   }
+  export interface PreferenceConfigDiscussionCategory {
+    id: string;
+    /**
+     * Locale -> name. The first one is used if the current locale's not set.
+     */
+    names: {};
+    color:
+      | "red"
+      | "orange"
+      | "yellow"
+      | "olive"
+      | "green"
+      | "teal"
+      | "blue"
+      | "violet"
+      | "purple"
+      | "pink"
+      | "brown"
+      | "grey";
+    icon?: string;
+    /**
+     * Only the users with the `ManageDiscussion` privilege could post in restricted categories, e.g. announcements.
+     */
+    restricted?: boolean;
+  }
   export interface PreferenceConfigMisc {
     appLogo: string;
     appLogoForTheme: {};
@@ -586,6 +898,7 @@ declare namespace ApiTypes {
     renderMarkdownInUserBio: boolean;
     discussionReactionEmojis: string[];
     discussionReactionAllowCustomEmojis: boolean;
+    discussionCategories: ApiTypes.PreferenceConfigDiscussionCategory[];
   }
   export interface PreferenceConfigPagination {
     homepageUserList: number;
@@ -601,6 +914,8 @@ declare namespace ApiTypes {
     discussionReplies: number;
     discussionRepliesHead: number;
     discussionRepliesMore: number;
+    contests: number;
+    notifications: number;
   }
   export interface PreferenceConfigSecurity {
     recaptchaEnabled: boolean;
@@ -647,7 +962,7 @@ declare namespace ApiTypes {
   export interface ProblemMetaDto {
     id: number;
     displayId?: number;
-    type: "Traditional" | "Interaction" | "SubmitAnswer";
+    type: "Traditional" | "Interaction" | "SubmitAnswer" | "Communication";
     isPublic: boolean;
     publicTime: string; // date-time
     ownerId: number;
@@ -714,6 +1029,45 @@ declare namespace ApiTypes {
     secondObject?: {};
     details?: {};
   }
+  export interface QueryContestClarificationsRequestDto {
+    contestId: number;
+  }
+  export interface QueryContestClarificationsResponseDto {
+    error?: "PERMISSION_DENIED" | "NO_SUCH_CONTEST";
+    /**
+     * Users with the contest's Modify permission get all clarifications, others get their own and broadcasted ones.
+     */
+    clarifications?: ApiTypes.ContestClarificationDto[];
+    clarificationSubscriptionKey?: string;
+  }
+  export interface QueryContestsRequestDto {
+    locale: "en_US" | "zh_CN" | "ja_JP";
+    keyword?: string;
+    nonpublic?: boolean;
+    skipCount: number;
+    takeCount: number;
+  }
+  export interface QueryContestsResponseDto {
+    error?: "TAKE_TOO_MANY" | "PERMISSION_DENIED";
+    contests?: ApiTypes.ContestMetaDto[];
+    count?: number;
+    permissions?: ApiTypes.QueryContestsResponsePermissionDto;
+  }
+  export interface QueryContestsResponsePermissionDto {
+    createContest?: boolean;
+    filterNonpublic?: boolean;
+  }
+  export interface QueryDiscussionReportsRequestDto {
+    locale: "en_US" | "zh_CN" | "ja_JP";
+    resolved: boolean;
+    skipCount: number;
+    takeCount: number;
+  }
+  export interface QueryDiscussionReportsResponseDto {
+    error?: "PERMISSION_DENIED" | "TAKE_TOO_MANY";
+    contents?: ApiTypes.DiscussionReportedContentDto[];
+    count?: number;
+  }
   export interface QueryDiscussionsRequestDto {
     locale: "en_US" | "zh_CN" | "ja_JP";
     keyword?: string;
@@ -723,6 +1077,11 @@ declare namespace ApiTypes {
     problemId?: number;
     publisherId?: number;
     nonpublic?: boolean;
+    category?: string;
+    /**
+     * The discussions with ALL of the tags are returned.
+     */
+    tags?: string[];
     /**
      * Pass true to return discussion title only. For a preview in search bar.
      */
@@ -752,6 +1111,19 @@ declare namespace ApiTypes {
     title: string;
     titleLocale: "en_US" | "zh_CN" | "ja_JP";
   }
+  export interface QueryNotificationsRequestDto {
+    locale: "en_US" | "zh_CN" | "ja_JP";
+    kind?: "Mention" | "Reply" | "SubmissionJudged" | "ProblemPermissionGranted";
+    unreadOnly?: boolean;
+    skipCount: number;
+    takeCount: number;
+  }
+  export interface QueryNotificationsResponseDto {
+    error?: "PERMISSION_DENIED" | "TAKE_TOO_MANY";
+    notifications?: ApiTypes.NotificationDto[];
+    count?: number;
+    unreadCount?: number;
+  }
   export interface QueryParameters {
     locale: ApiTypes.Parameters.Locale;
   }
@@ -825,6 +1197,27 @@ declare namespace ApiTypes {
     hasLargerId?: boolean;
     progressSubscriptionKey?: string;
   }
+  export interface QuerySubmissionStatisticsOverviewRequestDto {
+    problemId?: number;
+    problemDisplayId?: number;
+    /**
+     * The submissions are counted per day in this timezone.
+     */
+    timezone: string;
+  }
+  export interface QuerySubmissionStatisticsOverviewResponseDto {
+    error?: "NO_SUCH_PROBLEM" | "PERMISSION_DENIED";
+    statusCounts?: ApiTypes.SubmissionStatusCountDto[];
+    codeLanguageCounts?: ApiTypes.SubmissionCodeLanguageCountDto[];
+    /**
+     * The time used of accepted submissions, in buckets of the same size, from 0 to the max time used.
+     */
+    timeUsedHistogram?: ApiTypes.SubmissionTimeUsedBucketDto[];
+    /**
+     * Only the days with submissions, in ascending order.
+     */
+    dailyCounts?: ApiTypes.SubmissionDailyCountDto[];
+  }
   export interface QuerySubmissionStatisticsRequestDto {
     locale: "en_US" | "zh_CN" | "ja_JP";
     problemId?: number;
@@ -848,6 +1241,12 @@ declare namespace ApiTypes {
     migrated?: boolean;
     usernameMustChange?: boolean;
   }
+  export interface RegisterContestRequestDto {
+    contestId: number;
+  }
+  export interface RegisterContestResponseDto {
+    error?: "PERMISSION_DENIED" | "NO_SUCH_CONTEST" | "ALREADY_REGISTERED" | "CONTEST_ENDED";
+  }
   export interface RegisterRequestDto {
     username: string;
     email: string;
@@ -900,6 +1299,15 @@ declare namespace ApiTypes {
   export interface RenameProblemFileResponseDto {
     error?: "NO_SUCH_PROBLEM" | "PERMISSION_DENIED" | "NO_SUCH_FILE";
   }
+  export interface ReplyContestClarificationRequestDto {
+    clarificationId: number;
+    answer: string;
+    broadcast: boolean;
+  }
+  export interface ReplyContestClarificationResponseDto {
+    error?: "PERMISSION_DENIED" | "NO_SUCH_CLARIFICATION";
+    clarification?: ApiTypes.ContestClarificationDto;
+  }
   export type RequestBody = ApiTypes.UpdateHomepageSettingsRequestDto;
   export interface ResetJudgeClientKeyRequestDto {
     id: number;
@@ -956,6 +1364,13 @@ declare namespace ApiTypes {
     hash: string;
     date: string;
   }
+  export interface SetDiscussionLockedRequestDto {
+    discussionId: number;
+    isLocked: boolean;
+  }
+  export interface SetDiscussionLockedResponseDto {
+    error?: "PERMISSION_DENIED" | "NO_SUCH_DISCUSSION";
+  }
   export interface SetDiscussionPermissionsRequestDto {
     discussionId: number;
     userPermissions: ApiTypes.SetDiscussionPermissionsRequestUserPermissionDto[];
@@ -973,6 +1388,13 @@ declare namespace ApiTypes {
     error?: "PERMISSION_DENIED" | "NO_SUCH_DISCUSSION" | "NO_SUCH_USER" | "NO_SUCH_GROUP";
     errorObjectId?: number;
   }
+  export interface SetDiscussionPinnedRequestDto {
+    discussionId: number;
+    isPinned: boolean;
+  }
+  export interface SetDiscussionPinnedResponseDto {
+    error?: "PERMISSION_DENIED" | "NO_SUCH_DISCUSSION";
+  }
   export interface SetDiscussionPublicRequestDto {
     discussionId: number;
     isPublic: boolean;
@@ -1055,6 +1477,18 @@ declare namespace ApiTypes {
     extraFormData?: {};
     fileFieldName?: string;
   }
+  export interface StartVirtualParticipationRequestDto {
+    contestId: number;
+    startTime: string; // date-time
+  }
+  export interface StartVirtualParticipationResponseDto {
+    error?:
+      | "PERMISSION_DENIED"
+      | "NO_SUCH_CONTEST"
+      | "CONTEST_NOT_ENDED"
+      | "ALREADY_PARTICIPATED"
+      | "INVALID_START_TIME";
+  }
   export interface SubmissionBasicMetaDto {
     id: number;
     isPublic: boolean;
@@ -1080,6 +1514,15 @@ declare namespace ApiTypes {
     timeUsed: number;
     memoryUsed: number;
   }
+  export interface SubmissionCodeLanguageCountDto {
+    codeLanguage: string;
+    count: number;
+  }
+  export interface SubmissionDailyCountDto {
+    date: string; // date
+    count: number;
+    acceptedCount: number;
+  }
   export interface SubmissionMetaDto {
     id: number;
     isPublic: boolean;
@@ -1109,13 +1552,52 @@ declare namespace ApiTypes {
     submitter: ApiTypes.UserMetaDto;
     progressType?: "Preparing" | "Compiling" | "Running" | "Finished";
   }
+  export interface SubmissionStatusCountDto {
+    status:
+      | "Pending"
+      | "ConfigurationError"
+      | "SystemError"
+      | "Canceled"
+      | "CompilationError"
+      | "FileError"
+      | "RuntimeError"
+      | "TimeLimitExceeded"
+      | "MemoryLimitExceeded"
+      | "OutputLimitExceeded"
+      | "PartiallyCorrect"
+      | "WrongAnswer"
+      | "Accepted"
+      | "JudgementFailed";
+    count: number;
+  }
+  export interface SubmissionTimeUsedBucketDto {
+    /**
+     * The bucket contains the submissions with time used in [minTimeUsed, maxTimeUsed).
+     */
+    minTimeUsed: number;
+    maxTimeUsed: number;
+    count: number;
+  }
   export interface SubmitRequestDto {
     problemId: number;
+    /**
+     * The submission is made in the contest, the problem must be a problem of the contest.
+     * After the contest ends, it's counted as virtual participation or upsolving.
+     */
+    contestId?: number;
     content: {};
     uploadInfo?: ApiTypes.FileUploadInfoDto;
   }
   export interface SubmitResponseDto {
-    error?: "PERMISSION_DENIED" | "NO_SUCH_PROBLEM" | "FILE_TOO_LARGE" | "FILE_UUID_EXISTS" | "FILE_NOT_UPLOADED";
+    error?:
+      | "PERMISSION_DENIED"
+      | "NO_SUCH_PROBLEM"
+      | "NO_SUCH_CONTEST"
+      | "NOT_REGISTERED"
+      | "CONTEST_NOT_RUNNING"
+      | "FILE_TOO_LARGE"
+      | "FILE_UUID_EXISTS"
+      | "FILE_NOT_UPLOADED";
     submissionId?: number;
     signedUploadRequest?: ApiTypes.SignedFileUploadRequestDto;
   }
@@ -1128,6 +1610,26 @@ declare namespace ApiTypes {
   export interface ToggleReactionResponseDto {
     error?: "PERMISSION_DENIED" | "NO_SUCH_DISCUSSION" | "NO_SUCH_DISCUSSION_REPLY" | "INVALID_EMOJI";
   }
+  export interface UnfreezeContestRanklistRequestDto {
+    contestId: number;
+  }
+  export interface UnfreezeContestRanklistResponseDto {
+    error?: "PERMISSION_DENIED" | "NO_SUCH_CONTEST" | "CONTEST_NOT_ENDED" | "NOT_FROZEN";
+  }
+  export interface UpdateContestRequestDto {
+    contestId: number;
+    title: string;
+    description: string;
+    type: "ICPC" | "OI" | "IOI";
+    startTime: string; // date-time
+    endTime: string; // date-time
+    isPublic: boolean;
+    problemIds: number[];
+  }
+  export interface UpdateContestResponseDto {
+    error?: "PERMISSION_DENIED" | "NO_SUCH_CONTEST" | "NO_SUCH_PROBLEM" | "INVALID_TIME_RANGE";
+    errorProblemId?: number;
+  }
   export interface UpdateDiscussionReplyRequestDto {
     discussionReplyId: number;
     content: string;
@@ -1140,9 +1642,11 @@ declare namespace ApiTypes {
     discussionId: number;
     title: string;
     content: string;
+    category?: string;
+    tags?: string[];
   }
   export interface UpdateDiscussionResponseDto {
-    error?: "PERMISSION_DENIED" | "NO_SUCH_DISCUSSION";
+    error?: "PERMISSION_DENIED" | "NO_SUCH_DISCUSSION" | "NO_SUCH_CATEGORY" | "INVALID_TAGS";
   }
   export interface UpdateHomepageSettingsRequestDto {
     settings: ApiTypes.HomepageSettings;
@@ -1245,10 +1749,28 @@ declare namespace ApiTypes {
   export interface UserPreferenceCodeDto {
     defaultLanguage?: string;
     defaultCompileAndRunOptions?: {};
+    editorKeybinding?: "Default" | "Vim" | "Emacs";
   }
   export interface UserPreferenceCodeFormatterDto {
     disableByDefault?: boolean;
     options?: string;
+    formatterOptions?: {};
+  }
+  export interface UserPreferenceCodeSnippetDto {
+    language: string;
+    prefix: string;
+    description?: string;
+    body: string;
+  }
+  export interface UserPreferenceCodeTemplateDto {
+    language: string;
+    name: string;
+    code: string;
+  }
+  export interface UserPreferenceCodeTemplatesDto {
+    autoInsert?: boolean;
+    templates?: ApiTypes.UserPreferenceCodeTemplateDto[];
+    snippets?: ApiTypes.UserPreferenceCodeSnippetDto[];
   }
   export interface UserPreferenceDto {
     locale?: ApiTypes.UserPreferenceLocaleDto;
@@ -1256,6 +1778,9 @@ declare namespace ApiTypes {
     font?: ApiTypes.UserPreferenceFontDto;
     codeFormatter?: ApiTypes.UserPreferenceCodeFormatterDto;
     code?: ApiTypes.UserPreferenceCodeDto;
+    outputDiff?: ApiTypes.UserPreferenceOutputDiffDto;
+    codeTemplates?: ApiTypes.UserPreferenceCodeTemplatesDto;
+    notification?: ApiTypes.UserPreferenceNotificationDto;
   }
   export interface UserPreferenceFontDto {
     contentFontFace?: string;
@@ -1270,6 +1795,16 @@ declare namespace ApiTypes {
     content?: "en_US" | "zh_CN" | "ja_JP";
     hideUnavailableMessage?: boolean;
   }
+  export interface UserPreferenceNotificationDto {
+    /**
+     * The kinds of notifications the user opted out of.
+     */
+    disabledKinds?: ("Mention" | "Reply" | "SubmissionJudged" | "ProblemPermissionGranted")[];
+  }
+  export interface UserPreferenceOutputDiffDto {
+    viewMode?: "Separate" | "SideBySide" | "Inline";
+    compareMode?: "Line" | "Token" | "IgnoreWhitespace";
+  }
   export interface UserSessionDto {
     sessionId: number;
     loginIp: string;
@@ -121,6 +121,11 @@ export class AppState {
   @observable
   showTagsInProblemSet: boolean = false;
 
+  // Check C/C++ code with the offline syntax checker before submitting
+  @persist
+  @observable
+  checkSyntaxBeforeSubmit: boolean = false;
+
   /* Begin session info */
 
   @persist
@@ -137,6 +142,10 @@ export class AppState {
   @observable
   currentUserJoinedGroupsCount: number = 0;
 
+  // Polled in the layout, and updated when notifications are read
+  @observable
+  currentUserUnreadNotificationCount: number = 0;
+
   @observable
   currentUserPrivileges: ApiTypes.GetSessionInfoResponseDto["userPrivileges"] = [];
 
@@ -1,4 +1,4 @@
-import React, { useRef } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { observer } from "mobx-react";
 import ReactMonacoEditor from "@monaco-editor/react";
 import { registerRulesForLanguage } from "monaco-ace-tokenizer";
@@ -12,6 +12,8 @@ import style from "./CodeEditor.module.less";
 import { CodeLanguage, codeLanguageShownOptions } from "@/interfaces/CodeLanguage";
 import { appState } from "@/appState";
 import { generateCodeFontEditorOptions } from "@/misc/fonts";
+import { getCodeSnippets } from "@/utils/codeTemplates";
+import type { SyntaxDiagnostic } from "@/utils/SyntaxChecker";
 import { themeList } from "@/themes";
 
 // ACE highlights
@@ -25,6 +27,36 @@ Object.entries(import.meta.globEager("../assets/monaco-themes/*.json")).forEach(
   Monaco.editor.defineTheme(path.basename(filename, ".json"), data as any);
 });
 
+export type EditorKeybinding = ApiTypes.UserPreferenceCodeDto["editorKeybinding"];
+
+const STATUS_BAR_HEIGHT = 22;
+
+/**
+ * Enable the Vim or Emacs keybinding on the editor. The keybinding packages are loaded only when used.
+ * Return a function to disable it.
+ */
+async function enableKeybinding(
+  editor: Monaco.editor.IStandaloneCodeEditor,
+  keybinding: EditorKeybinding,
+  statusBarNode: HTMLElement,
+  onEmacsStatusChange: (status: string) => void
+): Promise<() => void> {
+  if (keybinding === "Vim") {
+    const { initVimMode } = await import("monaco-vim");
+    const vimMode = initVimMode(editor, statusBarNode);
+    return () => vimMode.dispose();
+  } else if (keybinding === "Emacs") {
+    const { EmacsExtension } = await import("monaco-emacs");
+    const emacsMode = new EmacsExtension(editor);
+    emacsMode.onDidMarkChange(markSet => onEmacsStatusChange(markSet ? "Mark Set" : "Mark Unset"));
+    emacsMode.onDidChangeKey(key => onEmacsStatusChange(key));
+    emacsMode.start();
+    return () => emacsMode.dispose();
+  }
+
+  return () => {};
+}
+
 export interface CodeEditorProps {
   editorDidMount?: (editor: Monaco.editor.IStandaloneCodeEditor) => void;
   className?: string;
@@ -32,14 +64,17 @@ export interface CodeEditorProps {
   language: CodeLanguage | string;
   onChange?: (newValue: string) => void;
   options?: Monaco.editor.IEditorConstructionOptions;
+  diagnostics?: SyntaxDiagnostic[];
 }
 
 let CodeEditor: React.FC<CodeEditorProps> = props => {
   const refEditor = useRef<Monaco.editor.IStandaloneCodeEditor>();
+  const [editor, setEditor] = useState<Monaco.editor.IStandaloneCodeEditor>();
   function editorDidMount(editor: Monaco.editor.IStandaloneCodeEditor) {
     editor.getModel().setEOL(Monaco.editor.EndOfLineSequence.LF);
 
     refEditor.current = editor;
+    setEditor(editor);
     console.log("Monaco Editor:", editor);
 
     if (props.editorDidMount) props.editorDidMount(editor);
@@ -63,18 +98,96 @@ let CodeEditor: React.FC<CodeEditorProps> = props => {
     }
   }
 
+  // Keybinding modes with a status bar showing the mode and the pending command
+  const keybinding: EditorKeybinding = appState.userPreference.code?.editorKeybinding || "Default";
+  const refStatusBar = useRef<HTMLDivElement>();
+  const [emacsStatus, setEmacsStatus] = useState("");
+  useEffect(() => {
+    if (!editor || keybinding === "Default") return;
+
+    let disposed = false;
+    let disableKeybinding: () => void;
+    enableKeybinding(editor, keybinding, refStatusBar.current, setEmacsStatus).then(
+      disable => {
+        if (disposed) disable();
+        else disableKeybinding = disable;
+      },
+      e => console.error(`Failed to enable ${keybinding} keybinding:`, e)
+    );
+
+    return () => {
+      disposed = true;
+      setEmacsStatus("");
+      if (disableKeybinding) disableKeybinding();
+    };
+  }, [editor, keybinding]);
+
+  // The editor's height changes when the status bar is shown or hidden
+  useEffect(() => refEditor.current?.layout(), [keybinding]);
+
   let editorLanguage = props.language;
 
   if (codeLanguageShownOptions[props.language as any]?.highlightAs) {
     editorLanguage = codeLanguageShownOptions[props.language as any].highlightAs;
   }
 
+  // The user's snippets of the code language are provided as completions in this editor
+  useEffect(() => {
+    if (!editor) return;
+
+    const disposable = Monaco.languages.registerCompletionItemProvider(editorLanguage, {
+      provideCompletionItems: (model, position) => {
+        if (model !== editor.getModel()) return { suggestions: [] };
+
+        const word = model.getWordUntilPosition(position);
+        const range = new Monaco.Range(position.lineNumber, word.startColumn, position.lineNumber, word.endColumn);
+        return {
+          suggestions: getCodeSnippets(props.language).map(snippet => ({
+            label: snippet.prefix,
+            kind: Monaco.languages.CompletionItemKind.Snippet,
+            detail: snippet.description,
+            documentation: snippet.body,
+            insertText: snippet.body,
+            insertTextRules: Monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+            range
+          }))
+        };
+      }
+    });
+    return () => disposable.dispose();
+  }, [editor, editorLanguage, props.language]);
+
+  // Diagnostics are shown as markers, which move with the text when editing
+  useEffect(() => {
+    if (!editor) return;
+
+    const model = editor.getModel();
+    Monaco.editor.setModelMarkers(
+      model,
+      "diagnostics",
+      (props.diagnostics || []).map(diagnostic => {
+        // The code may have been changed since checked
+        const position = model.validatePosition({ lineNumber: diagnostic.line, column: diagnostic.column });
+        const word = model.getWordAtPosition(position);
+        return {
+          severity: diagnostic.severity === "error" ? Monaco.MarkerSeverity.Error : Monaco.MarkerSeverity.Warning,
+          message: diagnostic.message,
+          startLineNumber: position.lineNumber,
+          startColumn: position.column,
+          endLineNumber: position.lineNumber,
+          endColumn: word ? word.endColumn : position.column + 1
+        };
+      })
+    );
+  }, [editor, props.diagnostics]);
+
   return (
     <div
       ref={initializeResizeSensor}
       className={props.className ? `${style.editorContainer} ${props.className}` : style.editorContainer}
     >
       <ReactMonacoEditor
+        height={keybinding === "Default" ? "100%" : `calc(100% - ${STATUS_BAR_HEIGHT}px)`}
         theme={themeList[appState.theme].editor}
         language={editorLanguage}
         value={props.value}
@@ -86,6 +199,17 @@ let CodeEditor: React.FC<CodeEditorProps> = props => {
         onMount={editorDidMount}
         onChange={props.onChange}
       />
+      {keybinding !== "Default" && (
+        // monaco-vim renders its status into the node, so it's not managed by React in Vim mode
+        <div
+          key={keybinding}
+          ref={refStatusBar}
+          className={style.statusBar + " monospace"}
+          style={{ height: STATUS_BAR_HEIGHT }}
+        >
+          {keybinding === "Emacs" && `-- EMACS -- ${emacsStatus}`}
+        </div>
+      )}
     </div>
   );
 };
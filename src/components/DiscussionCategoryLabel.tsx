@@ -0,0 +1,34 @@
+import React from "react";
+import { Label, LabelProps, SemanticICONS } from "semantic-ui-react";
+import { observer } from "mobx-react";
+
+import { getDiscussionCategory, getDiscussionCategoryName } from "@/pages/discussion/utils";
+
+interface DiscussionCategoryLabelProps {
+  category: string;
+  className?: string;
+  size?: LabelProps["size"];
+  onClick?: () => void;
+}
+
+// Nothing is rendered for a category removed from the server preference
+let DiscussionCategoryLabel: React.FC<DiscussionCategoryLabelProps> = props => {
+  const category = getDiscussionCategory(props.category);
+  if (!category) return null;
+
+  return (
+    <Label
+      className={props.className}
+      size={props.size}
+      color={category.color}
+      icon={category.icon as SemanticICONS}
+      content={getDiscussionCategoryName(category)}
+      as={props.onClick ? "a" : undefined}
+      onClick={props.onClick}
+    />
+  );
+};
+
+DiscussionCategoryLabel = observer(DiscussionCategoryLabel);
+
+export default DiscussionCategoryLabel;
@@ -7,6 +7,7 @@ import { getDiscussionDisplayTitle } from "@/pages/discussion/utils";
 import { useLocalizer } from "@/utils/hooks";
 import toast from "@/utils/toast";
 import { EmojiRenderer } from "./EmojiRenderer";
+import DiscussionCategoryLabel from "./DiscussionCategoryLabel";
 import PreviewSearch from "./PreviewSearch";
 
 interface DiscussionSearchProps {
@@ -49,7 +50,10 @@ export let DiscussionSearch: React.FC<DiscussionSearchProps> = props => {
       }}
       onRenderResult={result => (
         <EmojiRenderer>
-          <div className="title">{getDiscussionDisplayTitle(result.meta.title, _)}</div>
+          <div className="title">
+            <DiscussionCategoryLabel category={result.meta.category} size="mini" />
+            {getDiscussionDisplayTitle(result.meta.title, _)}
+          </div>
         </EmojiRenderer>
       )}
       onResultSelect={props.onResultSelect}
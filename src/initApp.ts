@@ -15,6 +15,7 @@ const SESSION_SWR_INFO_VALID_FOR = 7 * 24 * 60 * 60 * 1000;
 function applySessionInfo(sessionInfo: ApiTypes.GetSessionInfoResponseDto) {
   appState.currentUser = sessionInfo.userMeta;
   appState.currentUserJoinedGroupsCount = sessionInfo.joinedGroupsCount;
+  appState.currentUserUnreadNotificationCount = sessionInfo.unreadNotificationCount || 0;
   appState.currentUserPrivileges = sessionInfo.userPrivileges || [];
   appState.userPreference = sessionInfo.userPreference || {};
   appState.serverPreference = sessionInfo.serverPreference;
@@ -0,0 +1,5 @@
+export enum ContestType {
+  ICPC = "ICPC",
+  OI = "OI",
+  IOI = "IOI"
+}
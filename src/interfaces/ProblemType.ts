@@ -1,5 +1,6 @@
 export enum ProblemType {
   Traditional = "Traditional",
   Interaction = "Interaction",
-  SubmitAnswer = "SubmitAnswer"
+  SubmitAnswer = "SubmitAnswer",
+  Communication = "Communication"
 }
@@ -1,7 +1,7 @@
 import React, { useEffect, useState } from "react";
 import { observer } from "mobx-react";
 import { useLoadingRoute } from "react-navi";
-import { Menu, Button, Dropdown, Container, Icon, Segment, Sidebar, SemanticICONS } from "semantic-ui-react";
+import { Menu, Button, Dropdown, Container, Icon, Label, Segment, Sidebar, SemanticICONS } from "semantic-ui-react";
 
 import "fomantic-ui-css/components/site.css";
 import "noty/src/themes/semanticui.scss";
@@ -25,7 +25,9 @@ import api from "@/api";
 import formatDateTime from "@/utils/formatDateTime";
 import { EmojiRenderer } from "@/components/EmojiRenderer";
 
-export type NavButtonName = "home" | "problem_set" | "submissions" | "members" | "discussion";
+export type NavButtonName = "home" | "problem_set" | "contests" | "submissions" | "members" | "discussion";
+
+const UNREAD_NOTIFICATION_COUNT_POLL_INTERVAL = 60 * 1000;
 
 let AppLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const navigation = useNavigationChecked();
@@ -49,6 +51,23 @@ let AppLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     return () => subscription.unsubscribe();
   });
 
+  // Only the unread count is polled, the notifications are fetched in the notifications page
+  useEffect(() => {
+    if (!appState.currentUser) return;
+
+    async function updateUnreadNotificationCount() {
+      if (document.visibilityState !== "visible") return;
+
+      // Failures are ignored since it's retried in the next poll
+      const { requestError, response } = await api.notification.getUnreadNotificationCount();
+      if (!requestError) appState.currentUserUnreadNotificationCount = response.count;
+    }
+
+    updateUnreadNotificationCount();
+    const interval = setInterval(updateUnreadNotificationCount, UNREAD_NOTIFICATION_COUNT_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [appState.currentUser]);
+
   async function onLogoutClick() {
     const { requestError, response } = await api.auth.logout();
     if (requestError) {
@@ -73,15 +92,13 @@ let AppLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
       text: ".navbar.problem_set",
       url: "/p"
     },
-    ...(appState.serverPreference.misc.legacyContestsEntryUrl
-      ? {
-          contests: {
-            icon: "dove",
-            text: ".navbar.contests",
-            url: appState.serverPreference.misc.legacyContestsEntryUrl
-          }
-        }
-      : {}),
+    contests: {
+      icon: "trophy",
+      text: ".navbar.contests",
+      // Sites still running the legacy contests can point the entry to them
+      // The setting is a URL, though it's typed as boolean in the generated API types
+      url: (appState.serverPreference.misc.legacyContestsEntryUrl as unknown as string) || "/c"
+    },
     submissions: {
       icon: "hourglass",
       text: ".navbar.submissions",
@@ -220,8 +237,32 @@ let AppLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     </>
   );
 
+  const notificationBell = (
+    <Menu.Item
+      as={Link}
+      href="/notifications"
+      className={style.notificationBell}
+      title={_(".header.user.notifications")}
+    >
+      <Icon name="bell" />
+      {appState.currentUserUnreadNotificationCount > 0 && (
+        <Label
+          className={style.unreadNotificationCount}
+          color="red"
+          size="mini"
+          circular
+          floating
+          content={
+            appState.currentUserUnreadNotificationCount > 99 ? "99+" : appState.currentUserUnreadNotificationCount
+          }
+        />
+      )}
+    </Menu.Item>
+  );
+
   const userDropdown = (icon = true) => (
     <Menu.Menu position="right">
+      {notificationBell}
       <Dropdown
         simple
         item
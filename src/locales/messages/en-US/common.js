@@ -16,6 +16,7 @@ return {
       problems: "My problems",
       discussions: "My discussions",
       groups: "My groups",
+      notifications: "Notifications",
       edit_profile: "Edit profile",
       preference: "Preference",
       logout: "Logout"
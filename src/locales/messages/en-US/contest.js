@@ -0,0 +1,56 @@
+return {
+  title: "Contest",
+  meta_labels: {
+    non_public: "Non-Public",
+    registered: "Registered",
+    virtual_participation: "Virtual Participation"
+  },
+  countdown: {
+    before_start: "Starts in",
+    before_end: "Ends in",
+    before_virtual_start: "Virtual participation starts in",
+    before_virtual_end: "Virtual participation ends in"
+  },
+  statistic: {
+    problems: "Problems",
+    participants: "Participants"
+  },
+  upsolving_message:
+    "The contest has ended. You can still submit to the problems for practice, these submissions will be shown in the upsolving column of the ranklist.",
+  description: "Description",
+  problems: "Problems",
+  problems_not_visible: "Problems will be visible after the contest starts.",
+  no_problems: "There are no problems in this contest.",
+  column_status: "Status",
+  column_title: "Title",
+  column_accepted: "Accepted",
+  owner: "Owner: ",
+  action: {
+    register: "Register",
+    register_success: "Successfully registered.",
+    login_to_register: "Login to register",
+    ranklist: "Ranklist",
+    virtual_participate: "Virtual Participate",
+    virtual_participate_start_time: "Start time",
+    virtual_participate_confirm: "Start",
+    virtual_participate_success: "Successfully started virtual participation.",
+    enter: "Enter",
+    edit: "Edit",
+    delete: "Delete",
+    delete_confirm_title: "Delete Contest",
+    delete_confirm_content:
+      "Are you sure to delete this contest? Its registrations will be deleted as well. The problems and submissions won't be affected.",
+    delete_confirm: "Confirm",
+    delete_cancel: "Cancel",
+    delete_success: "Successfully deleted."
+  },
+  error: {
+    PERMISSION_DENIED: "Permission denied.",
+    NO_SUCH_CONTEST: "No such contest.",
+    ALREADY_REGISTERED: "You have already registered.",
+    CONTEST_ENDED: "The contest has ended.",
+    CONTEST_NOT_ENDED: "The contest hasn't ended.",
+    ALREADY_PARTICIPATED: "You have already participated in the contest.",
+    INVALID_START_TIME: "Invalid start time."
+  }
+};
@@ -0,0 +1,33 @@
+return {
+  header: "Clarifications",
+  general: "General",
+  announcement: "Announcement",
+  broadcasted: "Public",
+  unanswered: "Unanswered",
+  no_clarifications: "There are no clarifications yet.",
+  ask: "Ask",
+  ask_placeholder: "Ask a question about the contest or a problem. Only the contest's managers could see it.",
+  ask_success: "Your question has been sent.",
+  broadcast: "Broadcast",
+  broadcast_placeholder: "Broadcast an announcement to all participants, in Markdown.",
+  broadcast_success: "Successfully broadcasted.",
+  reply: "Reply",
+  reply_placeholder: "Answer the question, in Markdown.",
+  reply_broadcast: "Visible to all participants",
+  reply_success: "Successfully replied.",
+  toast: {
+    new_announcement: "There is a new announcement of the contest.",
+    new_question: "There is a new question of the contest.",
+    new_broadcast: "There is a new public clarification of the contest.",
+    answered: "Your question has been answered."
+  },
+  error: {
+    EMPTY_CONTENT: "Please fill in the content.",
+    PERMISSION_DENIED: "Permission denied.",
+    NO_SUCH_CONTEST: "No such contest.",
+    NO_SUCH_PROBLEM: "No such problem.",
+    NO_SUCH_CLARIFICATION: "No such clarification.",
+    CONTEST_NOT_RUNNING: "The contest is not running.",
+    NOT_REGISTERED: "You haven't registered for the contest."
+  }
+};
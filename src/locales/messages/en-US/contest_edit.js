@@ -0,0 +1,29 @@
+return {
+  title_new: "New Contest",
+  title_update: "Edit Contest",
+  header_new: "New Contest",
+  header_update: "Edit Contest",
+  back: "Back",
+  submit: "Submit",
+  success: "Successfully saved.",
+  contest_title: "Title",
+  contest_title_placeholder: "The title of the contest",
+  type: "Type",
+  start_time: "Start Time",
+  end_time: "End Time",
+  is_public: "Public",
+  description: "Description",
+  description_placeholder: "The description of the contest, in Markdown",
+  problems: "Problems",
+  problem_title: "Problem",
+  operations: "Operations",
+  add_problem: "Add Problem",
+  error: {
+    PERMISSION_DENIED: "Permission denied.",
+    NO_SUCH_CONTEST: "No such contest.",
+    NO_SUCH_PROBLEM: "No such problem: #{problemId}.",
+    DUPLICATE_PROBLEM: "The problem has already been added.",
+    NO_TITLE: "Please fill in the title.",
+    INVALID_TIME_RANGE: "The end time must be later than the start time."
+  }
+};
@@ -0,0 +1,31 @@
+return {
+  title: "Ranklist",
+  back: "Back to Contest",
+  column_rank: "Rank",
+  column_user: "User",
+  column_solved: "Solved",
+  column_penalty: "Penalty",
+  column_score: "Score",
+  column_upsolved: "Upsolved",
+  virtual: "Virtual",
+  virtual_message: "You are virtual participating. The original standings are shown as of {time} after the start.",
+  no_participants: "There are no participants yet.",
+  frozen: {
+    header: "Ranklist Frozen",
+    content:
+      "The ranklist has been frozen since {time}. Results of submissions after that are hidden until the ranklist is unfrozen.",
+    content_admin:
+      "The ranklist has been frozen since {time}. As a manager of the contest you could see all results, other users couldn't see the results of submissions after that."
+  },
+  show_frozen_view: "Show frozen ranklist",
+  resolve: "Resolve",
+  resolve_skip: "Skip",
+  unfreeze: "Unfreeze",
+  unfreeze_success: "Successfully unfrozen the ranklist.",
+  error: {
+    PERMISSION_DENIED: "Permission denied.",
+    NO_SUCH_CONTEST: "No such contest.",
+    CONTEST_NOT_ENDED: "The contest hasn't ended.",
+    NOT_FROZEN: "The ranklist is not frozen."
+  }
+};
@@ -0,0 +1,31 @@
+return {
+  title: "Contests",
+  header: "Contests",
+  add_contest: "Create",
+  non_public: "Non-Public",
+  status: {
+    Upcoming: "Upcoming",
+    Running: "Running",
+    Ended: "Ended"
+  },
+  type: {
+    ICPC: "ICPC",
+    OI: "OI",
+    IOI: "IOI"
+  },
+  column_title: "Title",
+  column_type: "Type",
+  column_start_time: "Start Time",
+  column_duration: "Duration",
+  column_participants: "Participants",
+  column_status: "Status",
+  no_contest: {
+    message: "There are no contests yet.",
+    create: "Create Contest",
+    back: "Back"
+  },
+  error: {
+    TAKE_TOO_MANY: "Requested number of items per page exceeds the limit.",
+    PERMISSION_DENIED: "Permission denied."
+  }
+};
@@ -4,22 +4,44 @@ return {
     PERMISSION_DENIED: "Permission denied.",
     NO_SUCH_DISCUSSION: "No such discussion.",
     NO_SUCH_DISCUSSION_REPLY: "No such reply.",
-    INVALID_EMOJI: "Invalid emoji."
+    INVALID_EMOJI: "Invalid emoji.",
+    DISCUSSION_LOCKED: "The discussion is locked.",
+    ALREADY_REPORTED: "You have already reported it."
   },
   reply_count_0: "No reply",
   reply_count: "{replyCount} reply",
   reply_count_s: "{replyCount} replies",
   add_discussion: "Add discussion",
+  report_success: "Reported. Thanks for your feedback.",
+  locked_notice: "This discussion is locked. No new replies could be added.",
+  label: {
+    pinned: "Pinned",
+    locked: "Locked"
+  },
   item: {
     commented_on: "commented ",
     edited: "Edited",
+    in_reply_to: "In reply to ",
+    reply_to_unavailable: "In reply to a deleted reply",
     label: {
       nonpublic: "Nonpublic",
       problem_owner: "Problem owner",
       discussion_publisher: "Initiator"
     },
+    report_dialog: {
+      title: "Report",
+      placeholder: "Why should this be reviewed by the moderators?",
+      cancel: "Cancel",
+      confirm: "Report"
+    },
     actions: {
       edit: "Edit",
+      pin: "Pin",
+      unpin: "Unpin",
+      lock: "Lock",
+      unlock: "Unlock",
+      report: "Report",
+      reply: "Reply",
       quote: "Quote",
       permission_manage: "Manage Permission",
       set_non_public: "Make non-public",
@@ -34,7 +56,17 @@ return {
       confirm_delete_dialog_cancel: "Cancel"
     }
   },
+  new_replies: {
+    count: "{count} new reply",
+    count_s: "{count} new replies"
+  },
   edit: {
+    replying_to: "Replying to ",
+    typing: {
+      one: "{user} is typing...",
+      two: "{user1} and {user2} are typing...",
+      many: "{count} people are typing..."
+    },
     placeholder: {
       title: "Title",
       add_reply: "Add reply ...",
@@ -53,6 +85,7 @@ return {
       update_discussion: "Submit",
       update_discussion_no_submit_permission: "No Permission",
       cancel: "Cancel",
+      cancel_reply_to: "Cancel replying",
       confirm_cancel: "Discard changes"
     }
   },
@@ -4,10 +4,19 @@ return {
   errors: {
     PERMISSION_DENIED: "Permission denied.",
     NO_SUCH_PROBLEM: "No such problem.",
-    NO_SUCH_DISCUSSION: "No such discussion."
+    NO_SUCH_DISCUSSION: "No such discussion.",
+    NO_SUCH_CATEGORY: "No such category.",
+    INVALID_TAGS: "Invalid tags."
   },
   header: {
     add: "Add discussion",
     update: "Edit discussion"
-  }
+  },
+  category: "Category",
+  no_category: "Uncategorized",
+  tags: "Tags (at most {max})",
+  tags_placeholder: "Type and press Enter to add tags",
+  add_tag: "Add tag: ",
+  tag_too_long: "A tag can't be longer than {length} characters.",
+  tag_contains_comma: "A tag can't contain commas."
 };
@@ -0,0 +1,32 @@
+return {
+  title: "Moderation queue",
+  breadcrumb: "Moderation queue",
+  errors: {
+    PERMISSION_DENIED: "Permission denied.",
+    TAKE_TOO_MANY: "Too many reports to query."
+  },
+  status: {
+    pending: "Pending",
+    resolved: "Resolved"
+  },
+  type: {
+    discussion: "Discussion",
+    reply: "Reply #{id}"
+  },
+  non_public: "Nonpublic",
+  column_content: "Content",
+  column_publisher: "Publisher",
+  column_reports: "Reports",
+  column_last_report_time: "Last reported",
+  actions: {
+    hide: "Hide",
+    restore: "Restore",
+    delete: "Delete",
+    confirm_delete: "Confirm delete {count} item(s)"
+  },
+  success: "{count} item(s) moderated.",
+  no_reports: {
+    pending: "No pending reports",
+    resolved: "No resolved reports"
+  }
+};
@@ -12,6 +12,8 @@ return {
     problem: "Problem"
   },
   add_discussion: "Add discussion",
+  moderation: "Moderation queue",
+  category_all: "All",
   search_discussion: {
     placeholder: "Title ...",
     no_result: "No matching discussions."
@@ -34,5 +36,7 @@ return {
   column_reply_count: "Replies",
   column_sort_time: "Last updated",
   non_public: "Nonpublic",
+  pinned: "Pinned",
+  locked: "Locked",
   no_title: "(No title)"
 };
@@ -0,0 +1,46 @@
+return {
+  title: "Notifications",
+  header: "Notifications",
+  not_logged_in: "Not logged in.",
+  errors: {
+    PERMISSION_DENIED: "Permission denied.",
+    TAKE_TOO_MANY: "Too many notifications to query."
+  },
+  unread_only: "Unread only",
+  mark_read: "Mark as read",
+  mark_all_read: "Mark all as read",
+  kinds: {
+    all: "All",
+    Mention: "Mentions",
+    Reply: "Replies",
+    SubmissionJudged: "Submissions",
+    ProblemPermissionGranted: "Permissions"
+  },
+  message: {
+    Mention: {
+      before: " mentioned you in ",
+      after: ""
+    },
+    Reply: {
+      before: " replied to your discussion ",
+      after: ""
+    },
+    SubmissionJudged: {
+      before: "Your submission ",
+      middle: " of ",
+      after: " is judged: "
+    },
+    ProblemPermissionGranted: {
+      before: " granted you the {level} permission of ",
+      after: ""
+    }
+  },
+  permission_level: {
+    1: "read",
+    2: "write"
+  },
+  no_notifications: {
+    message: "No notifications",
+    message_unread: "No unread notifications"
+  }
+};
@@ -9,18 +9,21 @@ return {
     input: "Input",
     output: "Output"
   },
+  process_count: "{count} Processes",
   show_tags: "Show Tags",
   hide_tags: "Hide Tags",
   type: {
     Traditional: "Traditional",
     Interaction: "Interaction",
-    SubmitAnswer: "Submit Answer"
+    SubmitAnswer: "Submit Answer",
+    Communication: "Communication"
   },
   statistic: {
     submissions: "Subs.",
     accepted: "AC."
   },
   action: {
+    back_to_contest: "Back to Contest",
     submit: "Submit",
     login_to_submit: "Login to submit",
     submission: "Submissions",
@@ -29,6 +32,8 @@ return {
     files: "Files",
     edit: "Edit",
     judge_settings: "Judge Settings",
+    similarity: "Similarity Report",
+    export_package: "Export Package",
     permission_manage: "Permissions",
     permission_manager_description: "Problem {idString}",
     set_display_id: "Set ID",
@@ -52,7 +57,10 @@ return {
     NO_DISPLAY_ID: "Please set ID first.",
     INVALID_DISPLAY_ID: "ID must be an integer.",
     PUBLIC_PROBLEM_MUST_HAVE_DISPLAY_ID: "A public problem must have an ID.",
-    DUPLICATE_DISPLAY_ID: "ID {displayId} has already used."
+    DUPLICATE_DISPLAY_ID: "ID {displayId} has already used.",
+    NO_SUCH_CONTEST: "No such contest.",
+    NOT_REGISTERED: "You haven't registered for the contest.",
+    CONTEST_NOT_RUNNING: "The contest is not running."
   },
   upload_error: "Failed to upload file: {error}",
   submit: {
@@ -69,7 +77,63 @@ return {
     clear_editor: "clear the editor's contents",
     clear_editor_to_use_upload_right: ".",
     fill_in_editor_or_upload_file: "Fill in the editor(s) with your answer or upload file(s).",
-    submit: "Submit"
+    submit: "Submit",
+    grader: {
+      download_stub: "Download template",
+      failed_to_load_header: "Failed to load the header file."
+    },
+    code_template: {
+      insert: "Insert Template",
+      no_templates: "No templates, add them in preference"
+    },
+    syntax_check: {
+      check: "Check Syntax",
+      check_before_submit: "Check syntax before submitting",
+      error: "Failed to check syntax: {error}",
+      errors: "Found {errors} error(s) and {warnings} warning(s).",
+      warnings: "Found {warnings} warning(s).",
+      no_problems: "No problems found.",
+      confirm_title: "Syntax errors found",
+      confirm_content:
+        "The offline syntax check found {errors} error(s) in your code. The check may differ from the judge's compiler. Submit anyway?",
+      cancel: "Cancel",
+      submit_anyway: "Submit anyway"
+    },
+    local_run: {
+      title: "Run Locally",
+      close: "Close",
+      notes:
+        "The code runs in your browser with Pyodide, which may behave differently from the judge. Each run is limited to {timeLimit} seconds.",
+      sample: "Sample #{index}",
+      custom_input: "Custom input",
+      custom_input_placeholder: "Input to the standard input",
+      run_samples: "Run all samples",
+      run_custom_input: "Run with custom input",
+      running: "Running",
+      finished: "Finished",
+      pending: "Running. The Python runtime is downloaded on the first run.",
+      input: "Input",
+      expected_output: "Expected output",
+      stdout: "Standard output",
+      stderr: "Standard error",
+      error: "Failed to run code: {error}"
+    },
+    draft_history: "Draft History",
+    draft: {
+      no_drafts: "No drafts saved for this problem.",
+      time: "Saved",
+      language: "Language",
+      size: "Size",
+      restore: "Restore",
+      restore_title: "Restore draft",
+      restore_content:
+        "You have a {language} draft saved at {time}, which is newer than your last submission. Restore it?",
+      restore_content_no_submission: "You have a {language} draft saved at {time}. Restore it?",
+      use_last_submission: "Use last submission",
+      discard: "Don't restore",
+      load_error: "Failed to load drafts: {error}",
+      close: "Close"
+    }
   },
   permission_level: {
     read: "Read Only",
@@ -32,6 +32,59 @@ return {
   back_to_problem: "Back to Problem",
   no_files_to_download: "No files to download.",
   invalid_filename: "Invalid filename.",
+  import: {
+    button: "Import Package",
+    header: "Import Problem Package",
+    format: "Format",
+    formats: {
+      Polygon: "Polygon",
+      HUSTOJ: "HUSTOJ",
+      Lemon: "Lemon / LemonLime",
+      Luogu: "Luogu"
+    },
+    header_create: "New Problem from Package",
+    type: "Type",
+    locales: "Languages",
+    samples: "Samples",
+    tags: "Tags",
+    additional_files: "Additional files",
+    create: "Create",
+    problem: "Problem",
+    testdata: "Test data",
+    subtasks: "Subtasks",
+    subtasks_and_testcases: "{subtasks} subtasks, {testcases} testcases",
+    limits: "Limits",
+    checker: "Checker",
+    default_checker: "Default",
+    statement: "Statement",
+    none: "None",
+    warnings: "Some contents of the package couldn't be imported",
+    warning: {
+      MISSING_TEST_FILE: "Missing test file {filename}.",
+      MISSING_CHECKER_SOURCE: "Missing the source of checker {filename}, please upload it manually.",
+      COMPILED_CHECKER: "The checker {filename} is a compiled executable, please upload its source manually.",
+      UNSUPPORTED_TASK_TYPE: "Unsupported task type of problem {filename}, imported as a traditional problem.",
+      UNKNOWN_CHECKER_LANGUAGE: "Unknown language of checker {filename}, please configure it manually.",
+      UNMATCHED_TAGS: "No tags on this site match {tags}, they will not be added."
+    },
+    clear_testdata: "Delete existing test data",
+    import_judge_info: "Replace judge settings",
+    import_statement: "Import statement and samples",
+    uploading: "Uploaded {uploaded} of {total} files",
+    upload_error: "Error uploading file {error}",
+    cancel: "Cancel",
+    import: "Import",
+    confirm_switch_type: "Switch the type from {type} to Traditional and replace judge settings",
+    success: "Problem package imported successfully.",
+    error: {
+      INVALID_ARCHIVE: "Couldn't read the archive. Only non-encrypted zip archives are supported.",
+      DECOMPRESSION_UNSUPPORTED: "Your browser can't extract compressed zip archives, please use a newer browser.",
+      UNKNOWN_FORMAT: "Unrecognized problem package format.",
+      INVALID_MANIFEST: "Invalid package manifest {filename}.",
+      UNSUPPORTED_VERSION: "The package version {filename} is not supported, please update the site.",
+      NO_TESTCASES: "No testcases found in the package."
+    }
+  },
   error: {
     PERMISSION_DENIED: "Permission denied.",
     NO_SUCH_PROBLEM: "No such problem.",
@@ -59,6 +59,22 @@ return {
       TIME_LIMIT_TOO_LARGE_INTERACTOR: "The time limit for interactor {1} ms is too large, please contact the admin.",
       MEMORY_LIMIT_TOO_LARGE_INTERACTOR:
         "The memory limit for interactor {1} ms is too large, please contact the admin.",
+      INVALID_MANAGER: "Unknown error.",
+      INVALID_MANAGER_COMPILE_AND_RUN_OPTIONS: "Unknown error.",
+      INVALID_MANAGER_LANGUAGE: "Unknown error.",
+      NO_SUCH_MANAGER_FILE: "The manager file {1} doesn't exist.",
+      INVALID_TIME_LIMIT_MANAGER: "Invalid time limit for manager.",
+      INVALID_MEMORY_LIMIT_MANAGER: "Invalid memory limit for manager.",
+      TIME_LIMIT_TOO_LARGE_MANAGER: "The time limit for manager {1} ms is too large, please contact the admin.",
+      MEMORY_LIMIT_TOO_LARGE_MANAGER: "The memory limit for manager {1} MiB is too large, please contact the admin.",
+      INVALID_COMMUNICATION_INTERFACE: "Unknown error.",
+      INVALID_PROCESS_COUNT: "Invalid number of processes.",
+      TOO_MANY_PROCESSES: "Too many processes, please contact the admin.",
+      INVALID_GRADER: "Unknown error.",
+      INVALID_GRADER_LANGUAGE: "Unknown error.",
+      NO_SUCH_GRADER_FILE: "The grader file {2} for {1} doesn't exist.",
+      NO_SUCH_GRADER_HEADER_FILE: "The header file {2} for {1} doesn't exist.",
+      NO_SUCH_GRADER_STUB_FILE: "The template file {2} for {1} doesn't exist.",
       INVALID_EXTRA_SOURCE_FILES: "Unknown error.",
       INVALID_EXTRA_SOURCE_FILES_LANGUAGE: "Unknown error.",
       INVALID_EXTRA_SOURCE_FILES_DST: "Extra source files {3}'s destination filename is invalid.",
@@ -79,6 +95,35 @@ return {
   submittable: "Submittable",
   confirm_switch_type: "Confirm switch type",
   switch_type_success: "Successfully switched problem type.",
+  validator: {
+    validate: "Validate Test Data",
+    validate_on_save: "Validate test data on saving",
+    progress: "Analyzed {analyzed} of {total} files",
+    download_error: "Failed to download test data: {error}",
+    errors: "{errorCount} errors and {warningCount} warnings found",
+    errors_block_save: "Please fix the errors before saving.",
+    warnings: "{warningCount} warnings found",
+    warnings_confirm_save: "Please confirm the warnings before saving.",
+    no_issues: "No issues found",
+    issue: {
+      MISSING_FILE: "The file doesn't exist.",
+      MISSING_OUTPUT: "The testcase has no output file.",
+      NOT_UTF8: "The file is not UTF-8 encoded text.",
+      BOM: "The file starts with a UTF-8 BOM.",
+      CRLF: "{lineCount} lines end with CRLF, starting from line {line}.",
+      TRAILING_WHITESPACE: "{lineCount} lines have trailing whitespaces, starting from line {line}.",
+      DUPLICATE_INPUT: "The input is the same as {duplicateOf}.",
+      TOO_LARGE: "The file is too large to be analyzed."
+    },
+    statistics: "Statistics",
+    subtask: "Subtask",
+    testcase_count: "Testcases",
+    input_size: "Input",
+    output_size: "Output",
+    total_size: "Total",
+    close: "Close",
+    save_anyway: "Save anyway"
+  },
   meta: {
     time_limit: "Time limit",
     memory_limit: "Memory limit",
@@ -131,6 +176,20 @@ return {
     filename: "File",
     filename_no_file: "No file"
   },
+  manager: {
+    manager: "Manager",
+    interfaces: {
+      pipe: "Pipes",
+      fifo: "Named Pipes (FIFO)"
+    },
+    process_count: "Processes",
+    filename: "File",
+    filename_no_file: "No file",
+    description: {
+      pipe: "{processCount} user processes will be started, each process communicates with the manager through its standard input/output.",
+      fifo: "{processCount} user processes will be started, the paths of the named pipes are passed to the manager and the user processes as command-line arguments."
+    }
+  },
   subtasks: {
     auto_testcases:
       "Detect testcases from testdata files (Match <code>.in</code> and <code>.out</code> files automatically)",
@@ -201,6 +260,15 @@ return {
     no_matching_files: "No matching files.",
     file_not_found_warning: "File not found."
   },
+  grader: {
+    option: "Function implementation mode (compile the user's code with a grader)",
+    title: "Graders",
+    grader: "Grader",
+    header: "Header (additional file, shown to users)",
+    stub: "Template (additional file, downloadable)",
+    delete: "Delete",
+    confirm_delete: "Confirm delete"
+  },
   extra_source_files: {
     option: "Add extra source files when compiling",
     title: "Extra source files",
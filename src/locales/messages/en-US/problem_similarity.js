@@ -0,0 +1,35 @@
+return {
+  title: "Similarity Report",
+  back_to_problem: "Back",
+  notes:
+    "Compare the code of the problem's submissions to find possible copying. Comments, whitespaces and names are ignored. At most {maxSubmissions} latest submissions are compared.",
+  accepted_only: "Accepted submissions only",
+  latest_per_user: "Only the latest submission of each user",
+  min_similarity: "Min similarity",
+  min_match_length: "Min match length (tokens)",
+  base_code: "Base code",
+  base_code_placeholder: "Code given to everyone (e.g. a template), which is not counted as copying.",
+  generate: "Generate",
+  progress: {
+    query: "Querying submissions ({done})",
+    download: "Downloading code ({done} / {total})",
+    analyze: "Analyzing"
+  },
+  summary: "Compared {submissionCount} submissions, found {pairCount} similar pairs in {clusterCount} clusters.",
+  clusters: "Clusters",
+  cluster_size: "Size",
+  max_similarity: "Max Similarity",
+  members: "Members",
+  pairs: "Similar Pairs",
+  submission_a: "Submission A",
+  submission_b: "Submission B",
+  similarity: "Similarity (A / B)",
+  matched: "{percent}% matched",
+  download_error: "Failed to download the code: {error}",
+  analyze_error: "Failed to analyze the code: {error}",
+  error: {
+    NO_SUCH_PROBLEM: "No such problem.",
+    NO_SUCH_SUBMISSION: "No such submission.",
+    PERMISSION_DENIED: "Permission denied."
+  }
+};
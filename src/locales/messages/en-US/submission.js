@@ -21,6 +21,29 @@ return {
     NO_SUCH_SUBMISSION: "No such submission.",
     PERMISSION_DENIED: "Permission denied."
   },
+  compare_with: "Compare with...",
+  compare: {
+    title: "Compare Submissions",
+    compare_with_title: "Compare submission #{id} with",
+    submission_id: "Submission ID",
+    submission_id_placeholder: "Enter a submission ID",
+    compare: "Compare",
+    cancel: "Cancel",
+    fastest_submission: "Fastest submission",
+    no_fastest_submission: "No accepted submissions for this problem yet.",
+    my_submissions: "My recent submissions",
+    no_my_submissions: "You have no other submissions for this problem.",
+    swap: "Swap",
+    different_problems: "The two submissions are for different problems.",
+    code: "Code",
+    code_unavailable: "Code is not available for one of the submissions.",
+    no_difference: "No differences",
+    testcases: "Testcases",
+    testcases_unavailable: "No testcase results are available.",
+    status: "Status",
+    time: "Time",
+    memory: "Memory"
+  },
   failed_to_format: "Error formatting code: {error}",
   format_code: "Format code",
   show_original_code: "Show original code",
@@ -41,6 +64,22 @@ return {
     user_error: "Your standard error output",
     checker_message: "Checker message",
     interactor_message: "Interactor message",
+    manager_message: "Manager message",
     system_message: "System message"
+  },
+  output_diff: {
+    title: "Compare outputs",
+    view_mode: {
+      Separate: "Separate",
+      SideBySide: "Side by side",
+      Inline: "Inline"
+    },
+    compare_mode: {
+      Line: "Compare by lines",
+      Token: "Compare by tokens",
+      IgnoreWhitespace: "Ignore whitespace"
+    },
+    first_difference: "First difference: line {line}",
+    no_difference: "No differences"
   }
 };
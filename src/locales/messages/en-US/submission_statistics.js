@@ -7,7 +7,9 @@ return {
   },
 
   header: "Accepted Submissions",
+  header_overview: "All Submissions",
   type: {
+    Overview: "Overview",
     Fastest: "Fastest",
     MinMemory: "Min Memory",
     MinAnswerSize: "Shortest",
@@ -18,8 +20,17 @@ return {
   header_score_distribution: "Score Distribution",
   header_score_prefix_sum: "Prefix Sum",
   header_score_suffix_sum: "Suffix Sum",
+  header_status_breakdown: "Status",
+  header_language_share: "Languages",
+  header_time_used_histogram: "Time Used (Accepted)",
+  header_submissions_over_time: "Submissions over Time",
   chart_tooltip: {
     score: "Score: ",
-    count: "Count: "
+    count: "Count: ",
+    time_used: "Time used: {min} ~ {max} ms"
+  },
+  chart_legend: {
+    submissions: "Submissions",
+    accepted_submissions: "Accepted"
   }
 };
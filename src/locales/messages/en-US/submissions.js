@@ -20,5 +20,33 @@ return {
     message_filtered: "No matching submissions",
     message_not_filtered: "No submissions",
     goback: "Go back"
+  },
+  export: {
+    button: "Export",
+    title: "Export Submissions",
+    description: "All submissions matching the current filters will be exported, from the latest one.",
+    format: "Format",
+    columns: "Columns",
+    column: {
+      id: "ID",
+      submit_time: "Submit time",
+      problem_id: "Problem ID",
+      problem_title: "Problem title",
+      submitter: "Submitter",
+      submitter_nickname: "Submitter's nickname",
+      code_language: "Language",
+      status: "Status",
+      score: "Score",
+      time_used: "Time (ms)",
+      memory_used: "Memory (KiB)",
+      answer_size: "Answer size (bytes)",
+      is_public: "Public"
+    },
+    progress: "Exported {count} submissions...",
+    export: "Export",
+    cancel: "Cancel",
+    abort: "Abort",
+    success: "Successfully exported.",
+    error: "Failed to export: {error}"
   }
 };
@@ -115,6 +115,12 @@ return {
         markdown_editor: "Markdown Editor",
         content_font: "Content Font",
         code_font: "Code Font"
+      },
+      editor_keybinding: {
+        editor_keybinding: "Code Editor Keybinding",
+        Default: "Default",
+        Vim: "Vim",
+        Emacs: "Emacs"
       }
     },
     code_language: {
@@ -122,16 +128,69 @@ return {
       language: "Default language",
       content_notes: "Setting default language options here will affect the defaults on submitting problems."
     },
+    code_templates: {
+      header: "Code templates",
+      notes:
+        "Templates can be inserted in the submit view. Snippets are suggested when typing their prefixes in the code editor.",
+      auto_insert: "Insert the first template of the language when the editor is empty",
+      templates: "Templates ({count})",
+      snippets: "Snippets ({count})",
+      import: "Import",
+      export: "Export",
+      import_error: "Invalid code templates file.",
+      import_success: "Imported {templates} template(s) and {snippets} snippet(s). Save the preference to apply.",
+      add_template: "Add template",
+      add_snippet: "Add snippet",
+      new_template: "New template",
+      language: "Language",
+      name: "Name",
+      prefix: "Prefix",
+      description: "Description",
+      snippet_notes: "Use $1, $2 for tab stops, ${1:label} for placeholders and $0 for the final cursor position."
+    },
     code_formatter: {
       header: "Code Formatter",
-      astyle_options: "Astyle options",
+      formatter: "Formatter",
+      options: "Options",
+      formatters: {
+        astyle: "Artistic Style",
+        ruff: "Ruff",
+        rustfmt: "Prettier Rust",
+        gofmt: "gofmt",
+        ptop: "PTop"
+      },
       format_code_by_default: "Format code by default",
       notes_before: "The options apply to formatting code on submission page. Please refer to",
-      notes_link: "Astyle documentation",
+      notes_link: "{formatter} documentation",
       notes_after: "for help.",
       preview: "Preview",
       error: "Invalid options"
     },
+    notification: {
+      header: "Notifications",
+      notes: "Choose which notifications you receive.",
+      kinds: {
+        Mention: "Mentioned in a discussion or reply",
+        Reply: "New replies to my discussions",
+        SubmissionJudged: "My submissions are judged",
+        ProblemPermissionGranted: "Granted permissions of a problem"
+      }
+    },
+    drafts: {
+      header: "Code drafts",
+      notes:
+        "The code you type in the submit view is saved as drafts in this browser automatically. Changes here take effect immediately.",
+      no_drafts: "No drafts saved in this browser.",
+      problem: "Problem",
+      languages: "Languages",
+      snapshots: "Snapshots",
+      last_saved: "Last saved",
+      delete: "Delete drafts of this problem",
+      clear: "Clear all drafts",
+      confirm_clear: "Confirm clear",
+      success_clear: "All drafts cleared.",
+      error: "Failed to access drafts: {error}"
+    },
     submit: "Submit",
     success: "Preference updated successfully."
   },
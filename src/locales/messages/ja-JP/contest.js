@@ -0,0 +1,56 @@
+return {
+  title: "コンテスト",
+  meta_labels: {
+    non_public: "非公開",
+    registered: "[TBT] Registered",
+    virtual_participation: "[TBT] Virtual Participation"
+  },
+  countdown: {
+    before_start: "[TBT] Starts in",
+    before_end: "[TBT] Ends in",
+    before_virtual_start: "[TBT] Virtual participation starts in",
+    before_virtual_end: "[TBT] Virtual participation ends in"
+  },
+  statistic: {
+    problems: "[TBT] Problems",
+    participants: "[TBT] Participants"
+  },
+  upsolving_message:
+    "[TBT] The contest has ended. You can still submit to the problems for practice, these submissions will be shown in the upsolving column of the ranklist.",
+  description: "[TBT] Description",
+  problems: "[TBT] Problems",
+  problems_not_visible: "[TBT] Problems will be visible after the contest starts.",
+  no_problems: "[TBT] There are no problems in this contest.",
+  column_status: "[TBT] Status",
+  column_title: "[TBT] Title",
+  column_accepted: "[TBT] Accepted",
+  owner: "[TBT] Owner: ",
+  action: {
+    register: "[TBT] Register",
+    register_success: "[TBT] Successfully registered.",
+    login_to_register: "[TBT] Login to register",
+    ranklist: "[TBT] Ranklist",
+    virtual_participate: "[TBT] Virtual Participate",
+    virtual_participate_start_time: "[TBT] Start time",
+    virtual_participate_confirm: "[TBT] Start",
+    virtual_participate_success: "[TBT] Successfully started virtual participation.",
+    enter: "[TBT] Enter",
+    edit: "編集",
+    delete: "削除",
+    delete_confirm_title: "[TBT] Delete Contest",
+    delete_confirm_content:
+      "[TBT] Are you sure to delete this contest? Its registrations will be deleted as well. The problems and submissions won't be affected.",
+    delete_confirm: "[TBT] Confirm",
+    delete_cancel: "[TBT] Cancel",
+    delete_success: "[TBT] Successfully deleted."
+  },
+  error: {
+    PERMISSION_DENIED: "権限がありません。",
+    NO_SUCH_CONTEST: "[TBT] No such contest.",
+    ALREADY_REGISTERED: "[TBT] You have already registered.",
+    CONTEST_ENDED: "[TBT] The contest has ended.",
+    CONTEST_NOT_ENDED: "[TBT] The contest hasn't ended.",
+    ALREADY_PARTICIPATED: "[TBT] You have already participated in the contest.",
+    INVALID_START_TIME: "[TBT] Invalid start time."
+  }
+};
@@ -0,0 +1,33 @@
+return {
+  header: "[TBT] Clarifications",
+  general: "[TBT] General",
+  announcement: "[TBT] Announcement",
+  broadcasted: "[TBT] Public",
+  unanswered: "[TBT] Unanswered",
+  no_clarifications: "[TBT] There are no clarifications yet.",
+  ask: "[TBT] Ask",
+  ask_placeholder: "[TBT] Ask a question about the contest or a problem. Only the contest's managers could see it.",
+  ask_success: "[TBT] Your question has been sent.",
+  broadcast: "[TBT] Broadcast",
+  broadcast_placeholder: "[TBT] Broadcast an announcement to all participants, in Markdown.",
+  broadcast_success: "[TBT] Successfully broadcasted.",
+  reply: "[TBT] Reply",
+  reply_placeholder: "[TBT] Answer the question, in Markdown.",
+  reply_broadcast: "[TBT] Visible to all participants",
+  reply_success: "[TBT] Successfully replied.",
+  toast: {
+    new_announcement: "[TBT] There is a new announcement of the contest.",
+    new_question: "[TBT] There is a new question of the contest.",
+    new_broadcast: "[TBT] There is a new public clarification of the contest.",
+    answered: "[TBT] Your question has been answered."
+  },
+  error: {
+    EMPTY_CONTENT: "[TBT] Please fill in the content.",
+    PERMISSION_DENIED: "権限がありません。",
+    NO_SUCH_CONTEST: "[TBT] No such contest.",
+    NO_SUCH_PROBLEM: "[TBT] No such problem.",
+    NO_SUCH_CLARIFICATION: "[TBT] No such clarification.",
+    CONTEST_NOT_RUNNING: "[TBT] The contest is not running.",
+    NOT_REGISTERED: "[TBT] You haven't registered for the contest."
+  }
+};
@@ -0,0 +1,29 @@
+return {
+  title_new: "[TBT] New Contest",
+  title_update: "[TBT] Edit Contest",
+  header_new: "[TBT] New Contest",
+  header_update: "[TBT] Edit Contest",
+  back: "[TBT] Back",
+  submit: "[TBT] Submit",
+  success: "[TBT] Successfully saved.",
+  contest_title: "[TBT] Title",
+  contest_title_placeholder: "[TBT] The title of the contest",
+  type: "[TBT] Type",
+  start_time: "[TBT] Start Time",
+  end_time: "[TBT] End Time",
+  is_public: "[TBT] Public",
+  description: "[TBT] Description",
+  description_placeholder: "[TBT] The description of the contest, in Markdown",
+  problems: "[TBT] Problems",
+  problem_title: "[TBT] Problem",
+  operations: "[TBT] Operations",
+  add_problem: "[TBT] Add Problem",
+  error: {
+    PERMISSION_DENIED: "権限がありません。",
+    NO_SUCH_CONTEST: "[TBT] No such contest.",
+    NO_SUCH_PROBLEM: "[TBT] No such problem: #{problemId}.",
+    DUPLICATE_PROBLEM: "[TBT] The problem has already been added.",
+    NO_TITLE: "[TBT] Please fill in the title.",
+    INVALID_TIME_RANGE: "[TBT] The end time must be later than the start time."
+  }
+};
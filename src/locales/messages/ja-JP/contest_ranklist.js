@@ -0,0 +1,32 @@
+return {
+  title: "[TBT] Ranklist",
+  back: "コンテストに戻る",
+  column_rank: "[TBT] Rank",
+  column_user: "[TBT] User",
+  column_solved: "[TBT] Solved",
+  column_penalty: "[TBT] Penalty",
+  column_score: "[TBT] Score",
+  column_upsolved: "[TBT] Upsolved",
+  virtual: "[TBT] Virtual",
+  virtual_message:
+    "[TBT] You are virtual participating. The original standings are shown as of {time} after the start.",
+  no_participants: "[TBT] There are no participants yet.",
+  frozen: {
+    header: "[TBT] Ranklist Frozen",
+    content:
+      "[TBT] The ranklist has been frozen since {time}. Results of submissions after that are hidden until the ranklist is unfrozen.",
+    content_admin:
+      "[TBT] The ranklist has been frozen since {time}. As a manager of the contest you could see all results, other users couldn't see the results of submissions after that."
+  },
+  show_frozen_view: "[TBT] Show frozen ranklist",
+  resolve: "[TBT] Resolve",
+  resolve_skip: "[TBT] Skip",
+  unfreeze: "[TBT] Unfreeze",
+  unfreeze_success: "[TBT] Successfully unfrozen the ranklist.",
+  error: {
+    PERMISSION_DENIED: "権限がありません。",
+    NO_SUCH_CONTEST: "[TBT] No such contest.",
+    CONTEST_NOT_ENDED: "[TBT] The contest hasn't ended.",
+    NOT_FROZEN: "[TBT] The ranklist is not frozen."
+  }
+};
@@ -0,0 +1,31 @@
+return {
+  title: "コンテスト",
+  header: "コンテスト",
+  add_contest: "[TBT] Create",
+  non_public: "非公開",
+  status: {
+    Upcoming: "[TBT] Upcoming",
+    Running: "[TBT] Running",
+    Ended: "[TBT] Ended"
+  },
+  type: {
+    ICPC: "ICPC",
+    OI: "OI",
+    IOI: "IOI"
+  },
+  column_title: "[TBT] Title",
+  column_type: "[TBT] Type",
+  column_start_time: "[TBT] Start Time",
+  column_duration: "[TBT] Duration",
+  column_participants: "[TBT] Participants",
+  column_status: "[TBT] Status",
+  no_contest: {
+    message: "[TBT] There are no contests yet.",
+    create: "[TBT] Create Contest",
+    back: "[TBT] Back"
+  },
+  error: {
+    TAKE_TOO_MANY: "リクエストが制限を超えています。",
+    PERMISSION_DENIED: "権限がありません。"
+  }
+};
@@ -4,22 +4,44 @@ return {
     PERMISSION_DENIED: "[TBT] Permission denied.",
     NO_SUCH_DISCUSSION: "[TBT] No such discussion.",
     NO_SUCH_DISCUSSION_REPLY: "[TBT] No such reply.",
-    INVALID_EMOJI: "[TBT] Invalid emoji."
+    INVALID_EMOJI: "[TBT] Invalid emoji.",
+    DISCUSSION_LOCKED: "[TBT] The discussion is locked.",
+    ALREADY_REPORTED: "[TBT] You have already reported it."
   },
   reply_count_0: "[TBT] No reply",
   reply_count: "[TBT] {replyCount} reply",
   reply_count_s: "[TBT] {replyCount} replies",
   add_discussion: "[TBT] Add discussion",
+  report_success: "[TBT] Reported. Thanks for your feedback.",
+  locked_notice: "[TBT] This discussion is locked. No new replies could be added.",
+  label: {
+    pinned: "[TBT] Pinned",
+    locked: "[TBT] Locked"
+  },
   item: {
     commented_on: "[TBT] commented ",
     edited: "[TBT] Edited",
+    in_reply_to: "[TBT] In reply to ",
+    reply_to_unavailable: "[TBT] In reply to a deleted reply",
     label: {
       nonpublic: "[TBT] Nonpublic",
       problem_owner: "[TBT] Problem owner",
       discussion_publisher: "[TBT] Initiator"
     },
+    report_dialog: {
+      title: "[TBT] Report",
+      placeholder: "[TBT] Why should this be reviewed by the moderators?",
+      cancel: "[TBT] Cancel",
+      confirm: "[TBT] Report"
+    },
     actions: {
       edit: "[TBT] Edit",
+      pin: "[TBT] Pin",
+      unpin: "[TBT] Unpin",
+      lock: "[TBT] Lock",
+      unlock: "[TBT] Unlock",
+      report: "[TBT] Report",
+      reply: "[TBT] Reply",
       quote: "[TBT] Quote",
       permission_manage: "[TBT] Manage Permission",
       set_non_public: "[TBT] Make non-public",
@@ -34,7 +56,17 @@ return {
       confirm_delete_dialog_cancel: "[TBT] Cancel"
     }
   },
+  new_replies: {
+    count: "[TBT] {count} new reply",
+    count_s: "[TBT] {count} new replies"
+  },
   edit: {
+    replying_to: "[TBT] Replying to ",
+    typing: {
+      one: "[TBT] {user} is typing...",
+      two: "[TBT] {user1} and {user2} are typing...",
+      many: "[TBT] {count} people are typing..."
+    },
     placeholder: {
       title: "[TBT] Title",
       add_reply: "[TBT] Add reply ...",
@@ -53,6 +85,7 @@ return {
       update_discussion: "[TBT] Submit",
       update_discussion_no_submit_permission: "[TBT] No Permission",
       cancel: "[TBT] Cancel",
+      cancel_reply_to: "[TBT] Cancel replying",
       confirm_cancel: "[TBT] Discard changes"
     }
   },
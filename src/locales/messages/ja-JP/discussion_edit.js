@@ -4,10 +4,19 @@ return {
   errors: {
     PERMISSION_DENIED: "[TBT] Permission denied.",
     NO_SUCH_PROBLEM: "[TBT] No such problem.",
-    NO_SUCH_DISCUSSION: "[TBT] No such discussion."
+    NO_SUCH_DISCUSSION: "[TBT] No such discussion.",
+    NO_SUCH_CATEGORY: "[TBT] No such category.",
+    INVALID_TAGS: "[TBT] Invalid tags."
   },
   header: {
     add: "[TBT] Add discussion",
     update: "[TBT] Edit discussion"
-  }
+  },
+  category: "[TBT] Category",
+  no_category: "[TBT] Uncategorized",
+  tags: "[TBT] Tags (at most {max})",
+  tags_placeholder: "[TBT] Type and press Enter to add tags",
+  add_tag: "[TBT] Add tag: ",
+  tag_too_long: "[TBT] A tag can't be longer than {length} characters.",
+  tag_contains_comma: "[TBT] A tag can't contain commas."
 };
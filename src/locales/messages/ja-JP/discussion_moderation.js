@@ -0,0 +1,32 @@
+return {
+  title: "[TBT] Moderation queue",
+  breadcrumb: "[TBT] Moderation queue",
+  errors: {
+    PERMISSION_DENIED: "[TBT] Permission denied.",
+    TAKE_TOO_MANY: "[TBT] Too many reports to query."
+  },
+  status: {
+    pending: "[TBT] Pending",
+    resolved: "[TBT] Resolved"
+  },
+  type: {
+    discussion: "[TBT] Discussion",
+    reply: "[TBT] Reply #{id}"
+  },
+  non_public: "[TBT] Nonpublic",
+  column_content: "[TBT] Content",
+  column_publisher: "[TBT] Publisher",
+  column_reports: "[TBT] Reports",
+  column_last_report_time: "[TBT] Last reported",
+  actions: {
+    hide: "[TBT] Hide",
+    restore: "[TBT] Restore",
+    delete: "[TBT] Delete",
+    confirm_delete: "[TBT] Confirm delete {count} item(s)"
+  },
+  success: "[TBT] {count} item(s) moderated.",
+  no_reports: {
+    pending: "[TBT] No pending reports",
+    resolved: "[TBT] No resolved reports"
+  }
+};
@@ -12,6 +12,8 @@ return {
     problem: "[TBT] Problem"
   },
   add_discussion: "[TBT] Add discussion",
+  moderation: "[TBT] Moderation queue",
+  category_all: "[TBT] All",
   search_discussion: {
     placeholder: "[TBT] Title ...",
     no_result: "[TBT] No matching discussions."
@@ -34,5 +36,7 @@ return {
   column_reply_count: "[TBT] Replies",
   column_sort_time: "[TBT] Last updated",
   non_public: "[TBT] Nonpublic",
+  pinned: "[TBT] Pinned",
+  locked: "[TBT] Locked",
   no_title: "[TBT] (No title)"
 };
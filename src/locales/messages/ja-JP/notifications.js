@@ -0,0 +1,46 @@
+return {
+  title: "[TBT] Notifications",
+  header: "[TBT] Notifications",
+  not_logged_in: "[TBT] Not logged in.",
+  errors: {
+    PERMISSION_DENIED: "[TBT] Permission denied.",
+    TAKE_TOO_MANY: "[TBT] Too many notifications to query."
+  },
+  unread_only: "[TBT] Unread only",
+  mark_read: "[TBT] Mark as read",
+  mark_all_read: "[TBT] Mark all as read",
+  kinds: {
+    all: "[TBT] All",
+    Mention: "[TBT] Mentions",
+    Reply: "[TBT] Replies",
+    SubmissionJudged: "[TBT] Submissions",
+    ProblemPermissionGranted: "[TBT] Permissions"
+  },
+  message: {
+    Mention: {
+      before: "[TBT]  mentioned you in ",
+      after: ""
+    },
+    Reply: {
+      before: "[TBT]  replied to your discussion ",
+      after: ""
+    },
+    SubmissionJudged: {
+      before: "[TBT] Your submission ",
+      middle: "[TBT]  of ",
+      after: "[TBT]  is judged: "
+    },
+    ProblemPermissionGranted: {
+      before: "[TBT]  granted you the {level} permission of ",
+      after: ""
+    }
+  },
+  permission_level: {
+    1: "[TBT] read",
+    2: "[TBT] write"
+  },
+  no_notifications: {
+    message: "[TBT] No notifications",
+    message_unread: "[TBT] No unread notifications"
+  }
+};
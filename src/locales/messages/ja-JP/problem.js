@@ -9,18 +9,21 @@ return {
     input: "入力ファイル",
     output: "出力ファイル"
   },
+  process_count: "[TBT] {count} Processes",
   show_tags: "タグを表示",
   hide_tags: "タグを隠す",
   type: {
     Traditional: "Batch",
     Interaction: "[TBT] Interaction",
-    SubmitAnswer: "[TBT] Submit Answer"
+    SubmitAnswer: "[TBT] Submit Answer",
+    Communication: "[TBT] Communication"
   },
   statistic: {
     submissions: "提出",
     accepted: "正解"
   },
   action: {
+    back_to_contest: "コンテストに戻る",
     submit: "提出",
     login_to_submit: "ログインして提出してください",
     submission: "提出一覧",
@@ -29,6 +32,8 @@ return {
     files: "ファイル",
     edit: "編集",
     judge_settings: "ジャッジ設定",
+    similarity: "[TBT] Similarity Report",
+    export_package: "[TBT] Export Package",
     permission_manage: "権限管理",
     permission_manager_description: "問題 {idString}",
     set_display_id: "問題 ID を設定",
@@ -52,7 +57,10 @@ return {
     NO_DISPLAY_ID: "ID を設定してください。",
     INVALID_DISPLAY_ID: "ID は整数にしてください。",
     PUBLIC_PROBLEM_MUST_HAVE_DISPLAY_ID: "公開する問題には ID を設定してください。",
-    DUPLICATE_DISPLAY_ID: "ID {displayId} は使用されています。"
+    DUPLICATE_DISPLAY_ID: "ID {displayId} は使用されています。",
+    NO_SUCH_CONTEST: "[TBT] No such contest.",
+    NOT_REGISTERED: "[TBT] You haven't registered for the contest.",
+    CONTEST_NOT_RUNNING: "[TBT] The contest is not running."
   },
   upload_error: "[TBT] Failed to upload file: {error}",
   submit: {
@@ -70,7 +78,63 @@ return {
     clear_editor: "[TBT] clear the editor(s)",
     clear_editor_to_use_upload_right: "[TBT] .",
     fill_in_editor_or_upload_file: "[TBT] Fill in the editor(s) with your answer or upload file(s).",
-    submit: "提出"
+    submit: "提出",
+    grader: {
+      download_stub: "[TBT] Download template",
+      failed_to_load_header: "[TBT] Failed to load the header file."
+    },
+    code_template: {
+      insert: "[TBT] Insert Template",
+      no_templates: "[TBT] No templates, add them in preference"
+    },
+    syntax_check: {
+      check: "[TBT] Check Syntax",
+      check_before_submit: "[TBT] Check syntax before submitting",
+      error: "[TBT] Failed to check syntax: {error}",
+      errors: "[TBT] Found {errors} error(s) and {warnings} warning(s).",
+      warnings: "[TBT] Found {warnings} warning(s).",
+      no_problems: "[TBT] No problems found.",
+      confirm_title: "[TBT] Syntax errors found",
+      confirm_content:
+        "[TBT] The offline syntax check found {errors} error(s) in your code. The check may differ from the judge's compiler. Submit anyway?",
+      cancel: "[TBT] Cancel",
+      submit_anyway: "[TBT] Submit anyway"
+    },
+    local_run: {
+      title: "[TBT] Run Locally",
+      close: "[TBT] Close",
+      notes:
+        "[TBT] The code runs in your browser with Pyodide, which may behave differently from the judge. Each run is limited to {timeLimit} seconds.",
+      sample: "[TBT] Sample #{index}",
+      custom_input: "[TBT] Custom input",
+      custom_input_placeholder: "[TBT] Input to the standard input",
+      run_samples: "[TBT] Run all samples",
+      run_custom_input: "[TBT] Run with custom input",
+      running: "[TBT] Running",
+      finished: "[TBT] Finished",
+      pending: "[TBT] Running. The Python runtime is downloaded on the first run.",
+      input: "[TBT] Input",
+      expected_output: "[TBT] Expected output",
+      stdout: "[TBT] Standard output",
+      stderr: "[TBT] Standard error",
+      error: "[TBT] Failed to run code: {error}"
+    },
+    draft_history: "[TBT] Draft History",
+    draft: {
+      no_drafts: "[TBT] No drafts saved for this problem.",
+      time: "[TBT] Saved",
+      language: "[TBT] Language",
+      size: "[TBT] Size",
+      restore: "[TBT] Restore",
+      restore_title: "[TBT] Restore draft",
+      restore_content:
+        "[TBT] You have a {language} draft saved at {time}, which is newer than your last submission. Restore it?",
+      restore_content_no_submission: "[TBT] You have a {language} draft saved at {time}. Restore it?",
+      use_last_submission: "[TBT] Use last submission",
+      discard: "[TBT] Don't restore",
+      load_error: "[TBT] Failed to load drafts: {error}",
+      close: "[TBT] Close"
+    }
   },
   permission_level: {
     read: "read",
@@ -32,6 +32,59 @@ return {
   back_to_problem: "戻る",
   no_files_to_download: "[TBT] No files to download.",
   invalid_filename: "[TBT] Invalid filename.",
+  import: {
+    button: "[TBT] Import Package",
+    header: "[TBT] Import Problem Package",
+    format: "[TBT] Format",
+    formats: {
+      Polygon: "Polygon",
+      HUSTOJ: "HUSTOJ",
+      Lemon: "Lemon / LemonLime",
+      Luogu: "Luogu"
+    },
+    header_create: "[TBT] New Problem from Package",
+    type: "[TBT] Type",
+    locales: "[TBT] Languages",
+    samples: "[TBT] Samples",
+    tags: "[TBT] Tags",
+    additional_files: "[TBT] Additional files",
+    create: "[TBT] Create",
+    problem: "[TBT] Problem",
+    testdata: "[TBT] Test data",
+    subtasks: "[TBT] Subtasks",
+    subtasks_and_testcases: "[TBT] {subtasks} subtasks, {testcases} testcases",
+    limits: "[TBT] Limits",
+    checker: "[TBT] Checker",
+    default_checker: "[TBT] Default",
+    statement: "[TBT] Statement",
+    none: "[TBT] None",
+    warnings: "[TBT] Some contents of the package couldn't be imported",
+    warning: {
+      MISSING_TEST_FILE: "[TBT] Missing test file {filename}.",
+      MISSING_CHECKER_SOURCE: "[TBT] Missing the source of checker {filename}, please upload it manually.",
+      COMPILED_CHECKER: "[TBT] The checker {filename} is a compiled executable, please upload its source manually.",
+      UNSUPPORTED_TASK_TYPE: "[TBT] Unsupported task type of problem {filename}, imported as a traditional problem.",
+      UNKNOWN_CHECKER_LANGUAGE: "[TBT] Unknown language of checker {filename}, please configure it manually.",
+      UNMATCHED_TAGS: "[TBT] No tags on this site match {tags}, they will not be added."
+    },
+    clear_testdata: "[TBT] Delete existing test data",
+    import_judge_info: "[TBT] Replace judge settings",
+    import_statement: "[TBT] Import statement and samples",
+    uploading: "[TBT] Uploaded {uploaded} of {total} files",
+    upload_error: "[TBT] Error uploading file {error}",
+    cancel: "[TBT] Cancel",
+    import: "[TBT] Import",
+    confirm_switch_type: "[TBT] Switch the type from {type} to Traditional and replace judge settings",
+    success: "[TBT] Problem package imported successfully.",
+    error: {
+      INVALID_ARCHIVE: "[TBT] Couldn't read the archive. Only non-encrypted zip archives are supported.",
+      DECOMPRESSION_UNSUPPORTED: "[TBT] Your browser can't extract compressed zip archives, use a newer browser.",
+      UNKNOWN_FORMAT: "[TBT] Unrecognized problem package format.",
+      INVALID_MANIFEST: "[TBT] Invalid package manifest {filename}.",
+      UNSUPPORTED_VERSION: "[TBT] The package version {filename} is not supported, please update the site.",
+      NO_TESTCASES: "[TBT] No testcases found in the package."
+    }
+  },
   error: {
     PERMISSION_DENIED: "権限がありません。",
     NO_SUCH_PROBLEM: "問題が存在しません。",
@@ -63,6 +63,23 @@ return {
         "[TBT] The time limit for interactor {1} ms is too large, please contact the admin.",
       MEMORY_LIMIT_TOO_LARGE_INTERACTOR:
         "[TBT] The memory limit for interactor {1} ms is too large, please contact the admin.",
+      INVALID_MANAGER: "[TBT] Unknown error",
+      INVALID_MANAGER_COMPILE_AND_RUN_OPTIONS: "[TBT] Unknown error",
+      INVALID_MANAGER_LANGUAGE: "[TBT] Unknown error",
+      NO_SUCH_MANAGER_FILE: "[TBT] The manager file {1} doesn't exist.",
+      INVALID_TIME_LIMIT_MANAGER: "[TBT] Invalid time limit for manager.",
+      INVALID_MEMORY_LIMIT_MANAGER: "[TBT] Invalid memory limit for manager.",
+      TIME_LIMIT_TOO_LARGE_MANAGER: "[TBT] The time limit for manager {1} ms is too large, please contact the admin.",
+      MEMORY_LIMIT_TOO_LARGE_MANAGER:
+        "[TBT] The memory limit for manager {1} MiB is too large, please contact the admin.",
+      INVALID_COMMUNICATION_INTERFACE: "[TBT] Unknown error",
+      INVALID_PROCESS_COUNT: "[TBT] Invalid number of processes.",
+      TOO_MANY_PROCESSES: "[TBT] Too many processes, please contact the admin.",
+      INVALID_GRADER: "[TBT] Unknown error.",
+      INVALID_GRADER_LANGUAGE: "[TBT] Unknown error.",
+      NO_SUCH_GRADER_FILE: "[TBT] The grader file {2} for {1} doesn't exist.",
+      NO_SUCH_GRADER_HEADER_FILE: "[TBT] The header file {2} for {1} doesn't exist.",
+      NO_SUCH_GRADER_STUB_FILE: "[TBT] The template file {2} for {1} doesn't exist.",
       INVALID_EXTRA_SOURCE_FILES: "[TBT] Unknown error.",
       INVALID_EXTRA_SOURCE_FILES_LANGUAGE: "[TBT] Unknown error.",
       INVALID_EXTRA_SOURCE_FILES_DST: "[TBT] Extra source files {3}'s destination filename is invalid.",
@@ -83,6 +100,35 @@ return {
   submittable: "[TBT] Submittable",
   confirm_switch_type: "[TBT] Confirm switch type",
   switch_type_success: "[TBT] Successfully switched problem type.",
+  validator: {
+    validate: "[TBT] Validate Test Data",
+    validate_on_save: "[TBT] Validate test data on saving",
+    progress: "[TBT] Analyzed {analyzed} of {total} files",
+    download_error: "[TBT] Failed to download test data: {error}",
+    errors: "[TBT] {errorCount} errors and {warningCount} warnings found",
+    errors_block_save: "[TBT] Please fix the errors before saving.",
+    warnings: "[TBT] {warningCount} warnings found",
+    warnings_confirm_save: "[TBT] Please confirm the warnings before saving.",
+    no_issues: "[TBT] No issues found",
+    issue: {
+      MISSING_FILE: "[TBT] The file doesn't exist.",
+      MISSING_OUTPUT: "[TBT] The testcase has no output file.",
+      NOT_UTF8: "[TBT] The file is not UTF-8 encoded text.",
+      BOM: "[TBT] The file starts with a UTF-8 BOM.",
+      CRLF: "[TBT] {lineCount} lines end with CRLF, starting from line {line}.",
+      TRAILING_WHITESPACE: "[TBT] {lineCount} lines have trailing whitespaces, starting from line {line}.",
+      DUPLICATE_INPUT: "[TBT] The input is the same as {duplicateOf}.",
+      TOO_LARGE: "[TBT] The file is too large to be analyzed."
+    },
+    statistics: "[TBT] Statistics",
+    subtask: "[TBT] Subtask",
+    testcase_count: "[TBT] Testcases",
+    input_size: "[TBT] Input",
+    output_size: "[TBT] Output",
+    total_size: "[TBT] Total",
+    close: "[TBT] Close",
+    save_anyway: "[TBT] Save anyway"
+  },
   meta: {
     time_limit: "時間制限",
     memory_limit: "メモリ制限",
@@ -136,6 +182,20 @@ return {
     filename: "[TBT] File",
     filename_no_file: "[TBT] No file"
   },
+  manager: {
+    manager: "[TBT] Manager",
+    interfaces: {
+      pipe: "[TBT] Pipes",
+      fifo: "[TBT] Named Pipes (FIFO)"
+    },
+    process_count: "[TBT] Processes",
+    filename: "[TBT] File",
+    filename_no_file: "[TBT] No file",
+    description: {
+      pipe: "[TBT] {processCount} user processes will be started, each process communicates with the manager through its standard input/output.",
+      fifo: "[TBT] {processCount} user processes will be started, the paths of the named pipes are passed to the manager and the user processes as command-line arguments."
+    }
+  },
   subtasks: {
     auto_testcases:
       "[TBT] Detect testcases from testdata files (Match <code>.in</code> and <code>.out</code> files automatically)",
@@ -206,6 +266,15 @@ return {
     no_matching_files: "[TBT] No matching files.",
     file_not_found_warning: "[TBT] File not found."
   },
+  grader: {
+    option: "[TBT] Function implementation mode (compile the user's code with a grader)",
+    title: "[TBT] Graders",
+    grader: "[TBT] Grader",
+    header: "[TBT] Header (additional file, shown to users)",
+    stub: "[TBT] Template (additional file, downloadable)",
+    delete: "[TBT] Delete",
+    confirm_delete: "[TBT] Confirm delete"
+  },
   extra_source_files: {
     option: "[TBT] Add extra source files when compiling",
     title: "[TBT] Extra source files",
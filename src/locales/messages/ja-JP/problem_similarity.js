@@ -0,0 +1,35 @@
+return {
+  title: "[TBT] Similarity Report",
+  back_to_problem: "[TBT] Back",
+  notes:
+    "[TBT] Compare the code of the problem's submissions to find possible copying. Comments, whitespaces and names are ignored. At most {maxSubmissions} latest submissions are compared.",
+  accepted_only: "[TBT] Accepted submissions only",
+  latest_per_user: "[TBT] Only the latest submission of each user",
+  min_similarity: "[TBT] Min similarity",
+  min_match_length: "[TBT] Min match length (tokens)",
+  base_code: "[TBT] Base code",
+  base_code_placeholder: "[TBT] Code given to everyone (e.g. a template), which is not counted as copying.",
+  generate: "[TBT] Generate",
+  progress: {
+    query: "[TBT] Querying submissions ({done})",
+    download: "[TBT] Downloading code ({done} / {total})",
+    analyze: "[TBT] Analyzing"
+  },
+  summary: "[TBT] Compared {submissionCount} submissions, found {pairCount} similar pairs in {clusterCount} clusters.",
+  clusters: "[TBT] Clusters",
+  cluster_size: "[TBT] Size",
+  max_similarity: "[TBT] Max Similarity",
+  members: "[TBT] Members",
+  pairs: "[TBT] Similar Pairs",
+  submission_a: "[TBT] Submission A",
+  submission_b: "[TBT] Submission B",
+  similarity: "[TBT] Similarity (A / B)",
+  matched: "[TBT] {percent}% matched",
+  download_error: "[TBT] Failed to download the code: {error}",
+  analyze_error: "[TBT] Failed to analyze the code: {error}",
+  error: {
+    NO_SUCH_PROBLEM: "[TBT] No such problem.",
+    NO_SUCH_SUBMISSION: "[TBT] No such submission.",
+    PERMISSION_DENIED: "[TBT] Permission denied."
+  }
+};
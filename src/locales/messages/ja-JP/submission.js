@@ -21,6 +21,29 @@ return {
     NO_SUCH_SUBMISSION: "提出が存在しません。",
     PERMISSION_DENIED: "権限がありません。"
   },
+  compare_with: "[TBT] Compare with...",
+  compare: {
+    title: "[TBT] Compare Submissions",
+    compare_with_title: "[TBT] Compare submission #{id} with",
+    submission_id: "[TBT] Submission ID",
+    submission_id_placeholder: "[TBT] Enter a submission ID",
+    compare: "[TBT] Compare",
+    cancel: "[TBT] Cancel",
+    fastest_submission: "[TBT] Fastest submission",
+    no_fastest_submission: "[TBT] No accepted submissions for this problem yet.",
+    my_submissions: "[TBT] My recent submissions",
+    no_my_submissions: "[TBT] You have no other submissions for this problem.",
+    swap: "[TBT] Swap",
+    different_problems: "[TBT] The two submissions are for different problems.",
+    code: "[TBT] Code",
+    code_unavailable: "[TBT] Code is not available for one of the submissions.",
+    no_difference: "[TBT] No differences",
+    testcases: "[TBT] Testcases",
+    testcases_unavailable: "[TBT] No testcase results are available.",
+    status: "[TBT] Status",
+    time: "[TBT] Time",
+    memory: "[TBT] Memory"
+  },
   failed_to_format: "コードのフォーマットに失敗しました：{error}",
   format_code: "コードをフォーマットする",
   show_original_code: "オリジナルを表示",
@@ -41,6 +64,22 @@ return {
     user_error: "エラー出力",
     checker_message: "ジャッジのメッセージ",
     interactor_message: "[TBT] Interactor message",
+    manager_message: "[TBT] Manager message",
     system_message: "システムメッセージ"
+  },
+  output_diff: {
+    title: "[TBT] Compare outputs",
+    view_mode: {
+      Separate: "[TBT] Separate",
+      SideBySide: "[TBT] Side by side",
+      Inline: "[TBT] Inline"
+    },
+    compare_mode: {
+      Line: "[TBT] Compare by lines",
+      Token: "[TBT] Compare by tokens",
+      IgnoreWhitespace: "[TBT] Ignore whitespace"
+    },
+    first_difference: "[TBT] First difference: line {line}",
+    no_difference: "[TBT] No differences"
   }
 };
@@ -6,7 +6,9 @@ return {
     TAKE_TOO_MANY: "リクエストが制限を超えています。"
   },
   header: "満点の提出",
+  header_overview: "[TBT] All Submissions",
   type: {
+    Overview: "[TBT] Overview",
     Fastest: "実行時間順",
     MinMemory: "使用メモリ順",
     MinAnswerSize: "コード長順",
@@ -17,8 +19,17 @@ return {
   header_score_distribution: "得点分布",
   header_score_prefix_sum: "prefix sum",
   header_score_suffix_sum: "suffix sum",
+  header_status_breakdown: "[TBT] Status",
+  header_language_share: "[TBT] Languages",
+  header_time_used_histogram: "[TBT] Time Used (Accepted)",
+  header_submissions_over_time: "[TBT] Submissions over Time",
   chart_tooltip: {
     score: "得点：",
-    count: "個数："
+    count: "個数：",
+    time_used: "[TBT] Time used: {min} ~ {max} ms"
+  },
+  chart_legend: {
+    submissions: "[TBT] Submissions",
+    accepted_submissions: "[TBT] Accepted"
   }
 };
@@ -20,5 +20,33 @@ return {
     message_filtered: "制限を満たす提出はありません",
     message_not_filtered: "提出はありません",
     goback: "戻る"
+  },
+  export: {
+    button: "[TBT] Export",
+    title: "[TBT] Export Submissions",
+    description: "[TBT] All submissions matching the current filters will be exported, from the latest one.",
+    format: "[TBT] Format",
+    columns: "[TBT] Columns",
+    column: {
+      id: "[TBT] ID",
+      submit_time: "[TBT] Submit time",
+      problem_id: "[TBT] Problem ID",
+      problem_title: "[TBT] Problem title",
+      submitter: "[TBT] Submitter",
+      submitter_nickname: "[TBT] Submitter's nickname",
+      code_language: "[TBT] Language",
+      status: "[TBT] Status",
+      score: "[TBT] Score",
+      time_used: "[TBT] Time (ms)",
+      memory_used: "[TBT] Memory (KiB)",
+      answer_size: "[TBT] Answer size (bytes)",
+      is_public: "[TBT] Public"
+    },
+    progress: "[TBT] Exported {count} submissions...",
+    export: "[TBT] Export",
+    cancel: "[TBT] Cancel",
+    abort: "[TBT] Abort",
+    success: "[TBT] Successfully exported.",
+    error: "[TBT] Failed to export: {error}"
   }
 };
@@ -114,6 +114,12 @@ return {
         markdown_editor: "[TBT] Markdown Editor",
         content_font: "[TBT] Content Font",
         code_font: "[TBT] Code Font"
+      },
+      editor_keybinding: {
+        editor_keybinding: "[TBT] Code Editor Keybinding",
+        Default: "[TBT] Default",
+        Vim: "Vim",
+        Emacs: "Emacs"
       }
     },
     code_language: {
@@ -121,16 +127,69 @@ return {
       language: "プログラミング言語",
       content_notes: "提出言語のデフォルト設定。"
     },
+    code_templates: {
+      header: "[TBT] Code templates",
+      notes:
+        "[TBT] Templates can be inserted in the submit view. Snippets are suggested when typing their prefixes in the code editor.",
+      auto_insert: "[TBT] Insert the first template of the language when the editor is empty",
+      templates: "[TBT] Templates ({count})",
+      snippets: "[TBT] Snippets ({count})",
+      import: "[TBT] Import",
+      export: "[TBT] Export",
+      import_error: "[TBT] Invalid code templates file.",
+      import_success: "[TBT] Imported {templates} template(s) and {snippets} snippet(s). Save the preference to apply.",
+      add_template: "[TBT] Add template",
+      add_snippet: "[TBT] Add snippet",
+      new_template: "[TBT] New template",
+      language: "[TBT] Language",
+      name: "[TBT] Name",
+      prefix: "[TBT] Prefix",
+      description: "[TBT] Description",
+      snippet_notes: "[TBT] Use $1, $2 for tab stops, ${1:label} for placeholders and $0 for the final cursor position."
+    },
     code_formatter: {
       header: "コードフォーマット",
-      astyle_options: "Astyle オプション",
+      formatter: "フォーマッター",
+      options: "オプション",
+      formatters: {
+        astyle: "Artistic Style",
+        ruff: "Ruff",
+        rustfmt: "Prettier Rust",
+        gofmt: "gofmt",
+        ptop: "PTop"
+      },
       format_code_by_default: "デフォルトでコードをフォーマットして表示",
       notes_before: "提出ページのコードのフォーマットに使用します。",
-      notes_link: "Astyle のリファレンス",
+      notes_link: "{formatter} のリファレンス",
       notes_after: "を参照してください",
       preview: "プレビュー",
       error: "オプションが間違っています"
     },
+    notification: {
+      header: "[TBT] Notifications",
+      notes: "[TBT] Choose which notifications you receive.",
+      kinds: {
+        Mention: "[TBT] Mentioned in a discussion or reply",
+        Reply: "[TBT] New replies to my discussions",
+        SubmissionJudged: "[TBT] My submissions are judged",
+        ProblemPermissionGranted: "[TBT] Granted permissions of a problem"
+      }
+    },
+    drafts: {
+      header: "[TBT] Code drafts",
+      notes:
+        "[TBT] The code you type in the submit view is saved as drafts in this browser automatically. Changes here take effect immediately.",
+      no_drafts: "[TBT] No drafts saved in this browser.",
+      problem: "[TBT] Problem",
+      languages: "[TBT] Languages",
+      snapshots: "[TBT] Snapshots",
+      last_saved: "[TBT] Last saved",
+      delete: "[TBT] Delete drafts of this problem",
+      clear: "[TBT] Clear all drafts",
+      confirm_clear: "[TBT] Confirm clear",
+      success_clear: "[TBT] All drafts cleared.",
+      error: "[TBT] Failed to access drafts: {error}"
+    },
     submit: "保存",
     success: "保存に成功しました。"
   },
@@ -0,0 +1,54 @@
+return {
+  title: "比赛",
+  meta_labels: {
+    non_public: "未公开",
+    registered: "已报名",
+    virtual_participation: "模拟参赛"
+  },
+  countdown: {
+    before_start: "距离开始",
+    before_end: "距离结束",
+    before_virtual_start: "距离模拟参赛开始",
+    before_virtual_end: "距离模拟参赛结束"
+  },
+  statistic: {
+    problems: "题目",
+    participants: "参赛"
+  },
+  upsolving_message: "比赛已结束。你仍可以提交题目进行补题，补题提交将显示在排行榜的补题列中。",
+  description: "说明",
+  problems: "题目",
+  problems_not_visible: "题目将在比赛开始后可见。",
+  no_problems: "此比赛中没有题目。",
+  column_status: "状态",
+  column_title: "题目",
+  column_accepted: "通过",
+  owner: "创建者：",
+  action: {
+    register: "报名",
+    register_success: "报名成功。",
+    login_to_register: "请登录后报名",
+    ranklist: "排行榜",
+    virtual_participate: "模拟参赛",
+    virtual_participate_start_time: "开始时间",
+    virtual_participate_confirm: "开始",
+    virtual_participate_success: "已开始模拟参赛。",
+    enter: "进入",
+    edit: "编辑",
+    delete: "删除",
+    delete_confirm_title: "删除比赛",
+    delete_confirm_content: "确定要删除此比赛吗？其报名信息将一并删除，题目与提交记录不受影响。",
+    delete_confirm: "确定",
+    delete_cancel: "取消",
+    delete_success: "删除成功。"
+  },
+  error: {
+    PERMISSION_DENIED: "权限不足。",
+    NO_SUCH_CONTEST: "无此比赛。",
+    ALREADY_REGISTERED: "你已经报名。",
+    CONTEST_ENDED: "比赛已结束。",
+    CONTEST_NOT_ENDED: "比赛尚未结束。",
+    ALREADY_PARTICIPATED: "你已经参加过此比赛。",
+    INVALID_START_TIME: "开始时间无效。"
+  }
+};
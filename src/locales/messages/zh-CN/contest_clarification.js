@@ -0,0 +1,33 @@
+return {
+  header: "答疑",
+  general: "综合",
+  announcement: "公告",
+  broadcasted: "公开",
+  unanswered: "未回复",
+  no_clarifications: "还没有答疑。",
+  ask: "提问",
+  ask_placeholder: "提出关于比赛或题目的问题，仅比赛管理者可见。",
+  ask_success: "问题已发送。",
+  broadcast: "发布",
+  broadcast_placeholder: "向所有参赛者发布公告，使用 Markdown 格式。",
+  broadcast_success: "发布成功。",
+  reply: "回复",
+  reply_placeholder: "回答问题，使用 Markdown 格式。",
+  reply_broadcast: "对所有参赛者可见",
+  reply_success: "回复成功。",
+  toast: {
+    new_announcement: "比赛有新的公告。",
+    new_question: "比赛有新的提问。",
+    new_broadcast: "比赛有新的公开答疑。",
+    answered: "你的问题已被回复。"
+  },
+  error: {
+    EMPTY_CONTENT: "请填写内容。",
+    PERMISSION_DENIED: "权限不足。",
+    NO_SUCH_CONTEST: "无此比赛。",
+    NO_SUCH_PROBLEM: "无此题目。",
+    NO_SUCH_CLARIFICATION: "无此答疑。",
+    CONTEST_NOT_RUNNING: "比赛未在进行中。",
+    NOT_REGISTERED: "你尚未报名此比赛。"
+  }
+};
@@ -0,0 +1,29 @@
+return {
+  title_new: "新建比赛",
+  title_update: "编辑比赛",
+  header_new: "新建比赛",
+  header_update: "编辑比赛",
+  back: "返回",
+  submit: "提交",
+  success: "保存成功。",
+  contest_title: "名称",
+  contest_title_placeholder: "比赛的名称",
+  type: "赛制",
+  start_time: "开始时间",
+  end_time: "结束时间",
+  is_public: "公开",
+  description: "说明",
+  description_placeholder: "比赛的说明，使用 Markdown 格式",
+  problems: "题目",
+  problem_title: "题目",
+  operations: "操作",
+  add_problem: "添加题目",
+  error: {
+    PERMISSION_DENIED: "权限不足。",
+    NO_SUCH_CONTEST: "无此比赛。",
+    NO_SUCH_PROBLEM: "无此题目：#{problemId}。",
+    DUPLICATE_PROBLEM: "该题目已被添加。",
+    NO_TITLE: "请填写名称。",
+    INVALID_TIME_RANGE: "结束时间必须晚于开始时间。"
+  }
+};
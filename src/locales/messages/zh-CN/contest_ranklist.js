@@ -0,0 +1,29 @@
+return {
+  title: "排行榜",
+  back: "返回比赛",
+  column_rank: "排名",
+  column_user: "用户",
+  column_solved: "通过",
+  column_penalty: "罚时",
+  column_score: "分数",
+  column_upsolved: "补题",
+  virtual: "模拟",
+  virtual_message: "你正在模拟参赛，排行榜显示的是原比赛开始后 {time} 时的排名。",
+  no_participants: "还没有参赛者。",
+  frozen: {
+    header: "排行榜已封榜",
+    content: "排行榜已于 {time} 封榜，此后的提交结果将在解除封榜后公布。",
+    content_admin: "排行榜已于 {time} 封榜。作为比赛管理者，你可以看到所有结果，其他用户无法看到此后的提交结果。"
+  },
+  show_frozen_view: "显示封榜时的排行榜",
+  resolve: "滚榜",
+  resolve_skip: "跳过",
+  unfreeze: "解除封榜",
+  unfreeze_success: "已解除封榜。",
+  error: {
+    PERMISSION_DENIED: "权限不足。",
+    NO_SUCH_CONTEST: "无此比赛。",
+    CONTEST_NOT_ENDED: "比赛尚未结束。",
+    NOT_FROZEN: "排行榜未封榜。"
+  }
+};
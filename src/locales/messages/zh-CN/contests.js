@@ -0,0 +1,31 @@
+return {
+  title: "比赛",
+  header: "比赛",
+  add_contest: "创建",
+  non_public: "未公开",
+  status: {
+    Upcoming: "未开始",
+    Running: "进行中",
+    Ended: "已结束"
+  },
+  type: {
+    ICPC: "ICPC",
+    OI: "OI",
+    IOI: "IOI"
+  },
+  column_title: "名称",
+  column_type: "赛制",
+  column_start_time: "开始时间",
+  column_duration: "时长",
+  column_participants: "参赛人数",
+  column_status: "状态",
+  no_contest: {
+    message: "还没有比赛。",
+    create: "创建比赛",
+    back: "返回"
+  },
+  error: {
+    TAKE_TOO_MANY: "请求每页项目数量超出限制。",
+    PERMISSION_DENIED: "权限不足。"
+  }
+};
@@ -4,22 +4,44 @@ return {
     PERMISSION_DENIED: "权限不足。",
     NO_SUCH_DISCUSSION: "无此讨论。",
     NO_SUCH_DISCUSSION_REPLY: "无此回复。",
-    INVALID_EMOJI: "无效的 Emoji。"
+    INVALID_EMOJI: "无效的 Emoji。",
+    DISCUSSION_LOCKED: "该讨论已锁定。",
+    ALREADY_REPORTED: "你已经举报过了。"
   },
   reply_count_0: "暂无回复",
   reply_count: "{replyCount} 条回复",
   reply_count_s: "{replyCount} 条回复",
   add_discussion: "新建讨论",
+  report_success: "举报成功，感谢你的反馈。",
+  locked_notice: "该讨论已锁定，无法添加新回复。",
+  label: {
+    pinned: "置顶",
+    locked: "已锁定"
+  },
   item: {
     commented_on: "发表于 ",
     edited: "已编辑",
+    in_reply_to: "回复 ",
+    reply_to_unavailable: "回复了一条已删除的回复",
     label: {
       nonpublic: "未公开",
       problem_owner: "题目上传者",
       discussion_publisher: "讨论发起者"
     },
+    report_dialog: {
+      title: "举报",
+      placeholder: "为什么需要管理员审核这些内容？",
+      cancel: "取消",
+      confirm: "举报"
+    },
     actions: {
       edit: "编辑",
+      pin: "置顶",
+      unpin: "取消置顶",
+      lock: "锁定",
+      unlock: "解除锁定",
+      report: "举报",
+      reply: "回复",
       quote: "引用",
       permission_manage: "管理权限",
       set_non_public: "取消公开",
@@ -34,7 +56,17 @@ return {
       confirm_delete_dialog_cancel: "取消"
     }
   },
+  new_replies: {
+    count: "{count} 条新回复",
+    count_s: "{count} 条新回复"
+  },
   edit: {
+    replying_to: "回复 ",
+    typing: {
+      one: "{user} 正在输入...",
+      two: "{user1} 和 {user2} 正在输入...",
+      many: "{count} 人正在输入..."
+    },
     placeholder: {
       title: "标题",
       add_reply: "添加回复 …",
@@ -53,6 +85,7 @@ return {
       update_discussion: "提交",
       update_discussion_no_submit_permission: "无提交权限",
       cancel: "取消",
+      cancel_reply_to: "取消回复",
       confirm_cancel: "放弃修改并取消"
     }
   },
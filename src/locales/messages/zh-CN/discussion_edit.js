@@ -4,10 +4,19 @@ return {
   errors: {
     PERMISSION_DENIED: "权限不足。",
     NO_SUCH_PROBLEM: "无此题目。",
-    NO_SUCH_DISCUSSION: "无此讨论。"
+    NO_SUCH_DISCUSSION: "无此讨论。",
+    NO_SUCH_CATEGORY: "无此分类。",
+    INVALID_TAGS: "标签无效。"
   },
   header: {
     add: "添加讨论",
     update: "修改讨论"
-  }
+  },
+  category: "分类",
+  no_category: "未分类",
+  tags: "标签（最多 {max} 个）",
+  tags_placeholder: "输入并按回车以添加标签",
+  add_tag: "添加标签：",
+  tag_too_long: "标签长度不能超过 {length} 个字符。",
+  tag_contains_comma: "标签不能包含逗号。"
 };
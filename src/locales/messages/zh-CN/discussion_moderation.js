@@ -0,0 +1,32 @@
+return {
+  title: "审核队列",
+  breadcrumb: "审核队列",
+  errors: {
+    PERMISSION_DENIED: "权限不足。",
+    TAKE_TOO_MANY: "请求的举报过多。"
+  },
+  status: {
+    pending: "待处理",
+    resolved: "已处理"
+  },
+  type: {
+    discussion: "讨论",
+    reply: "回复 #{id}"
+  },
+  non_public: "未公开",
+  column_content: "内容",
+  column_publisher: "发布者",
+  column_reports: "举报",
+  column_last_report_time: "最近举报",
+  actions: {
+    hide: "隐藏",
+    restore: "恢复",
+    delete: "删除",
+    confirm_delete: "确认删除 {count} 项"
+  },
+  success: "已处理 {count} 项。",
+  no_reports: {
+    pending: "没有待处理的举报",
+    resolved: "没有已处理的举报"
+  }
+};
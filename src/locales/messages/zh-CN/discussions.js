@@ -12,6 +12,8 @@ return {
     problem: "题目"
   },
   add_discussion: "新建讨论",
+  moderation: "审核队列",
+  category_all: "全部",
   search_discussion: {
     placeholder: "标题 …",
     no_result: "没有符合条件的讨论。"
@@ -35,5 +37,7 @@ return {
   column_reply_count: "回复数量",
   column_sort_time: "更新时间",
   non_public: "未公开",
+  pinned: "置顶",
+  locked: "已锁定",
   no_title: "（无标题）"
 };
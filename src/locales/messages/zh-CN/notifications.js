@@ -0,0 +1,46 @@
+return {
+  title: "通知",
+  header: "通知",
+  not_logged_in: "未登录。",
+  errors: {
+    PERMISSION_DENIED: "权限不足。",
+    TAKE_TOO_MANY: "请求的通知过多。"
+  },
+  unread_only: "仅未读",
+  mark_read: "标为已读",
+  mark_all_read: "全部标为已读",
+  kinds: {
+    all: "全部",
+    Mention: "提及",
+    Reply: "回复",
+    SubmissionJudged: "提交",
+    ProblemPermissionGranted: "权限"
+  },
+  message: {
+    Mention: {
+      before: " 在 ",
+      after: " 中提到了你"
+    },
+    Reply: {
+      before: " 回复了你的讨论 ",
+      after: ""
+    },
+    SubmissionJudged: {
+      before: "你对 ",
+      middle: " 的提交 ",
+      after: " 评测完成："
+    },
+    ProblemPermissionGranted: {
+      before: " 授予了你题目 ",
+      after: " 的{level}权限"
+    }
+  },
+  permission_level: {
+    1: "只读",
+    2: "读写"
+  },
+  no_notifications: {
+    message: "暂无通知",
+    message_unread: "暂无未读通知"
+  }
+};
@@ -9,18 +9,21 @@ return {
     input: "输入文件",
     output: "输出文件"
   },
+  process_count: "{count} 进程",
   show_tags: "显示标签",
   hide_tags: "隐藏标签",
   type: {
     Traditional: "传统",
     Interaction: "交互",
-    SubmitAnswer: "提交答案"
+    SubmitAnswer: "提交答案",
+    Communication: "通信"
   },
   statistic: {
     submissions: "提交",
     accepted: "通过"
   },
   action: {
+    back_to_contest: "返回比赛",
     submit: "提交",
     login_to_submit: "请登录后提交",
     submission: "提交记录",
@@ -29,6 +32,8 @@ return {
     files: "文件",
     edit: "编辑",
     judge_settings: "评测设置",
+    similarity: "代码相似度",
+    export_package: "导出题目包",
     permission_manage: "权限管理",
     permission_manager_description: "题目 {idString}",
     set_display_id: "设置题目 ID",
@@ -51,7 +56,10 @@ return {
     NO_DISPLAY_ID: "请先设置题目 ID。",
     INVALID_DISPLAY_ID: "ID 必须为整数。",
     PUBLIC_PROBLEM_MUST_HAVE_DISPLAY_ID: "已公开的题目必须拥有 ID。",
-    DUPLICATE_DISPLAY_ID: "ID {displayId} 已被使用。"
+    DUPLICATE_DISPLAY_ID: "ID {displayId} 已被使用。",
+    NO_SUCH_CONTEST: "无此比赛。",
+    NOT_REGISTERED: "你尚未报名此比赛。",
+    CONTEST_NOT_RUNNING: "比赛未在进行中。"
   },
   upload_error: "上传失败：{error}",
   submit: {
@@ -68,7 +76,61 @@ return {
     clear_editor: "清除编辑器内容",
     clear_editor_to_use_upload_right: "以使用文件上传功能。",
     fill_in_editor_or_upload_file: "在编辑器中填写答案，或者上传文件。",
-    submit: "提交"
+    submit: "提交",
+    grader: {
+      download_stub: "下载代码模板",
+      failed_to_load_header: "加载头文件失败。"
+    },
+    code_template: {
+      insert: "插入模板",
+      no_templates: "没有模板，请在偏好设置中添加"
+    },
+    syntax_check: {
+      check: "检查语法",
+      check_before_submit: "提交前检查语法",
+      error: "语法检查失败：{error}",
+      errors: "发现 {errors} 个错误和 {warnings} 个警告。",
+      warnings: "发现 {warnings} 个警告。",
+      no_problems: "未发现问题。",
+      confirm_title: "发现语法错误",
+      confirm_content:
+        "离线语法检查在你的代码中发现了 {errors} 个错误。该检查可能与评测所用的编译器有差异。仍然提交吗？",
+      cancel: "取消",
+      submit_anyway: "仍然提交"
+    },
+    local_run: {
+      title: "本地运行",
+      close: "关闭",
+      notes: "代码使用 Pyodide 在你的浏览器中运行，其行为可能与评测环境不同。每次运行限时 {timeLimit} 秒。",
+      sample: "样例 #{index}",
+      custom_input: "自定义输入",
+      custom_input_placeholder: "标准输入的内容",
+      run_samples: "运行所有样例",
+      run_custom_input: "使用自定义输入运行",
+      running: "运行中",
+      finished: "运行完成",
+      pending: "运行中。首次运行时需要下载 Python 运行环境。",
+      input: "输入",
+      expected_output: "期望输出",
+      stdout: "标准输出",
+      stderr: "标准错误输出",
+      error: "运行代码失败：{error}"
+    },
+    draft_history: "草稿历史",
+    draft: {
+      no_drafts: "没有保存此题目的草稿。",
+      time: "保存时间",
+      language: "语言",
+      size: "大小",
+      restore: "恢复",
+      restore_title: "恢复草稿",
+      restore_content: "你有一份保存于 {time} 的 {language} 草稿，比你的上次提交更新。是否恢复？",
+      restore_content_no_submission: "你有一份保存于 {time} 的 {language} 草稿。是否恢复？",
+      use_last_submission: "使用上次提交",
+      discard: "不恢复",
+      load_error: "加载草稿失败：{error}",
+      close: "关闭"
+    }
   },
   permission_level: {
     read: "只读",
@@ -32,6 +32,59 @@ return {
   back_to_problem: "返回题目",
   no_files_to_download: "无任何文件可下载。",
   invalid_filename: "无效的文件名。",
+  import: {
+    button: "导入题目包",
+    header: "导入题目包",
+    format: "格式",
+    formats: {
+      Polygon: "Polygon",
+      HUSTOJ: "HUSTOJ",
+      Lemon: "Lemon / LemonLime",
+      Luogu: "洛谷"
+    },
+    header_create: "从题目包新建题目",
+    type: "题目类型",
+    locales: "语言",
+    samples: "样例",
+    tags: "标签",
+    additional_files: "附加文件",
+    create: "新建",
+    problem: "题目",
+    testdata: "测试数据",
+    subtasks: "子任务",
+    subtasks_and_testcases: "{subtasks} 个子任务，{testcases} 个测试点",
+    limits: "限制",
+    checker: "答案校验",
+    default_checker: "默认",
+    statement: "题目描述",
+    none: "无",
+    warnings: "题目包中的部分内容无法导入",
+    warning: {
+      MISSING_TEST_FILE: "缺少测试文件 {filename}。",
+      MISSING_CHECKER_SOURCE: "缺少校验器 {filename} 的源代码，请手动上传。",
+      COMPILED_CHECKER: "校验器 {filename} 为已编译的可执行文件，请手动上传其源代码。",
+      UNSUPPORTED_TASK_TYPE: "不支持题目 {filename} 的类型，已作为传统题导入。",
+      UNKNOWN_CHECKER_LANGUAGE: "无法识别校验器 {filename} 的语言，请手动配置。",
+      UNMATCHED_TAGS: "本站没有与 {tags} 匹配的标签，将不会添加这些标签。"
+    },
+    clear_testdata: "删除已有测试数据",
+    import_judge_info: "替换评测设置",
+    import_statement: "导入题目描述与样例",
+    uploading: "已上传 {uploaded} / {total} 个文件",
+    upload_error: "上传文件出错 {error}",
+    cancel: "取消",
+    import: "导入",
+    confirm_switch_type: "将题目类型从「{type}」切换为「传统」并替换评测设置",
+    success: "题目包导入成功。",
+    error: {
+      INVALID_ARCHIVE: "无法读取压缩包，仅支持未加密的 zip 压缩包。",
+      DECOMPRESSION_UNSUPPORTED: "你的浏览器无法解压压缩过的 zip 压缩包，请使用更新的浏览器。",
+      UNKNOWN_FORMAT: "无法识别题目包的格式。",
+      INVALID_MANIFEST: "题目包的配置文件 {filename} 无效。",
+      UNSUPPORTED_VERSION: "不支持版本为 {filename} 的题目包，请升级本站。",
+      NO_TESTCASES: "题目包中未找到测试点。"
+    }
+  },
   error: {
     PERMISSION_DENIED: "权限不足。",
     NO_SUCH_PROBLEM: "无此题目。",
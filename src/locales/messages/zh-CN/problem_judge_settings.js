@@ -57,6 +57,22 @@ return {
       INVALID_MEMORY_LIMIT_INTERACTOR: "交互器的空间限制无效。",
       TIME_LIMIT_TOO_LARGE_INTERACTOR: "交互器的时间限制 {1} ms 过大，请联系管理员。",
       MEMORY_LIMIT_TOO_LARGE_INTERACTOR: "交互器的空间限制 {1} ms 过大，请联系管理员。",
+      INVALID_MANAGER: "未知错误。",
+      INVALID_MANAGER_COMPILE_AND_RUN_OPTIONS: "未知错误。",
+      INVALID_MANAGER_LANGUAGE: "未知错误。",
+      NO_SUCH_MANAGER_FILE: "管理器文件 {1} 不存在。",
+      INVALID_TIME_LIMIT_MANAGER: "管理器的时间限制无效。",
+      INVALID_MEMORY_LIMIT_MANAGER: "管理器的空间限制无效。",
+      TIME_LIMIT_TOO_LARGE_MANAGER: "管理器的时间限制 {1} ms 过大，请联系管理员。",
+      MEMORY_LIMIT_TOO_LARGE_MANAGER: "管理器的空间限制 {1} MiB 过大，请联系管理员。",
+      INVALID_COMMUNICATION_INTERFACE: "未知错误。",
+      INVALID_PROCESS_COUNT: "进程数无效。",
+      TOO_MANY_PROCESSES: "进程数过多，请联系管理员。",
+      INVALID_GRADER: "未知错误。",
+      INVALID_GRADER_LANGUAGE: "未知错误。",
+      NO_SUCH_GRADER_FILE: "{1} 的评测库文件 {2} 不存在。",
+      NO_SUCH_GRADER_HEADER_FILE: "{1} 的头文件 {2} 不存在。",
+      NO_SUCH_GRADER_STUB_FILE: "{1} 的代码模板文件 {2} 不存在。",
       INVALID_EXTRA_SOURCE_FILES: "未知错误。",
       INVALID_EXTRA_SOURCE_FILES_LANGUAGE: "未知错误。",
       INVALID_EXTRA_SOURCE_FILES_DST: "附加源文件 {3} 的目标文件名无效。",
@@ -77,6 +93,35 @@ return {
   submittable: "允许提交",
   confirm_switch_type: "确认切换题目类型",
   switch_type_success: "切换题目类型成功。",
+  validator: {
+    validate: "检查测试数据",
+    validate_on_save: "保存时检查测试数据",
+    progress: "已分析 {analyzed} / {total} 个文件",
+    download_error: "下载测试数据失败：{error}",
+    errors: "发现 {errorCount} 个错误，{warningCount} 个警告",
+    errors_block_save: "请在保存前修复错误。",
+    warnings: "发现 {warningCount} 个警告",
+    warnings_confirm_save: "请在保存前确认警告。",
+    no_issues: "未发现问题",
+    issue: {
+      MISSING_FILE: "文件不存在。",
+      MISSING_OUTPUT: "测试点没有输出文件。",
+      NOT_UTF8: "文件不是 UTF-8 编码的文本。",
+      BOM: "文件以 UTF-8 BOM 开头。",
+      CRLF: "从第 {line} 行开始，共 {lineCount} 行以 CRLF 结尾。",
+      TRAILING_WHITESPACE: "从第 {line} 行开始，共 {lineCount} 行末尾有空白字符。",
+      DUPLICATE_INPUT: "输入与 {duplicateOf} 相同。",
+      TOO_LARGE: "文件过大，无法分析。"
+    },
+    statistics: "统计",
+    subtask: "子任务",
+    testcase_count: "测试点",
+    input_size: "输入",
+    output_size: "输出",
+    total_size: "总计",
+    close: "关闭",
+    save_anyway: "仍然保存"
+  },
   meta: {
     time_limit: "时间限制",
     memory_limit: "内存限制",
@@ -128,6 +173,20 @@ return {
     filename: "文件",
     filename_no_file: "无文件"
   },
+  manager: {
+    manager: "管理器",
+    interfaces: {
+      pipe: "管道",
+      fifo: "命名管道（FIFO）"
+    },
+    process_count: "进程数",
+    filename: "文件",
+    filename_no_file: "无文件",
+    description: {
+      pipe: "将启动 {processCount} 个用户进程，每个进程通过标准输入/输出与管理器通信。",
+      fifo: "将启动 {processCount} 个用户进程，命名管道的路径将以命令行参数的形式传递给管理器与用户进程。"
+    }
+  },
   subtasks: {
     auto_testcases: "由数据文件自动检测测试点（自动匹配 <code>.in</code> 与 <code>.out</code> 文件）",
     auto_testcases_no_output: "由数据文件自动检测测试点（自动匹配 <code>.in</code> 文件）",
@@ -198,6 +257,15 @@ return {
     file_not_found_warning: "数据包中找不到该文件。",
     empty: "空"
   },
+  grader: {
+    option: "函数式交互模式（将用户代码与评测库一同编译）",
+    title: "评测库",
+    grader: "评测库",
+    header: "头文件（附加文件，向用户展示）",
+    stub: "代码模板（附加文件，供用户下载）",
+    delete: "删除",
+    confirm_delete: "确认删除"
+  },
   extra_source_files: {
     option: "编译时加入附加源文件",
     title: "附加源文件",
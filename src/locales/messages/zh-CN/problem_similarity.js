@@ -0,0 +1,34 @@
+return {
+  title: "代码相似度",
+  back_to_problem: "返回",
+  notes: "比较该题目的提交代码以发现可能的抄袭。注释、空白字符和命名将被忽略。最多比较最新的 {maxSubmissions} 个提交。",
+  accepted_only: "仅通过的提交",
+  latest_per_user: "每个用户仅最新的提交",
+  min_similarity: "最小相似度",
+  min_match_length: "最小匹配长度（词法单元）",
+  base_code: "基础代码",
+  base_code_placeholder: "提供给所有人的代码（如模板），不计入抄袭。",
+  generate: "生成",
+  progress: {
+    query: "正在查询提交（{done}）",
+    download: "正在下载代码（{done} / {total}）",
+    analyze: "正在分析"
+  },
+  summary: "比较了 {submissionCount} 个提交，在 {clusterCount} 个分组中找到 {pairCount} 对相似提交。",
+  clusters: "分组",
+  cluster_size: "大小",
+  max_similarity: "最大相似度",
+  members: "成员",
+  pairs: "相似提交",
+  submission_a: "提交 A",
+  submission_b: "提交 B",
+  similarity: "相似度（A / B）",
+  matched: "{percent}% 匹配",
+  download_error: "下载代码失败：{error}",
+  analyze_error: "分析代码失败：{error}",
+  error: {
+    NO_SUCH_PROBLEM: "无此题目。",
+    NO_SUCH_SUBMISSION: "无此提交。",
+    PERMISSION_DENIED: "权限不足。"
+  }
+};
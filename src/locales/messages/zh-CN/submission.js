@@ -21,6 +21,29 @@ return {
     NO_SUCH_SUBMISSION: "无此提交记录。",
     PERMISSION_DENIED: "权限不足。"
   },
+  compare_with: "对比...",
+  compare: {
+    title: "对比提交记录",
+    compare_with_title: "将提交记录 #{id} 与以下提交记录对比",
+    submission_id: "提交记录 ID",
+    submission_id_placeholder: "输入提交记录 ID",
+    compare: "对比",
+    cancel: "取消",
+    fastest_submission: "最快的提交",
+    no_fastest_submission: "该题目还没有通过的提交。",
+    my_submissions: "我最近的提交",
+    no_my_submissions: "你没有该题目的其它提交。",
+    swap: "交换",
+    different_problems: "两个提交记录属于不同的题目。",
+    code: "代码",
+    code_unavailable: "其中一个提交记录没有可对比的代码。",
+    no_difference: "没有差异",
+    testcases: "测试点",
+    testcases_unavailable: "没有可对比的测试点结果。",
+    status: "状态",
+    time: "时间",
+    memory: "内存"
+  },
   failed_to_format: "格式化代码出错：{error}",
   format_code: "格式化代码",
   show_original_code: "显示原始代码",
@@ -41,6 +64,22 @@ return {
     user_error: "你的标准错误输出",
     checker_message: "检查器信息",
     interactor_message: "交互器信息",
+    manager_message: "管理器信息",
     system_message: "系统信息"
+  },
+  output_diff: {
+    title: "输出对比",
+    view_mode: {
+      Separate: "分别显示",
+      SideBySide: "并排对比",
+      Inline: "行内对比"
+    },
+    compare_mode: {
+      Line: "按行比较",
+      Token: "按单词比较",
+      IgnoreWhitespace: "忽略空白字符"
+    },
+    first_difference: "第一处不同：第 {line} 行",
+    no_difference: "没有不同"
   }
 };
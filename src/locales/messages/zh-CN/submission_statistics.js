@@ -6,7 +6,9 @@ return {
     TAKE_TOO_MANY: "请求每页项目数量超出限制。"
   },
   header: "满分提交",
+  header_overview: "全部提交",
   type: {
+    Overview: "概览",
     Fastest: "最快",
     MinMemory: "最小内存",
     MinAnswerSize: "最短",
@@ -17,8 +19,17 @@ return {
   header_score_distribution: "得分分布",
   header_score_prefix_sum: "前缀和",
   header_score_suffix_sum: "后缀和",
+  header_status_breakdown: "状态",
+  header_language_share: "语言",
+  header_time_used_histogram: "用时（满分提交）",
+  header_submissions_over_time: "提交趋势",
   chart_tooltip: {
     score: "分数：",
-    count: "数量："
+    count: "数量：",
+    time_used: "用时：{min} ~ {max} ms"
+  },
+  chart_legend: {
+    submissions: "提交",
+    accepted_submissions: "满分提交"
   }
 };
@@ -20,5 +20,33 @@ return {
     message_filtered: "找不到符合条件的提交",
     message_not_filtered: "暂无提交",
     goback: "返回"
+  },
+  export: {
+    button: "导出",
+    title: "导出提交记录",
+    description: "将从最新的提交开始，导出所有符合当前筛选条件的提交记录。",
+    format: "格式",
+    columns: "列",
+    column: {
+      id: "编号",
+      submit_time: "提交时间",
+      problem_id: "题目编号",
+      problem_title: "题目标题",
+      submitter: "提交者",
+      submitter_nickname: "提交者昵称",
+      code_language: "语言",
+      status: "状态",
+      score: "分数",
+      time_used: "时间（ms）",
+      memory_used: "内存（KiB）",
+      answer_size: "答案大小（字节）",
+      is_public: "公开"
+    },
+    progress: "已导出 {count} 条提交记录……",
+    export: "导出",
+    cancel: "取消",
+    abort: "中止",
+    success: "导出成功。",
+    error: "导出失败：{error}"
   }
 };
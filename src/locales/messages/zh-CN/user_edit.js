@@ -112,6 +112,12 @@ return {
         markdown_editor: "Markdown 编辑器",
         content_font: "正文字体",
         code_font: "代码字体"
+      },
+      editor_keybinding: {
+        editor_keybinding: "代码编辑器键位",
+        Default: "默认",
+        Vim: "Vim",
+        Emacs: "Emacs"
       }
     },
     code_language: {
@@ -119,16 +125,67 @@ return {
       language: "默认语言",
       content_notes: "此处的设置影响您提交题目时的默认语言选项。"
     },
+    code_templates: {
+      header: "代码模板",
+      notes: "模板可以在提交界面中插入。在代码编辑器中输入代码片段的前缀时会提示对应的代码片段。",
+      auto_insert: "编辑器为空时自动插入该语言的第一个模板",
+      templates: "模板（{count}）",
+      snippets: "代码片段（{count}）",
+      import: "导入",
+      export: "导出",
+      import_error: "无效的代码模板文件。",
+      import_success: "已导入 {templates} 个模板和 {snippets} 个代码片段。保存偏好设置后生效。",
+      add_template: "添加模板",
+      add_snippet: "添加代码片段",
+      new_template: "新模板",
+      language: "语言",
+      name: "名称",
+      prefix: "前缀",
+      description: "描述",
+      snippet_notes: "使用 $1、$2 表示 Tab 停靠点，${1:label} 表示占位符，$0 表示最终光标位置。"
+    },
     code_formatter: {
       header: "代码格式化",
-      astyle_options: "Astyle 参数",
+      formatter: "格式化工具",
+      options: "参数",
+      formatters: {
+        astyle: "Artistic Style",
+        ruff: "Ruff",
+        rustfmt: "Prettier Rust",
+        gofmt: "gofmt",
+        ptop: "PTop"
+      },
       format_code_by_default: "默认格式化代码",
       notes_before: "该参数应用于提交记录页面的代码展示，请参考",
-      notes_link: "Astyle 文档",
+      notes_link: "{formatter} 文档",
       notes_after: "以获取帮助。",
       preview: "预览",
       error: "参数错误"
     },
+    notification: {
+      header: "通知",
+      notes: "选择你要接收的通知。",
+      kinds: {
+        Mention: "在讨论或回复中被提及",
+        Reply: "我的讨论有新回复",
+        SubmissionJudged: "我的提交评测完成",
+        ProblemPermissionGranted: "被授予题目权限"
+      }
+    },
+    drafts: {
+      header: "代码草稿",
+      notes: "你在提交界面输入的代码会自动作为草稿保存在此浏览器中。此处的修改会立即生效。",
+      no_drafts: "此浏览器中没有保存的草稿。",
+      problem: "题目",
+      languages: "语言",
+      snapshots: "快照数",
+      last_saved: "最后保存",
+      delete: "删除此题目的草稿",
+      clear: "清除所有草稿",
+      confirm_clear: "确认清除",
+      success_clear: "已清除所有草稿。",
+      error: "访问草稿失败：{error}"
+    },
     submit: "提交",
     success: "偏好设置修改成功。"
   },
@@ -0,0 +1,189 @@
+import React, { useEffect } from "react";
+import { Button, Header, Icon, Label, Segment, Table } from "semantic-ui-react";
+import { observer } from "mobx-react";
+import { v4 as uuid } from "uuid";
+
+import style from "./ContestsPage.module.less";
+
+import api from "@/api";
+import { appState } from "@/appState";
+import { defineRoute, RouteError } from "@/AppRouter";
+import { useLocalizer, useScreenWidthWithin, useNavigationChecked, Link } from "@/utils/hooks";
+import { Pagination } from "@/components/Pagination";
+import { EmojiRenderer } from "@/components/EmojiRenderer";
+import formatDateTime from "@/utils/formatDateTime";
+import { makeToBeLocalizedText } from "@/locales";
+import { ContestStatus, formatContestDuration, getContestStatus, getContestUrl } from "../utils";
+
+// Parsed from querystring, without pagination
+interface ContestsPageSearchQuery {
+  nonpublic: boolean;
+}
+
+const CONTESTS_PER_PAGE = appState.serverPreference.pagination.contests;
+
+async function fetchData(
+  searchQuery: ContestsPageSearchQuery,
+  currentPage: number
+): Promise<ApiTypes.QueryContestsResponseDto> {
+  const { requestError, response } = await api.contest.queryContests({
+    locale: appState.locale,
+    nonpublic: searchQuery.nonpublic || undefined,
+    skipCount: CONTESTS_PER_PAGE * (currentPage - 1),
+    takeCount: CONTESTS_PER_PAGE
+  });
+
+  if (requestError) throw new RouteError(requestError, { showRefresh: true, showBack: true });
+  else if (response.error) throw new RouteError(makeToBeLocalizedText(`contests.error.${response.error}`));
+
+  return response;
+}
+
+export const ContestStatusLabel: React.FC<{ meta: ApiTypes.ContestMetaDto; size?: "small" | "tiny" }> = props => {
+  const _ = useLocalizer("contests");
+
+  const status = getContestStatus(props.meta);
+  return (
+    <Label
+      size={props.size}
+      color={status === ContestStatus.Running ? "green" : status === ContestStatus.Upcoming ? "blue" : "grey"}
+      basic={status === ContestStatus.Ended}
+      content={_(`.status.${status}`)}
+    />
+  );
+};
+
+interface ContestsPageProps {
+  searchQuery: ContestsPageSearchQuery;
+  currentPage: number;
+  response: ApiTypes.QueryContestsResponseDto;
+}
+
+let ContestsPage: React.FC<ContestsPageProps> = props => {
+  const _ = useLocalizer("contests");
+  const navigation = useNavigationChecked();
+
+  useEffect(() => {
+    appState.enterNewPage(_(".title"), "contests");
+  }, [appState.locale]);
+
+  const isMobile = useScreenWidthWithin(0, 768);
+
+  const generateQuery = (nonpublic: boolean): Record<string, string> => (nonpublic ? { nonpublic: "" } : {});
+
+  const getPagination = (className: string) =>
+    props.response.count <= CONTESTS_PER_PAGE ? null : (
+      <div className={className}>
+        <Pagination
+          totalCount={props.response.count}
+          currentPage={props.currentPage}
+          itemsPerPage={CONTESTS_PER_PAGE}
+          pageUrl={page => ({
+            query: Object.assign({ page: page.toString() }, generateQuery(props.searchQuery.nonpublic))
+          })}
+        />
+      </div>
+    );
+
+  return (
+    <>
+      <div className={style.headerRow}>
+        <Header as="h1" className={style.header} content={_(".header")} />
+        {props.response.permissions.filterNonpublic && (
+          <Button
+            className="labeled icon"
+            icon="eye slash"
+            toggle
+            active={props.searchQuery.nonpublic}
+            content={_(".non_public")}
+            as={Link}
+            href={{ query: generateQuery(!props.searchQuery.nonpublic) }}
+          />
+        )}
+        {props.response.permissions.createContest && (
+          <Button primary className="labeled icon" icon="plus" content={_(".add_contest")} as={Link} href="/c/new" />
+        )}
+      </div>
+      {getPagination(style.topPagination + " " + style.pagination)}
+      {props.response.contests.length === 0 ? (
+        <Segment placeholder>
+          <Header icon>
+            <Icon name="trophy" />
+            {_(".no_contest.message")}
+          </Header>
+          <Segment.Inline>
+            {props.response.permissions.createContest ? (
+              <Button primary as={Link} href="/c/new">
+                {_(".no_contest.create")}
+              </Button>
+            ) : (
+              <Button primary onClick={() => navigation.goBack()}>
+                {_(".no_contest.back")}
+              </Button>
+            )}
+          </Segment.Inline>
+        </Segment>
+      ) : (
+        <Table basic="very" textAlign="center" unstackable>
+          <Table.Header>
+            <Table.Row>
+              <Table.HeaderCell textAlign="left">{_(".column_title")}</Table.HeaderCell>
+              {!isMobile && <Table.HeaderCell width={2}>{_(".column_type")}</Table.HeaderCell>}
+              <Table.HeaderCell width={3}>{_(".column_start_time")}</Table.HeaderCell>
+              {!isMobile && <Table.HeaderCell width={2}>{_(".column_duration")}</Table.HeaderCell>}
+              {!isMobile && <Table.HeaderCell width={2}>{_(".column_participants")}</Table.HeaderCell>}
+              <Table.HeaderCell width={2}>{_(".column_status")}</Table.HeaderCell>
+            </Table.Row>
+          </Table.Header>
+          <Table.Body>
+            {props.response.contests.map(contest => (
+              <Table.Row key={contest.id}>
+                <Table.Cell textAlign="left" className={style.titleCell}>
+                  <EmojiRenderer>
+                    <Link href={getContestUrl(contest)}>{contest.title}</Link>
+                  </EmojiRenderer>
+                  {!contest.isPublic && (
+                    <Label
+                      className={style.labelNonPublic}
+                      icon="eye slash"
+                      size="small"
+                      color="red"
+                      basic
+                      content={_(".non_public")}
+                    />
+                  )}
+                </Table.Cell>
+                {!isMobile && <Table.Cell>{_(`.type.${contest.type}`)}</Table.Cell>}
+                <Table.Cell title={formatDateTime(contest.startTime)[1]}>
+                  {formatDateTime(contest.startTime)[0]}
+                </Table.Cell>
+                {!isMobile && (
+                  <Table.Cell>
+                    {formatContestDuration(+new Date(contest.endTime) - +new Date(contest.startTime))}
+                  </Table.Cell>
+                )}
+                {!isMobile && <Table.Cell>{contest.participantCount}</Table.Cell>}
+                <Table.Cell>
+                  <ContestStatusLabel meta={contest} size="small" />
+                </Table.Cell>
+              </Table.Row>
+            ))}
+          </Table.Body>
+        </Table>
+      )}
+      {getPagination(style.pagination)}
+    </>
+  );
+};
+
+ContestsPage = observer(ContestsPage);
+
+export default defineRoute(async request => {
+  const page = parseInt(request.query.page) || 1;
+  const searchQuery: ContestsPageSearchQuery = {
+    nonpublic: request.query["nonpublic"] != null
+  };
+  const response = await fetchData(searchQuery, page);
+
+  return <ContestsPage key={uuid()} searchQuery={searchQuery} currentPage={page} response={response} />;
+});
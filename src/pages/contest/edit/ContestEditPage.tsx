@@ -0,0 +1,275 @@
+import React, { useEffect, useState } from "react";
+import { Button, Checkbox, Form, Header, Icon, Table } from "semantic-ui-react";
+import { observer } from "mobx-react";
+import { v4 as uuid } from "uuid";
+
+import style from "./ContestEditPage.module.less";
+
+import api from "@/api";
+import { appState } from "@/appState";
+import { defineRoute, RouteError } from "@/AppRouter";
+import { makeToBeLocalizedText } from "@/locales";
+import { useLocalizer, useAsyncCallbackPending, useConfirmNavigation, useNavigationChecked, Link } from "@/utils/hooks";
+import toast from "@/utils/toast";
+import { ContestType } from "@/interfaces/ContestType";
+import ProblemSearch from "@/components/ProblemSearch";
+import { EmojiRenderer } from "@/components/EmojiRenderer";
+import { DiscussionEditor } from "@/pages/discussion/view/DiscussionViewPage";
+import { getProblemDisplayName, getProblemUrl } from "@/pages/problem/utils";
+import { getContestProblemLetter, getContestUrl, toDateTimeLocalValue } from "../utils";
+
+interface ContestEditPageProps {
+  contest?: ApiTypes.GetContestResponseDto;
+}
+
+interface ContestProblem {
+  meta: ApiTypes.ProblemMetaDto;
+  title: string;
+}
+
+let ContestEditPage: React.FC<ContestEditPageProps> = props => {
+  const _ = useLocalizer("contest_edit");
+  const navigation = useNavigationChecked();
+
+  const isNew = !props.contest;
+
+  useEffect(() => {
+    appState.enterNewPage(isNew ? _(".title_new") : `${_(".title_update")} - ${props.contest.meta.title}`, "contests");
+  }, [appState.locale, props.contest]);
+
+  const [modified, setModified] = useConfirmNavigation();
+
+  const [title, setTitle] = useState(props.contest?.meta.title ?? "");
+  const [type, setType] = useState((props.contest?.meta.type as ContestType) ?? ContestType.ICPC);
+  const [startTime, setStartTime] = useState(() => {
+    if (props.contest) return toDateTimeLocalValue(props.contest.meta.startTime);
+
+    // Default to the next hour
+    const date = new Date();
+    date.setHours(date.getHours() + 1, 0, 0, 0);
+    return toDateTimeLocalValue(date);
+  });
+  const [endTime, setEndTime] = useState(() => {
+    if (props.contest) return toDateTimeLocalValue(props.contest.meta.endTime);
+
+    // Default to 5 hours after the default start time
+    const date = new Date();
+    date.setHours(date.getHours() + 6, 0, 0, 0);
+    return toDateTimeLocalValue(date);
+  });
+  const [isPublic, setIsPublic] = useState(props.contest?.meta.isPublic ?? false);
+  const [description, setDescription] = useState(props.contest?.description ?? "");
+  const [problems, setProblems] = useState<ContestProblem[]>(
+    () => props.contest?.problems.map(({ meta, title }) => ({ meta, title })) ?? []
+  );
+
+  function withModified<T extends unknown[]>(setter: (...args: T) => void) {
+    return (...args: T) => {
+      setModified(true);
+      setter(...args);
+    };
+  }
+
+  function onAddProblem(problem: ApiTypes.QueryProblemSetResponseItemDto) {
+    if (problems.some(p => p.meta.id === problem.meta.id)) {
+      toast.error(_(".error.DUPLICATE_PROBLEM"));
+      return;
+    }
+
+    setModified(true);
+    setProblems(problems => [...problems, { meta: problem.meta, title: problem.title }]);
+  }
+
+  function onMoveProblem(index: number, direction: -1 | 1) {
+    const newIndex = index + direction;
+    if (newIndex < 0 || newIndex >= problems.length) return;
+
+    setModified(true);
+    setProblems(problems => {
+      const newProblems = [...problems];
+      [newProblems[index], newProblems[newIndex]] = [newProblems[newIndex], newProblems[index]];
+      return newProblems;
+    });
+  }
+
+  function onDeleteProblem(index: number) {
+    setModified(true);
+    setProblems(problems => problems.filter((_, i) => i !== index));
+  }
+
+  const [pending, onSubmit] = useAsyncCallbackPending(async () => {
+    if (!title.trim()) return toast.error(_(".error.NO_TITLE"));
+
+    const startDate = new Date(startTime),
+      endDate = new Date(endTime);
+    if (!(+startDate < +endDate)) return toast.error(_(".error.INVALID_TIME_RANGE"));
+
+    const request: ApiTypes.CreateContestRequestDto = {
+      title: title.trim(),
+      description,
+      type,
+      startTime: startDate.toISOString(),
+      endTime: endDate.toISOString(),
+      isPublic,
+      problemIds: problems.map(problem => problem.meta.id)
+    };
+
+    const { requestError, response } = isNew
+      ? await api.contest.createContest(request)
+      : await api.contest.updateContest({ contestId: props.contest.meta.id, ...request });
+
+    if (requestError) toast.error(requestError(_));
+    else if (response.error) toast.error(_(`.error.${response.error}`, { problemId: response.errorProblemId }));
+    else {
+      setModified(false);
+      toast.success(_(".success"));
+      navigation.unconfirmed.navigate(
+        getContestUrl(isNew ? (response as ApiTypes.CreateContestResponseDto).contestId : props.contest.meta.id)
+      );
+    }
+  });
+
+  return (
+    <>
+      <div className={style.headerWrapper}>
+        <Header
+          as="h1"
+          icon={isNew ? "plus" : "edit"}
+          className="withIcon"
+          content={isNew ? _(".header_new") : _(".header_update")}
+        />
+        {!isNew && (
+          <Button content={_(".back")} as={Link} href={getContestUrl(props.contest.meta)} disabled={pending} />
+        )}
+        <Button primary loading={pending} content={_(".submit")} onClick={onSubmit} />
+      </div>
+      <Form className={style.form}>
+        <Form.Input
+          label={_(".contest_title")}
+          placeholder={_(".contest_title_placeholder")}
+          value={title}
+          onChange={(e, { value }) => value.length <= 120 && withModified(setTitle)(value)}
+        />
+        <Form.Group widths="equal">
+          <Form.Select
+            label={_(".type")}
+            value={type}
+            options={Object.values(ContestType).map(type => ({
+              key: type,
+              value: type,
+              text: _(`contests.type.${type}`)
+            }))}
+            onChange={(e, { value }) => withModified(setType)(value as ContestType)}
+          />
+          <Form.Input
+            label={_(".start_time")}
+            type="datetime-local"
+            value={startTime}
+            onChange={(e, { value }) => withModified(setStartTime)(value)}
+          />
+          <Form.Input
+            label={_(".end_time")}
+            type="datetime-local"
+            value={endTime}
+            onChange={(e, { value }) => withModified(setEndTime)(value)}
+          />
+        </Form.Group>
+        <Form.Field>
+          <Checkbox
+            toggle
+            label={_(".is_public")}
+            checked={isPublic}
+            onChange={(e, { checked }) => withModified(setIsPublic)(checked)}
+          />
+        </Form.Field>
+      </Form>
+      <Header as="h3" content={_(".description")} />
+      <DiscussionEditor
+        type="RawEditor"
+        content={description}
+        onChangeContent={withModified(setDescription)}
+        placeholder={_(".description_placeholder")}
+      />
+      <Header as="h3" content={_(".problems")} />
+      <Table unstackable basic className={style.table}>
+        <Table.Header>
+          <Table.Row>
+            <Table.HeaderCell width={1} textAlign="center">
+              #
+            </Table.HeaderCell>
+            <Table.HeaderCell>{_(".problem_title")}</Table.HeaderCell>
+            <Table.HeaderCell width={1} className={style.noWrap} textAlign="center">
+              {_(".operations")}
+            </Table.HeaderCell>
+          </Table.Row>
+        </Table.Header>
+        <Table.Body>
+          {problems.map((problem, i) => (
+            <Table.Row key={problem.meta.id}>
+              <Table.Cell textAlign="center">
+                <b>{getContestProblemLetter(i)}</b>
+              </Table.Cell>
+              <Table.Cell>
+                <EmojiRenderer>
+                  <Link href={getProblemUrl(problem.meta)} target="_blank">
+                    {getProblemDisplayName(problem.meta, problem.title, _)}
+                  </Link>
+                </EmojiRenderer>
+              </Table.Cell>
+              <Table.Cell textAlign="center" className={style.noWrap}>
+                <Icon
+                  className={style.operation}
+                  name="angle up"
+                  disabled={i === 0}
+                  onClick={() => onMoveProblem(i, -1)}
+                />
+                <Icon
+                  className={style.operation}
+                  name="angle down"
+                  disabled={i === problems.length - 1}
+                  onClick={() => onMoveProblem(i, 1)}
+                />
+                <Icon className={style.operation} name="delete" onClick={() => onDeleteProblem(i)} />
+              </Table.Cell>
+            </Table.Row>
+          ))}
+          <Table.Row>
+            <Table.Cell colSpan={3}>
+              <div className={style.footer}>
+                <Header size="tiny">{_(".add_problem")}</Header>
+                <ProblemSearch onResultSelect={onAddProblem} />
+              </div>
+            </Table.Cell>
+          </Table.Row>
+        </Table.Body>
+      </Table>
+      <div className={style.bottomSubmitWrapper}>
+        <Button primary loading={pending} content={_(".submit")} onClick={onSubmit} />
+      </div>
+    </>
+  );
+};
+
+ContestEditPage = observer(ContestEditPage);
+
+export default {
+  new: defineRoute(async request => {
+    if (!appState.currentUserHasPrivilege("ManageContest"))
+      throw new RouteError(makeToBeLocalizedText("contest_edit.error.PERMISSION_DENIED"));
+
+    return <ContestEditPage key={uuid()} />;
+  }),
+  edit: defineRoute(async request => {
+    const { requestError, response } = await api.contest.getContest({
+      contestId: parseInt(request.params.id) || 0,
+      locale: appState.locale
+    });
+
+    if (requestError) throw new RouteError(requestError, { showRefresh: true, showBack: true });
+    else if (response.error) throw new RouteError(makeToBeLocalizedText(`contest_edit.error.${response.error}`));
+    else if (!response.permissionOfCurrentUser.includes("Modify"))
+      throw new RouteError(makeToBeLocalizedText("contest_edit.error.PERMISSION_DENIED"));
+
+    return <ContestEditPage key={uuid()} contest={response} />;
+  })
+};
@@ -0,0 +1,16 @@
+import { mount, lazy } from "navi";
+
+import getRoute from "@/utils/getRoute";
+
+export default {
+  c: mount({
+    "/:id": mount({
+      "/": lazy(() => import("./view/ContestViewPage")),
+      "/edit": getRoute(() => import("./edit/ContestEditPage"), "edit"),
+      "/ranklist": lazy(() => import("./ranklist/ContestRanklistPage")),
+      "/p/:letter": getRoute(() => import("@/pages/problem/view/ProblemViewPage"), "byContest")
+    }),
+    "/new": getRoute(() => import("./edit/ContestEditPage"), "new"),
+    "/": lazy(() => import("./contests/ContestsPage"))
+  })
+};
@@ -0,0 +1,496 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Button, Checkbox, Header, Label, Message, Ref, Table } from "semantic-ui-react";
+import { observer } from "mobx-react";
+import { v4 as uuid } from "uuid";
+
+import style from "./ContestRanklistPage.module.less";
+
+import api from "@/api";
+import { appState } from "@/appState";
+import { defineRoute, RouteError } from "@/AppRouter";
+import { makeToBeLocalizedText } from "@/locales";
+import { useLocalizer, useSocket, useAsyncCallbackPending, useNavigationChecked, Link } from "@/utils/hooks";
+import toast from "@/utils/toast";
+import formatDateTime from "@/utils/formatDateTime";
+import { ContestType } from "@/interfaces/ContestType";
+import { EmojiRenderer } from "@/components/EmojiRenderer";
+import UserLink from "@/components/UserLink";
+import ScoreText from "@/components/ScoreText";
+import {
+  ContestStatus,
+  formatContestDuration,
+  getContestProblemLetter,
+  getContestProblemUrl,
+  getContestStatus,
+  getContestUrl
+} from "../utils";
+import { computeContestRanklist, ContestRanklistCell, ContestRanklistRow } from "./ranklist";
+
+// The delays of the resolving animation's steps, in milliseconds
+const RESOLVE_FOCUS_DELAY = 600;
+const RESOLVE_REVEAL_DELAY = 1200;
+
+// While virtual participating, the original standings are updated with the elapsed time periodically
+const VIRTUAL_STANDINGS_UPDATE_INTERVAL = 10000;
+
+interface ResolvingState {
+  hiddenSubmissionIds: Set<number>;
+  // The cell being revealed
+  focus?: {
+    userId: number;
+    problemId: number;
+  };
+}
+
+async function fetchData(contestId: number) {
+  const { requestError, response } = await api.contest.getContestRanklist({
+    contestId
+  });
+
+  if (requestError) throw new RouteError(requestError, { showRefresh: true, showBack: true });
+  else if (response.error) throw new RouteError(makeToBeLocalizedText(`contest_ranklist.error.${response.error}`));
+
+  return response;
+}
+
+interface ContestRanklistCellViewProps {
+  type: ContestType;
+  cell: ContestRanklistCell;
+}
+
+export const ContestRanklistCellView: React.FC<ContestRanklistCellViewProps> = props => {
+  const cell = props.cell;
+
+  if (props.type === ContestType.ICPC) {
+    if (cell.accepted)
+      return (
+        <div className={style.accepted + (cell.firstBlood ? " " + style.firstBlood : "")}>
+          <div className={style.mainText}>+{cell.rejectedCount || ""}</div>
+          <div className={style.subText}>{formatContestDuration(cell.time)}</div>
+        </div>
+      );
+    else if (cell.pendingCount)
+      return (
+        <div className={style.pending}>
+          <div className={style.mainText}>?</div>
+          <div className={style.subText}>
+            {cell.rejectedCount}+{cell.pendingCount}
+          </div>
+        </div>
+      );
+    else if (cell.rejectedCount)
+      return (
+        <div className={style.rejected}>
+          <div className={style.mainText}>-{cell.rejectedCount}</div>
+        </div>
+      );
+  } else {
+    if (cell.pendingCount)
+      return (
+        <div className={style.pending}>
+          <div className={style.mainText}>?</div>
+          {props.type === ContestType.IOI && cell.submissionCount > 0 && (
+            <div className={style.subText}>{cell.score}</div>
+          )}
+        </div>
+      );
+    else if (cell.submissionCount)
+      return (
+        <div className={style.mainText}>
+          <ScoreText score={cell.score} />
+        </div>
+      );
+  }
+
+  return null;
+};
+
+interface ContestRanklistTableProps {
+  meta: ApiTypes.ContestMetaDto;
+  problemIds: number[];
+  rows: ContestRanklistRow[];
+  focus?: ResolvingState["focus"];
+  refFocusedRow?: React.Ref<HTMLElement>;
+  // Render extra columns after the problem columns, e.g. the upsolving column
+  extraColumns?: {
+    header: React.ReactNode;
+    render: (row: ContestRanklistRow) => React.ReactNode;
+  }[];
+  // Rows to highlight, e.g. the current user
+  highlightUserIds?: number[];
+  virtualUserIds?: number[];
+}
+
+export const ContestRanklistTable: React.FC<ContestRanklistTableProps> = props => {
+  const _ = useLocalizer("contest_ranklist");
+
+  const type = props.meta.type as ContestType;
+
+  return (
+    <div className={style.tableWrapper}>
+      <Table celled unstackable textAlign="center" className={style.table}>
+        <Table.Header>
+          <Table.Row>
+            <Table.HeaderCell className={style.columnRank}>{_(".column_rank")}</Table.HeaderCell>
+            <Table.HeaderCell textAlign="left" className={style.columnUser}>
+              {_(".column_user")}
+            </Table.HeaderCell>
+            {type === ContestType.ICPC ? (
+              <>
+                <Table.HeaderCell className={style.columnTotal}>{_(".column_solved")}</Table.HeaderCell>
+                <Table.HeaderCell className={style.columnTotal}>{_(".column_penalty")}</Table.HeaderCell>
+              </>
+            ) : (
+              <Table.HeaderCell className={style.columnTotal}>{_(".column_score")}</Table.HeaderCell>
+            )}
+            {props.problemIds.map((problemId, i) => (
+              <Table.HeaderCell key={problemId} className={style.columnProblem}>
+                <Link href={getContestProblemUrl(props.meta, i)}>{getContestProblemLetter(i)}</Link>
+              </Table.HeaderCell>
+            ))}
+            {props.extraColumns?.map((column, i) => (
+              <Table.HeaderCell key={i}>{column.header}</Table.HeaderCell>
+            ))}
+          </Table.Row>
+        </Table.Header>
+        <Table.Body>
+          {props.rows.map(row => {
+            const focused = props.focus?.userId === row.user.id;
+            return (
+              <Ref key={row.user.id} innerRef={focused ? props.refFocusedRow : null}>
+                <Table.Row
+                  className={
+                    (focused ? style.focused : "") +
+                    (props.highlightUserIds?.includes(row.user.id) ? " " + style.highlighted : "")
+                  }
+                >
+                  <Table.Cell>{row.rank}</Table.Cell>
+                  <Table.Cell textAlign="left">
+                    <EmojiRenderer>
+                      <span>
+                        <UserLink user={row.user} />
+                      </span>
+                    </EmojiRenderer>
+                    {props.virtualUserIds?.includes(row.user.id) && (
+                      <Label className={style.labelVirtual} size="mini" color="purple" basic content={_(".virtual")} />
+                    )}
+                  </Table.Cell>
+                  {type === ContestType.ICPC ? (
+                    <>
+                      <Table.Cell className={style.total}>{row.solvedCount}</Table.Cell>
+                      <Table.Cell>{Math.floor(row.penalty / 60000)}</Table.Cell>
+                    </>
+                  ) : (
+                    <Table.Cell className={style.total}>{row.score}</Table.Cell>
+                  )}
+                  {props.problemIds.map(problemId => (
+                    <Table.Cell
+                      key={problemId}
+                      className={
+                        style.problemCell +
+                        (focused && props.focus.problemId === problemId ? " " + style.focusedCell : "")
+                      }
+                    >
+                      <ContestRanklistCellView type={type} cell={row.cells[problemId]} />
+                    </Table.Cell>
+                  ))}
+                  {props.extraColumns?.map((column, i) => (
+                    <Table.Cell key={i}>{column.render(row)}</Table.Cell>
+                  ))}
+                </Table.Row>
+              </Ref>
+            );
+          })}
+        </Table.Body>
+      </Table>
+    </div>
+  );
+};
+
+interface ContestRanklistPageProps {
+  ranklist: ApiTypes.GetContestRanklistResponseDto;
+}
+
+let ContestRanklistPage: React.FC<ContestRanklistPageProps> = props => {
+  const _ = useLocalizer("contest_ranklist");
+  const navigation = useNavigationChecked();
+
+  const meta = props.ranklist.meta;
+
+  useEffect(() => {
+    appState.enterNewPage(`${_(".title")} - ${meta.title}`, "contests");
+  }, [appState.locale, props.ranklist]);
+
+  const [participants, setParticipants] = useState(props.ranklist.participants);
+  const [submissions, setSubmissions] = useState(props.ranklist.submissions);
+
+  // Begin live updates
+  useSocket(
+    "contest-ranklist",
+    {
+      subscriptionKey: props.ranklist.ranklistSubscriptionKey
+    },
+    socket => {
+      socket.on("submission", (submission: ApiTypes.ContestRanklistSubmissionDto) => {
+        setSubmissions(submissions => {
+          const index = submissions.findIndex(s => s.submissionId === submission.submissionId);
+          if (index === -1) return [...submissions, submission];
+
+          const newSubmissions = [...submissions];
+          newSubmissions[index] = submission;
+          return newSubmissions;
+        });
+      });
+      socket.on("participant", (user: ApiTypes.UserMetaDto) => {
+        setParticipants(participants =>
+          participants.some(p => p.id === user.id) ? participants : [...participants, user]
+        );
+      });
+      socket.on("unfrozen", () => {
+        navigation.unconfirmed.refresh();
+      });
+    },
+    () => {},
+    !!props.ranklist.ranklistSubscriptionKey
+  );
+  // End live updates
+
+  const canModify = props.ranklist.permissionOfCurrentUser.includes("Modify");
+  const status = getContestStatus(meta);
+
+  // Begin virtual participation and upsolving
+  const virtualParticipation = props.ranklist.virtualParticipation;
+  const virtualStatus = virtualParticipation && getContestStatus(virtualParticipation);
+  const isVirtualParticipant = !!appState.currentUser && !!virtualStatus && virtualStatus !== ContestStatus.Upcoming;
+
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    if (virtualStatus !== ContestStatus.Running) return;
+
+    const interval = setInterval(() => setNow(new Date()), VIRTUAL_STANDINGS_UPDATE_INTERVAL);
+    return () => clearInterval(interval);
+  }, [virtualStatus]);
+
+  const rankedParticipants = useMemo(
+    () =>
+      isVirtualParticipant && !participants.some(user => user.id === appState.currentUser.id)
+        ? [...participants, appState.currentUser]
+        : participants,
+    [participants, isVirtualParticipant]
+  );
+
+  // Virtual submissions are ranked as if they were submitted in the original contest, against the original
+  // standings at the same elapsed time
+  const rankedSubmissions = useMemo(() => {
+    const officialSubmissions = submissions.filter(submission => !submission.kind);
+    if (!isVirtualParticipant) return officialSubmissions;
+
+    const contestStartTime = +new Date(meta.startTime);
+    const virtualStartTime = +new Date(virtualParticipation.startTime);
+    const elapsed = +now - virtualStartTime;
+
+    return [
+      ...(virtualStatus === ContestStatus.Running
+        ? officialSubmissions.filter(submission => +new Date(submission.submitTime) - contestStartTime <= elapsed)
+        : officialSubmissions),
+      ...submissions
+        .filter(submission => submission.kind === "Virtual")
+        .map(submission => ({
+          ...submission,
+          submitTime: new Date(+new Date(submission.submitTime) - virtualStartTime + contestStartTime).toISOString()
+        }))
+    ];
+  }, [submissions, isVirtualParticipant, now]);
+
+  // The problems accepted after the contest by each user
+  const upsolvedProblemIds = useMemo(() => {
+    const result = new Map<number, Set<number>>();
+    for (const submission of submissions) {
+      if (submission.kind !== "Upsolving" || submission.status !== "Accepted") continue;
+
+      if (!result.has(submission.userId)) result.set(submission.userId, new Set());
+      result.get(submission.userId).add(submission.problemId);
+    }
+    return result;
+  }, [submissions]);
+
+  const upsolvingColumn = {
+    header: _(".column_upsolved"),
+    render: (row: ContestRanklistRow) => {
+      const count = Array.from(upsolvedProblemIds.get(row.user.id) || []).filter(
+        problemId => !row.cells[problemId]?.accepted
+      ).length;
+      return count > 0 && <span className={style.upsolved}>+{count}</span>;
+    }
+  };
+  // End virtual participation and upsolving
+
+  // Users with Modify permission receive the real results of frozen submissions, but could view the frozen ranklist
+  const [showFrozenView, setShowFrozenView] = useState(false);
+
+  // Begin resolve
+  const [resolving, setResolving] = useState<ResolvingState>(null);
+  const refFocusedRow = useRef<HTMLElement>();
+
+  const rows = useMemo(
+    () =>
+      computeContestRanklist(
+        meta.type as ContestType,
+        meta.startTime,
+        props.ranklist.problemIds,
+        rankedParticipants,
+        rankedSubmissions,
+        {
+          isHidden: resolving
+            ? submission => resolving.hiddenSubmissionIds.has(submission.submissionId)
+            : showFrozenView
+            ? submission => submission.frozen
+            : null
+        }
+      ),
+    [rankedParticipants, rankedSubmissions, resolving, showFrozenView]
+  );
+
+  const [unfreezePending, onUnfreeze] = useAsyncCallbackPending(async () => {
+    const { requestError, response } = await api.contest.unfreezeContestRanklist({
+      contestId: meta.id
+    });
+
+    if (requestError) toast.error(requestError(_));
+    else if (response.error) toast.error(_(`.error.${response.error}`));
+    else {
+      toast.success(_(".unfreeze_success"));
+      navigation.unconfirmed.refresh();
+    }
+  });
+
+  function onStartResolving() {
+    setResolving({
+      hiddenSubmissionIds: new Set(submissions.filter(submission => submission.frozen).map(s => s.submissionId))
+    });
+  }
+
+  function onFinishResolving() {
+    setResolving(null);
+    if (props.ranklist.frozen) onUnfreeze();
+  }
+
+  useEffect(() => {
+    if (!resolving) return;
+
+    const timeout = setTimeout(
+      () => {
+        if (resolving.focus) {
+          // Reveal all hidden submissions of the focused cell
+          const { userId, problemId } = resolving.focus;
+          setResolving({
+            hiddenSubmissionIds: new Set(
+              submissions
+                .filter(s => resolving.hiddenSubmissionIds.has(s.submissionId))
+                .filter(s => s.userId !== userId || s.problemId !== problemId)
+                .map(s => s.submissionId)
+            )
+          });
+        } else {
+          // Focus on the first pending cell of the lowest ranked user
+          for (const row of [...rows].reverse()) {
+            const problemId = props.ranklist.problemIds.find(
+              problemId =>
+                row.cells[problemId].pendingCount > 0 &&
+                submissions.some(
+                  s =>
+                    s.userId === row.user.id &&
+                    s.problemId === problemId &&
+                    resolving.hiddenSubmissionIds.has(s.submissionId)
+                )
+            );
+            if (problemId != null) return setResolving({ ...resolving, focus: { userId: row.user.id, problemId } });
+          }
+
+          onFinishResolving();
+        }
+      },
+      resolving.focus ? RESOLVE_REVEAL_DELAY : RESOLVE_FOCUS_DELAY
+    );
+    return () => clearTimeout(timeout);
+  }, [resolving]);
+
+  useEffect(() => {
+    refFocusedRow.current?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [resolving?.focus]);
+  // End resolve
+
+  return (
+    <>
+      <div className={style.headerRow}>
+        <EmojiRenderer>
+          <Header as="h1" className={style.header} content={`${_(".title")} - ${meta.title}`} />
+        </EmojiRenderer>
+        <Button className={style.backButton} content={_(".back")} as={Link} href={getContestUrl(meta)} />
+      </div>
+      {props.ranklist.frozen && (
+        <Message
+          info
+          icon="snowflake"
+          header={_(".frozen.header")}
+          content={_(canModify ? ".frozen.content_admin" : ".frozen.content", {
+            time: formatDateTime(props.ranklist.freezeTime)[1]
+          })}
+        />
+      )}
+      {virtualStatus === ContestStatus.Running && (
+        <Message
+          icon="history"
+          content={_(".virtual_message", {
+            time: formatContestDuration(+now - +new Date(virtualParticipation.startTime))
+          })}
+        />
+      )}
+      {canModify && props.ranklist.freezeTime && (
+        <div className={style.adminControls}>
+          <Checkbox
+            toggle
+            label={_(".show_frozen_view")}
+            checked={showFrozenView || !!resolving}
+            disabled={!!resolving}
+            onChange={(e, { checked }) => setShowFrozenView(checked)}
+          />
+          {props.ranklist.frozen && status === ContestStatus.Ended && (
+            <div className={style.adminButtons}>
+              {resolving ? (
+                <Button content={_(".resolve_skip")} onClick={onFinishResolving} />
+              ) : (
+                <>
+                  <Button primary icon="play" content={_(".resolve")} onClick={onStartResolving} />
+                  <Button content={_(".unfreeze")} loading={unfreezePending} onClick={onUnfreeze} />
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+      {rows.length === 0 ? (
+        <Message info content={_(".no_participants")} />
+      ) : (
+        <ContestRanklistTable
+          meta={meta}
+          problemIds={props.ranklist.problemIds}
+          rows={rows}
+          focus={resolving?.focus}
+          refFocusedRow={refFocusedRow}
+          highlightUserIds={appState.currentUser ? [appState.currentUser.id] : []}
+          virtualUserIds={isVirtualParticipant ? [appState.currentUser.id] : []}
+          extraColumns={status === ContestStatus.Ended ? [upsolvingColumn] : []}
+        />
+      )}
+    </>
+  );
+};
+
+ContestRanklistPage = observer(ContestRanklistPage);
+
+export default defineRoute(async request => {
+  const ranklist = await fetchData(parseInt(request.params.id) || 0);
+
+  return <ContestRanklistPage key={uuid()} ranklist={ranklist} />;
+});
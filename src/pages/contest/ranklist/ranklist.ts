@@ -0,0 +1,198 @@
+import { ContestType } from "@/interfaces/ContestType";
+
+// In ICPC mode, each rejected submission before the accepted one costs 20 minutes of penalty
+export const ICPC_PENALTY_PER_REJECTION = 20 * 60 * 1000;
+
+// These results are caused by the judge system or the compiler, they are not counted as rejections in ICPC mode
+const STATUSES_WITHOUT_PENALTY: ApiTypes.ContestRanklistSubmissionDto["status"][] = [
+  "CompilationError",
+  "ConfigurationError",
+  "SystemError",
+  "JudgementFailed",
+  "Canceled"
+];
+
+export interface ContestRanklistCell {
+  accepted: boolean;
+  // OI: the score of the last submission, IOI: the sum of the best score of each subtask
+  score: number;
+  // ICPC: the number of rejected submissions (before the first accepted one)
+  rejectedCount: number;
+  // Milliseconds from the start of the contest to the submission determining the cell's result
+  time: number;
+  // The number of submissions whose results are known
+  submissionCount: number;
+  // The number of submissions whose results are unknown (hidden or not judged yet)
+  pendingCount: number;
+  firstBlood: boolean;
+}
+
+export interface ContestRanklistRow {
+  user: ApiTypes.UserMetaDto;
+  cells: Record<number, ContestRanklistCell>;
+  // ICPC
+  solvedCount: number;
+  penalty: number;
+  // OI and IOI
+  score: number;
+  rank: number;
+}
+
+export interface ContestRanklistOptions {
+  // Treat the submission as pending even if its result is known, used for the frozen view and resolving
+  isHidden?: (submission: ApiTypes.ContestRanklistSubmissionDto) => boolean;
+}
+
+function isPending(submission: ApiTypes.ContestRanklistSubmissionDto, options: ContestRanklistOptions) {
+  return !submission.status || submission.status === "Pending" || !!options.isHidden?.(submission);
+}
+
+function createCell(): ContestRanklistCell {
+  return {
+    accepted: false,
+    score: 0,
+    rejectedCount: 0,
+    time: 0,
+    submissionCount: 0,
+    pendingCount: 0,
+    firstBlood: false
+  };
+}
+
+function applySubmission(
+  type: ContestType,
+  cell: ContestRanklistCell,
+  subtaskScores: number[],
+  submission: ApiTypes.ContestRanklistSubmissionDto,
+  time: number,
+  pending: boolean
+) {
+  if (!pending) cell.submissionCount++;
+
+  switch (type) {
+    case ContestType.ICPC:
+      // Submissions after the first accepted one don't matter
+      if (cell.accepted) return;
+
+      if (pending) cell.pendingCount++;
+      else if (submission.status === "Accepted") {
+        cell.accepted = true;
+        cell.time = time;
+      } else if (!STATUSES_WITHOUT_PENALTY.includes(submission.status)) cell.rejectedCount++;
+      break;
+    case ContestType.OI:
+      // Only the last submission matters, so a pending submission hides all previous results
+      if (pending) cell.pendingCount++;
+      else {
+        cell.pendingCount = 0;
+        cell.score = submission.score ?? 0;
+        cell.accepted = submission.status === "Accepted";
+        cell.time = time;
+      }
+      break;
+    case ContestType.IOI:
+      if (pending) cell.pendingCount++;
+      else {
+        const scores = submission.subtaskScores?.length ? submission.subtaskScores : [submission.score ?? 0];
+        let improved = false;
+        scores.forEach((score, i) => {
+          if (!(score <= subtaskScores[i])) {
+            subtaskScores[i] = score;
+            improved = true;
+          }
+        });
+        if (improved) {
+          cell.score = subtaskScores.reduce((sum, score) => sum + (score || 0), 0);
+          cell.time = time;
+        }
+        cell.accepted = cell.accepted || submission.status === "Accepted";
+      }
+      break;
+  }
+}
+
+function compareRows(type: ContestType, a: ContestRanklistRow, b: ContestRanklistRow) {
+  if (type === ContestType.ICPC) return b.solvedCount - a.solvedCount || a.penalty - b.penalty;
+  else return b.score - a.score;
+}
+
+/**
+ * Compute the ranklist of a contest from its submissions. The returned rows are sorted by rank and
+ * rows with the same result have the same rank.
+ */
+export function computeContestRanklist(
+  type: ContestType,
+  startTime: string,
+  problemIds: number[],
+  participants: ApiTypes.UserMetaDto[],
+  submissions: ApiTypes.ContestRanklistSubmissionDto[],
+  options: ContestRanklistOptions = {}
+): ContestRanklistRow[] {
+  const contestStartTime = +new Date(startTime);
+
+  const rows = new Map<number, ContestRanklistRow>(
+    participants.map(user => [
+      user.id,
+      {
+        user,
+        cells: Object.fromEntries(problemIds.map(problemId => [problemId, createCell()])),
+        solvedCount: 0,
+        penalty: 0,
+        score: 0,
+        rank: 0
+      }
+    ])
+  );
+  // For IOI, the best score of each subtask of each problem for each user
+  const subtaskScores = new Map<string, number[]>();
+
+  const sortedSubmissions = [...submissions].sort(
+    (a, b) => +new Date(a.submitTime) - +new Date(b.submitTime) || a.submissionId - b.submissionId
+  );
+  for (const submission of sortedSubmissions) {
+    const row = rows.get(submission.userId);
+    const cell = row?.cells[submission.problemId];
+    if (!cell) continue;
+
+    const key = `${submission.userId}/${submission.problemId}`;
+    if (!subtaskScores.has(key)) subtaskScores.set(key, []);
+
+    applySubmission(
+      type,
+      cell,
+      subtaskScores.get(key),
+      submission,
+      +new Date(submission.submitTime) - contestStartTime,
+      isPending(submission, options)
+    );
+  }
+
+  for (const row of rows.values()) {
+    for (const cell of Object.values(row.cells)) {
+      if (cell.accepted) {
+        row.solvedCount++;
+        row.penalty += Math.floor(cell.time / 60000) * 60000 + cell.rejectedCount * ICPC_PENALTY_PER_REJECTION;
+      }
+      row.score += cell.score;
+    }
+  }
+
+  // First blood: the earliest accepted cell of each problem
+  if (type === ContestType.ICPC) {
+    for (const problemId of problemIds) {
+      let firstBlood: ContestRanklistCell = null;
+      for (const row of rows.values()) {
+        const cell = row.cells[problemId];
+        if (cell.accepted && (!firstBlood || cell.time < firstBlood.time)) firstBlood = cell;
+      }
+      if (firstBlood) firstBlood.firstBlood = true;
+    }
+  }
+
+  const result = Array.from(rows.values()).sort((a, b) => compareRows(type, a, b) || a.user.id - b.user.id);
+  result.forEach((row, i) => {
+    row.rank = i > 0 && compareRows(type, result[i - 1], row) === 0 ? result[i - 1].rank : i + 1;
+  });
+
+  return result;
+}
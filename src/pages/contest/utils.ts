@@ -0,0 +1,66 @@
+export enum ContestStatus {
+  Upcoming = "Upcoming",
+  Running = "Running",
+  Ended = "Ended"
+}
+
+export function getContestUrl(meta: ApiTypes.ContestMetaDto | number, subRoute?: string) {
+  return `/c/${typeof meta === "number" ? meta : meta.id}` + (subRoute ? `/${subRoute}` : "");
+}
+
+/**
+ * Convert the 0-based index of a problem in a contest to its letter, i.e. A, B, ..., Z, AA, AB, ...
+ */
+export function getContestProblemLetter(index: number) {
+  let result = "";
+  for (index++; index > 0; index = Math.floor((index - 1) / 26))
+    result = String.fromCharCode("A".charCodeAt(0) + ((index - 1) % 26)) + result;
+  return result;
+}
+
+export function getContestProblemIndex(letter: string) {
+  if (!/^[A-Z]+$/i.test(letter)) return -1;
+  return (
+    letter
+      .toUpperCase()
+      .split("")
+      .reduce((result, char) => result * 26 + (char.charCodeAt(0) - "A".charCodeAt(0) + 1), 0) - 1
+  );
+}
+
+export function getContestProblemUrl(meta: ApiTypes.ContestMetaDto | number, index: number) {
+  return getContestUrl(meta, `p/${getContestProblemLetter(index)}`);
+}
+
+export function getContestStatus(
+  meta: Pick<ApiTypes.ContestMetaDto, "startTime" | "endTime">,
+  now = new Date()
+): ContestStatus {
+  if (+now < +new Date(meta.startTime)) return ContestStatus.Upcoming;
+  if (+now < +new Date(meta.endTime)) return ContestStatus.Running;
+  return ContestStatus.Ended;
+}
+
+/**
+ * Format a duration in milliseconds as `[d:]hh:mm[:ss]`.
+ */
+export function formatContestDuration(milliseconds: number, withSeconds?: boolean) {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const pad = (x: number) => x.toString().padStart(2, "0");
+  const parts = [pad(Math.floor(totalSeconds / 3600) % 24), pad(Math.floor(totalSeconds / 60) % 60)];
+  if (withSeconds) parts.push(pad(totalSeconds % 60));
+  return (days ? `${days}:` : "") + parts.join(":");
+}
+
+/**
+ * Format a date as the value of `<input type="datetime-local">`, in local time zone.
+ */
+export function toDateTimeLocalValue(date: Date | string) {
+  if (!(date instanceof Date)) date = new Date(date);
+  const pad = (x: number) => x.toString().padStart(2, "0");
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+}
@@ -0,0 +1,253 @@
+import React, { useState } from "react";
+import { Button, Checkbox, Form, Header, Label, Message, Segment } from "semantic-ui-react";
+import { observer } from "mobx-react";
+
+import style from "./ContestClarificationPanel.module.less";
+
+import api from "@/api";
+import { appState } from "@/appState";
+import { useLocalizer, useSocket, useAsyncCallbackPending, useRecaptcha } from "@/utils/hooks";
+import toast from "@/utils/toast";
+import formatDateTime from "@/utils/formatDateTime";
+import MarkdownContent from "@/markdown/MarkdownContent";
+import { EmojiRenderer } from "@/components/EmojiRenderer";
+import UserLink from "@/components/UserLink";
+import { getProblemDisplayName } from "@/pages/problem/utils";
+import { ContestStatus, getContestProblemLetter, getContestStatus } from "../utils";
+
+// Unanswered ones first, then the newest ones first
+function sortClarifications(clarifications: ApiTypes.ContestClarificationDto[]) {
+  return [...clarifications].sort((a, b) => Number(!!a.answer) - Number(!!b.answer) || b.id - a.id);
+}
+
+interface ClarificationReplyFormProps {
+  clarification: ApiTypes.ContestClarificationDto;
+  onReplied: (clarification: ApiTypes.ContestClarificationDto) => void;
+}
+
+const ClarificationReplyForm: React.FC<ClarificationReplyFormProps> = props => {
+  const _ = useLocalizer("contest_clarification");
+
+  const [answer, setAnswer] = useState("");
+  const [broadcast, setBroadcast] = useState(false);
+
+  const [pending, onReply] = useAsyncCallbackPending(async () => {
+    if (!answer.trim()) return toast.error(_(".error.EMPTY_CONTENT"));
+
+    const { requestError, response } = await api.contest.replyContestClarification({
+      clarificationId: props.clarification.id,
+      answer,
+      broadcast
+    });
+
+    if (requestError) toast.error(requestError(_));
+    else if (response.error) toast.error(_(`.error.${response.error}`));
+    else {
+      toast.success(_(".reply_success"));
+      props.onReplied(response.clarification);
+    }
+  });
+
+  return (
+    <Form className={style.replyForm}>
+      <Form.TextArea
+        rows={3}
+        placeholder={_(".reply_placeholder")}
+        value={answer}
+        onChange={(e, { value }) => setAnswer(value as string)}
+      />
+      <div className={style.formActions}>
+        <Checkbox
+          label={_(".reply_broadcast")}
+          checked={broadcast}
+          onChange={(e, { checked }) => setBroadcast(checked)}
+        />
+        <Button primary size="small" loading={pending} content={_(".reply")} onClick={onReply} />
+      </div>
+    </Form>
+  );
+};
+
+interface ContestClarificationPanelProps {
+  contest: ApiTypes.GetContestResponseDto;
+  clarifications: ApiTypes.QueryContestClarificationsResponseDto;
+}
+
+let ContestClarificationPanel: React.FC<ContestClarificationPanelProps> = props => {
+  const _ = useLocalizer("contest_clarification");
+  const recaptcha = useRecaptcha();
+
+  const meta = props.contest.meta;
+  const canModify = props.contest.permissionOfCurrentUser.includes("Modify");
+  const canAsk = props.contest.registered && getContestStatus(meta) === ContestStatus.Running;
+
+  const [clarifications, setClarifications] = useState(() => sortClarifications(props.clarifications.clarifications));
+
+  function updateClarification(clarification: ApiTypes.ContestClarificationDto) {
+    setClarifications(clarifications =>
+      sortClarifications([...clarifications.filter(c => c.id !== clarification.id), clarification])
+    );
+  }
+
+  function getProblemText(problemId: number) {
+    const index = props.contest.problems.findIndex(problem => problem.meta.id === problemId);
+    if (index === -1) return _(".general");
+
+    return `${getContestProblemLetter(index)}. ${getProblemDisplayName(
+      null,
+      props.contest.problems[index].title,
+      _,
+      "titleOnly"
+    )}`;
+  }
+
+  const problemOptions = [
+    { key: 0, value: 0, text: _(".general") },
+    ...props.contest.problems.map(problem => ({
+      key: problem.meta.id,
+      value: problem.meta.id,
+      text: getProblemText(problem.meta.id)
+    }))
+  ];
+
+  // Begin live updates
+  useSocket(
+    "contest-clarification",
+    {
+      subscriptionKey: props.clarifications.clarificationSubscriptionKey
+    },
+    socket => {
+      socket.on("clarification", (clarification: ApiTypes.ContestClarificationDto) => {
+        updateClarification(clarification);
+
+        // Don't notify the current user of its own actions
+        const currentUserId = appState.currentUser?.id;
+        if (
+          clarification.answer
+            ? clarification.answerer?.id === currentUserId
+            : clarification.questioner?.id === currentUserId
+        )
+          return;
+
+        if (clarification.question == null) toast.info(_(".toast.new_announcement"));
+        else if (!clarification.answer) {
+          if (canModify) toast.info(_(".toast.new_question"));
+        } else if (clarification.questioner?.id === currentUserId) toast.info(_(".toast.answered"));
+        else if (clarification.broadcast) toast.info(_(".toast.new_broadcast"));
+      });
+    },
+    () => {},
+    !!props.clarifications.clarificationSubscriptionKey
+  );
+  // End live updates
+
+  // Begin ask and broadcast
+  const [problemId, setProblemId] = useState(0);
+  const [content, setContent] = useState("");
+
+  const [submitPending, onSubmit] = useAsyncCallbackPending(async () => {
+    if (!content.trim()) return toast.error(_(".error.EMPTY_CONTENT"));
+
+    const { requestError, response } = canModify
+      ? await api.contest.broadcastContestAnnouncement({
+          contestId: meta.id,
+          problemId: problemId || undefined,
+          content
+        })
+      : await api.contest.askContestClarification(
+          {
+            contestId: meta.id,
+            problemId: problemId || undefined,
+            question: content
+          },
+          recaptcha("AskContestClarification")
+        );
+
+    if (requestError) toast.error(requestError(_));
+    else if (response.error) toast.error(_(`.error.${response.error}`));
+    else {
+      toast.success(canModify ? _(".broadcast_success") : _(".ask_success"));
+      setContent("");
+      updateClarification(response.clarification);
+    }
+  });
+  // End ask and broadcast
+
+  const unansweredCount = clarifications.filter(clarification => !clarification.answer).length;
+
+  return (
+    <>
+      <Header size="large" className={style.header}>
+        {_(".header")}
+        {canModify && unansweredCount > 0 && (
+          <Label color="orange" size="small" circular content={unansweredCount} className={style.unansweredCount} />
+        )}
+      </Header>
+      {(canAsk || canModify) && (
+        <Form className={style.form}>
+          <Form.Select
+            options={problemOptions}
+            value={problemId}
+            onChange={(e, { value }) => setProblemId(value as number)}
+          />
+          <Form.TextArea
+            rows={3}
+            placeholder={canModify ? _(".broadcast_placeholder") : _(".ask_placeholder")}
+            value={content}
+            onChange={(e, { value }) => setContent(value as string)}
+          />
+          <div className={style.formActions}>
+            <Button
+              primary
+              loading={submitPending}
+              content={canModify ? _(".broadcast") : _(".ask")}
+              onClick={onSubmit}
+            />
+          </div>
+        </Form>
+      )}
+      {clarifications.length === 0 ? (
+        <Message content={_(".no_clarifications")} />
+      ) : (
+        clarifications.map(clarification => (
+          <Segment key={clarification.id} className={style.clarification}>
+            <div className={style.clarificationHeader}>
+              <EmojiRenderer>
+                <Label size="small" content={getProblemText(clarification.problemId)} />
+              </EmojiRenderer>
+              {clarification.question == null ? (
+                <Label size="small" color="blue" content={_(".announcement")} />
+              ) : (
+                clarification.broadcast && <Label size="small" color="blue" basic content={_(".broadcasted")} />
+              )}
+              {!clarification.answer && <Label size="small" color="orange" basic content={_(".unanswered")} />}
+              {clarification.questioner && (
+                <span className={style.user}>
+                  <UserLink user={clarification.questioner} />
+                </span>
+              )}
+              <span className={style.time}>{formatDateTime(clarification.askTime ?? clarification.answerTime)[1]}</span>
+            </div>
+            {clarification.question != null && (
+              <EmojiRenderer>
+                <div className={style.question}>{clarification.question}</div>
+              </EmojiRenderer>
+            )}
+            {clarification.answer && (
+              <div className={clarification.question != null ? style.answer : null}>
+                <MarkdownContent content={clarification.answer} />
+              </div>
+            )}
+            {canModify && !clarification.answer && (
+              <ClarificationReplyForm clarification={clarification} onReplied={updateClarification} />
+            )}
+          </Segment>
+        ))
+      )}
+    </>
+  );
+};
+
+ContestClarificationPanel = observer(ContestClarificationPanel);
+
+export default ContestClarificationPanel;
@@ -0,0 +1,412 @@
+import React, { useEffect, useState } from "react";
+import { Button, Divider, Form, Header, Icon, Label, Menu, Message, Popup, Statistic, Table } from "semantic-ui-react";
+import { observer } from "mobx-react";
+import { v4 as uuid } from "uuid";
+import Countdown from "react-countdown";
+
+import style from "./ContestViewPage.module.less";
+
+import api from "@/api";
+import { appState } from "@/appState";
+import { defineRoute, RouteError } from "@/AppRouter";
+import {
+  useLocalizer,
+  useDialog,
+  useAsyncCallbackPending,
+  useRecaptcha,
+  useLoginOrRegisterNavigation,
+  useScreenWidthWithin,
+  useNavigationChecked,
+  Link
+} from "@/utils/hooks";
+import toast from "@/utils/toast";
+import { makeToBeLocalizedText } from "@/locales";
+import MarkdownContent from "@/markdown/MarkdownContent";
+import { EmojiRenderer } from "@/components/EmojiRenderer";
+import { StatusIcon } from "@/components/StatusText";
+import UserLink from "@/components/UserLink";
+import formatDateTime from "@/utils/formatDateTime";
+import { getProblemDisplayName } from "@/pages/problem/utils";
+import { ContestStatusLabel } from "../contests/ContestsPage";
+import ContestClarificationPanel from "./ContestClarificationPanel";
+import {
+  ContestStatus,
+  formatContestDuration,
+  getContestProblemLetter,
+  getContestProblemUrl,
+  getContestStatus,
+  getContestUrl,
+  toDateTimeLocalValue
+} from "../utils";
+
+async function fetchData(contestId: number) {
+  const { requestError, response } = await api.contest.getContest({
+    contestId,
+    locale: appState.locale
+  });
+
+  if (requestError) throw new RouteError(requestError, { showRefresh: true, showBack: true });
+  else if (response.error) throw new RouteError(makeToBeLocalizedText(`contest.error.${response.error}`));
+
+  return response;
+}
+
+// Clarifications are only available to participants and managers, so failures are not fatal
+async function fetchClarifications(contestId: number) {
+  if (!appState.currentUser) return null;
+
+  const { requestError, response } = await api.contest.queryContestClarifications({
+    contestId
+  });
+
+  if (requestError || response.error) return null;
+  return response;
+}
+
+interface ContestViewPageProps {
+  contest: ApiTypes.GetContestResponseDto;
+  clarifications?: ApiTypes.QueryContestClarificationsResponseDto;
+}
+
+let ContestViewPage: React.FC<ContestViewPageProps> = props => {
+  const _ = useLocalizer("contest");
+  const navigation = useNavigationChecked();
+
+  const meta = props.contest.meta;
+
+  useEffect(() => {
+    appState.enterNewPage(`${meta.title} - ${_(".title")}`, "contests");
+  }, [appState.locale, props.contest]);
+
+  const isMobile = useScreenWidthWithin(0, 768);
+  const recaptcha = useRecaptcha();
+  const navigateToLogin = useLoginOrRegisterNavigation("login");
+
+  const status = getContestStatus(meta);
+  const virtualParticipation = props.contest.virtualParticipation;
+  const virtualStatus = virtualParticipation && getContestStatus(virtualParticipation);
+
+  // Begin register
+  const [, onRegister] = useAsyncCallbackPending(async () => {
+    const { requestError, response } = await api.contest.registerContest(
+      {
+        contestId: meta.id
+      },
+      recaptcha("RegisterContest")
+    );
+
+    if (requestError) toast.error(requestError(_));
+    else if (response.error) toast.error(_(`.error.${response.error}`));
+    else {
+      toast.success(_(".action.register_success"));
+      navigation.unconfirmed.refresh();
+    }
+  });
+  // End register
+
+  // Begin virtual participation
+  const [virtualStartTime, setVirtualStartTime] = useState(() => toDateTimeLocalValue(new Date()));
+  const [startVirtualParticipationPending, onStartVirtualParticipation] = useAsyncCallbackPending(async () => {
+    const startTime = new Date(virtualStartTime);
+    if (isNaN(+startTime)) return toast.error(_(".error.INVALID_START_TIME"));
+
+    const { requestError, response } = await api.contest.startVirtualParticipation(
+      {
+        contestId: meta.id,
+        startTime: startTime.toISOString()
+      },
+      recaptcha("StartVirtualParticipation")
+    );
+
+    if (requestError) toast.error(requestError(_));
+    else if (response.error) toast.error(_(`.error.${response.error}`));
+    else {
+      toast.success(_(".action.virtual_participate_success"));
+      navigation.unconfirmed.refresh();
+    }
+  });
+  // End virtual participation
+
+  // Begin delete
+  const [deletePending, onDelete] = useAsyncCallbackPending(async () => {
+    const { requestError, response } = await api.contest.deleteContest({
+      contestId: meta.id
+    });
+
+    if (requestError) toast.error(requestError(_));
+    else if (response.error) toast.error(_(`.error.${response.error}`));
+    else {
+      toast.success(_(".action.delete_success"));
+      navigation.unconfirmed.navigate("/c");
+    }
+  });
+  const deleteDialog = useDialog(
+    {
+      basic: true
+    },
+    () => <Header icon="delete" content={_(".action.delete_confirm_title")} />,
+    () => _(".action.delete_confirm_content"),
+    () => (
+      <>
+        <Button
+          basic
+          inverted
+          negative
+          content={_(".action.delete_confirm")}
+          loading={deletePending}
+          onClick={onDelete}
+        />
+        <Button
+          basic
+          inverted
+          content={_(".action.delete_cancel")}
+          disabled={deletePending}
+          onClick={() => deleteDialog.close()}
+        />
+      </>
+    )
+  );
+  // End delete
+
+  const getCountdown = (date: string, text: string) => (
+    <Countdown
+      date={new Date(date)}
+      onComplete={() => navigation.unconfirmed.refresh()}
+      renderer={p => (
+        <div className={style.countdown}>
+          {text}
+          <span className={style.time + " monospace"}>{formatContestDuration(p.total, true)}</span>
+        </div>
+      )}
+    />
+  );
+
+  // The personal countdown of virtual participation is shown after the contest ends
+  const countdown =
+    status !== ContestStatus.Ended
+      ? status === ContestStatus.Upcoming
+        ? getCountdown(meta.startTime, _(".countdown.before_start"))
+        : getCountdown(meta.endTime, _(".countdown.before_end"))
+      : virtualStatus === ContestStatus.Upcoming
+      ? getCountdown(virtualParticipation.startTime, _(".countdown.before_virtual_start"))
+      : virtualStatus === ContestStatus.Running
+      ? getCountdown(virtualParticipation.endTime, _(".countdown.before_virtual_end"))
+      : null;
+
+  const statistic = (
+    <Statistic.Group size="small" className={style.statistic}>
+      <Statistic>
+        <Statistic.Value>{props.contest.problems.length}</Statistic.Value>
+        <Statistic.Label>{_(".statistic.problems")}</Statistic.Label>
+      </Statistic>
+      <Statistic>
+        <Statistic.Value>{meta.participantCount}</Statistic.Value>
+        <Statistic.Label>{_(".statistic.participants")}</Statistic.Label>
+      </Statistic>
+    </Statistic.Group>
+  );
+
+  const permissions = props.contest.permissionOfCurrentUser;
+
+  return (
+    <>
+      {deleteDialog.element}
+      <div className={style.topContainer}>
+        <div className={style.titleSection}>
+          <EmojiRenderer>
+            <Header as="h1" className={style.header} content={meta.title} />
+          </EmojiRenderer>
+          <div className={style.labels}>
+            {!meta.isPublic && (
+              <Label size={isMobile ? "small" : null} color="red" basic>
+                <Icon name="eye slash" />
+                {_(".meta_labels.non_public")}
+              </Label>
+            )}
+            <Label size={isMobile ? "small" : null} color="teal">
+              <Icon name="trophy" />
+              {_(`contests.type.${meta.type}`)}
+            </Label>
+            <Label size={isMobile ? "small" : null} color="pink">
+              <Icon name="clock" />
+              {formatDateTime(meta.startTime)[1]}
+            </Label>
+            <Label size={isMobile ? "small" : null} color="blue">
+              <Icon name="hourglass half" />
+              {formatContestDuration(+new Date(meta.endTime) - +new Date(meta.startTime))}
+            </Label>
+            <ContestStatusLabel meta={meta} size={isMobile ? "small" : null} />
+            {props.contest.registered && (
+              <Label size={isMobile ? "small" : null} color="green" basic>
+                <Icon name="check" />
+                {_(".meta_labels.registered")}
+              </Label>
+            )}
+            {virtualParticipation && (
+              <Label size={isMobile ? "small" : null} color="purple" basic>
+                <Icon name="history" />
+                {_(".meta_labels.virtual_participation")}
+              </Label>
+            )}
+          </div>
+        </div>
+        {!isMobile && statistic}
+      </div>
+      <Divider className={style.divider} />
+      <div className={style.contestView}>
+        <div className={style.leftContainer}>
+          {countdown}
+          {status === ContestStatus.Ended && appState.currentUser && virtualStatus !== ContestStatus.Running && (
+            <Message info icon="book" content={_(".upsolving_message")} />
+          )}
+          {props.contest.description && (
+            <>
+              <Header size="large" content={_(".description")} />
+              <MarkdownContent content={props.contest.description} />
+            </>
+          )}
+          <Header size="large" content={_(".problems")} />
+          {props.contest.problems.length === 0 ? (
+            <Message
+              info
+              content={status === ContestStatus.Upcoming ? _(".problems_not_visible") : _(".no_problems")}
+            />
+          ) : (
+            <Table basic="very" textAlign="center" unstackable className={style.problemTable}>
+              <Table.Header>
+                <Table.Row>
+                  {appState.currentUser && <Table.HeaderCell width={1}>{_(".column_status")}</Table.HeaderCell>}
+                  <Table.HeaderCell width={1}>#</Table.HeaderCell>
+                  <Table.HeaderCell textAlign="left">{_(".column_title")}</Table.HeaderCell>
+                  <Table.HeaderCell width={2}>{_(".column_accepted")}</Table.HeaderCell>
+                </Table.Row>
+              </Table.Header>
+              <Table.Body>
+                {props.contest.problems.map((problem, i) => (
+                  <Table.Row key={problem.meta.id}>
+                    {appState.currentUser && (
+                      <Table.Cell>
+                        {problem.submission && (
+                          <Link href={`/s/${problem.submission.id}`}>
+                            <StatusIcon status={problem.submission.status} noMarginRight />
+                          </Link>
+                        )}
+                      </Table.Cell>
+                    )}
+                    <Table.Cell>
+                      <b>{getContestProblemLetter(i)}</b>
+                    </Table.Cell>
+                    <Table.Cell textAlign="left">
+                      <EmojiRenderer>
+                        <Link href={getContestProblemUrl(meta, i)}>
+                          {getProblemDisplayName(null, problem.title, _, "titleOnly")}
+                        </Link>
+                      </EmojiRenderer>
+                    </Table.Cell>
+                    <Table.Cell>
+                      {problem.acceptedParticipantCount ?? 0} / {problem.triedParticipantCount ?? 0}
+                    </Table.Cell>
+                  </Table.Row>
+                ))}
+              </Table.Body>
+            </Table>
+          )}
+          {props.clarifications && (
+            <ContestClarificationPanel contest={props.contest} clarifications={props.clarifications} />
+          )}
+          {props.contest.owner && (
+            <div className={style.owner}>
+              {_(".owner")}
+              <UserLink user={props.contest.owner} />
+            </div>
+          )}
+        </div>
+        {isMobile && (
+          <>
+            <Divider className={style.divider + " " + style.dividerBottom} />
+            {statistic}
+          </>
+        )}
+        <div className={style.rightContainer}>
+          <Menu pointing secondary vertical className={style.actionMenu}>
+            {permissions.includes("Register") && !props.contest.registered && status !== ContestStatus.Ended && (
+              <Popup
+                trigger={
+                  <Menu.Item
+                    className={style.menuItemImportant}
+                    name={_(".action.register")}
+                    icon="signup"
+                    onClick={appState.currentUser ? onRegister : null}
+                  />
+                }
+                disabled={!!appState.currentUser}
+                content={<Button primary content={_(".action.login_to_register")} onClick={() => navigateToLogin()} />}
+                on="click"
+                position="top left"
+              />
+            )}
+            {props.contest.problems.length > 0 && (
+              <Menu.Item name={_(".action.enter")} icon="arrow right" as={Link} href={getContestProblemUrl(meta, 0)} />
+            )}
+            {status !== ContestStatus.Upcoming && (
+              <Menu.Item
+                name={_(".action.ranklist")}
+                icon="chart bar"
+                as={Link}
+                href={getContestUrl(meta, "ranklist")}
+              />
+            )}
+            {appState.currentUser &&
+              status === ContestStatus.Ended &&
+              !props.contest.registered &&
+              !virtualParticipation && (
+                <Popup
+                  trigger={<Menu.Item name={_(".action.virtual_participate")} icon="history" />}
+                  content={
+                    <Form>
+                      <Form.Input
+                        label={_(".action.virtual_participate_start_time")}
+                        type="datetime-local"
+                        value={virtualStartTime}
+                        onChange={(e, { value }) => setVirtualStartTime(value)}
+                      />
+                      <Button
+                        primary
+                        loading={startVirtualParticipationPending}
+                        content={_(".action.virtual_participate_confirm")}
+                        onClick={onStartVirtualParticipation}
+                      />
+                    </Form>
+                  }
+                  on="click"
+                  position="top left"
+                />
+              )}
+          </Menu>
+          <Menu pointing secondary vertical className={`${style.actionMenu} ${style.secondActionMenu}`}>
+            {permissions.includes("Modify") && (
+              <Menu.Item name={_(".action.edit")} icon="edit" as={Link} href={getContestUrl(meta, "edit")} />
+            )}
+            {permissions.includes("Delete") && (
+              <Menu.Item
+                className={style.menuItemDangerous}
+                name={_(".action.delete")}
+                icon="delete"
+                onClick={deleteDialog.open}
+              />
+            )}
+          </Menu>
+        </div>
+      </div>
+    </>
+  );
+};
+
+ContestViewPage = observer(ContestViewPage);
+
+export default defineRoute(async request => {
+  const contestId = parseInt(request.params.id) || 0;
+  const [contest, clarifications] = await Promise.all([fetchData(contestId), fetchClarifications(contestId)]);
+
+  return <ContestViewPage key={uuid()} contest={contest} clarifications={clarifications} />;
+});
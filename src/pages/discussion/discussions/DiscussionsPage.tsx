@@ -12,13 +12,19 @@ import api from "@/api";
 import { useLocalizer, useScreenWidthWithin, useNavigationChecked, Link } from "@/utils/hooks";
 import UserSearch from "@/components/UserSearch";
 import { Pagination } from "@/components/Pagination";
-import { getDiscussionDisplayTitle, getDiscussionUrl } from "../utils";
+import {
+  getDiscussionCategories,
+  getDiscussionCategoryName,
+  getDiscussionDisplayTitle,
+  getDiscussionUrl
+} from "../utils";
 import { getProblemDisplayName, getProblemUrl } from "@/pages/problem/utils";
 import UserLink from "@/components/UserLink";
 import formatDateTime from "@/utils/formatDateTime";
 import { Localizer, makeToBeLocalizedText } from "@/locales";
 import { EmojiRenderer } from "@/components/EmojiRenderer";
 import { DiscussionSearch } from "@/components/DiscussionSearch";
+import DiscussionCategoryLabel from "@/components/DiscussionCategoryLabel";
 
 export function getNewDiscussionUrl(problemId: number): Partial<URLDescriptor> {
   return {
@@ -86,6 +92,8 @@ interface DiscussionsPageSearchQuery {
   problemId: number;
   publisherId: number;
   nonpublic: boolean;
+  category: string;
+  tags: string[];
 }
 
 const DISCUSSIONS_PER_PAGE = appState.serverPreference.pagination.discussions;
@@ -103,6 +111,8 @@ function generateRequestFromSearchQuery(
   if (searchQuery.problemId) requestBody.problemId = searchQuery.problemId;
   if (searchQuery.publisherId) requestBody.publisherId = searchQuery.publisherId;
   if (searchQuery.nonpublic) requestBody.nonpublic = true;
+  if (searchQuery.category) requestBody.category = searchQuery.category;
+  if (searchQuery.tags.length > 0) requestBody.tags = searchQuery.tags;
 
   return requestBody;
 }
@@ -131,7 +141,9 @@ function parseSearchQuery(query: Record<string, string>): DiscussionsPageSearchQ
         ? Number(query["problemId"])
         : null,
     publisherId: Number.isSafeInteger(Number(query["publisherId"])) ? Number(query["publisherId"]) : null,
-    nonpublic: query["nonpublic"] != null
+    nonpublic: query["nonpublic"] != null,
+    category: query["category"] || null,
+    tags: query["tags"] ? Array.from(new Set(query["tags"].split(",").filter(tag => tag))) : []
   };
   return searchQuery;
 }
@@ -142,6 +154,8 @@ function generateSearchQuery(searchQuery: DiscussionsPageSearchQuery): Record<st
   if (searchQuery.problemId) query.problemId = searchQuery.problemId.toString();
   if (searchQuery.publisherId) query.publisherId = searchQuery.publisherId.toString();
   if (searchQuery.nonpublic) query.nonpublic = "";
+  if (searchQuery.category) query.category = searchQuery.category;
+  if (searchQuery.tags.length > 0) query.tags = searchQuery.tags.join(",");
   return query;
 }
 
@@ -229,6 +243,19 @@ let DiscussionsPage: React.FC<DiscussionsPageProps> = props => {
       nonpublic: false
     });
   }
+
+  function onAddFilterTag(tag: string) {
+    if (props.searchQuery.tags.includes(tag)) return;
+    redirectWithFilter({
+      tags: [...props.searchQuery.tags, tag]
+    });
+  }
+
+  function onDelFilterTag(tag: string) {
+    redirectWithFilter({
+      tags: props.searchQuery.tags.filter(t => t !== tag)
+    });
+  }
   // End search
 
   const getPagination = () =>
@@ -288,7 +315,11 @@ let DiscussionsPage: React.FC<DiscussionsPageProps> = props => {
   );
 
   // To display the current search filters applied on the search result.
-  const filtersApplied = props.searchQuery.keyword || props.response.filterPublisher || props.searchQuery.nonpublic;
+  const filtersApplied =
+    props.searchQuery.keyword ||
+    props.response.filterPublisher ||
+    props.searchQuery.nonpublic ||
+    props.searchQuery.tags.length > 0;
   const headerSearchFilters = filtersApplied && (
     <>
       <strong>{_(".search_filters")}</strong>
@@ -313,11 +344,29 @@ let DiscussionsPage: React.FC<DiscussionsPageProps> = props => {
           <Icon name="delete" onClick={() => onDelFilterNonpublic()} />
         </Label>
       )}
+      {props.searchQuery.tags.map(tag => (
+        <Label key={tag} size="small" color="blue" basic>
+          <Icon name="tag" />
+          {tag}
+          <Icon name="delete" onClick={() => onDelFilterTag(tag)} />
+        </Label>
+      ))}
     </>
   );
 
   const headerButtons = allProblems ? null : (
     <div className={style.headerButtons}>
+      {appState.currentUserHasPrivilege("ManageDiscussion") && (
+        <Button
+          size={isMobileOrPad ? "small" : null}
+          className={isMobileOrPad ? "icon" : "labeled icon"}
+          icon="flag"
+          content={isMobileOrPad ? "" : _(".moderation")}
+          title={_(".moderation")}
+          as={Link}
+          href="/d/moderation"
+        />
+      )}
       {props.response.permissions.createDiscussion && (
         <Button
           size={isMobileOrPad ? "small" : null}
@@ -332,6 +381,26 @@ let DiscussionsPage: React.FC<DiscussionsPageProps> = props => {
     </div>
   );
 
+  const categories = getDiscussionCategories();
+  const categoryMenu = categories.length > 0 && (
+    <Menu className={style.categoryMenu} pointing secondary>
+      <Menu.Item
+        content={_(".category_all")}
+        active={!props.searchQuery.category}
+        onClick={() => redirectWithFilter({ category: null })}
+      />
+      {categories.map(category => (
+        <Menu.Item
+          key={category.id}
+          icon={category.icon}
+          content={getDiscussionCategoryName(category)}
+          active={props.searchQuery.category === category.id}
+          onClick={() => redirectWithFilter({ category: category.id })}
+        />
+      ))}
+    </Menu>
+  );
+
   const hideProblemColumn = !allProblems;
   const breadcrumb = getBreadcrumb(
     props.response.filterProblem,
@@ -349,6 +418,7 @@ let DiscussionsPage: React.FC<DiscussionsPageProps> = props => {
             {headerButtons}
           </div>
           <div className={style.headerSearchFiltersRow}>{headerSearchFilters}</div>
+          {categoryMenu}
         </>
       ) : (
         <>
@@ -358,6 +428,7 @@ let DiscussionsPage: React.FC<DiscussionsPageProps> = props => {
             <div className={style.headerRightControls}>{headerButtons}</div>
           </div>
           <div className={style.headerSearchFiltersRow}>{headerSearchFilters}</div>
+          {categoryMenu}
         </>
       )}
       {props.response.discussions.length === 0 ? (
@@ -376,7 +447,8 @@ let DiscussionsPage: React.FC<DiscussionsPageProps> = props => {
                   redirectWithFilter({
                     keyword: "",
                     publisherId: null,
-                    nonpublic: false
+                    nonpublic: false,
+                    tags: []
                   })
                 }
               >
@@ -454,6 +526,18 @@ let DiscussionsPage: React.FC<DiscussionsPageProps> = props => {
                           onClick={() => onAddFilterNonpublic()}
                         />
                       )}
+                      {discussion.meta.isPinned && (
+                        <Label icon="pin" size="small" color="teal" content={_(".pinned")} />
+                      )}
+                      {discussion.meta.isLocked && <Label icon="lock" size="small" content={_(".locked")} />}
+                      <DiscussionCategoryLabel
+                        category={discussion.meta.category}
+                        size="small"
+                        onClick={() => redirectWithFilter({ category: discussion.meta.category })}
+                      />
+                      {discussion.meta.tags.map(tag => (
+                        <Label key={tag} size="small" basic content={tag} as="a" onClick={() => onAddFilterTag(tag)} />
+                      ))}
                     </>
                   );
 
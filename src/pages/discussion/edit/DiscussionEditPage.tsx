@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from "react";
-import { Breadcrumb } from "semantic-ui-react";
+import { Breadcrumb, Form } from "semantic-ui-react";
 import { v4 as uuid } from "uuid";
 import { observer } from "mobx-react";
 
@@ -11,6 +11,12 @@ import { appState } from "@/appState";
 import { useLocalizer, useRecaptcha, useNavigationChecked } from "@/utils/hooks";
 import { DiscussionEditor } from "../view/DiscussionViewPage";
 import { getBreadcrumb } from "../discussions/DiscussionsPage";
+import {
+  getDiscussionCategories,
+  getDiscussionCategoryName,
+  MAX_DISCUSSION_TAG_COUNT,
+  MAX_DISCUSSION_TAG_LENGTH
+} from "../utils";
 import toast from "@/utils/toast";
 import { makeToBeLocalizedText } from "@/locales";
 
@@ -34,19 +40,47 @@ let DiscussionEditPage: React.FC<DiscussionEditPageProps> = props => {
 
   const [title, setTitle] = useState(props.discussion ? props.discussion.meta.title : "");
   const [content, setContent] = useState(props.discussion ? props.discussion.content : "");
+  const [category, setCategory] = useState(props.discussion?.meta?.category || null);
+  const [tags, setTags] = useState(props.discussion?.meta?.tags || []);
+
+  // The restricted categories are only available to moderators, but a discussion already in one could keep it
+  const categories = getDiscussionCategories().filter(
+    ({ id, restricted }) =>
+      !restricted || appState.currentUserHasPrivilege("ManageDiscussion") || id === props.discussion?.meta?.category
+  );
+
+  function onChangeTags(newTags: string[]) {
+    newTags = Array.from(new Set(newTags.map(tag => tag.trim()).filter(tag => tag)));
+    if (newTags.length > MAX_DISCUSSION_TAG_COUNT) return;
+    if (newTags.some(tag => tag.length > MAX_DISCUSSION_TAG_LENGTH)) {
+      toast.error(_(".tag_too_long", { length: MAX_DISCUSSION_TAG_LENGTH }));
+      return;
+    }
+    // The tags are joined with commas in the query of the discussion list
+    if (newTags.some(tag => tag.includes(","))) {
+      toast.error(_(".tag_contains_comma"));
+      return;
+    }
+
+    setTags(newTags);
+  }
 
   async function onSubmit() {
     const { requestError, response } = props.discussion
       ? await api.discussion.updateDiscussion({
           discussionId: props.discussion.meta.id,
           title,
-          content
+          content,
+          category,
+          tags
         })
       : await api.discussion.createDiscussion(
           {
             problemId: props.problem?.meta?.id,
             title,
-            content
+            content,
+            category,
+            tags
           },
           recaptcha("CreateDiscussion")
         );
@@ -76,6 +110,41 @@ let DiscussionEditPage: React.FC<DiscussionEditPageProps> = props => {
           </Breadcrumb.Section>
         </>
       )}
+      <Form className={style.categoryAndTags}>
+        <Form.Group widths="equal">
+          {categories.length > 0 && (
+            <Form.Select
+              label={_(".category")}
+              placeholder={_(".no_category")}
+              value={category || ""}
+              options={[
+                { key: "", value: "", text: _(".no_category") },
+                ...categories.map(category => ({
+                  key: category.id,
+                  value: category.id,
+                  icon: category.icon,
+                  text: getDiscussionCategoryName(category)
+                }))
+              ]}
+              onChange={(e, { value }) => setCategory((value as string) || null)}
+            />
+          )}
+          <Form.Dropdown
+            label={_(".tags", { max: MAX_DISCUSSION_TAG_COUNT })}
+            placeholder={_(".tags_placeholder")}
+            fluid
+            multiple
+            search
+            selection
+            allowAdditions
+            additionLabel={_(".add_tag")}
+            noResultsMessage={null}
+            value={tags}
+            options={tags.map(tag => ({ key: tag, value: tag, text: tag }))}
+            onChange={(e, { value }) => onChangeTags(value as string[])}
+          />
+        </Form.Group>
+      </Form>
       <DiscussionEditor
         className={style.editor}
         type={props.discussion ? "UpdateDiscussion" : "NewDiscussion"}
@@ -9,6 +9,7 @@ export default {
       "/edit": getRoute(() => import("./edit/DiscussionEditPage"), "edit")
     }),
     "/new": getRoute(() => import("./edit/DiscussionEditPage"), "new"),
+    "/moderation": lazy(() => import("./moderation/DiscussionModerationPage")),
     "/": lazy(() => import("./discussions/DiscussionsPage"))
   })
 };
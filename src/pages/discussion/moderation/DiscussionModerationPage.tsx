@@ -0,0 +1,274 @@
+import React, { useEffect, useState } from "react";
+import { Breadcrumb, Button, Checkbox, Header, Icon, Label, Menu, Popup, Segment, Table } from "semantic-ui-react";
+import { observer } from "mobx-react";
+import { v4 as uuid } from "uuid";
+
+import style from "./DiscussionModerationPage.module.less";
+
+import { defineRoute, RouteError } from "@/AppRouter";
+import { appState } from "@/appState";
+import api from "@/api";
+import { useAsyncCallbackPending, useLocalizer, useNavigationChecked, useScreenWidthWithin, Link } from "@/utils/hooks";
+import toast from "@/utils/toast";
+import { makeToBeLocalizedText } from "@/locales";
+import { Pagination } from "@/components/Pagination";
+import UserLink from "@/components/UserLink";
+import TimeAgo from "@/components/TimeAgo";
+import { EmojiRenderer } from "@/components/EmojiRenderer";
+import { getDiscussionDisplayTitle, getDiscussionUrl } from "../utils";
+import { getBreadcrumb } from "../discussions/DiscussionsPage";
+
+const REPORTED_CONTENTS_PER_PAGE = appState.serverPreference.pagination.discussions;
+
+// Only the beginning of the content is shown in the list
+const CONTENT_EXCERPT_LENGTH = 200;
+
+async function fetchData(resolved: boolean, currentPage: number): Promise<ApiTypes.QueryDiscussionReportsResponseDto> {
+  if (!appState.currentUserHasPrivilege("ManageDiscussion"))
+    throw new RouteError(makeToBeLocalizedText("discussion_moderation.errors.PERMISSION_DENIED"));
+
+  const { requestError, response } = await api.discussion.queryDiscussionReports({
+    locale: appState.locale,
+    resolved,
+    skipCount: REPORTED_CONTENTS_PER_PAGE * (currentPage - 1),
+    takeCount: REPORTED_CONTENTS_PER_PAGE
+  });
+
+  if (requestError) throw new RouteError(requestError, { showRefresh: true, showBack: true });
+  else if (response.error)
+    throw new RouteError(makeToBeLocalizedText(`discussion_moderation.errors.${response.error}`));
+
+  return response;
+}
+
+type ModerationAction = ApiTypes.ModerateDiscussionReportsRequestDto["action"];
+
+function getContentKey(content: ApiTypes.DiscussionReportedContentDto) {
+  return `${content.type}-${content.id}`;
+}
+
+function getContentUrl(content: ApiTypes.DiscussionReportedContentDto) {
+  return {
+    pathname: getDiscussionUrl(content.discussion),
+    hash: content.type === "DiscussionReply" ? `reply-${content.id}` : ""
+  };
+}
+
+interface DiscussionModerationPageProps {
+  resolved: boolean;
+  currentPage: number;
+  response: ApiTypes.QueryDiscussionReportsResponseDto;
+}
+
+let DiscussionModerationPage: React.FC<DiscussionModerationPageProps> = props => {
+  const _ = useLocalizer("discussion_moderation");
+  const navigation = useNavigationChecked();
+
+  useEffect(() => {
+    appState.enterNewPage(_(".title"), "discussion");
+  }, [appState.locale]);
+
+  const isMobileOrPad = useScreenWidthWithin(0, 1024);
+
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const selectedContents = props.response.contents.filter(content => selectedKeys.includes(getContentKey(content)));
+  const allSelected = props.response.contents.length > 0 && selectedContents.length === props.response.contents.length;
+
+  function onToggleSelect(content: ApiTypes.DiscussionReportedContentDto, checked: boolean) {
+    const key = getContentKey(content);
+    setSelectedKeys(selectedKeys => (checked ? [...selectedKeys, key] : selectedKeys.filter(k => k !== key)));
+  }
+
+  function onToggleSelectAll(checked: boolean) {
+    setSelectedKeys(checked ? props.response.contents.map(getContentKey) : []);
+  }
+
+  const [confirmDeletePopupOpen, setConfirmDeletePopupOpen] = useState(false);
+  const [pendingAction, setPendingAction] = useState<ModerationAction>(null);
+  const [pending, onModerate] = useAsyncCallbackPending(async (action: ModerationAction) => {
+    setPendingAction(action);
+    const { requestError, response } = await api.discussion.moderateDiscussionReports({
+      action,
+      targets: selectedContents.map(({ type, id }) => ({ type, id }))
+    });
+    setPendingAction(null);
+
+    if (requestError) toast.error(requestError(_));
+    else if (response.error) toast.error(_(`.errors.${response.error}`));
+    else {
+      toast.success(_(".success", { count: selectedContents.length }));
+      navigation.refresh();
+    }
+  });
+
+  const getPagination = () =>
+    props.response.count <= REPORTED_CONTENTS_PER_PAGE ? null : (
+      <Pagination
+        totalCount={props.response.count}
+        currentPage={props.currentPage}
+        itemsPerPage={REPORTED_CONTENTS_PER_PAGE}
+        pageUrl={page => ({
+          query: Object.assign({ page: page.toString() }, props.resolved ? { resolved: "" } : {})
+        })}
+      />
+    );
+
+  const actionButtons = (
+    <div className={style.actions}>
+      <Button
+        icon="eye slash"
+        content={isMobileOrPad ? null : _(".actions.hide")}
+        title={_(".actions.hide")}
+        disabled={selectedContents.length === 0 || pending}
+        loading={pendingAction === "Hide"}
+        onClick={() => onModerate("Hide")}
+      />
+      <Button
+        icon="undo"
+        content={isMobileOrPad ? null : _(".actions.restore")}
+        title={_(".actions.restore")}
+        disabled={selectedContents.length === 0 || pending}
+        loading={pendingAction === "Restore"}
+        onClick={() => onModerate("Restore")}
+      />
+      <Popup
+        trigger={
+          <Button
+            negative
+            icon="delete"
+            content={isMobileOrPad ? null : _(".actions.delete")}
+            title={_(".actions.delete")}
+            disabled={selectedContents.length === 0 || pending}
+            loading={pendingAction === "Delete"}
+          />
+        }
+        content={
+          <Button
+            negative
+            content={_(".actions.confirm_delete", { count: selectedContents.length })}
+            onClick={() => {
+              setConfirmDeletePopupOpen(false);
+              onModerate("Delete");
+            }}
+          />
+        }
+        open={confirmDeletePopupOpen}
+        onOpen={() => setConfirmDeletePopupOpen(true)}
+        onClose={() => setConfirmDeletePopupOpen(false)}
+        on="click"
+        position="top center"
+      />
+    </div>
+  );
+
+  return (
+    <>
+      {getBreadcrumb(
+        null,
+        _,
+        null,
+        <>
+          <Breadcrumb.Divider icon="right angle" />
+          <Breadcrumb.Section>{_(".breadcrumb")}</Breadcrumb.Section>
+        </>
+      )}
+      <div className={style.headerRow}>
+        <Menu className={style.statusMenu} pointing secondary>
+          <Menu.Item content={_(".status.pending")} active={!props.resolved} as={Link} href="/d/moderation" />
+          <Menu.Item
+            content={_(".status.resolved")}
+            active={props.resolved}
+            as={Link}
+            href={{ pathname: "/d/moderation", query: { resolved: "" } }}
+          />
+        </Menu>
+        {actionButtons}
+      </div>
+      {props.response.contents.length === 0 ? (
+        <Segment placeholder>
+          <Header icon>
+            <Icon name="check circle outline" />
+            {_(props.resolved ? ".no_reports.resolved" : ".no_reports.pending")}
+          </Header>
+        </Segment>
+      ) : (
+        <Table className={style.table} basic="very" unstackable>
+          <Table.Header>
+            <Table.Row>
+              <Table.HeaderCell width={1}>
+                <Checkbox checked={allSelected} onChange={(e, { checked }) => onToggleSelectAll(checked)} />
+              </Table.HeaderCell>
+              <Table.HeaderCell>{_(".column_content")}</Table.HeaderCell>
+              {!isMobileOrPad && <Table.HeaderCell>{_(".column_publisher")}</Table.HeaderCell>}
+              <Table.HeaderCell>{_(".column_reports")}</Table.HeaderCell>
+              {!isMobileOrPad && <Table.HeaderCell>{_(".column_last_report_time")}</Table.HeaderCell>}
+            </Table.Row>
+          </Table.Header>
+          <Table.Body>
+            {props.response.contents.map(content => (
+              <Table.Row key={getContentKey(content)} className={style.row}>
+                <Table.Cell>
+                  <Checkbox
+                    checked={selectedKeys.includes(getContentKey(content))}
+                    onChange={(e, { checked }) => onToggleSelect(content, checked)}
+                  />
+                </Table.Cell>
+                <Table.Cell>
+                  <div className={style.contentTitle}>
+                    <Label size="small" basic>
+                      {content.type === "Discussion" ? _(".type.discussion") : _(".type.reply", { id: content.id })}
+                    </Label>
+                    <EmojiRenderer>
+                      <Link href={getContentUrl(content)}>
+                        {getDiscussionDisplayTitle(content.discussion.title, _)}
+                      </Link>
+                    </EmojiRenderer>
+                    {!content.isPublic && (
+                      <Label size="small" icon="eye slash" color="red" basic content={_(".non_public")} />
+                    )}
+                  </div>
+                  <div className={style.excerpt}>
+                    {content.content.length > CONTENT_EXCERPT_LENGTH
+                      ? content.content.substr(0, CONTENT_EXCERPT_LENGTH) + "..."
+                      : content.content}
+                  </div>
+                </Table.Cell>
+                {!isMobileOrPad && (
+                  <Table.Cell>
+                    <UserLink user={content.publisher} />
+                  </Table.Cell>
+                )}
+                <Table.Cell>
+                  <div className={style.reasons}>
+                    {content.reports.map(report => (
+                      <div key={report.id} className={style.reason}>
+                        <UserLink user={report.reporter} />
+                        <span className={style.reasonText}>{report.reason}</span>
+                      </div>
+                    ))}
+                  </div>
+                </Table.Cell>
+                {!isMobileOrPad && (
+                  <Table.Cell className={style.nowrap}>
+                    {content.reports.length > 0 && <TimeAgo time={new Date(content.reports[0].time)} />}
+                  </Table.Cell>
+                )}
+              </Table.Row>
+            ))}
+          </Table.Body>
+        </Table>
+      )}
+      <div className={style.pagination}>{getPagination()}</div>
+    </>
+  );
+};
+
+DiscussionModerationPage = observer(DiscussionModerationPage);
+
+export default defineRoute(async request => {
+  const page = parseInt(request.query.page) || 1;
+  const resolved = request.query.resolved != null;
+  const response = await fetchData(resolved, page);
+
+  return <DiscussionModerationPage key={uuid()} resolved={resolved} currentPage={page} response={response} />;
+});
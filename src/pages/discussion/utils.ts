@@ -1,3 +1,9 @@
+import { appState } from "@/appState";
+
+// Also validated on server
+export const MAX_DISCUSSION_TAG_COUNT = 5;
+export const MAX_DISCUSSION_TAG_LENGTH = 20;
+
 export function getDiscussionDisplayTitle(title: string, _: (id: string) => string) {
   return title.trim() || _("discussions.no_title");
 }
@@ -5,3 +11,16 @@ export function getDiscussionDisplayTitle(title: string, _: (id: string) => stri
 export function getDiscussionUrl(meta: ApiTypes.DiscussionMetaDto) {
   return `/d/${meta.id}`;
 }
+
+export function getDiscussionCategories() {
+  return appState.serverPreference.misc.discussionCategories || [];
+}
+
+export function getDiscussionCategory(id: string) {
+  return (id && getDiscussionCategories().find(category => category.id === id)) || null;
+}
+
+export function getDiscussionCategoryName(category: ApiTypes.PreferenceConfigDiscussionCategory) {
+  const names = category.names as Record<string, string>;
+  return names[appState.locale] || Object.values(names)[0] || category.id;
+}
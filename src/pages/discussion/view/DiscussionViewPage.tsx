@@ -33,9 +33,11 @@ import {
   useRecaptcha,
   useScreenWidthWithin,
   useNavigationChecked,
+  useSocket,
   Link
 } from "@/utils/hooks";
 import { getDiscussionDisplayTitle } from "../utils";
+import DiscussionCategoryLabel from "@/components/DiscussionCategoryLabel";
 import toast from "@/utils/toast";
 import UserLink from "@/components/UserLink";
 import formatDateTime from "@/utils/formatDateTime";
@@ -50,6 +52,11 @@ import { EmojiRenderer, getTwemojiOptions } from "@/components/EmojiRenderer";
 import TimeAgo from "@/components/TimeAgo";
 import { getMarkdownEditorFontClass } from "@/misc/fonts";
 
+// A user typing emits the status again after this interval, and stops after idle for this interval
+const TYPING_EMIT_INTERVAL = 3000;
+// A typing user without updates in this interval is considered stopped, e.g. disconnected
+const TYPING_EXPIRE_INTERVAL = 8000;
+
 async function fetchData(discussionId: number) {
   const pagination = appState.serverPreference.pagination;
   const { requestError, response } = await api.discussion.getDiscussionAndReplies({
@@ -133,6 +140,48 @@ let ReactionEmojiPicker: React.FC<ReactionEmojiPickerProps> = props => {
 
 ReactionEmojiPicker = observer(ReactionEmojiPicker);
 
+interface ReplyToReferenceProps {
+  replyToId: number;
+  replyTo: ApiTypes.DiscussionReplyToDto;
+  onJump: (id: number) => void;
+}
+
+// "In reply to #n" with a preview of the replied reply on hover
+let ReplyToReference: React.FC<ReplyToReferenceProps> = props => {
+  const _ = useLocalizer("discussion.item");
+
+  if (!props.replyTo)
+    return (
+      <div className={style.replyTo}>
+        <Icon name="reply" />
+        {_(".reply_to_unavailable")}
+      </div>
+    );
+
+  return (
+    <div className={style.replyTo}>
+      <Icon name="reply" />
+      {_(".in_reply_to")}
+      <Popup
+        className={style.replyToPreview}
+        trigger={
+          <PseudoLink onClick={() => props.onJump(props.replyTo.id)}>
+            @{props.replyTo.publisher.username} #{props.replyTo.id}
+          </PseudoLink>
+        }
+        content={<MarkdownContent content={props.replyTo.content} />}
+        header={<UserLink user={props.replyTo.publisher} />}
+        mouseEnterDelay={300}
+        on="hover"
+        position="top left"
+        wide="very"
+      />
+    </div>
+  );
+};
+
+ReplyToReference = observer(ReplyToReference);
+
 interface DiscussionItemProps {
   type: "Discussion" | "Reply";
   discussion: ApiTypes.DiscussionDto;
@@ -145,14 +194,30 @@ interface DiscussionItemProps {
   editTime: Date;
   permission: ApiTypes.DiscussionDto["permissions"];
 
+  // Only for replies
+  id?: number;
+  replyToId?: number;
+  replyTo?: ApiTypes.DiscussionReplyToDto;
+  highlighted?: boolean;
+
   onReaction: (emoji: string, reaction: boolean) => Promise<void>;
+  onReply?: () => void;
+  onJumpToReply?: (id: number) => void;
   onQuote?: () => void;
   onSetPublic: () => Promise<void>;
   onManagePermission?: () => void;
   onEnterEdit: string | (() => void);
   onDelete: () => Promise<void>;
+  onReport: (reason: string) => Promise<boolean>;
+
+  // Only for discussion
+  onSetPinned?: () => Promise<void>;
+  onSetLocked?: () => Promise<void>;
 }
 
+// Also the max length of report reasons on server
+const MAX_REPORT_REASON_LENGTH = 1000;
+
 let DiscussionItem: React.FC<DiscussionItemProps> = props => {
   const _ = useLocalizer("discussion.item");
 
@@ -183,6 +248,8 @@ let DiscussionItem: React.FC<DiscussionItemProps> = props => {
 
   const [pendingSetPublic, onSetPublic] = useAsyncCallbackPending(props.onSetPublic);
   const [pendingDelete, onDelete] = useAsyncCallbackPending(props.onDelete);
+  const [pendingSetPinned, onSetPinned] = useAsyncCallbackPending(async () => await props.onSetPinned?.());
+  const [pendingSetLocked, onSetLocked] = useAsyncCallbackPending(async () => await props.onSetLocked?.());
 
   const [emojiPopupOpen, setEmojiPopupOpen] = useState(false);
   const [actionDropdownOpen, setActionDropdownOpen] = useState(false);
@@ -222,6 +289,45 @@ let DiscussionItem: React.FC<DiscussionItemProps> = props => {
     )
   );
 
+  const [reportReason, setReportReason] = useState("");
+  const [pendingReport, onReport] = useAsyncCallbackPending(async () => {
+    if (await props.onReport(reportReason)) {
+      reportDialog.close();
+      setReportReason("");
+    }
+  });
+  const reportDialog = useDialog(
+    {
+      size: "tiny"
+    },
+    () => <Header icon="flag" content={_(".report_dialog.title")} />,
+    () => (
+      <Form>
+        <TextArea
+          rows={4}
+          placeholder={_(".report_dialog.placeholder")}
+          value={reportReason}
+          readOnly={pendingReport}
+          onChange={(e, { value }) => setReportReason((value as string).substr(0, MAX_REPORT_REASON_LENGTH))}
+        />
+      </Form>
+    ),
+    () => (
+      <>
+        <Button content={_(".report_dialog.cancel")} disabled={pendingReport} onClick={() => reportDialog.close()} />
+        <Button
+          negative
+          content={_(".report_dialog.confirm")}
+          loading={pendingReport}
+          disabled={!reportReason.trim()}
+          onClick={onReport}
+        />
+      </>
+    )
+  );
+
+  const isModerator = appState.currentUserHasPrivilege("ManageDiscussion");
+
   const [refActionsMenuIcon, setRefActionsMenuIcon] = useState<HTMLElement>();
 
   const actions = [
@@ -231,12 +337,34 @@ let DiscussionItem: React.FC<DiscussionItemProps> = props => {
       ) : (
         <Dropdown.Item icon="edit" text={_(".actions.edit")} onClick={props.onEnterEdit} />
       )),
+    props.type === "Reply" && appState.currentUser && (
+      <Dropdown.Item icon="reply" text={_(".actions.reply")} onClick={props.onReply} />
+    ),
     props.type === "Reply" && appState.currentUser && (
       <Dropdown.Item icon="quote left" text={_(".actions.quote")} onClick={props.onQuote} />
     ),
     props.permission.includes("ManagePermission") && (
       <Dropdown.Item icon="key" text={_(".actions.permission_manage")} onClick={props.onManagePermission} />
     ),
+    props.type === "Discussion" && isModerator && (
+      <Dropdown.Item
+        icon="pin"
+        text={props.discussion.meta.isPinned ? _(".actions.unpin") : _(".actions.pin")}
+        disabled={pendingSetPinned}
+        onClick={onSetPinned}
+      />
+    ),
+    props.type === "Discussion" && isModerator && (
+      <Dropdown.Item
+        icon={props.discussion.meta.isLocked ? "lock open" : "lock"}
+        text={props.discussion.meta.isLocked ? _(".actions.unlock") : _(".actions.lock")}
+        disabled={pendingSetLocked}
+        onClick={onSetLocked}
+      />
+    ),
+    appState.currentUser && props.publisher.id !== appState.currentUser.id && (
+      <Dropdown.Item icon="flag" text={_(".actions.report")} onClick={reportDialog.open} />
+    ),
     props.permission.includes("ManagePublicness") && (
       <Popup
         trigger={
@@ -306,13 +434,16 @@ let DiscussionItem: React.FC<DiscussionItemProps> = props => {
 
   return (
     <div
+      id={props.type === "Reply" ? `reply-${props.id}` : undefined}
       className={
         style.item +
         (props.type === "Discussion" ? " " + style.discussion : "") +
-        (props.publisher.id === appState.currentUser?.id ? " " + style.currentUser : "")
+        (props.publisher.id === appState.currentUser?.id ? " " + style.currentUser : "") +
+        (props.highlighted ? " " + style.highlighted : "")
       }
     >
       {confirmDeleteDialog.element}
+      {reportDialog.element}
       {!isMobile && (
         <div className={style.avatar}>
           <UserLink user={props.publisher}>
@@ -338,6 +469,7 @@ let DiscussionItem: React.FC<DiscussionItemProps> = props => {
                 </span>
               </div>
               <span className={style.commentedOn}>
+                {props.type === "Reply" && <span className={style.replyId}>#{props.id} </span>}
                 {_(".commented_on")}
                 <TimeAgo time={props.publishTime} />
                 {props.editTime && (
@@ -397,6 +529,9 @@ let DiscussionItem: React.FC<DiscussionItemProps> = props => {
           </div>
         </Header>
         <Segment attached className={style.content}>
+          {props.replyToId != null && (
+            <ReplyToReference replyToId={props.replyToId} replyTo={props.replyTo} onJump={props.onJumpToReply} />
+          )}
           <MarkdownContent content={props.content} />
         </Segment>
         {emojisAndCount.length > 0 && (
@@ -441,6 +576,11 @@ interface DiscussionEditorProps {
   onChangeTitle?: (title: string) => void;
   noSubmitPermission?: boolean;
 
+  // Only for new reply
+  replyTo?: ApiTypes.DiscussionReplyToDto;
+  onCancelReplyTo?: () => void;
+  typingUsers?: ApiTypes.UserMetaDto[];
+
   // Only for raw markdown editor
   placeholder?: string;
 }
@@ -526,6 +666,20 @@ export let DiscussionEditor = observer<DiscussionEditorProps, HTMLDivElement>(
             className={style.mainSegment}
             onKeyPress={onEnterPress(e => !submitDisabled && e.ctrlKey && onSubmit(), false)}
           >
+            {props.replyTo && (
+              <div className={style.replyTo}>
+                <Icon name="reply" />
+                {_(".replying_to")}
+                <UserLink user={props.replyTo.publisher}>@{props.replyTo.publisher.username}</UserLink>
+                &nbsp;#{props.replyTo.id}
+                <Icon
+                  className={style.cancelReplyTo}
+                  name="close"
+                  title={_(".actions.cancel_reply_to")}
+                  onClick={props.onCancelReplyTo}
+                />
+              </div>
+            )}
             <Form style={preview ? { display: "none" } : {}}>
               <Ref innerRef={setEditor}>
                 <TextArea
@@ -558,6 +712,15 @@ export let DiscussionEditor = observer<DiscussionEditorProps, HTMLDivElement>(
                 <MarkdownContent className={style.preview} content={props.content} noOverflowCutFix />
               </>
             )}
+            {props.typingUsers?.length > 0 && (
+              <div className={style.typing}>
+                {props.typingUsers.length === 1
+                  ? _(".typing.one", { user: props.typingUsers[0].username })
+                  : props.typingUsers.length === 2
+                  ? _(".typing.two", { user1: props.typingUsers[0].username, user2: props.typingUsers[1].username })
+                  : _(".typing.many", { count: props.typingUsers.length })}
+              </div>
+            )}
             {!isRaw && (
               <div className={style.actions}>
                 {isNew ? (
@@ -703,7 +866,8 @@ let DiscussionViewPage: React.FC<DiscussionViewPageProps> = props => {
     );
   }
 
-  async function onLoadMore(item: ReplyOrLoadMore) {
+  // If fromId is specified (e.g. to jump to a reply), load the replies from it and keep the remaining ones before it
+  async function onLoadMore(item: ReplyOrLoadMore, fromId?: number) {
     if (item.loadMore.loading) return;
     mergeLoadMoreItem(item.loadMore.afterId, { loading: true });
 
@@ -711,7 +875,7 @@ let DiscussionViewPage: React.FC<DiscussionViewPageProps> = props => {
       locale: appState.locale,
       queryRepliesType: "IdRange",
       discussionId: discussion.meta.id,
-      afterId: item.loadMore.afterId,
+      afterId: fromId != null ? fromId - 1 : item.loadMore.afterId,
       beforeId: item.loadMore.beforeId,
       idRangeTakeCount: Math.min(item.loadMore.count, appState.serverPreference.pagination.discussionRepliesMore)
     });
@@ -727,6 +891,18 @@ let DiscussionViewPage: React.FC<DiscussionViewPageProps> = props => {
             continue;
           }
 
+          const skippedCount = item.loadMore.count - response.repliesCountInRange;
+          if (fromId != null && skippedCount > 0) {
+            newItems.push({
+              type: "LoadMore",
+              loadMore: {
+                afterId: item.loadMore.afterId,
+                beforeId: fromId,
+                count: skippedCount
+              }
+            });
+          }
+
           if (response.repliesCountInRange === 0) continue;
 
           for (const reply of response.repliesInRange)
@@ -876,12 +1052,59 @@ let DiscussionViewPage: React.FC<DiscussionViewPageProps> = props => {
     }
   }
 
+  async function onReport(type: "Discussion" | "DiscussionReply", id: number, reason: string) {
+    const { requestError, response } = await api.discussion.createDiscussionReport({
+      type,
+      id,
+      reason
+    });
+
+    if (requestError) toast.error(requestError(_));
+    else if (response.error) toast.error(_(`.errors.${response.error}`));
+    else {
+      toast.success(_(".report_success"));
+      return true;
+    }
+
+    return false;
+  }
+
+  async function onSetPinned(isPinned: boolean) {
+    const { requestError, response } = await api.discussion.setDiscussionPinned({
+      discussionId: discussion.meta.id,
+      isPinned
+    });
+
+    if (requestError) toast.error(requestError(_));
+    else if (response.error) toast.error(_(`.errors.${response.error}`));
+    else
+      mergeDiscussion(({ meta }) => ({
+        meta: Object.assign({}, meta, { isPinned })
+      }));
+  }
+
+  async function onSetLocked(isLocked: boolean) {
+    const { requestError, response } = await api.discussion.setDiscussionLocked({
+      discussionId: discussion.meta.id,
+      isLocked
+    });
+
+    if (requestError) toast.error(requestError(_));
+    else if (response.error) toast.error(_(`.errors.${response.error}`));
+    else
+      mergeDiscussion(({ meta }) => ({
+        meta: Object.assign({}, meta, { isLocked })
+      }));
+  }
+
   const [newReplyContent, setNewReplyContent] = useState("");
+  const [newReplyTo, setNewReplyTo] = useState<ApiTypes.DiscussionReplyToDto>(null);
   async function onAddNewReply(content: string) {
     const { requestError, response } = await api.discussion.createDiscussionReply(
       {
         discussionId: discussion.meta.id,
-        content: content
+        content: content,
+        replyToId: newReplyTo?.id
       },
       recaptcha("CreateDiscussionReply")
     );
@@ -896,7 +1119,11 @@ let DiscussionViewPage: React.FC<DiscussionViewPageProps> = props => {
           reply: response.reply
         }
       ]);
+      // The reply may be received from the socket before the response
+      setPendingNewReplies(pendingNewReplies => pendingNewReplies.filter(reply => reply.id !== response.reply.id));
       setNewReplyContent("");
+      setNewReplyTo(null);
+      setTyping(false);
 
       return true;
     }
@@ -959,6 +1186,173 @@ let DiscussionViewPage: React.FC<DiscussionViewPageProps> = props => {
     if (refNewReply.current) refNewReply.current.scrollIntoView();
   }
 
+  // Begin reply-to references
+  function onReply(reply: ApiTypes.DiscussionReplyDto) {
+    setNewReplyTo({ id: reply.id, publisher: reply.publisher, content: reply.content });
+    if (refNewReply.current) refNewReply.current.scrollIntoView();
+  }
+
+  const [highlightedReplyId, setHighlightedReplyId] = useState<number>(null);
+  useEffect(() => {
+    if (highlightedReplyId == null) return;
+    const timeout = setTimeout(() => setHighlightedReplyId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [highlightedReplyId]);
+
+  // The reply to scroll to after it's loaded
+  const refScrollToReplyId = useRef<number>(null);
+  useEffect(() => {
+    const element =
+      refScrollToReplyId.current != null && document.getElementById(`reply-${refScrollToReplyId.current}`);
+    if (!element) return;
+
+    refScrollToReplyId.current = null;
+    element.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [items]);
+
+  async function onJumpToReply(id: number) {
+    setHighlightedReplyId(id);
+    if (items.some(item => item.reply?.id === id)) {
+      document.getElementById(`reply-${id}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+      return;
+    }
+
+    // The reply is hidden in a "load more" gap
+    const loadMoreItem = items.find(
+      item => item.type === "LoadMore" && item.loadMore.afterId < id && id < item.loadMore.beforeId
+    );
+    if (loadMoreItem) {
+      refScrollToReplyId.current = id;
+      await onLoadMore(loadMoreItem, id);
+    }
+  }
+
+  // The URL's hash links to a reply, e.g. from a notification
+  useEffect(() => {
+    const match = /^#reply-(\d+)$/.exec(window.location.hash);
+    if (match) onJumpToReply(Number(match[1]));
+  }, []);
+  // End reply-to references
+
+  // Begin live updates
+  // New replies from others are not shown until the user clicks the banner, to keep the scroll position
+  const [pendingNewReplies, setPendingNewReplies] = useState<ApiTypes.DiscussionReplyDto[]>([]);
+  const [typingUsers, setTypingUsers] = useState<{ user: ApiTypes.UserMetaDto; expireTime: number }[]>([]);
+  const refSocket = useRef<ReturnType<typeof useSocket>>();
+  // The socket handlers are registered once, so read the latest replies from refs
+  const refItems = useRef(items);
+  refItems.current = items;
+  const refPendingNewReplies = useRef(pendingNewReplies);
+  refPendingNewReplies.current = pendingNewReplies;
+
+  // The replies and reactions are sent as visible to the current user, with the current user's permissions
+  useSocket(
+    "discussion",
+    {
+      subscriptionKey: props.response.discussionSubscriptionKey
+    },
+    socket => {
+      refSocket.current = socket;
+
+      socket.on("new-reply", (reply: ApiTypes.DiscussionReplyDto) => {
+        // The replies added in this tab are added to the list with the response of the request
+        if (refItems.current.some(item => item.reply?.id === reply.id)) return;
+        setPendingNewReplies(pendingNewReplies =>
+          pendingNewReplies.some(({ id }) => id === reply.id) ? pendingNewReplies : [...pendingNewReplies, reply]
+        );
+        setTypingUsers(typingUsers => typingUsers.filter(({ user }) => user.id !== reply.publisher.id));
+      });
+      socket.on("update-reply", (reply: ApiTypes.DiscussionReplyDto) => {
+        mergeReplyItem(reply.id, reply);
+        setPendingNewReplies(pendingNewReplies => pendingNewReplies.map(r => (r.id === reply.id ? reply : r)));
+      });
+      socket.on("delete-reply", (id: number) => {
+        setItems(items => items.filter(item => item.reply?.id !== id));
+        // The pending new replies are not counted until shown
+        if (refPendingNewReplies.current.some(reply => reply.id === id))
+          setPendingNewReplies(pendingNewReplies => pendingNewReplies.filter(reply => reply.id !== id));
+        else
+          mergeDiscussion(({ meta }) => ({
+            meta: Object.assign({}, meta, { replyCount: Math.max(0, meta.replyCount - 1) })
+          }));
+      });
+      socket.on("update-discussion", (meta: ApiTypes.DiscussionMetaDto, content: string) => {
+        mergeDiscussion(() => ({ meta, content }));
+      });
+      socket.on(
+        "reactions",
+        (
+          type: "Discussion" | "DiscussionReply",
+          id: number,
+          count: ApiTypes.DiscussionOrReplyReactionsDto["count"]
+        ) => {
+          if (type === "Discussion") mergeDiscussion(discussion => ({ reactions: { ...discussion.reactions, count } }));
+          else mergeReplyItem(id, reply => ({ reactions: { ...reply.reactions, count } }));
+        }
+      );
+      socket.on("typing", (user: ApiTypes.UserMetaDto, typing: boolean) => {
+        if (user.id === appState.currentUser?.id) return;
+        setTypingUsers(typingUsers => [
+          ...typingUsers.filter(typingUser => typingUser.user.id !== user.id),
+          ...(typing ? [{ user, expireTime: Date.now() + TYPING_EXPIRE_INTERVAL }] : [])
+        ]);
+      });
+    },
+    () => {},
+    !!props.response.discussionSubscriptionKey
+  );
+
+  useEffect(() => {
+    if (typingUsers.length === 0) return;
+    const timeout = setTimeout(() => {
+      const now = Date.now();
+      setTypingUsers(typingUsers => typingUsers.filter(({ expireTime }) => expireTime > now));
+    }, Math.max(0, Math.min(...typingUsers.map(({ expireTime }) => expireTime)) - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [typingUsers]);
+
+  const refTyping = useRef<{ lastEmitTime: number; stopTimeout: ReturnType<typeof setTimeout> }>({
+    lastEmitTime: 0,
+    stopTimeout: null
+  });
+  function setTyping(typing: boolean) {
+    const socket = refSocket.current;
+    if (!socket?.connected) return;
+
+    const typingState = refTyping.current;
+    clearTimeout(typingState.stopTimeout);
+    if (typing) {
+      if (Date.now() - typingState.lastEmitTime >= TYPING_EMIT_INTERVAL) {
+        socket.emit("typing", true);
+        typingState.lastEmitTime = Date.now();
+      }
+      typingState.stopTimeout = setTimeout(() => setTyping(false), TYPING_EMIT_INTERVAL);
+    } else if (typingState.lastEmitTime) {
+      socket.emit("typing", false);
+      typingState.lastEmitTime = 0;
+    }
+  }
+
+  function onShowNewReplies() {
+    const firstReplyId = pendingNewReplies[0]?.id;
+    setItems(items => [
+      ...items,
+      ...pendingNewReplies
+        .filter(reply => !items.some(item => item.reply?.id === reply.id))
+        .map<ReplyOrLoadMore>(reply => ({ type: "Reply", reply }))
+    ]);
+    mergeDiscussion(({ meta }) => ({
+      meta: Object.assign({}, meta, { replyCount: meta.replyCount + pendingNewReplies.length })
+    }));
+    setPendingNewReplies([]);
+
+    if (firstReplyId != null) {
+      refScrollToReplyId.current = firstReplyId;
+      setHighlightedReplyId(firstReplyId);
+    }
+  }
+  // End live updates
+
   const refOpenPermissionManager = useRef<() => Promise<boolean>>();
   const permissionManager = (
     <PermissionManager
@@ -1015,6 +1409,9 @@ let DiscussionViewPage: React.FC<DiscussionViewPageProps> = props => {
 
   const isMobile = useScreenWidthWithin(0, 768);
 
+  // The moderators could still reply to locked discussions
+  const newReplyLocked = discussion.meta.isLocked && !appState.currentUserHasPrivilege("ManageDiscussion");
+
   return (
     <>
       {permissionManager}
@@ -1036,6 +1433,29 @@ let DiscussionViewPage: React.FC<DiscussionViewPageProps> = props => {
               }
             )}
           </span>
+          {discussion.meta.isPinned && (
+            <Label className={style.stateLabel} size="small" icon="pin" color="teal" content={_(".label.pinned")} />
+          )}
+          {discussion.meta.isLocked && (
+            <Label className={style.stateLabel} size="small" icon="lock" content={_(".label.locked")} />
+          )}
+          <DiscussionCategoryLabel
+            className={style.stateLabel}
+            category={discussion.meta.category}
+            size="small"
+            onClick={() => navigation.navigate({ pathname: "/d", query: { category: discussion.meta.category } })}
+          />
+          {discussion.meta.tags.map(tag => (
+            <Label
+              key={tag}
+              className={style.stateLabel}
+              size="small"
+              basic
+              content={tag}
+              as={Link}
+              href={{ pathname: "/d", query: { tags: tag } }}
+            />
+          ))}
         </div>
         {!isMobile && <div className={style.actions}>{actions}</div>}
       </div>
@@ -1057,6 +1477,9 @@ let DiscussionViewPage: React.FC<DiscussionViewPageProps> = props => {
           onManagePermission={() => refOpenPermissionManager.current && refOpenPermissionManager.current()}
           onEnterEdit={`/d/${discussion.meta.id}/edit`}
           onDelete={async () => await onDelete("Discussion", discussion.meta.id)}
+          onReport={reason => onReport("Discussion", discussion.meta.id, reason)}
+          onSetPinned={() => onSetPinned(!discussion.meta.isPinned)}
+          onSetLocked={() => onSetLocked(!discussion.meta.isLocked)}
         />
         {items.map((item, i) =>
           item.type === "EditReply" ? (
@@ -1081,13 +1504,20 @@ let DiscussionViewPage: React.FC<DiscussionViewPageProps> = props => {
               publishTime={new Date(item.reply.publishTime)}
               editTime={item.reply.editTime && new Date(item.reply.editTime)}
               permission={item.reply.permissions}
+              id={item.reply.id}
+              replyToId={item.reply.replyToId}
+              replyTo={item.reply.replyTo}
+              highlighted={item.reply.id === highlightedReplyId}
               onReaction={async (emoji: string, reaction: boolean) =>
                 await onReaction("DiscussionReply", item.reply.id, emoji, reaction)
               }
+              onReply={() => onReply(item.reply)}
+              onJumpToReply={onJumpToReply}
               onQuote={() => onQuote(item.reply.publisher.username, item.reply.content)}
               onSetPublic={() => onSetPublic("DiscussionReply", item.reply.id, !item.reply.isPublic)}
               onEnterEdit={() => onEnterEdit(item.reply.id)}
               onDelete={async () => await onDelete("DiscussionReply", item.reply.id)}
+              onReport={reason => onReport("DiscussionReply", item.reply.id, reason)}
             />
           ) : (
             <div key={`LoadMore${i}`} className={style.loadMore}>
@@ -1100,7 +1530,27 @@ let DiscussionViewPage: React.FC<DiscussionViewPageProps> = props => {
             </div>
           )
         )}
-        {appState.currentUser && (
+        {pendingNewReplies.length > 0 && (
+          <div className={style.newRepliesBanner}>
+            <Button
+              primary
+              circular
+              size="small"
+              icon="arrow down"
+              content={_(pendingNewReplies.length === 1 ? ".new_replies.count" : ".new_replies.count_s", {
+                count: pendingNewReplies.length
+              })}
+              onClick={onShowNewReplies}
+            />
+          </div>
+        )}
+        {appState.currentUser && newReplyLocked && (
+          <Segment className={style.lockedNotice} textAlign="center" secondary>
+            <Icon name="lock" />
+            {_(".locked_notice")}
+          </Segment>
+        )}
+        {appState.currentUser && !newReplyLocked && (
           <>
             {!isMobile && <div className={style.dividerBeforeAddReply} />}
             <DiscussionEditor
@@ -1108,7 +1558,13 @@ let DiscussionViewPage: React.FC<DiscussionViewPageProps> = props => {
               publisher={appState.currentUser}
               content={newReplyContent}
               type="NewReply"
-              onChangeContent={setNewReplyContent}
+              replyTo={newReplyTo}
+              onCancelReplyTo={() => setNewReplyTo(null)}
+              typingUsers={typingUsers.map(({ user }) => user)}
+              onChangeContent={content => {
+                setNewReplyContent(content);
+                setTyping(!!content);
+              }}
               onSubmit={onAddNewReply}
             />
           </>
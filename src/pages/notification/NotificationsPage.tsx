@@ -0,0 +1,282 @@
+import React, { useEffect, useState } from "react";
+import { Button, Checkbox, Header, Icon, Menu, Segment } from "semantic-ui-react";
+import { observer } from "mobx-react";
+import { v4 as uuid } from "uuid";
+
+import style from "./NotificationsPage.module.less";
+
+import { defineRoute, RouteError } from "@/AppRouter";
+import { appState } from "@/appState";
+import api from "@/api";
+import { useAsyncCallbackPending, useLocalizer, useNavigationChecked, useScreenWidthWithin, Link } from "@/utils/hooks";
+import toast from "@/utils/toast";
+import { makeToBeLocalizedText } from "@/locales";
+import { Pagination } from "@/components/Pagination";
+import UserLink from "@/components/UserLink";
+import StatusText from "@/components/StatusText";
+import TimeAgo from "@/components/TimeAgo";
+import { EmojiRenderer } from "@/components/EmojiRenderer";
+import { getDiscussionDisplayTitle, getDiscussionUrl } from "@/pages/discussion/utils";
+import { getProblemDisplayName, getProblemUrl } from "@/pages/problem/utils";
+import { NotificationKind, notificationKinds, notificationKindIcons } from "./utils";
+
+// Parsed from querystring, without pagination
+interface NotificationsPageSearchQuery {
+  kind: NotificationKind;
+  unreadOnly: boolean;
+}
+
+const NOTIFICATIONS_PER_PAGE = appState.serverPreference.pagination.notifications;
+
+async function fetchData(
+  searchQuery: NotificationsPageSearchQuery,
+  currentPage: number
+): Promise<ApiTypes.QueryNotificationsResponseDto> {
+  if (!appState.currentUser) throw new RouteError(makeToBeLocalizedText("notifications.not_logged_in"));
+
+  const { requestError, response } = await api.notification.queryNotifications({
+    locale: appState.locale,
+    kind: searchQuery.kind,
+    unreadOnly: searchQuery.unreadOnly,
+    skipCount: NOTIFICATIONS_PER_PAGE * (currentPage - 1),
+    takeCount: NOTIFICATIONS_PER_PAGE
+  });
+
+  if (requestError) throw new RouteError(requestError, { showRefresh: true, showBack: true });
+  else if (response.error) throw new RouteError(makeToBeLocalizedText(`notifications.errors.${response.error}`));
+
+  return response;
+}
+
+function parseSearchQuery(query: Record<string, string>): NotificationsPageSearchQuery {
+  return {
+    kind: notificationKinds.includes(query["kind"] as NotificationKind) ? (query["kind"] as NotificationKind) : null,
+    unreadOnly: query["unread"] != null
+  };
+}
+
+function generateSearchQuery(searchQuery: NotificationsPageSearchQuery): Record<string, string> {
+  const query: Record<string, string> = {};
+  if (searchQuery.kind) query.kind = searchQuery.kind;
+  if (searchQuery.unreadOnly) query.unread = "";
+  return query;
+}
+
+interface NotificationItemProps {
+  notification: ApiTypes.NotificationDto;
+  onRead: () => void;
+}
+
+let NotificationItem: React.FC<NotificationItemProps> = props => {
+  const _ = useLocalizer("notifications");
+
+  const { notification } = props;
+
+  function getMessage() {
+    switch (notification.kind) {
+      case "Mention":
+      case "Reply":
+        return (
+          <>
+            <UserLink user={notification.user} />
+            {_(`.message.${notification.kind}.before`)}
+            <EmojiRenderer>
+              <Link
+                href={{
+                  pathname: getDiscussionUrl(notification.discussion),
+                  hash: notification.discussionReplyId ? `reply-${notification.discussionReplyId}` : ""
+                }}
+                onClick={props.onRead}
+              >
+                {getDiscussionDisplayTitle(notification.discussion.title, _)}
+              </Link>
+            </EmojiRenderer>
+            {_(`.message.${notification.kind}.after`)}
+          </>
+        );
+      case "SubmissionJudged":
+        return (
+          <>
+            {_(".message.SubmissionJudged.before")}
+            <Link href={`/s/${notification.submission.id}`} onClick={props.onRead}>
+              #{notification.submission.id}
+            </Link>
+            {_(".message.SubmissionJudged.middle")}
+            <EmojiRenderer>
+              <Link href={getProblemUrl(notification.submission.problem)}>
+                {getProblemDisplayName(notification.submission.problem, notification.submission.problemTitle, _, "all")}
+              </Link>
+            </EmojiRenderer>
+            {_(".message.SubmissionJudged.after")}
+            <StatusText status={notification.submission.status} />
+          </>
+        );
+      case "ProblemPermissionGranted": {
+        const level = _(`.permission_level.${notification.permissionLevel}`);
+        return (
+          <>
+            <UserLink user={notification.user} />
+            {_(".message.ProblemPermissionGranted.before", { level })}
+            <EmojiRenderer>
+              <Link href={getProblemUrl(notification.problem)} onClick={props.onRead}>
+                {getProblemDisplayName(notification.problem, notification.problemTitle, _, "all")}
+              </Link>
+            </EmojiRenderer>
+            {_(".message.ProblemPermissionGranted.after", { level })}
+          </>
+        );
+      }
+    }
+  }
+
+  return (
+    <Segment className={style.item + (notification.read ? "" : " " + style.unread)}>
+      <Icon className={style.kindIcon} name={notificationKindIcons[notification.kind]} />
+      <div className={style.message}>{getMessage()}</div>
+      <div className={style.time}>
+        <TimeAgo time={new Date(notification.time)} />
+      </div>
+      {!notification.read && (
+        <Icon className={style.markRead} name="check" link title={_(".mark_read")} onClick={props.onRead} />
+      )}
+    </Segment>
+  );
+};
+
+NotificationItem = observer(NotificationItem);
+
+interface NotificationsPageProps {
+  searchQuery: NotificationsPageSearchQuery;
+  currentPage: number;
+  response: ApiTypes.QueryNotificationsResponseDto;
+}
+
+let NotificationsPage: React.FC<NotificationsPageProps> = props => {
+  const _ = useLocalizer("notifications");
+  const navigation = useNavigationChecked();
+
+  useEffect(() => {
+    appState.enterNewPage(_(".title"));
+  }, [appState.locale]);
+
+  useEffect(() => {
+    appState.currentUserUnreadNotificationCount = props.response.unreadCount;
+  }, [props.response]);
+
+  const isMobile = useScreenWidthWithin(0, 768);
+
+  const [notifications, setNotifications] = useState(props.response.notifications);
+
+  function redirectWithFilter(filter: Partial<NotificationsPageSearchQuery>) {
+    navigation.navigate({
+      query: generateSearchQuery(Object.assign({}, props.searchQuery, filter))
+    });
+  }
+
+  async function markRead(notificationIds?: number[]) {
+    const { requestError, response } = await api.notification.markNotificationsRead({ notificationIds });
+    if (requestError) toast.error(requestError(_));
+    else if (response.error) toast.error(_(`.errors.${response.error}`));
+    else {
+      setNotifications(notifications =>
+        notifications.map(notification =>
+          !notificationIds || notificationIds.includes(notification.id)
+            ? Object.assign({}, notification, { read: true })
+            : notification
+        )
+      );
+      appState.currentUserUnreadNotificationCount = response.unreadCount;
+    }
+  }
+
+  const [pendingMarkAllRead, onMarkAllRead] = useAsyncCallbackPending(() => markRead());
+
+  const getPagination = () =>
+    props.response.count <= NOTIFICATIONS_PER_PAGE ? null : (
+      <Pagination
+        totalCount={props.response.count}
+        currentPage={props.currentPage}
+        itemsPerPage={NOTIFICATIONS_PER_PAGE}
+        pageUrl={page => ({
+          query: Object.assign(
+            {
+              page: page.toString()
+            },
+            generateSearchQuery(props.searchQuery)
+          )
+        })}
+      />
+    );
+
+  return (
+    <>
+      <div className={style.headerRow}>
+        <Header as="h1" className={style.header}>
+          {_(".header")}
+        </Header>
+        <Checkbox
+          className={style.unreadOnly}
+          toggle
+          label={_(".unread_only")}
+          checked={props.searchQuery.unreadOnly}
+          onChange={(e, { checked }) => redirectWithFilter({ unreadOnly: checked })}
+        />
+        <Button
+          className={style.markAllRead}
+          size={isMobile ? "small" : null}
+          icon="check"
+          content={_(".mark_all_read")}
+          loading={pendingMarkAllRead}
+          disabled={appState.currentUserUnreadNotificationCount === 0}
+          onClick={onMarkAllRead}
+        />
+      </div>
+      <Menu className={style.kindMenu} pointing secondary>
+        <Menu.Item
+          content={_(".kinds.all")}
+          active={!props.searchQuery.kind}
+          onClick={() => redirectWithFilter({ kind: null })}
+        />
+        {notificationKinds.map(kind => (
+          <Menu.Item
+            key={kind}
+            icon={isMobile ? notificationKindIcons[kind] : null}
+            content={isMobile ? null : _(`.kinds.${kind}`)}
+            title={_(`.kinds.${kind}`)}
+            active={props.searchQuery.kind === kind}
+            onClick={() => redirectWithFilter({ kind })}
+          />
+        ))}
+      </Menu>
+      {notifications.length === 0 ? (
+        <Segment placeholder>
+          <Header icon>
+            <Icon name="bell slash" />
+            {_(props.searchQuery.unreadOnly ? ".no_notifications.message_unread" : ".no_notifications.message")}
+          </Header>
+        </Segment>
+      ) : (
+        <Segment.Group className={style.list}>
+          {notifications.map(notification => (
+            <NotificationItem
+              key={notification.id}
+              notification={notification}
+              onRead={() => !notification.read && markRead([notification.id])}
+            />
+          ))}
+        </Segment.Group>
+      )}
+      <div className={style.pagination}>{getPagination()}</div>
+    </>
+  );
+};
+
+NotificationsPage = observer(NotificationsPage);
+
+export default defineRoute(async request => {
+  const page = parseInt(request.query.page) || 1;
+  const searchQuery = parseSearchQuery(request.query);
+  const response = await fetchData(searchQuery, page);
+
+  return <NotificationsPage key={uuid()} searchQuery={searchQuery} currentPage={page} response={response} />;
+});
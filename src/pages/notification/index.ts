@@ -0,0 +1,3 @@
+import { lazy } from "navi";
+
+export default lazy(() => import("./NotificationsPage"));
@@ -0,0 +1,17 @@
+import { SemanticICONS } from "semantic-ui-react";
+
+export type NotificationKind = ApiTypes.NotificationDto["kind"];
+
+export const notificationKinds: NotificationKind[] = [
+  "Mention",
+  "Reply",
+  "SubmissionJudged",
+  "ProblemPermissionGranted"
+];
+
+export const notificationKindIcons: Record<NotificationKind, SemanticICONS> = {
+  Mention: "at",
+  Reply: "reply",
+  SubmissionJudged: "hourglass half",
+  ProblemPermissionGranted: "key"
+};
@@ -45,6 +45,7 @@ import { makeToBeLocalizedText } from "@/locales";
 import { LocalizeTab } from "@/components/LocalizeTab";
 import { getMarkdownEditorFontClass } from "@/misc/fonts";
 import defaultSections from "./defaultSections";
+import ProblemPackageCreator from "../files/import/ProblemPackageCreator";
 
 type Problem = ApiTypes.GetProblemResponseDto;
 
@@ -1129,6 +1130,16 @@ let ProblemEditPage: React.FC<ProblemEditPageProps> = props => {
                   />
                 </Menu>
               )}
+              {props.new && (
+                <ProblemPackageCreator
+                  className={style.importPackageButton}
+                  disabled={pendingSubmit}
+                  onCreated={problemId => {
+                    setModified(false);
+                    navigation.navigate(getProblemUrl(problemId));
+                  }}
+                />
+              )}
               <Popup
                 trigger={
                   <Button
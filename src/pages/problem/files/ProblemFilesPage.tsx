@@ -16,7 +16,6 @@ import {
 } from "semantic-ui-react";
 import { v4 as uuid } from "uuid";
 import isEqual from "lodash/isEqual";
-import streamsaver from "streamsaver";
 import pAll from "p-all";
 import { useDebounce } from "use-debounce";
 
@@ -25,12 +24,20 @@ import style from "./ProblemFilesPage.module.less";
 import api from "@/api";
 import { appState } from "@/appState";
 import toast from "@/utils/toast";
-import { useAsyncCallbackPending, useLocalizer, useRecaptcha, useScreenWidthWithin, Link } from "@/utils/hooks";
+import {
+  useAsyncCallbackPending,
+  useLocalizer,
+  useNavigationChecked,
+  useRecaptcha,
+  useScreenWidthWithin,
+  Link
+} from "@/utils/hooks";
 import getFileIcon from "@/utils/getFileIcon";
 import formatFileSize from "@/utils/formatFileSize";
 import downloadFile from "@/utils/downloadFile";
 import openUploadDialog from "@/utils/openUploadDialog";
 import pipeStream from "@/utils/pipeStream";
+import streamsaver from "@/utils/streamsaver";
 import { observer } from "mobx-react";
 import { defineRoute, RouteError } from "@/AppRouter";
 import { callApiWithFileUpload } from "@/utils/callApiWithFileUpload";
@@ -40,14 +47,7 @@ import { onEnterPress } from "@/utils/onEnterPress";
 import { isValidFilename } from "@/utils/validators";
 import { Localizer, makeToBeLocalizedText } from "@/locales";
 import { EmojiRenderer } from "@/components/EmojiRenderer";
-
-// Firefox have no WritableStream
-if (!window.WritableStream || true) {
-  (streamsaver as any).WritableStream = (await import("web-streams-polyfill/ponyfill/es6")).WritableStream;
-}
-if (window.apiEndpoint.toLowerCase().startsWith("https://")) {
-  (streamsaver as any).mitm = `${window.apiEndpoint}api/cors/streamsaver/mitm.html`;
-}
+import ProblemPackageImporter from "./import/ProblemPackageImporter";
 
 export async function downloadProblemFile(
   problemId: number,
@@ -87,27 +87,46 @@ export async function downloadProblemFilesAsArchive(
 
   if (downloadInfo.length === 0) return toast.error(_("problem_files.no_files_to_download"));
 
+  await downloadArchive(filename, downloadInfo, _);
+}
+
+export interface ArchiveEntry {
+  filename: string;
+  // Either a URL to fetch or the content of the file
+  downloadUrl?: string;
+  blob?: Blob;
+}
+
+export async function downloadArchive(filename: string, entries: ArchiveEntry[], _: Localizer) {
   const fileStream = streamsaver.createWriteStream(filename);
   let i = 0;
   const zipStream = createZipStream({
     async pull(ctrl) {
-      if (i == downloadInfo.length) return ctrl.close();
+      if (i == entries.length) return ctrl.close();
 
       try {
-        const response = await fetch(downloadInfo[i].downloadUrl);
-        if (!response.ok) {
-          throw response.statusText;
-        }
+        const entry = entries[i];
+        if (entry.blob) {
+          ctrl.enqueue({
+            name: entry.filename,
+            stream: () => new Response(entry.blob).body
+          });
+        } else {
+          const response = await fetch(entry.downloadUrl);
+          if (!response.ok) {
+            throw response.statusText;
+          }
 
-        ctrl.enqueue({
-          name: downloadInfo[i].filename,
-          stream: () => response.body
-        });
+          ctrl.enqueue({
+            name: entry.filename,
+            stream: () => response.body
+          });
+        }
       } catch (e) {
         stopDownload();
         toast.error(
           _("problem_files.download_as_archive_error", {
-            filename: downloadInfo[i].filename,
+            filename: entries[i].filename,
             error: e.toString()
           })
         );
@@ -676,6 +695,7 @@ let ProblemFilesPage: React.FC<ProblemFilesPageProps> = props => {
   }, [appState.locale, props.problem]);
 
   const recaptcha = useRecaptcha();
+  const navigation = useNavigationChecked();
 
   function transformResponseToFileTableItems(fileList: ApiTypes.ProblemFileDto[]): FileTableItem[] {
     return fileList.map(file => ({
@@ -861,6 +881,9 @@ let ProblemFilesPage: React.FC<ProblemFilesPageProps> = props => {
               href={getProblemUrl(props.problem.meta)}
               content={_(".back_to_problem")}
             />
+            {props.problem.permissionOfCurrentUser.includes("Modify") && (
+              <ProblemPackageImporter problem={props.problem} onImported={() => navigation.refresh()} />
+            )}
           </>
         }
       />
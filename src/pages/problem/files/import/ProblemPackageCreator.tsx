@@ -0,0 +1,237 @@
+import React, { useState } from "react";
+import { Button, Header, Message, Progress, Table } from "semantic-ui-react";
+import { observer } from "mobx-react";
+
+import style from "./ProblemPackageImporter.module.less";
+
+import api from "@/api";
+import toast from "@/utils/toast";
+import { useDialog, useLocalizer, useRecaptcha } from "@/utils/hooks";
+import openUploadDialog from "@/utils/openUploadDialog";
+import formatFileSize from "@/utils/formatFileSize";
+import { readZip, ZipDecompressionUnsupportedError } from "@/utils/zip";
+import { ProblemPackageError } from "./packageFormats";
+import { ProblemPackage, matchProblemTags, parseProblemPackageArchive, uploadImportedFiles } from "./problemPackage";
+
+interface ProblemPackageCreatorProps {
+  className?: string;
+  disabled?: boolean;
+  onCreated: (problemId: number) => void;
+}
+
+// Create a new problem from a problem package exported by us
+let ProblemPackageCreator: React.FC<ProblemPackageCreatorProps> = props => {
+  const _ = useLocalizer("problem_files");
+  const recaptcha = useRecaptcha();
+
+  const [problemPackage, setProblemPackage] = useState<ProblemPackage>(null);
+  const [tagIds, setTagIds] = useState<number[]>([]);
+  const [unmatchedTagNames, setUnmatchedTagNames] = useState<string[]>([]);
+
+  const [pending, setPending] = useState(false);
+  const [progress, setProgress] = useState<{ uploaded: number; total: number }>(null);
+
+  function onSelectPackage() {
+    openUploadDialog(async files => {
+      if (files.length === 0) return;
+
+      setPending(true);
+      try {
+        const result = await parseProblemPackageArchive(await readZip(files[0]));
+        if (!result) throw new ProblemPackageError("UNKNOWN_FORMAT");
+
+        const { tagIds, unmatchedTagNames } = await matchProblemTags(result.manifest.tags, _);
+        setProblemPackage(result);
+        setTagIds(tagIds);
+        setUnmatchedTagNames(unmatchedTagNames);
+        dialog.open();
+      } catch (e) {
+        console.error("Error parsing problem package", e);
+        if (e instanceof ProblemPackageError) toast.error(_(`.import.error.${e.type}`, { filename: e.message }));
+        else if (e instanceof ZipDecompressionUnsupportedError)
+          toast.error(_(".import.error.DECOMPRESSION_UNSUPPORTED"));
+        else toast.error(_(".import.error.INVALID_ARCHIVE"));
+      }
+      setPending(false);
+    }, ".zip");
+  }
+
+  async function onCreate() {
+    if (pending) return;
+    setPending(true);
+
+    try {
+      const { manifest, testData, additionalFiles } = problemPackage;
+      const { requestError, response } = await api.problem.createProblem(
+        {
+          type: manifest.type,
+          statement: {
+            localizedContents: manifest.localizedContents,
+            samples: manifest.samples,
+            problemTagIds: tagIds
+          }
+        },
+        recaptcha("CreateProblem")
+      );
+      if (requestError) toast.error(requestError(_));
+      else if (response.error) toast.error(_(`problem_edit.error.${response.error}`));
+      else {
+        const problemId = response.id;
+        const total = testData.length + additionalFiles.length;
+        setProgress({ uploaded: 0, total });
+
+        // The problem has been created, so go to it even if failed to upload its files or judge settings
+        if (
+          (await uploadImportedFiles(
+            problemId,
+            "TestData",
+            testData,
+            () => recaptcha("AddProblemFile"),
+            uploaded => setProgress({ uploaded, total }),
+            _
+          )) &&
+          (await uploadImportedFiles(
+            problemId,
+            "AdditionalFile",
+            additionalFiles,
+            () => recaptcha("AddProblemFile"),
+            uploaded => setProgress({ uploaded: testData.length + uploaded, total }),
+            _
+          )) &&
+          (await updateJudgeInfo(problemId))
+        )
+          toast.success(_(".import.success"));
+
+        dialog.close();
+        props.onCreated(problemId);
+      }
+    } finally {
+      setProgress(null);
+      setPending(false);
+    }
+  }
+
+  async function updateJudgeInfo(problemId: number): Promise<boolean> {
+    const { manifest } = problemPackage;
+    if (!manifest.judgeInfo) return true;
+
+    const { requestError, response } = await api.problem.updateProblemJudgeInfo({
+      problemId,
+      judgeInfo: manifest.judgeInfo,
+      submittable: manifest.submittable ?? true
+    });
+    if (requestError) {
+      toast.error(requestError(_));
+      return false;
+    } else if (response.error === "INVALID_JUDGE_INFO") {
+      toast.error(
+        _(`problem_judge_settings.error.INVALID_JUDGE_INFO.${response.judgeInfoError[0]}`, response.judgeInfoError)
+      );
+      return false;
+    } else if (response.error) {
+      toast.error(_(`.error.${response.error}`));
+      return false;
+    }
+    return true;
+  }
+
+  const dialog = useDialog(
+    {
+      closeOnDimmerClick: !pending,
+      onClose: () => !pending && dialog.close()
+    },
+    () => <Header icon="archive" content={_(".import.header_create")} />,
+    () =>
+      problemPackage && (
+        <>
+          <Table definition unstackable compact className={style.summary}>
+            <Table.Body>
+              <Table.Row>
+                <Table.Cell width={4}>{_(".import.statement")}</Table.Cell>
+                <Table.Cell>{problemPackage.manifest.localizedContents[0].title}</Table.Cell>
+              </Table.Row>
+              <Table.Row>
+                <Table.Cell>{_(".import.type")}</Table.Cell>
+                <Table.Cell>{_(`problem.type.${problemPackage.manifest.type}`)}</Table.Cell>
+              </Table.Row>
+              <Table.Row>
+                <Table.Cell>{_(".import.locales")}</Table.Cell>
+                <Table.Cell>
+                  {problemPackage.manifest.localizedContents
+                    .map(localizedContent => _(`language.${localizedContent.locale}`))
+                    .join(", ")}
+                </Table.Cell>
+              </Table.Row>
+              <Table.Row>
+                <Table.Cell>{_(".import.samples")}</Table.Cell>
+                <Table.Cell>{problemPackage.manifest.samples.length}</Table.Cell>
+              </Table.Row>
+              <Table.Row>
+                <Table.Cell>{_(".import.tags")}</Table.Cell>
+                <Table.Cell>{tagIds.length}</Table.Cell>
+              </Table.Row>
+              {(
+                [
+                  [".import.testdata", problemPackage.testData],
+                  [".import.additional_files", problemPackage.additionalFiles]
+                ] as const
+              ).map(([title, files]) => (
+                <Table.Row key={title}>
+                  <Table.Cell>{_(title)}</Table.Cell>
+                  <Table.Cell>
+                    {_(".files_count_and_size", {
+                      count: String(files.length),
+                      totalSize: formatFileSize(
+                        files.reduce((size, file) => size + file.size, 0),
+                        1
+                      )
+                    })}
+                  </Table.Cell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table>
+          {unmatchedTagNames.length > 0 && (
+            <Message
+              warning
+              header={_(".import.warnings")}
+              content={_(".import.warning.UNMATCHED_TAGS", { tags: unmatchedTagNames.join(", ") })}
+            />
+          )}
+          {progress && (
+            <Progress
+              className={style.progress}
+              indicating
+              value={progress.uploaded}
+              total={progress.total}
+              label={_(".import.uploading", { uploaded: String(progress.uploaded), total: String(progress.total) })}
+            />
+          )}
+        </>
+      ),
+    () => (
+      <>
+        <Button content={_(".import.cancel")} disabled={pending} onClick={() => dialog.close()} />
+        <Button positive content={_(".import.create")} loading={pending} onClick={onCreate} />
+      </>
+    )
+  );
+
+  return (
+    <>
+      {dialog.element}
+      <Button
+        className={props.className}
+        icon="archive"
+        content={_(".import.button")}
+        disabled={props.disabled}
+        loading={pending && !dialog.isOpen}
+        onClick={onSelectPackage}
+      />
+    </>
+  );
+};
+
+ProblemPackageCreator = observer(ProblemPackageCreator);
+
+export default ProblemPackageCreator;
@@ -0,0 +1,415 @@
+import React, { useState } from "react";
+import { Button, Checkbox, Dropdown, Header, Message, Popup, Progress, Table } from "semantic-ui-react";
+import { observer } from "mobx-react";
+import cloneDeep from "lodash/cloneDeep";
+
+import style from "./ProblemPackageImporter.module.less";
+
+import api from "@/api";
+import { appState } from "@/appState";
+import toast from "@/utils/toast";
+import { useDialog, useLocalizer, useRecaptcha } from "@/utils/hooks";
+import openUploadDialog from "@/utils/openUploadDialog";
+import formatFileSize from "@/utils/formatFileSize";
+import { readZip, ZipDecompressionUnsupportedError } from "@/utils/zip";
+import { Locale } from "@/interfaces/Locale";
+import { ProblemType } from "@/interfaces/ProblemType";
+import defaultSections from "../../edit/defaultSections";
+import { JudgeInfoTraditional } from "../../judge-settings/types/TraditionalProblemEditor";
+import {
+  ImportedProblem,
+  ImportedStatement,
+  ProblemPackageError,
+  ProblemPackageFormat,
+  parseProblemPackage
+} from "./packageFormats";
+import { uploadImportedFiles } from "./problemPackage";
+
+// Convert an imported statement to the sections of the default section titles of its locale
+function getLocalizedContent(
+  statement: ImportedStatement,
+  locale: Locale,
+  sampleIdOffset: number
+): ApiTypes.ProblemLocalizedContentDto {
+  const [description, inputFormat, outputFormat, sample, notes] = defaultSections[locale];
+  const textSection = (sectionTitle: string, text: string): ApiTypes.ProblemContentSectionDto[] =>
+    text ? [{ sectionTitle, type: "Text", text }] : [];
+
+  return {
+    locale,
+    title: statement.title,
+    contentSections: [
+      ...textSection(description.sectionTitle, statement.description),
+      ...textSection(inputFormat.sectionTitle, statement.inputFormat),
+      ...textSection(outputFormat.sectionTitle, statement.outputFormat),
+      ...statement.samples.map<ApiTypes.ProblemContentSectionDto>((_, i) => ({
+        sectionTitle: statement.samples.length > 1 ? `${sample.sectionTitle} ${i + 1}` : sample.sectionTitle,
+        type: "Sample",
+        sampleId: sampleIdOffset + i,
+        text: ""
+      })),
+      ...textSection(notes.sectionTitle, statement.notes)
+    ]
+  };
+}
+
+interface ProblemPackageImporterProps {
+  problem: ApiTypes.GetProblemResponseDto;
+  onImported: () => void;
+}
+
+let ProblemPackageImporter: React.FC<ProblemPackageImporterProps> = props => {
+  const _ = useLocalizer("problem_files");
+  const recaptcha = useRecaptcha();
+
+  const [format, setFormat] = useState<ProblemPackageFormat>(null);
+  const [problems, setProblems] = useState<ImportedProblem[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const problem = problems[selectedIndex];
+
+  const [clearTestData, setClearTestData] = useState(false);
+  const [importJudgeInfo, setImportJudgeInfo] = useState(true);
+  const [importStatement, setImportStatement] = useState(true);
+
+  const [pending, setPending] = useState(false);
+  const [progress, setProgress] = useState<{ uploaded: number; total: number }>(null);
+
+  function onSelectPackage() {
+    openUploadDialog(async files => {
+      if (files.length === 0) return;
+
+      setPending(true);
+      try {
+        const result = await parseProblemPackage(await readZip(files[0]));
+        setFormat(result.format);
+        setProblems(result.problems);
+        setSelectedIndex(0);
+        dialog.open();
+      } catch (e) {
+        console.error("Error parsing problem package", e);
+        if (e instanceof ProblemPackageError) toast.error(_(`.import.error.${e.type}`, { filename: e.message }));
+        else if (e instanceof ZipDecompressionUnsupportedError)
+          toast.error(_(".import.error.DECOMPRESSION_UNSUPPORTED"));
+        else toast.error(_(".import.error.INVALID_ARCHIVE"));
+      }
+      setPending(false);
+    }, ".zip");
+  }
+
+  async function uploadTestData(): Promise<boolean> {
+    const problemId = props.problem.meta.id;
+
+    if (clearTestData && props.problem.testData.length > 0) {
+      const { requestError, response } = await api.problem.removeProblemFiles({
+        problemId,
+        type: "TestData",
+        filenames: props.problem.testData.map(file => file.filename)
+      });
+      if (requestError) {
+        toast.error(requestError(_));
+        return false;
+      } else if (response.error) {
+        toast.error(_(`.error.${response.error}`));
+        return false;
+      }
+    }
+
+    setProgress({ uploaded: 0, total: problem.testData.length });
+    return await uploadImportedFiles(
+      problemId,
+      "TestData",
+      problem.testData,
+      () => recaptcha("AddProblemFile"),
+      uploaded => setProgress({ uploaded, total: problem.testData.length }),
+      _
+    );
+  }
+
+  async function updateJudgeInfo(): Promise<boolean> {
+    const problemId = props.problem.meta.id;
+
+    if (props.problem.meta.type !== ProblemType.Traditional) {
+      const { requestError, response } = await api.problem.changeProblemType({
+        problemId,
+        type: ProblemType.Traditional
+      });
+      if (requestError) {
+        toast.error(requestError(_));
+        return false;
+      } else if (response.error) {
+        toast.error(_(`problem_judge_settings.error.${response.error}`));
+        return false;
+      }
+    }
+
+    const testData = [
+      ...(clearTestData ? [] : props.problem.testData),
+      ...problem.testData.map(file => ({ uuid: null, filename: file.filename, size: file.size }))
+    ];
+    const TraditionalProblemEditor = (await import("../../judge-settings/types/TraditionalProblemEditor")).default;
+    // The parsed judge info has all fields filled with defaults
+    const judgeInfo = cloneDeep(
+      TraditionalProblemEditor.parseJudgeInfo(problem.judgeInfo, testData)
+    ) as JudgeInfoTraditional;
+    TraditionalProblemEditor.normalizeJudgeInfo(judgeInfo);
+
+    const { requestError, response } = await api.problem.updateProblemJudgeInfo({
+      problemId,
+      judgeInfo,
+      submittable: true
+    });
+    if (requestError) {
+      toast.error(requestError(_));
+      return false;
+    } else if (response.error === "INVALID_JUDGE_INFO") {
+      toast.error(
+        _(`problem_judge_settings.error.INVALID_JUDGE_INFO.${response.judgeInfoError[0]}`, response.judgeInfoError)
+      );
+      return false;
+    } else if (response.error) {
+      toast.error(_(`.error.${response.error}`));
+      return false;
+    }
+    return true;
+  }
+
+  async function updateStatement(): Promise<boolean> {
+    const problemId = props.problem.meta.id;
+    const locale = problem.statement.locale || appState.contentLocale;
+
+    const { requestError, response } = await api.problem.getProblem({
+      id: problemId,
+      localizedContentsOfAllLocales: true,
+      tagsOfLocale: appState.contentLocale,
+      samples: true
+    });
+    if (requestError) {
+      toast.error(requestError(_));
+      return false;
+    } else if (response.error) {
+      toast.error(_(`.error.${response.error}`));
+      return false;
+    }
+
+    // Keep the samples referenced by other locales
+    const otherLocalizedContents = response.localizedContentsOfAllLocales.filter(
+      localizedContent => localizedContent.locale !== locale
+    );
+    const samples = otherLocalizedContents.length > 0 ? response.samples : [];
+
+    const { requestError: updateRequestError, response: updateResponse } = await api.problem.updateStatement({
+      problemId,
+      localizedContents: [
+        ...otherLocalizedContents,
+        getLocalizedContent(
+          { ...problem.statement, title: problem.statement.title || problem.name },
+          locale as Locale,
+          samples.length
+        )
+      ],
+      samples: [...samples, ...problem.statement.samples],
+      problemTagIds: response.tagsOfLocale.map(tag => tag.id)
+    });
+    if (updateRequestError) {
+      toast.error(updateRequestError(_));
+      return false;
+    } else if (updateResponse.error) {
+      toast.error(_(`problem_edit.error.${updateResponse.error}`));
+      return false;
+    }
+    return true;
+  }
+
+  async function onImport() {
+    if (pending) return;
+    setPending(true);
+
+    // The files are extracted from the archive when uploading, which throws on unsupported or corrupted entries
+    try {
+      if (
+        (await uploadTestData()) &&
+        (!importJudgeInfo || (await updateJudgeInfo())) &&
+        (!importStatement || !problem.statement || (await updateStatement()))
+      ) {
+        toast.success(_(".import.success"));
+        dialog.close();
+        props.onImported();
+      }
+    } catch (e) {
+      console.error("Error importing problem package", e);
+      if (e instanceof ZipDecompressionUnsupportedError) toast.error(_(".import.error.DECOMPRESSION_UNSUPPORTED"));
+      else toast.error(_(".import.upload_error", { error: e instanceof Error ? e.message : String(e) }));
+    } finally {
+      setProgress(null);
+      setPending(false);
+    }
+  }
+
+  // Importing judge settings to a problem of another type switches it to traditional, which loses its judge settings
+  const switchingType = importJudgeInfo && props.problem.meta.type !== ProblemType.Traditional;
+  const [confirmSwitchTypePopupOpen, setConfirmSwitchTypePopupOpen] = useState(false);
+
+  const testcaseCount =
+    problem?.judgeInfo.subtasks?.reduce((count: number, subtask: any) => count + subtask.testcases.length, 0) ?? 0;
+
+  const dialog = useDialog(
+    {
+      closeOnDimmerClick: !pending,
+      onClose: () => !pending && dialog.close()
+    },
+    () => <Header icon="archive" content={_(".import.header")} />,
+    () =>
+      problem && (
+        <>
+          <Table definition unstackable compact className={style.summary}>
+            <Table.Body>
+              <Table.Row>
+                <Table.Cell width={4}>{_(".import.format")}</Table.Cell>
+                <Table.Cell>{_(`.import.formats.${format}`)}</Table.Cell>
+              </Table.Row>
+              {problems.length > 1 && (
+                <Table.Row>
+                  <Table.Cell>{_(".import.problem")}</Table.Cell>
+                  <Table.Cell>
+                    <Dropdown
+                      selection
+                      disabled={pending}
+                      value={selectedIndex}
+                      options={problems.map((problem, i) => ({ key: i, value: i, text: problem.name }))}
+                      onChange={(e, { value }) => setSelectedIndex(value as number)}
+                    />
+                  </Table.Cell>
+                </Table.Row>
+              )}
+              <Table.Row>
+                <Table.Cell>{_(".import.testdata")}</Table.Cell>
+                <Table.Cell>
+                  {_(".files_count_and_size", {
+                    count: String(problem.testData.length),
+                    totalSize: formatFileSize(
+                      problem.testData.reduce((size, file) => size + file.size, 0),
+                      1
+                    )
+                  })}
+                </Table.Cell>
+              </Table.Row>
+              <Table.Row>
+                <Table.Cell>{_(".import.subtasks")}</Table.Cell>
+                <Table.Cell>
+                  {_(".import.subtasks_and_testcases", {
+                    subtasks: String(problem.judgeInfo.subtasks?.length ?? 0),
+                    testcases: String(testcaseCount)
+                  })}
+                </Table.Cell>
+              </Table.Row>
+              <Table.Row>
+                <Table.Cell>{_(".import.limits")}</Table.Cell>
+                <Table.Cell>{`${problem.judgeInfo.timeLimit} ms / ${problem.judgeInfo.memoryLimit} MiB`}</Table.Cell>
+              </Table.Row>
+              <Table.Row>
+                <Table.Cell>{_(".import.checker")}</Table.Cell>
+                <Table.Cell>
+                  {problem.judgeInfo.checker
+                    ? _(`problem_judge_settings.checker.types.${problem.judgeInfo.checker.type}`) +
+                      (problem.judgeInfo.checker.type === "custom"
+                        ? ` (${_(
+                            `problem_judge_settings.checker.config.custom.interfaces.${problem.judgeInfo.checker.interface}`
+                          )})`
+                        : "")
+                    : _(".import.default_checker")}
+                </Table.Cell>
+              </Table.Row>
+              <Table.Row>
+                <Table.Cell>{_(".import.statement")}</Table.Cell>
+                <Table.Cell>
+                  {problem.statement ? problem.statement.title || problem.name : _(".import.none")}
+                </Table.Cell>
+              </Table.Row>
+            </Table.Body>
+          </Table>
+          {problem.warnings.length > 0 && (
+            <Message
+              warning
+              header={_(".import.warnings")}
+              list={problem.warnings.map(warning =>
+                _(`.import.warning.${warning.type}`, { filename: warning.filename })
+              )}
+            />
+          )}
+          <div className={style.options}>
+            <Checkbox
+              label={_(".import.clear_testdata")}
+              disabled={pending}
+              checked={clearTestData}
+              onChange={(e, { checked }) => setClearTestData(checked)}
+            />
+            <Checkbox
+              label={_(".import.import_judge_info")}
+              disabled={pending}
+              checked={importJudgeInfo}
+              onChange={(e, { checked }) => setImportJudgeInfo(checked)}
+            />
+            <Checkbox
+              label={_(".import.import_statement")}
+              disabled={pending || !problem.statement}
+              checked={importStatement && !!problem.statement}
+              onChange={(e, { checked }) => setImportStatement(checked)}
+            />
+          </div>
+          {progress && (
+            <Progress
+              className={style.progress}
+              indicating
+              value={progress.uploaded}
+              total={progress.total}
+              label={_(".import.uploading", { uploaded: String(progress.uploaded), total: String(progress.total) })}
+            />
+          )}
+        </>
+      ),
+    () => (
+      <>
+        <Button content={_(".import.cancel")} disabled={pending} onClick={() => dialog.close()} />
+        {switchingType ? (
+          <Popup
+            trigger={<Button positive content={_(".import.import")} loading={pending} />}
+            content={
+              <Button
+                negative
+                content={_(".import.confirm_switch_type", { type: _(`problem.type.${props.problem.meta.type}`) })}
+                onClick={() => {
+                  setConfirmSwitchTypePopupOpen(false);
+                  onImport();
+                }}
+              />
+            }
+            open={confirmSwitchTypePopupOpen && !pending}
+            onOpen={() => setConfirmSwitchTypePopupOpen(true)}
+            onClose={() => setConfirmSwitchTypePopupOpen(false)}
+            position="top center"
+            on="click"
+          />
+        ) : (
+          <Button positive content={_(".import.import")} loading={pending} onClick={onImport} />
+        )}
+      </>
+    )
+  );
+
+  return (
+    <>
+      {dialog.element}
+      <Button
+        className={style.button}
+        icon="archive"
+        content={_(".import.button")}
+        loading={pending && !dialog.isOpen}
+        onClick={onSelectPackage}
+      />
+    </>
+  );
+};
+
+ProblemPackageImporter = observer(ProblemPackageImporter);
+
+export default ProblemPackageImporter;
@@ -0,0 +1,718 @@
+import yaml from "js-yaml";
+
+import { CodeLanguage, checkCodeFileExtension, getPreferredCompileAndRunOptions } from "@/interfaces/CodeLanguage";
+import { Locale } from "@/interfaces/Locale";
+import { ZipEntry } from "@/utils/zip";
+
+export enum ProblemPackageFormat {
+  Polygon = "Polygon",
+  HUSTOJ = "HUSTOJ",
+  Lemon = "Lemon",
+  Luogu = "Luogu"
+}
+
+export interface ImportedFile {
+  filename: string;
+  size: number;
+  getBlob: () => Promise<Blob>;
+}
+
+export interface ImportedStatement {
+  // null if the package doesn't specify the statement's language
+  locale: Locale;
+  title: string;
+  description?: string;
+  inputFormat?: string;
+  outputFormat?: string;
+  notes?: string;
+  samples: ApiTypes.ProblemSampleDataMemberDto[];
+}
+
+export interface ImportWarning {
+  // Localized with problem_files.import.warning.<type>
+  type:
+    | "MISSING_TEST_FILE"
+    | "MISSING_CHECKER_SOURCE"
+    | "COMPILED_CHECKER"
+    | "UNSUPPORTED_TASK_TYPE"
+    | "UNKNOWN_CHECKER_LANGUAGE";
+  filename?: string;
+}
+
+export interface ImportedProblem {
+  name: string;
+  testData: ImportedFile[];
+  // Raw judge info of a traditional problem, to be parsed by the judge info processor
+  judgeInfo: any;
+  statement?: ImportedStatement;
+  warnings: ImportWarning[];
+}
+
+export class ProblemPackageError extends Error {
+  // Localized with problem_files.import.error.<type>
+  constructor(
+    public readonly type: "UNKNOWN_FORMAT" | "INVALID_MANIFEST" | "UNSUPPORTED_VERSION" | "NO_TESTCASES",
+    message?: string
+  ) {
+    super(message || type);
+  }
+}
+
+const MIB = 1024 * 1024;
+
+// The directory of a file in the archive, with a trailing slash
+function dirname(path: string) {
+  return path.slice(0, path.lastIndexOf("/") + 1);
+}
+
+function basename(path: string) {
+  return path.slice(path.lastIndexOf("/") + 1);
+}
+
+function fileFromEntry(filename: string, entry: ZipEntry): ImportedFile {
+  return { filename, size: entry.size, getBlob: () => entry.blob() };
+}
+
+function fileFromText(filename: string, text: string): ImportedFile {
+  const blob = new Blob([text]);
+  return { filename, size: blob.size, getBlob: async () => blob };
+}
+
+function detectCodeLanguage(filename: string) {
+  return Object.values(CodeLanguage).find(language => checkCodeFileExtension(language, filename));
+}
+
+function makeCustomChecker(checkerInterface: string, filename: string, warnings: ImportWarning[]) {
+  const language = detectCodeLanguage(filename);
+  if (!language) {
+    warnings.push({ type: "UNKNOWN_CHECKER_LANGUAGE", filename });
+    return null;
+  }
+
+  return {
+    type: "custom",
+    interface: checkerInterface,
+    language,
+    compileAndRunOptions: getPreferredCompileAndRunOptions(language),
+    filename
+  };
+}
+
+// Sort filenames with the numbers in them, "10.in" should be after "9.in"
+function compareFilenames(a: string, b: string) {
+  const numbersA = (a.match(/\d+/g) || []).map(Number);
+  const numbersB = (b.match(/\d+/g) || []).map(Number);
+  for (let i = 0; i < Math.min(numbersA.length, numbersB.length); i++)
+    if (numbersA[i] !== numbersB[i]) return numbersA[i] - numbersB[i];
+  return numbersA.length - numbersB.length || (a < b ? -1 : a > b ? 1 : 0);
+}
+
+// Match ".in" files to ".out" or ".ans" files in the same directory
+function matchTestcaseFiles(entries: ZipEntry[]) {
+  const files = new Map(entries.filter(entry => !entry.directory).map(entry => [entry.name.toLowerCase(), entry]));
+  return entries
+    .filter(entry => !entry.directory && entry.name.toLowerCase().endsWith(".in"))
+    .map(input => {
+      const prefix = input.name.slice(0, -3).toLowerCase();
+      return { input, output: files.get(prefix + ".out") || files.get(prefix + ".ans") };
+    })
+    .filter(({ output }) => output)
+    .sort((a, b) => compareFilenames(a.input.name, b.input.name));
+}
+
+// Begin Polygon
+
+function formatPolygonPathPattern(pattern: string, index: number) {
+  return pattern.replace(/%(0?)(\d*)d/, (_, zero: string, width: string) =>
+    String(index).padStart(Number(width) || 0, zero ? "0" : " ")
+  );
+}
+
+// Polygon's standard checkers which could be replaced with a built-in checker
+const POLYGON_STANDARD_CHECKERS: Record<string, unknown> = {
+  "std::ncmp.cpp": { type: "integers" },
+  "std::icmp.cpp": { type: "integers" },
+  "std::wcmp.cpp": { type: "lines", caseSensitive: true },
+  "std::lcmp.cpp": { type: "lines", caseSensitive: true },
+  "std::fcmp.cpp": { type: "lines", caseSensitive: true },
+  "std::hcmp.cpp": { type: "lines", caseSensitive: true },
+  "std::yesno.cpp": { type: "lines", caseSensitive: false },
+  "std::nyesno.cpp": { type: "lines", caseSensitive: false },
+  "std::rcmp4.cpp": { type: "floats", precision: 4 },
+  "std::rcmp6.cpp": { type: "floats", precision: 6 },
+  "std::rcmp9.cpp": { type: "floats", precision: 9 },
+  "std::rcmp.cpp": { type: "floats", precision: 6 }
+};
+
+const POLYGON_LANGUAGES: Record<string, Locale> = {
+  english: Locale.en_US,
+  chinese: Locale.zh_CN,
+  japanese: Locale.ja_JP
+};
+
+async function parsePolygonPackage(entries: ZipEntry[], manifest: ZipEntry): Promise<ImportedProblem[]> {
+  const root = dirname(manifest.name);
+  const files = new Map(entries.map(entry => [entry.name, entry]));
+  const getFile = (path: string) => files.get(root + path);
+
+  const document = new DOMParser().parseFromString(await manifest.text(), "application/xml");
+  if (document.getElementsByTagName("parsererror").length > 0)
+    throw new ProblemPackageError("INVALID_MANIFEST", "problem.xml");
+
+  const warnings: ImportWarning[] = [];
+  const judging = document.querySelector("judging");
+  const testset =
+    judging?.querySelector('testset[name="tests"]') || judging?.querySelector("testset") || document.createElement("_");
+
+  const timeLimit = Number(testset.querySelector("time-limit")?.textContent) || 1000;
+  const memoryLimit = Math.ceil(Number(testset.querySelector("memory-limit")?.textContent) / MIB) || 256;
+  const inputPattern = testset.querySelector("input-path-pattern")?.textContent || "tests/%02d";
+  const answerPattern = testset.querySelector("answer-path-pattern")?.textContent || "tests/%02d.a";
+
+  const testData: ImportedFile[] = [];
+
+  // Tests are grouped to subtasks by their groups in the order of their first appearance
+  const groupNames: string[] = [];
+  const testcasesOfGroups = new Map<string, any[]>();
+  Array.from(testset.querySelectorAll("tests > test")).forEach((test, i) => {
+    const index = i + 1;
+    const input = getFile(formatPolygonPathPattern(inputPattern, index));
+    const answer = getFile(formatPolygonPathPattern(answerPattern, index));
+    if (!input || !answer) {
+      warnings.push({ type: "MISSING_TEST_FILE", filename: formatPolygonPathPattern(inputPattern, index) });
+      return;
+    }
+
+    const name = formatPolygonPathPattern("%02d", index);
+    testData.push(fileFromEntry(`${name}.in`, input), fileFromEntry(`${name}.ans`, answer));
+
+    const group = test.getAttribute("group") || "";
+    if (!testcasesOfGroups.has(group)) {
+      groupNames.push(group);
+      testcasesOfGroups.set(group, []);
+    }
+    const points = Number(test.getAttribute("points"));
+    testcasesOfGroups.get(group).push({
+      inputFile: `${name}.in`,
+      outputFile: `${name}.ans`,
+      points: Number.isSafeInteger(points) && points > 0 ? points : undefined
+    });
+  });
+
+  const groups = new Map(
+    Array.from(testset.querySelectorAll("groups > group")).map(group => [group.getAttribute("name"), group])
+  );
+  const subtasks = groupNames.map(groupName => {
+    const group = groups.get(groupName);
+    const testcases = testcasesOfGroups.get(groupName);
+    const points = Number(group?.getAttribute("points"));
+    const hasTestcasePoints = testcases.some(testcase => testcase.points != null);
+
+    return {
+      scoringType: group?.getAttribute("points-policy") === "complete-group" ? "GroupMin" : "Sum",
+      points:
+        groupNames.length > 1
+          ? Number.isSafeInteger(points) && points > 0
+            ? points
+            : testcases.reduce((sum, testcase) => sum + (testcase.points || 0), 0) || undefined
+          : undefined,
+      dependencies: Array.from(group?.querySelectorAll("dependencies > dependency") || [])
+        .map(dependency => groupNames.indexOf(dependency.getAttribute("group")))
+        .filter(index => index !== -1),
+      testcases:
+        hasTestcasePoints && group?.getAttribute("points-policy") !== "complete-group"
+          ? testcases
+          : testcases.map(({ points, ...testcase }) => testcase)
+    };
+  });
+
+  // Checker
+  let checker: unknown = null;
+  const checkerElement = document.querySelector("assets > checker");
+  if (checkerElement) {
+    checker = POLYGON_STANDARD_CHECKERS[checkerElement.getAttribute("name")];
+    if (!checker) {
+      const sourcePath = checkerElement.querySelector("source")?.getAttribute("path");
+      const source = sourcePath && getFile(sourcePath);
+      if (!source) warnings.push({ type: "MISSING_CHECKER_SOURCE", filename: sourcePath || "" });
+      else {
+        const filename = "checker" + basename(sourcePath).slice(basename(sourcePath).lastIndexOf("."));
+        checker = makeCustomChecker("testlib", filename, warnings);
+        if (checker) testData.push(fileFromEntry(filename, source));
+
+        // Custom testlib checkers include testlib.h
+        const testlib = getFile("files/testlib.h");
+        if (checker && testlib) testData.push(fileFromEntry("testlib.h", testlib));
+      }
+    }
+  }
+
+  const inputFile = judging?.getAttribute("input-file");
+  const outputFile = judging?.getAttribute("output-file");
+
+  // Statement, prefer the sections over the full statement since they are easier to convert
+  let statement: ImportedStatement = null;
+  const sectionLanguages = Array.from(
+    new Set(
+      entries
+        .map(entry => entry.name.slice(root.length).match(/^statement-sections\/([^/]+)\//))
+        .filter(match => match)
+        .map(match => match[1])
+    )
+  );
+  const statementLanguage = sectionLanguages.find(language => POLYGON_LANGUAGES[language]) || sectionLanguages[0];
+  if (statementLanguage) {
+    const readSection = async (name: string) =>
+      (await getFile(`statement-sections/${statementLanguage}/${name}`)?.text())?.trim();
+    const samples: ApiTypes.ProblemSampleDataMemberDto[] = [];
+    for (let i = 1; ; i++) {
+      const sampleName = `example.${formatPolygonPathPattern("%02d", i)}`;
+      const sampleInput = await readSection(sampleName);
+      const sampleOutput = await readSection(`${sampleName}.a`);
+      if (sampleInput == null || sampleOutput == null) break;
+      samples.push({ inputData: sampleInput + "\n", outputData: sampleOutput + "\n" });
+    }
+
+    statement = {
+      locale: POLYGON_LANGUAGES[statementLanguage] || Locale.en_US,
+      title:
+        (await readSection("name.tex")) ||
+        document.querySelector(`names > name[language="${statementLanguage}"]`)?.getAttribute("value") ||
+        document.querySelector("names > name")?.getAttribute("value") ||
+        "",
+      description: await readSection("legend.tex"),
+      inputFormat: await readSection("input.tex"),
+      outputFormat: await readSection("output.tex"),
+      notes: await readSection("notes.tex"),
+      samples
+    };
+  }
+
+  return [
+    {
+      name: document.querySelector("problem")?.getAttribute("short-name") || basename(root.slice(0, -1)) || "problem",
+      testData,
+      judgeInfo: {
+        timeLimit,
+        memoryLimit,
+        fileIo: inputFile || outputFile ? { inputFilename: inputFile, outputFilename: outputFile } : undefined,
+        runSamples: true,
+        checker,
+        subtasks
+      },
+      statement,
+      warnings
+    }
+  ];
+}
+
+// End Polygon
+
+// Begin HUSTOJ
+
+const FPS_CHECKER_EXTENSIONS: Record<string, string> = {
+  C: ".c",
+  "C++": ".cpp",
+  Pascal: ".pas",
+  Java: ".java",
+  Python: ".py"
+};
+
+function parseFpsLimit(element: Element, defaultUnit: string, toUnit: "ms" | "MiB") {
+  const value = Number(element?.textContent);
+  if (!(value > 0)) return null;
+
+  const unit = (element.getAttribute("unit") || defaultUnit).toLowerCase();
+  if (toUnit === "ms") return Math.round(unit === "ms" ? value : value * 1000);
+  else return Math.ceil(unit === "kb" ? value / 1024 : unit === "b" ? value / MIB : value);
+}
+
+// FPS (FreeProblemSet) XML is exported by HUSTOJ, with the testdata inlined
+async function parseFpsPackage(manifests: ZipEntry[]): Promise<ImportedProblem[]> {
+  const problems: ImportedProblem[] = [];
+  for (const manifest of manifests) {
+    const document = new DOMParser().parseFromString(await manifest.text(), "application/xml");
+    if (document.getElementsByTagName("parsererror").length > 0)
+      throw new ProblemPackageError("INVALID_MANIFEST", manifest.name);
+
+    for (const item of Array.from(document.querySelectorAll("fps > item"))) {
+      const getText = (tagName: string) => item.querySelector(`:scope > ${tagName}`)?.textContent?.trim();
+      const getTexts = (tagName: string) =>
+        Array.from(item.querySelectorAll(`:scope > ${tagName}`)).map(element => element.textContent);
+
+      const warnings: ImportWarning[] = [];
+      const testData: ImportedFile[] = [];
+      const testInputs = getTexts("test_input");
+      const testOutputs = getTexts("test_output");
+      const testcases = testInputs.slice(0, testOutputs.length).map((input, i) => {
+        testData.push(fileFromText(`${i + 1}.in`, input), fileFromText(`${i + 1}.out`, testOutputs[i]));
+        return { inputFile: `${i + 1}.in`, outputFile: `${i + 1}.out` };
+      });
+
+      let checker: unknown = null;
+      const spj = item.querySelector(":scope > spj");
+      if (spj) {
+        const filename = "spj" + (FPS_CHECKER_EXTENSIONS[spj.getAttribute("language")] || ".cpp");
+        checker = makeCustomChecker("hustoj", filename, warnings);
+        if (checker) testData.push(fileFromText(filename, spj.textContent));
+      }
+
+      const sampleInputs = getTexts("sample_input");
+      const sampleOutputs = getTexts("sample_output");
+      const title = getText("title") || "";
+      problems.push({
+        name: title || `${problems.length + 1}`,
+        testData,
+        judgeInfo: {
+          timeLimit: parseFpsLimit(item.querySelector(":scope > time_limit"), "s", "ms") || 1000,
+          memoryLimit: parseFpsLimit(item.querySelector(":scope > memory_limit"), "mb", "MiB") || 256,
+          runSamples: true,
+          checker,
+          subtasks: [{ scoringType: "Sum", testcases }]
+        },
+        statement: {
+          locale: null,
+          title,
+          description: getText("description"),
+          inputFormat: getText("input"),
+          outputFormat: getText("output"),
+          notes: getText("hint"),
+          samples: sampleInputs.slice(0, sampleOutputs.length).map((input, i) => ({
+            inputData: input,
+            outputData: sampleOutputs[i]
+          }))
+        },
+        warnings
+      });
+    }
+  }
+
+  return problems;
+}
+
+// A HUSTOJ data directory contains only the testcases and an optional special judge "spj.c" or "spj.cc"
+function parseHustojDataDirectory(entries: ZipEntry[]): ImportedProblem[] {
+  const warnings: ImportWarning[] = [];
+  const testData: ImportedFile[] = [];
+  const testcases = matchTestcaseFiles(entries).map(({ input, output }) => {
+    testData.push(fileFromEntry(basename(input.name), input), fileFromEntry(basename(output.name), output));
+    return { inputFile: basename(input.name), outputFile: basename(output.name) };
+  });
+
+  let checker: unknown = null;
+  const spj = entries.find(entry => /^spj\.(c|cc|cpp)$/i.test(basename(entry.name)));
+  if (spj) {
+    checker = makeCustomChecker("hustoj", basename(spj.name), warnings);
+    if (checker) testData.push(fileFromEntry(basename(spj.name), spj));
+  } else if (entries.some(entry => basename(entry.name).toLowerCase() === "spj"))
+    warnings.push({ type: "COMPILED_CHECKER", filename: "spj" });
+
+  return [
+    {
+      name: "data",
+      testData,
+      judgeInfo: {
+        timeLimit: 1000,
+        memoryLimit: 256,
+        runSamples: true,
+        checker,
+        subtasks: [{ scoringType: "Sum", testcases }]
+      },
+      warnings
+    }
+  ];
+}
+
+// End HUSTOJ
+
+// Begin Lemon
+
+// LemonLime's ComparisonMode
+enum LemonComparisonMode {
+  LineByLine = 0,
+  RealNumber = 1,
+  SpecialJudge = 2,
+  ExternalTool = 3,
+  IgnoreSpaces = 4
+}
+
+interface LemonTestCase {
+  fullScore: number;
+  timeLimit: number;
+  memoryLimit: number;
+  inputFiles: string[];
+  outputFiles: string[];
+}
+
+interface LemonTask {
+  problemTitle: string;
+  inputFileName: string;
+  outputFileName: string;
+  standardInputCheck: boolean;
+  standardOutputCheck: boolean;
+  taskType: number;
+  comparisonMode: LemonComparisonMode;
+  realPrecision: number;
+  specialJudge: string;
+  testCases: LemonTestCase[];
+}
+
+// The .cdf project file of LemonLime is JSON, the testdata are in the "data" directory next to it
+async function parseLemonProject(entries: ZipEntry[], manifest: ZipEntry): Promise<ImportedProblem[]> {
+  let project: { tasks: LemonTask[] };
+  try {
+    project = JSON.parse(await manifest.text());
+  } catch (e) {
+    // The project file of the original Lemon is binary
+    throw new ProblemPackageError("INVALID_MANIFEST", manifest.name);
+  }
+  if (!Array.isArray(project?.tasks)) throw new ProblemPackageError("INVALID_MANIFEST", manifest.name);
+
+  const dataRoot = dirname(manifest.name) + "data/";
+  const files = new Map(entries.map(entry => [entry.name.replace(/\\/g, "/"), entry]));
+  const getDataFile = (path: string) => files.get(dataRoot + path.replace(/\\/g, "/"));
+
+  return project.tasks.map(task => {
+    const warnings: ImportWarning[] = [];
+    if (task.taskType) warnings.push({ type: "UNSUPPORTED_TASK_TYPE" });
+
+    const testData = new Map<string, ImportedFile>();
+    const addDataFile = (path: string) => {
+      const entry = getDataFile(path);
+      if (!entry) {
+        warnings.push({ type: "MISSING_TEST_FILE", filename: path });
+        return null;
+      }
+
+      const filename = basename(path.replace(/\\/g, "/"));
+      testData.set(filename, fileFromEntry(filename, entry));
+      return filename;
+    };
+
+    const testCases = Array.isArray(task.testCases) ? task.testCases : [];
+    const timeLimit = testCases[0]?.timeLimit || 1000;
+    const memoryLimit = testCases[0]?.memoryLimit || 256;
+    const getLimits = (testCase: LemonTestCase) => ({
+      timeLimit: testCase.timeLimit && testCase.timeLimit !== timeLimit ? testCase.timeLimit : undefined,
+      memoryLimit: testCase.memoryLimit && testCase.memoryLimit !== memoryLimit ? testCase.memoryLimit : undefined
+    });
+    const getTestcases = (testCase: LemonTestCase) =>
+      (testCase.inputFiles || [])
+        .map((input, i) => ({
+          inputFile: addDataFile(input),
+          outputFile: addDataFile(testCase.outputFiles?.[i] || "")
+        }))
+        .filter(({ inputFile, outputFile }) => inputFile && outputFile);
+
+    // A test case with multiple files is scored with the minimum of them, like a subtask
+    const subtasks = testCases.every(testCase => testCase.inputFiles?.length === 1)
+      ? [
+          {
+            scoringType: "Sum",
+            testcases: testCases.flatMap(testCase =>
+              getTestcases(testCase).map(testcase => ({
+                ...testcase,
+                ...getLimits(testCase),
+                points: testCase.fullScore
+              }))
+            )
+          }
+        ]
+      : testCases.map(testCase => ({
+          scoringType: "GroupMin",
+          points: testCase.fullScore,
+          ...getLimits(testCase),
+          testcases: getTestcases(testCase)
+        }));
+
+    let checker: unknown = null;
+    switch (task.comparisonMode) {
+      case LemonComparisonMode.RealNumber:
+        checker = { type: "floats", precision: task.realPrecision || 3 };
+        break;
+      case LemonComparisonMode.SpecialJudge:
+        if (/\.exe$/i.test(task.specialJudge || "") || !task.specialJudge)
+          warnings.push({ type: "COMPILED_CHECKER", filename: task.specialJudge || "" });
+        else {
+          const filename = addDataFile(task.specialJudge);
+          checker = filename && makeCustomChecker("lemon", filename, warnings);
+        }
+        break;
+      default:
+        checker = { type: "lines", caseSensitive: true };
+    }
+
+    return {
+      name: task.problemTitle || "",
+      testData: Array.from(testData.values()),
+      judgeInfo: {
+        timeLimit,
+        memoryLimit,
+        fileIo:
+          task.standardInputCheck && task.standardOutputCheck
+            ? undefined
+            : { inputFilename: task.inputFileName, outputFilename: task.outputFileName },
+        runSamples: true,
+        checker,
+        subtasks
+      },
+      warnings
+    };
+  });
+}
+
+// End Lemon
+
+// Begin Luogu
+
+interface LuoguTestcaseConfig {
+  timeLimit?: number;
+  // In KiB
+  memoryLimit?: number;
+  score?: number;
+  subtaskId?: number;
+  isPretest?: boolean;
+}
+
+// Luogu's testdata archive have a "config.yml" describing each testcase, and a testlib checker "checker.cpp"
+async function parseLuoguPackage(entries: ZipEntry[], manifest: ZipEntry): Promise<ImportedProblem[]> {
+  let config: Record<string, LuoguTestcaseConfig>;
+  try {
+    config = yaml.load(await manifest.text()) as Record<string, LuoguTestcaseConfig>;
+  } catch (e) {
+    throw new ProblemPackageError("INVALID_MANIFEST", manifest.name);
+  }
+
+  const root = dirname(manifest.name);
+  const warnings: ImportWarning[] = [];
+  const testData: ImportedFile[] = [];
+  const matched = matchTestcaseFiles(entries.filter(entry => dirname(entry.name) === root));
+
+  const limits = Object.values(config).filter(testcase => testcase && typeof testcase === "object");
+  const timeLimit = Math.max(0, ...limits.map(testcase => testcase.timeLimit || 0)) || 1000;
+  const memoryLimit = Math.ceil(Math.max(0, ...limits.map(testcase => testcase.memoryLimit || 0)) / 1024) || 256;
+
+  const subtaskIds: number[] = [];
+  const testcasesOfSubtasks = new Map<number, any[]>();
+  for (const { input, output } of matched) {
+    const inputFile = basename(input.name);
+    const outputFile = basename(output.name);
+    testData.push(fileFromEntry(inputFile, input), fileFromEntry(outputFile, output));
+
+    const testcaseConfig = config[inputFile] || {};
+    const subtaskId = testcaseConfig.subtaskId || 0;
+    if (!testcasesOfSubtasks.has(subtaskId)) {
+      subtaskIds.push(subtaskId);
+      testcasesOfSubtasks.set(subtaskId, []);
+    }
+    testcasesOfSubtasks.get(subtaskId).push({
+      inputFile,
+      outputFile,
+      points: testcaseConfig.score,
+      timeLimit:
+        testcaseConfig.timeLimit && testcaseConfig.timeLimit !== timeLimit ? testcaseConfig.timeLimit : undefined,
+      memoryLimit:
+        testcaseConfig.memoryLimit && Math.ceil(testcaseConfig.memoryLimit / 1024) !== memoryLimit
+          ? Math.ceil(testcaseConfig.memoryLimit / 1024)
+          : undefined
+    });
+  }
+
+  // Luogu scores a subtask with the minimum ratio of its testcases
+  subtaskIds.sort((a, b) => a - b);
+  const subtasks =
+    subtaskIds.length > 1
+      ? subtaskIds.map(subtaskId => {
+          const testcases = testcasesOfSubtasks.get(subtaskId);
+          return {
+            scoringType: "GroupMin",
+            points: testcases.reduce((sum, testcase) => sum + (testcase.points || 0), 0) || undefined,
+            testcases: testcases.map(({ points, ...testcase }) => testcase)
+          };
+        })
+      : subtaskIds.map(subtaskId => ({ scoringType: "Sum", testcases: testcasesOfSubtasks.get(subtaskId) }));
+
+  let checker: unknown = null;
+  const checkerSource = entries.find(entry => entry.name === root + "checker.cpp");
+  if (checkerSource) {
+    checker = makeCustomChecker("testlib", "checker.cpp", warnings);
+    testData.push(fileFromEntry("checker.cpp", checkerSource));
+  }
+
+  return [
+    {
+      name: basename(root.slice(0, -1)) || "data",
+      testData,
+      judgeInfo: { timeLimit, memoryLimit, runSamples: true, checker, subtasks },
+      warnings
+    }
+  ];
+}
+
+// End Luogu
+
+function isLuoguConfig(text: string) {
+  let config: unknown;
+  try {
+    config = yaml.load(text);
+  } catch (e) {
+    return false;
+  }
+
+  return (
+    config &&
+    typeof config === "object" &&
+    Object.keys(config).length > 0 &&
+    Object.keys(config).every(key => key.toLowerCase().endsWith(".in"))
+  );
+}
+
+/**
+ * Detect the format of a problem package and parse it into problems. A package may contain multiple problems, e.g. a
+ * Lemon project or a FPS file with multiple items.
+ */
+export async function parseProblemPackage(
+  entries: ZipEntry[]
+): Promise<{ format: ProblemPackageFormat; problems: ImportedProblem[] }> {
+  // Ignore the metadata directories created by macOS
+  entries = entries.filter(entry => !entry.name.startsWith("__MACOSX/"));
+
+  // The manifest nearest to the root
+  const findManifest = (predicate: (entry: ZipEntry) => boolean) =>
+    entries
+      .filter(entry => !entry.directory && predicate(entry))
+      .sort((a, b) => a.name.split("/").length - b.name.split("/").length)[0];
+
+  let problems: ImportedProblem[];
+  let format: ProblemPackageFormat;
+
+  const polygonManifest = findManifest(entry => basename(entry.name) === "problem.xml");
+  const lemonManifest = findManifest(entry => entry.name.toLowerCase().endsWith(".cdf"));
+  const luoguManifest = findManifest(entry => basename(entry.name).toLowerCase() === "config.yml");
+  const xmlFiles = entries.filter(entry => !entry.directory && entry.name.toLowerCase().endsWith(".xml"));
+  const fpsManifests: ZipEntry[] = [];
+  if (!polygonManifest)
+    for (const entry of xmlFiles) if ((await entry.text()).includes("<fps")) fpsManifests.push(entry);
+
+  if (polygonManifest) {
+    format = ProblemPackageFormat.Polygon;
+    problems = await parsePolygonPackage(entries, polygonManifest);
+  } else if (lemonManifest) {
+    format = ProblemPackageFormat.Lemon;
+    problems = await parseLemonProject(entries, lemonManifest);
+  } else if (luoguManifest && isLuoguConfig(await luoguManifest.text())) {
+    format = ProblemPackageFormat.Luogu;
+    problems = await parseLuoguPackage(entries, luoguManifest);
+  } else if (fpsManifests.length > 0) {
+    format = ProblemPackageFormat.HUSTOJ;
+    problems = await parseFpsPackage(fpsManifests);
+  } else if (matchTestcaseFiles(entries).length > 0) {
+    format = ProblemPackageFormat.HUSTOJ;
+    problems = parseHustojDataDirectory(entries);
+  } else throw new ProblemPackageError("UNKNOWN_FORMAT");
+
+  problems = problems.filter(problem => problem.testData.length > 0);
+  if (problems.length === 0) throw new ProblemPackageError("NO_TESTCASES");
+
+  return { format, problems };
+}
@@ -0,0 +1,257 @@
+import yaml from "js-yaml";
+import pAll from "p-all";
+
+import api from "@/api";
+import toast from "@/utils/toast";
+import { Localizer } from "@/locales";
+import { Locale } from "@/interfaces/Locale";
+import { ProblemType } from "@/interfaces/ProblemType";
+import { callApiWithFileUpload } from "@/utils/callApiWithFileUpload";
+import { ZipDecompressionUnsupportedError, ZipEntry } from "@/utils/zip";
+import { ImportedFile, ProblemPackageError } from "./packageFormats";
+
+/**
+ * A problem package exported by us contains the manifest, and the files of the problem in the two folders.
+ *
+ * Increase the version on incompatible changes of the manifest and keep the older versions importable.
+ */
+export const PROBLEM_PACKAGE_VERSION = 1;
+export const PROBLEM_PACKAGE_MANIFEST = "problem.yml";
+const TEST_DATA_FOLDER = "testdata/";
+const ADDITIONAL_FILE_FOLDER = "additional_file/";
+
+export interface ProblemPackageManifest {
+  version: number;
+  type: ProblemType;
+  localizedContents: ApiTypes.ProblemLocalizedContentDto[];
+  samples: ApiTypes.ProblemSampleDataMemberDto[];
+  // The names of each tag in all locales, tags are matched by names when importing
+  tags: ApiTypes.ProblemTagLocalizedNameDto[][];
+  judgeInfo: unknown;
+  submittable: boolean;
+}
+
+export interface ProblemPackage {
+  manifest: ProblemPackageManifest;
+  testData: ImportedFile[];
+  additionalFiles: ImportedFile[];
+}
+
+const MAX_UPLOAD_CONCURRENCY = 5;
+
+/**
+ * Upload the files to the problem. Return false and show the error if any file failed to upload.
+ */
+export async function uploadImportedFiles(
+  problemId: number,
+  type: "TestData" | "AdditionalFile",
+  files: ImportedFile[],
+  getRecaptchaToken: () => Promise<string>,
+  onProgress: (uploaded: number) => void,
+  _: Localizer
+): Promise<boolean> {
+  let uploaded = 0;
+  let error: string = null;
+  await pAll(
+    files.map(file => async () => {
+      if (error) return;
+
+      // The file is extracted from the archive here, which throws on unsupported or corrupted entries
+      let blob: Blob;
+      try {
+        blob = await file.getBlob();
+      } catch (e) {
+        console.error(`Error extracting ${file.filename}`, e);
+        error = `${file.filename}: ${
+          e instanceof ZipDecompressionUnsupportedError
+            ? _("problem_files.import.error.DECOMPRESSION_UNSUPPORTED")
+            : e instanceof Error
+            ? e.message
+            : String(e)
+        }`;
+        return;
+      }
+
+      const { uploadCancelled, uploadError, requestError, response } = await callApiWithFileUpload(
+        api.problem.addProblemFile,
+        {
+          problemId,
+          type,
+          filename: file.filename
+        },
+        getRecaptchaToken,
+        blob
+      );
+
+      if (uploadCancelled || uploadError) error = `${file.filename}: ${String(uploadError)}`;
+      else if (requestError) error = `${file.filename}: ${requestError(_)}`;
+      else if (response.error) error = `${file.filename}: ${_(`problem_files.error.${response.error}`)}`;
+      else onProgress(++uploaded);
+    }),
+    {
+      concurrency: MAX_UPLOAD_CONCURRENCY
+    }
+  );
+
+  if (error) {
+    toast.error(_("problem_files.import.upload_error", { error }));
+    return false;
+  }
+  return true;
+}
+
+export async function exportProblemPackage(problemId: number, filename: string, _: Localizer) {
+  const { requestError, response } = await api.problem.getProblem({
+    id: problemId,
+    localizedContentsOfAllLocales: true,
+    tagsOfAllLocales: true,
+    samples: true,
+    judgeInfo: true,
+    testData: true,
+    additionalFiles: true
+  });
+  if (requestError) {
+    toast.error(requestError(_));
+    return;
+  } else if (response.error) {
+    toast.error(_(`problem_files.error.${response.error}`));
+    return;
+  }
+
+  const downloadInfo: Record<"TestData" | "AdditionalFile", ApiTypes.ProblemFileDownloadInfoDto[]> = {
+    TestData: [],
+    AdditionalFile: []
+  };
+  for (const [type, files] of [
+    ["TestData", response.testData],
+    ["AdditionalFile", response.additionalFiles]
+  ] as const) {
+    if (files.length === 0) continue;
+
+    const { requestError, response } = await api.problem.downloadProblemFiles({
+      problemId,
+      type,
+      filenameList: files.map(file => file.filename)
+    });
+    if (requestError) {
+      toast.error(requestError(_));
+      return;
+    } else if (response.error) {
+      toast.error(_(`problem_files.error.${response.error}`));
+      return;
+    }
+
+    downloadInfo[type] = response.downloadInfo;
+  }
+
+  const manifest: ProblemPackageManifest = {
+    version: PROBLEM_PACKAGE_VERSION,
+    type: response.meta.type as ProblemType,
+    localizedContents: response.localizedContentsOfAllLocales,
+    samples: response.samples,
+    tags: response.tagsOfAllLocales.map(tag => tag.localizedNames),
+    judgeInfo: response.judgeInfo,
+    submittable: response.submittable
+  };
+
+  // ProblemFilesPage imports the importer, so import it lazily to avoid the circular dependency
+  const { downloadArchive } = await import("../ProblemFilesPage");
+  await downloadArchive(
+    filename,
+    [
+      {
+        filename: PROBLEM_PACKAGE_MANIFEST,
+        blob: new Blob([yaml.dump(manifest, { lineWidth: -1, noRefs: true })], { type: "text/yaml" })
+      },
+      ...downloadInfo.TestData.map(info => ({ ...info, filename: TEST_DATA_FOLDER + info.filename })),
+      ...downloadInfo.AdditionalFile.map(info => ({ ...info, filename: ADDITIONAL_FILE_FOLDER + info.filename }))
+    ],
+    _
+  );
+}
+
+/**
+ * Return null if the archive is not a problem package exported by us.
+ */
+export async function parseProblemPackageArchive(entries: ZipEntry[]): Promise<ProblemPackage> {
+  // The archive may be re-compressed with a top-level folder
+  const manifestEntry = entries.find(
+    entry => !entry.directory && entry.name.split("/").pop() === PROBLEM_PACKAGE_MANIFEST
+  );
+  if (!manifestEntry) return null;
+  const root = manifestEntry.name.slice(0, -PROBLEM_PACKAGE_MANIFEST.length);
+
+  let manifest: ProblemPackageManifest;
+  try {
+    manifest = yaml.load(await manifestEntry.text()) as ProblemPackageManifest;
+  } catch (e) {
+    throw new ProblemPackageError("INVALID_MANIFEST", manifestEntry.name);
+  }
+  if (!manifest || typeof manifest !== "object" || typeof manifest.version !== "number")
+    throw new ProblemPackageError("INVALID_MANIFEST", manifestEntry.name);
+  if (manifest.version > PROBLEM_PACKAGE_VERSION)
+    throw new ProblemPackageError("UNSUPPORTED_VERSION", String(manifest.version));
+  if (
+    !Object.values(ProblemType).includes(manifest.type) ||
+    !Array.isArray(manifest.localizedContents) ||
+    manifest.localizedContents.length === 0 ||
+    manifest.localizedContents.some(
+      localizedContent => !Object.values(Locale).includes(localizedContent?.locale as Locale)
+    ) ||
+    !Array.isArray(manifest.samples)
+  )
+    throw new ProblemPackageError("INVALID_MANIFEST", manifestEntry.name);
+  if (!Array.isArray(manifest.tags)) manifest.tags = [];
+
+  const getFiles = (folder: string): ImportedFile[] =>
+    entries
+      .filter(entry => !entry.directory && entry.name.startsWith(root + folder))
+      .map(entry => ({
+        filename: entry.name.slice((root + folder).length),
+        size: entry.size,
+        getBlob: () => entry.blob()
+      }))
+      // Files in subfolders are not problem files
+      .filter(file => file.filename && !file.filename.includes("/"));
+
+  return {
+    manifest,
+    testData: getFiles(TEST_DATA_FOLDER),
+    additionalFiles: getFiles(ADDITIONAL_FILE_FOLDER)
+  };
+}
+
+/**
+ * Find the tags on this site with the same name in any locale of the package's tags.
+ * Return the IDs of the matched tags and the names of the unmatched tags.
+ */
+export async function matchProblemTags(
+  tags: ApiTypes.ProblemTagLocalizedNameDto[][],
+  _: Localizer
+): Promise<{ tagIds: number[]; unmatchedTagNames: string[] }> {
+  const locales = Array.from(new Set(tags.flat().map(name => name.locale)));
+  const siteTagsOfLocales = await Promise.all(
+    locales.map(async locale => {
+      const { requestError, response } = await api.problem.getAllProblemTags({ locale });
+      if (requestError) {
+        toast.error(requestError(_));
+        return [];
+      }
+      // The name of a tag without a name in the locale falls back to another locale
+      return response.tags.filter(tag => tag.nameLocale === locale);
+    })
+  );
+
+  const tagIds: number[] = [];
+  const unmatchedTagNames: string[] = [];
+  for (const localizedNames of tags) {
+    const matched = localizedNames
+      .map(({ locale, name }) => siteTagsOfLocales[locales.indexOf(locale)].find(tag => tag.name === name))
+      .find(tag => tag);
+    if (matched) {
+      if (!tagIds.includes(matched.id)) tagIds.push(matched.id);
+    } else if (localizedNames.length > 0) unmatchedTagNames.push(localizedNames[0].name);
+  }
+
+  return { tagIds, unmatchedTagNames };
+}
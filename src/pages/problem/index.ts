@@ -10,6 +10,7 @@ export default {
       "/edit": getRoute(() => import("./edit/ProblemEditPage"), "byId"),
       "/files": getRoute(() => import("./files/ProblemFilesPage"), "byId"),
       "/judge-settings": getRoute(() => import("./judge-settings/ProblemJudgeSettingsPage"), "byId"),
+      "/similarity": getRoute(() => import("./similarity/ProblemSimilarityPage"), "byId"),
       "/statistics/:type": getRoute(() => import("@/pages/submission/statistics/SubmissionStatisticsPage"), "byId")
     }),
     "/:displayId": mount({
@@ -17,6 +18,7 @@ export default {
       "/edit": getRoute(() => import("./edit/ProblemEditPage"), "byDisplayId"),
       "/files": getRoute(() => import("./files/ProblemFilesPage"), "byDisplayId"),
       "/judge-settings": getRoute(() => import("./judge-settings/ProblemJudgeSettingsPage"), "byDisplayId"),
+      "/similarity": getRoute(() => import("./similarity/ProblemSimilarityPage"), "byDisplayId"),
       "/statistics/:type": getRoute(
         () => import("@/pages/submission/statistics/SubmissionStatisticsPage"),
         "byDisplayId"
@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from "react";
-import { Dropdown, Grid, Header, Popup, Button, Form, Message } from "semantic-ui-react";
+import { Dropdown, Grid, Header, Popup, Button, Form, Message, Progress } from "semantic-ui-react";
 import { observer } from "mobx-react";
 import yaml from "js-yaml";
 import { v4 as uuid } from "uuid";
@@ -18,12 +18,15 @@ import { ProblemType } from "@/interfaces/ProblemType";
 import { ProblemTypeEditorComponent } from "./common/interface";
 import { getProblemIdString, getProblemUrl } from "../utils";
 import { makeToBeLocalizedText } from "@/locales";
+import { TestDataValidationResult, validateTestData } from "./validator/validateTestData";
+import TestDataValidationReport from "./validator/TestDataValidationReport";
 
 async function fetchData(idType: "id" | "displayId", id: number) {
   const { requestError, response } = await api.problem.getProblem({
     [idType]: id,
     judgeInfo: true,
     testData: true,
+    additionalFiles: true,
     permissionOfCurrentUser: true
   });
 
@@ -85,11 +88,7 @@ let ProblemJudgeSettingsPage: React.FC<ProblemJudgeSettingsPageProps> = props =>
     navigation.navigate(getProblemUrl(props.problem.meta, { use: props.idType }));
   }
 
-  async function onSubmit() {
-    if (pending) return;
-
-    setPending(true);
-
+  async function submit() {
     const { requestError, response } = await api.problem.updateProblemJudgeInfo({
       problemId: props.problem.meta.id,
       judgeInfo: normalizeJudgeInfo(judgeInfo),
@@ -108,10 +107,103 @@ let ProblemJudgeSettingsPage: React.FC<ProblemJudgeSettingsPageProps> = props =>
       toast.success(_(".submit_success"));
       setModified(false);
     }
+  }
+
+  const [validateOnSave, setValidateOnSave] = useState(true);
+
+  async function onSubmit() {
+    if (pending) return;
+
+    setPending(true);
+
+    if (!validateOnSave || (await validateBeforeSave())) await submit();
 
     setPending(false);
   }
 
+  // Begin test data validation
+  const [validationProgress, setValidationProgress] = useState<{ analyzed: number; total: number }>(null);
+  const [validationResult, setValidationResult] = useState<TestDataValidationResult>(null);
+  // If the dialog is opened by saving, saving is allowed after confirming the warnings
+  const [validatingForSave, setValidatingForSave] = useState(false);
+
+  async function runValidation() {
+    setValidationResult(null);
+    const result = await validateTestData(
+      props.problem.meta.id,
+      props.problem.meta.type as ProblemType,
+      normalizeJudgeInfo(judgeInfo),
+      props.problem.testData,
+      (analyzed, total) => setValidationProgress({ analyzed, total }),
+      _
+    );
+    setValidationProgress(null);
+    setValidationResult(result);
+    return result;
+  }
+
+  async function onValidate() {
+    if (pending) return;
+    setPending(true);
+
+    setValidatingForSave(false);
+    validationDialog.open();
+    if (!(await runValidation())) validationDialog.close();
+
+    setPending(false);
+  }
+
+  // Return true if it's ok to save
+  async function validateBeforeSave() {
+    const result = await runValidation();
+    if (!result) return false;
+    if (result.issues.length === 0) return true;
+
+    setValidatingForSave(true);
+    validationDialog.open();
+    return false;
+  }
+
+  async function onSubmitIgnoringWarnings() {
+    if (pending) return;
+    validationDialog.close();
+
+    setPending(true);
+    await submit();
+    setPending(false);
+  }
+
+  const validationDialog = useDialog(
+    {
+      closeOnDimmerClick: !validationProgress,
+      onClose: () => !validationProgress && validationDialog.close()
+    },
+    () => <Header icon="check square outline" content={_(".validator.validate")} />,
+    () =>
+      validationResult ? (
+        <TestDataValidationReport result={validationResult} forSave={validatingForSave} />
+      ) : (
+        <Progress
+          indicating
+          value={validationProgress?.analyzed ?? 0}
+          total={validationProgress?.total || 1}
+          label={_(".validator.progress", {
+            analyzed: String(validationProgress?.analyzed ?? 0),
+            total: String(validationProgress?.total ?? 0)
+          })}
+        />
+      ),
+    () => (
+      <>
+        <Button content={_(".validator.close")} disabled={!validationResult} onClick={() => validationDialog.close()} />
+        {validatingForSave && validationResult?.issues.every(issue => issue.severity === "warning") && (
+          <Button negative content={_(".validator.save_anyway")} onClick={onSubmitIgnoringWarnings} />
+        )}
+      </>
+    )
+  );
+  // End test data validation
+
   const [editRawEditorValue, setEditRawEditorValue] = useState(yaml.dump(normalizeJudgeInfo(judgeInfo)));
   const [editRowEditorModified, setEditRowEditorModified] = useConfirmNavigation();
   const [editRawEditorErrorMessage, setEditRawEditorErrorMessage] = useState("");
@@ -201,12 +293,19 @@ let ProblemJudgeSettingsPage: React.FC<ProblemJudgeSettingsPageProps> = props =>
   return (
     <>
       {editRawDialog.element}
+      {validationDialog.element}
       <Grid>
         <Grid.Row>
           <Grid.Column width={7}>
             <div className={style.leftContainer}>
               <div className={style.header}>
                 <Header className="withIcon" icon="setting" as="h1" content={_(".header") + " " + idString} />
+                <Button
+                  className={style.validateButton}
+                  disabled={pending}
+                  content={_(".validator.validate")}
+                  onClick={onValidate}
+                />
                 <Popup
                   trigger={
                     <Button
@@ -285,6 +384,14 @@ let ProblemJudgeSettingsPage: React.FC<ProblemJudgeSettingsPageProps> = props =>
                     on="click"
                   />
                 </Form.Field>
+                <Form.Checkbox
+                  inline
+                  toggle
+                  className={style.validateOnSave}
+                  label={_(".validator.validate_on_save")}
+                  checked={validateOnSave}
+                  onChange={(e, { checked }) => setValidateOnSave(checked)}
+                />
                 <Form.Checkbox
                   inline
                   toggle
@@ -303,6 +410,7 @@ let ProblemJudgeSettingsPage: React.FC<ProblemJudgeSettingsPageProps> = props =>
               pending={pending}
               judgeInfo={judgeInfo}
               testData={props.problem.testData}
+              additionalFiles={props.problem.additionalFiles}
               onUpdateJudgeInfo={onUpdate}
             />
           </Grid.Column>
@@ -324,6 +432,8 @@ async function getProblemTypeEditorComponent(type: ProblemType): Promise<Problem
           return import("./types/InteractionProblemEditor");
         case ProblemType.SubmitAnswer:
           return import("./types/SubmitAnswerProblemEditor");
+        case ProblemType.Communication:
+          return import("./types/CommunicationProblemEditor");
       }
     })()
   ).default;
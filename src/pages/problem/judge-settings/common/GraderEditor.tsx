@@ -0,0 +1,188 @@
+import React from "react";
+import { Dropdown, Menu, Popup, Button, Form } from "semantic-ui-react";
+import { observer } from "mobx-react";
+
+import style from "./GraderEditor.module.less";
+
+import { useLocalizer } from "@/utils/hooks";
+import { CodeLanguage } from "@/interfaces/CodeLanguage";
+import TestDataFileSelector from "./TestDataFileSelector";
+import { JudgeInfoProcessor, EditorComponentProps } from "./interface";
+
+export interface GraderConfig {
+  // The grader source file, compiled and linked with the user's code
+  grader: string;
+  // The header file, put into the compiling directory with its filename and shown to users read-only
+  // It's an additional file, since the test data is only accessible to the users with permission to modify
+  header?: string;
+  // The stub template, an additional file downloadable by users from the submit view
+  stub?: string;
+}
+
+export interface JudgeInfoWithGrader {
+  // language => grader config, only the configured languages are allowed to submit in grader mode
+  grader?: Partial<Record<CodeLanguage, GraderConfig>>;
+}
+
+type GraderEditorProps = EditorComponentProps<JudgeInfoWithGrader>;
+
+let GraderEditor: React.FC<GraderEditorProps> = props => {
+  const _ = useLocalizer("problem_judge_settings");
+
+  const grader = props.judgeInfo.grader;
+
+  function onToggleGrader() {
+    if (props.pending) return;
+
+    props.onUpdateJudgeInfo({ grader: grader ? null : {} });
+  }
+
+  function onUpdateGraderConfig(codeLanguage: CodeLanguage, delta: Partial<GraderConfig>) {
+    props.onUpdateJudgeInfo(({ grader }) => ({
+      grader: Object.assign({}, grader, {
+        [codeLanguage]: Object.assign({ grader: "" }, grader[codeLanguage], delta)
+      })
+    }));
+  }
+
+  function onDeleteGraderConfig(codeLanguage: CodeLanguage) {
+    props.onUpdateJudgeInfo(({ grader }) => ({
+      grader: Object.fromEntries(Object.entries(grader).filter(([language]) => language !== codeLanguage))
+    }));
+  }
+
+  const configuredLanguages = grader ? Object.values(CodeLanguage).filter(codeLanguage => grader[codeLanguage]) : [];
+  const unconfiguredLanguages = Object.values(CodeLanguage).filter(
+    codeLanguage => !configuredLanguages.includes(codeLanguage)
+  );
+
+  return (
+    <div className={style.wrapper}>
+      <Form>
+        <Form.Checkbox checked={!!grader} label={_(".grader.option")} onChange={() => onToggleGrader()} />
+        {grader && (
+          <>
+            <Menu
+              className={style.menu + " " + style.menuHeader + " " + style.color_5}
+              attached={configuredLanguages.length > 0 ? "top" : true}
+            >
+              <Menu.Item className={style.itemTitle}>
+                <strong>{_(".grader.title")}</strong>
+              </Menu.Item>
+              <Menu.Menu position="right">
+                <Dropdown
+                  item
+                  icon="plus"
+                  className={`icon ${style.itemWithIcon}`}
+                  disabled={unconfiguredLanguages.length === 0}
+                >
+                  <Dropdown.Menu>
+                    {unconfiguredLanguages.map(codeLanguage => (
+                      <Dropdown.Item
+                        key={codeLanguage}
+                        text={_(`code_language.${codeLanguage}.name`)}
+                        onClick={() => onUpdateGraderConfig(codeLanguage, {})}
+                      />
+                    ))}
+                  </Dropdown.Menu>
+                </Dropdown>
+              </Menu.Menu>
+            </Menu>
+            {configuredLanguages.map((codeLanguage, i) => (
+              <Menu
+                className={style.graderItem}
+                key={codeLanguage}
+                attached={i === configuredLanguages.length - 1 ? "bottom" : (true as any)}
+              >
+                <Menu.Item className={style.itemTitle + " " + style.language}>
+                  {_(`code_language.${codeLanguage}.name`)}
+                </Menu.Item>
+                <TestDataFileSelector
+                  type="ItemSearchDropdown"
+                  className={style.dropdown}
+                  testData={props.testData}
+                  placeholder={_(".grader.grader")}
+                  value={grader[codeLanguage].grader}
+                  onChange={value => onUpdateGraderConfig(codeLanguage, { grader: value })}
+                />
+                <TestDataFileSelector
+                  type="ItemSearchDropdown"
+                  className={style.dropdown}
+                  testData={props.additionalFiles}
+                  optional
+                  placeholder={_(".grader.header")}
+                  value={grader[codeLanguage].header}
+                  onChange={value => onUpdateGraderConfig(codeLanguage, { header: value })}
+                />
+                <TestDataFileSelector
+                  type="ItemSearchDropdown"
+                  className={style.dropdown}
+                  testData={props.additionalFiles}
+                  optional
+                  placeholder={_(".grader.stub")}
+                  value={grader[codeLanguage].stub}
+                  onChange={value => onUpdateGraderConfig(codeLanguage, { stub: value })}
+                />
+                <Menu.Menu position="right">
+                  <Popup
+                    trigger={
+                      <Menu.Item className={`icon ${style.itemWithIcon}`} icon="delete" title={_(".grader.delete")} />
+                    }
+                    content={
+                      <Button
+                        negative
+                        content={_(".grader.confirm_delete")}
+                        onClick={() => onDeleteGraderConfig(codeLanguage)}
+                      />
+                    }
+                    on="click"
+                    position="top center"
+                  />
+                </Menu.Menu>
+              </Menu>
+            ))}
+          </>
+        )}
+      </Form>
+    </div>
+  );
+};
+
+GraderEditor = observer(GraderEditor);
+
+function parseGraderConfig(config: Partial<GraderConfig>): GraderConfig {
+  const result: GraderConfig = { grader: typeof config.grader === "string" ? config.grader : "" };
+  if (config.header && typeof config.header === "string") result.header = config.header;
+  if (config.stub && typeof config.stub === "string") result.stub = config.stub;
+  return result;
+}
+
+const judgeInfoProcessor: JudgeInfoProcessor<JudgeInfoWithGrader> = {
+  parseJudgeInfo(raw) {
+    return {
+      grader:
+        raw.grader && typeof raw.grader === "object"
+          ? Object.fromEntries(
+              Object.entries(raw.grader)
+                .filter(
+                  ([language, config]) =>
+                    Object.values(CodeLanguage).includes(language as CodeLanguage) &&
+                    config &&
+                    typeof config === "object"
+                )
+                .map(([language, config]) => [language, parseGraderConfig(config)])
+            )
+          : null
+    };
+  },
+  normalizeJudgeInfo(judgeInfo) {
+    if (!judgeInfo.grader) delete judgeInfo.grader;
+    else
+      for (const config of Object.values(judgeInfo.grader)) {
+        if (!config.header) delete config.header;
+        if (!config.stub) delete config.stub;
+      }
+  }
+};
+
+export default Object.assign(GraderEditor, judgeInfoProcessor);
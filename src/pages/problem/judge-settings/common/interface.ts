@@ -3,6 +3,7 @@ export interface EditorComponentProps<JudgeInfo, Options = never> {
   judgeInfo: JudgeInfo;
   pending: boolean;
   testData: ApiTypes.ProblemFileDto[];
+  additionalFiles: ApiTypes.ProblemFileDto[];
   onUpdateJudgeInfo: (
     deltaOrReducer: Partial<JudgeInfo> | ((judgeInfo: JudgeInfo) => Partial<JudgeInfo>),
     isNotByUser?: boolean
@@ -0,0 +1,244 @@
+import React from "react";
+import { observer } from "mobx-react";
+
+import style from "./CommunicationProblemEditor.module.less";
+
+import { JudgeInfoProcessor, EditorComponentProps, Options } from "../common/interface";
+
+import MetaEditor, { JudgeInfoWithMeta } from "../common/MetaEditor";
+import SubtasksEditor, { JudgeInfoWithSubtasks } from "../common/SubtasksEditor";
+import ExtraSourceFilesEditor, { JudgeInfoWithExtraSourceFiles } from "../common/ExtraSourceFilesEditor";
+import {
+  CodeLanguage,
+  filterValidCompileAndRunOptions,
+  getPreferredCompileAndRunOptions,
+  checkCodeFileExtension
+} from "@/interfaces/CodeLanguage";
+import { useLocalizer } from "@/utils/hooks";
+import { Segment, Form, Header, Menu, Input } from "semantic-ui-react";
+import TestDataFileSelector from "../common/TestDataFileSelector";
+import CodeLanguageAndOptions from "@/components/CodeLanguageAndOptions";
+
+const metaEditorOptions: Options<typeof MetaEditor> = {
+  enableTimeMemoryLimit: true,
+  enableFileIo: false,
+  enableRunSamples: true
+};
+
+const subtasksEditorOptions: Options<typeof SubtasksEditor> = {
+  enableTimeMemoryLimit: true,
+  enableInputFile: true,
+  enableOutputFile: true,
+  enableUserOutputFilename: false
+};
+
+const MAX_PROCESS_COUNT = 16;
+
+// How the manager communicates with the user processes
+type CommunicationInterface = "pipe" | "fifo";
+
+interface ManagerConfig {
+  language: CodeLanguage;
+  compileAndRunOptions: Record<string, unknown>;
+  filename: string;
+  timeLimit?: number;
+  memoryLimit?: number;
+}
+
+interface CommunicationConfig {
+  interface: CommunicationInterface;
+  // The number of user processes spawned by the judge, each of them is connected to the manager
+  // It's null while the user is clearing the field to retype it
+  processCount: number;
+}
+
+interface JudgeInfoWithManager {
+  manager: ManagerConfig;
+  communication: CommunicationConfig;
+}
+
+export type JudgeInfoCommunication = JudgeInfoWithMeta &
+  JudgeInfoWithSubtasks &
+  JudgeInfoWithManager &
+  JudgeInfoWithExtraSourceFiles;
+type CommunicationProblemEditorProps = EditorComponentProps<JudgeInfoCommunication>;
+
+function normalizeProcessCount(x: number) {
+  x = Math.round(x);
+  if (!(x >= 1)) return 1;
+  if (x > MAX_PROCESS_COUNT) return MAX_PROCESS_COUNT;
+  return x;
+}
+
+function parseManagerConfig(manager: Partial<ManagerConfig>, testData: ApiTypes.ProblemFileDto[]): ManagerConfig {
+  const language = Object.values(CodeLanguage).includes(manager.language)
+    ? manager.language
+    : Object.values(CodeLanguage)[0];
+  return {
+    language: language,
+    compileAndRunOptions:
+      language === manager.language
+        ? filterValidCompileAndRunOptions(language, manager.compileAndRunOptions)
+        : getPreferredCompileAndRunOptions(language),
+    filename:
+      manager.filename && typeof manager.filename === "string"
+        ? manager.filename
+        : (testData.find(file => checkCodeFileExtension(language, file.filename)) || testData[0] || {}).filename || "",
+    timeLimit: Number.isSafeInteger(manager.timeLimit) ? manager.timeLimit : null,
+    memoryLimit: Number.isSafeInteger(manager.memoryLimit) ? manager.memoryLimit : null
+  };
+}
+
+function parseCommunicationConfig(communication: Partial<CommunicationConfig>): CommunicationConfig {
+  return {
+    interface: ["pipe", "fifo"].includes(communication.interface) ? communication.interface : "pipe",
+    processCount: normalizeProcessCount(Number(communication.processCount))
+  };
+}
+
+let CommunicationProblemEditor: React.FC<CommunicationProblemEditorProps> = props => {
+  const _ = useLocalizer("problem_judge_settings");
+
+  const communicationInterfaces: CommunicationInterface[] = ["pipe", "fifo"];
+  const { manager, communication } = props.judgeInfo;
+  function onUpdateManager(delta: Partial<ManagerConfig>) {
+    props.onUpdateJudgeInfo(({ manager }) => ({
+      manager: Object.assign({}, manager, delta)
+    }));
+  }
+
+  function onUpdateCommunication(delta: Partial<CommunicationConfig>) {
+    props.onUpdateJudgeInfo(({ communication }) => ({
+      communication: Object.assign({}, communication, delta)
+    }));
+  }
+
+  return (
+    <>
+      <MetaEditor {...props} options={metaEditorOptions} />
+      <Form className={style.wrapper}>
+        <div className={style.menuWrapper}>
+          <Header size="tiny" content={_(".manager.manager")} />
+          <Menu secondary pointing>
+            {communicationInterfaces.map(communicationInterface => (
+              <Menu.Item
+                key={communicationInterface}
+                content={_(`.manager.interfaces.${communicationInterface}`)}
+                active={communication.interface === communicationInterface}
+                onClick={() => onUpdateCommunication({ interface: communicationInterface })}
+              />
+            ))}
+          </Menu>
+        </div>
+        <Segment color="grey" className={style.checkerConfig}>
+          <div className={style.custom}>
+            <TestDataFileSelector
+              type="FormSelect"
+              label={_(".manager.filename")}
+              placeholder={_(".manager.filename_no_file")}
+              value={manager.filename}
+              testData={props.testData}
+              onChange={value => onUpdateManager({ filename: value })}
+            />
+            <div className={style.compileAndRunOptions}>
+              <CodeLanguageAndOptions
+                elementAfterLanguageSelect={
+                  <Form.Field>
+                    <label>{_(".manager.process_count")}</label>
+                    <Input
+                      value={communication.processCount == null ? "" : communication.processCount}
+                      type="number"
+                      min={1}
+                      max={MAX_PROCESS_COUNT}
+                      onChange={(e, { value }) =>
+                        (value === "" || (Number.isSafeInteger(Number(value)) && Number(value) >= 0)) &&
+                        onUpdateCommunication({ processCount: value === "" ? null : Number(value) })
+                      }
+                      onBlur={() =>
+                        onUpdateCommunication({ processCount: normalizeProcessCount(communication.processCount) })
+                      }
+                    />
+                  </Form.Field>
+                }
+                language={manager.language}
+                compileAndRunOptions={manager.compileAndRunOptions}
+                onUpdateLanguage={newLanguage => onUpdateManager({ language: newLanguage })}
+                onUpdateCompileAndRunOptions={compileAndRunOptions =>
+                  onUpdateManager({ compileAndRunOptions: compileAndRunOptions })
+                }
+              />
+            </div>
+            <Form.Group>
+              <Form.Field width={8}>
+                <label>{_(".meta.time_limit")}</label>
+                <Input
+                  className={style.labeledInput}
+                  placeholder={props.judgeInfo["timeLimit"]}
+                  value={manager.timeLimit == null ? "" : manager.timeLimit}
+                  label="ms"
+                  labelPosition="right"
+                  icon="clock"
+                  iconPosition="left"
+                  onChange={(e, { value }) =>
+                    (value === "" || (Number.isSafeInteger(Number(value)) && Number(value) >= 0)) &&
+                    onUpdateManager({ timeLimit: value === "" ? null : Number(value) })
+                  }
+                />
+              </Form.Field>
+              <Form.Field width={8}>
+                <label>{_(".meta.memory_limit")}</label>
+                <Input
+                  className={style.labeledInput}
+                  placeholder={props.judgeInfo["memoryLimit"]}
+                  value={manager.memoryLimit == null ? "" : manager.memoryLimit}
+                  label="MiB"
+                  labelPosition="right"
+                  icon="microchip"
+                  iconPosition="left"
+                  onChange={(e, { value }) =>
+                    (value === "" || (Number.isSafeInteger(Number(value)) && Number(value) >= 0)) &&
+                    onUpdateManager({ memoryLimit: value === "" ? null : Number(value) })
+                  }
+                />
+              </Form.Field>
+            </Form.Group>
+            <div className={style.description}>
+              {_(`.manager.description.${communication.interface}`, {
+                processCount: communication.processCount
+              })}
+            </div>
+          </div>
+        </Segment>
+      </Form>
+      <SubtasksEditor {...props} options={subtasksEditorOptions} />
+      <ExtraSourceFilesEditor {...props} />
+    </>
+  );
+};
+
+CommunicationProblemEditor = observer(CommunicationProblemEditor);
+
+const judgeInfoProcessor: JudgeInfoProcessor<JudgeInfoCommunication> = {
+  parseJudgeInfo(raw, testData) {
+    return Object.assign(
+      {},
+      MetaEditor.parseJudgeInfo(raw, testData, metaEditorOptions),
+      {
+        manager: parseManagerConfig(raw.manager || {}, testData),
+        communication: parseCommunicationConfig(raw.communication || {})
+      },
+      SubtasksEditor.parseJudgeInfo(raw, testData, subtasksEditorOptions),
+      ExtraSourceFilesEditor.parseJudgeInfo(raw, testData)
+    );
+  },
+  normalizeJudgeInfo(judgeInfo) {
+    MetaEditor.normalizeJudgeInfo(judgeInfo, metaEditorOptions);
+    if (judgeInfo.manager.timeLimit == null) delete judgeInfo.manager.timeLimit;
+    if (judgeInfo.manager.memoryLimit == null) delete judgeInfo.manager.memoryLimit;
+    judgeInfo.communication.processCount = normalizeProcessCount(judgeInfo.communication.processCount);
+    SubtasksEditor.normalizeJudgeInfo(judgeInfo, subtasksEditorOptions);
+    ExtraSourceFilesEditor.normalizeJudgeInfo(judgeInfo);
+  }
+};
+
+export default Object.assign(CommunicationProblemEditor, judgeInfoProcessor);
@@ -6,6 +6,7 @@ import { JudgeInfoProcessor, EditorComponentProps, Options } from "../common/int
 import MetaEditor, { JudgeInfoWithMeta } from "../common/MetaEditor";
 import SubtasksEditor, { JudgeInfoWithSubtasks } from "../common/SubtasksEditor";
 import CheckerEditor, { JudgeInfoWithChecker } from "../common/CheckerEditor";
+import GraderEditor, { JudgeInfoWithGrader } from "../common/GraderEditor";
 import ExtraSourceFilesEditor, { JudgeInfoWithExtraSourceFiles } from "../common/ExtraSourceFilesEditor";
 
 const metaEditorOptions: Options<typeof MetaEditor> = {
@@ -24,6 +25,7 @@ const subtasksEditorOptions: Options<typeof SubtasksEditor> = {
 export type JudgeInfoTraditional = JudgeInfoWithMeta &
   JudgeInfoWithSubtasks &
   JudgeInfoWithChecker &
+  JudgeInfoWithGrader &
   JudgeInfoWithExtraSourceFiles;
 type TraditionalProblemEditorProps = EditorComponentProps<JudgeInfoTraditional>;
 
@@ -33,6 +35,7 @@ let TraditionalProblemEditor: React.FC<TraditionalProblemEditorProps> = props =>
       <MetaEditor {...props} options={metaEditorOptions} />
       <CheckerEditor {...props} />
       <SubtasksEditor {...props} options={subtasksEditorOptions} />
+      <GraderEditor {...props} />
       <ExtraSourceFilesEditor {...props} />
     </>
   );
@@ -47,6 +50,7 @@ const judgeInfoProcessor: JudgeInfoProcessor<JudgeInfoTraditional> = {
       MetaEditor.parseJudgeInfo(raw, testData, metaEditorOptions),
       CheckerEditor.parseJudgeInfo(raw, testData),
       SubtasksEditor.parseJudgeInfo(raw, testData, subtasksEditorOptions),
+      GraderEditor.parseJudgeInfo(raw, testData),
       ExtraSourceFilesEditor.parseJudgeInfo(raw, testData)
     );
   },
@@ -54,6 +58,7 @@ const judgeInfoProcessor: JudgeInfoProcessor<JudgeInfoTraditional> = {
     MetaEditor.normalizeJudgeInfo(judgeInfo, metaEditorOptions);
     CheckerEditor.normalizeJudgeInfo(judgeInfo);
     SubtasksEditor.normalizeJudgeInfo(judgeInfo, subtasksEditorOptions);
+    GraderEditor.normalizeJudgeInfo(judgeInfo);
     ExtraSourceFilesEditor.normalizeJudgeInfo(judgeInfo);
   }
 };
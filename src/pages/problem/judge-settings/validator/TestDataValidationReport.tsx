@@ -0,0 +1,92 @@
+import React from "react";
+import { Header, Icon, Message, Table } from "semantic-ui-react";
+import { observer } from "mobx-react";
+
+import style from "./TestDataValidationReport.module.less";
+
+import { useLocalizer } from "@/utils/hooks";
+import formatFileSize from "@/utils/formatFileSize";
+import { TestDataValidationResult } from "./validateTestData";
+
+interface TestDataValidationReportProps {
+  result: TestDataValidationResult;
+  // Shown when validating before saving
+  forSave?: boolean;
+}
+
+let TestDataValidationReport: React.FC<TestDataValidationReportProps> = props => {
+  const _ = useLocalizer("problem_judge_settings");
+
+  const errorCount = props.result.issues.filter(issue => issue.severity === "error").length;
+  const warningCount = props.result.issues.length - errorCount;
+
+  return (
+    <>
+      {errorCount > 0 ? (
+        <Message
+          error
+          header={_(".validator.errors", { errorCount: String(errorCount), warningCount: String(warningCount) })}
+          content={props.forSave && _(".validator.errors_block_save")}
+        />
+      ) : warningCount > 0 ? (
+        <Message
+          warning
+          header={_(".validator.warnings", { warningCount: String(warningCount) })}
+          content={props.forSave && _(".validator.warnings_confirm_save")}
+        />
+      ) : (
+        <Message success header={_(".validator.no_issues")} />
+      )}
+      {props.result.issues.length > 0 && (
+        <div className={style.issues}>
+          <Table compact unstackable>
+            <Table.Body>
+              {props.result.issues.map((issue, i) => (
+                <Table.Row key={i} error={issue.severity === "error"} warning={issue.severity === "warning"}>
+                  <Table.Cell className={style.filename}>
+                    <Icon name={issue.severity === "error" ? "times circle" : "warning sign"} />
+                    <code>{issue.filename}</code>
+                  </Table.Cell>
+                  <Table.Cell>
+                    {_(`.validator.issue.${issue.type}`, {
+                      line: String(issue.line),
+                      lineCount: String(issue.lineCount),
+                      duplicateOf: issue.duplicateOf
+                    })}
+                  </Table.Cell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table>
+        </div>
+      )}
+      <Header size="small" content={_(".validator.statistics")} />
+      <Table compact unstackable textAlign="center">
+        <Table.Header>
+          <Table.Row>
+            <Table.HeaderCell>{_(".validator.subtask")}</Table.HeaderCell>
+            <Table.HeaderCell>{_(".validator.testcase_count")}</Table.HeaderCell>
+            <Table.HeaderCell>{_(".validator.input_size")}</Table.HeaderCell>
+            <Table.HeaderCell>{_(".validator.output_size")}</Table.HeaderCell>
+            <Table.HeaderCell>{_(".validator.total_size")}</Table.HeaderCell>
+          </Table.Row>
+        </Table.Header>
+        <Table.Body>
+          {props.result.subtasks.map((subtask, i) => (
+            <Table.Row key={i}>
+              <Table.Cell>#{i + 1}</Table.Cell>
+              <Table.Cell>{subtask.testcaseCount}</Table.Cell>
+              <Table.Cell>{formatFileSize(subtask.inputSize, 1)}</Table.Cell>
+              <Table.Cell>{formatFileSize(subtask.outputSize, 1)}</Table.Cell>
+              <Table.Cell>{formatFileSize(subtask.inputSize + subtask.outputSize, 1)}</Table.Cell>
+            </Table.Row>
+          ))}
+        </Table.Body>
+      </Table>
+    </>
+  );
+};
+
+TestDataValidationReport = observer(TestDataValidationReport);
+
+export default TestDataValidationReport;
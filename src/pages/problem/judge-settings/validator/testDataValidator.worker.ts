@@ -0,0 +1,69 @@
+import { exposeWorkerFunctions } from "@/utils/createWorker";
+
+export interface TestDataFileAnalysis {
+  size: number;
+  sha256: string;
+  // Not valid UTF-8 text, the text checks below are skipped
+  notUtf8: boolean;
+  bom: boolean;
+  // The 1-based line numbers of the first occurrences and the numbers of lines with the issue
+  crlfLines: number;
+  firstCrlfLine?: number;
+  trailingWhitespaceLines: number;
+  firstTrailingWhitespaceLine?: number;
+}
+
+const CR = 0x0d,
+  LF = 0x0a,
+  SPACE = 0x20,
+  TAB = 0x09;
+
+export async function analyzeFile(blob: Blob): Promise<TestDataFileAnalysis> {
+  const buffer = await blob.arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+
+  const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", buffer));
+  const result: TestDataFileAnalysis = {
+    size: bytes.length,
+    sha256: Array.from(hash, byte => byte.toString(16).padStart(2, "0")).join(""),
+    notUtf8: false,
+    bom: bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf,
+    crlfLines: 0,
+    trailingWhitespaceLines: 0
+  };
+
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    result.notUtf8 = true;
+    return result;
+  }
+
+  const onLineEnd = (line: number, end: number) => {
+    let lastCharIndex = end - 1;
+    if (lastCharIndex >= 0 && bytes[lastCharIndex] === CR) {
+      result.crlfLines++;
+      result.firstCrlfLine ??= line;
+      lastCharIndex--;
+    }
+    if (lastCharIndex >= 0 && (bytes[lastCharIndex] === SPACE || bytes[lastCharIndex] === TAB)) {
+      result.trailingWhitespaceLines++;
+      result.firstTrailingWhitespaceLine ??= line;
+    }
+  };
+
+  let line = 1,
+    lineStart = 0;
+  for (let i = 0; i < bytes.length; i++)
+    if (bytes[i] === LF) {
+      // Empty lines have no trailing whitespace
+      if (i > lineStart) onLineEnd(line, i);
+      line++;
+      lineStart = i + 1;
+    }
+  if (bytes.length > lineStart) onLineEnd(line, bytes.length);
+
+  return result;
+}
+
+exposeWorkerFunctions({ analyzeFile });
@@ -0,0 +1,185 @@
+import pAll from "p-all";
+
+import api from "@/api";
+import toast from "@/utils/toast";
+import { Localizer } from "@/locales";
+import { createWorker } from "@/utils/createWorker";
+import { ProblemType } from "@/interfaces/ProblemType";
+import { detectTestcasesByMatchingInputToOutput } from "../common/detect-testcases";
+import TestDataValidatorWorker from "./testDataValidator.worker?worker";
+import type { TestDataFileAnalysis } from "./testDataValidator.worker";
+
+// Files larger than this are not downloaded, only their sizes are counted
+const MAX_ANALYZE_FILE_SIZE = 128 * 1024 * 1024;
+const MAX_DOWNLOAD_CONCURRENCY = 5;
+
+export interface TestDataIssue {
+  // Errors block saving the judge info, warnings need to be confirmed
+  severity: "error" | "warning";
+  // Localized with problem_judge_settings.validator.issue.<type>
+  type:
+    | "MISSING_FILE"
+    | "MISSING_OUTPUT"
+    | "NOT_UTF8"
+    | "BOM"
+    | "CRLF"
+    | "TRAILING_WHITESPACE"
+    | "DUPLICATE_INPUT"
+    | "TOO_LARGE";
+  filename: string;
+  line?: number;
+  lineCount?: number;
+  duplicateOf?: string;
+}
+
+export interface SubtaskStatistics {
+  testcaseCount: number;
+  inputSize: number;
+  outputSize: number;
+}
+
+export interface TestDataValidationResult {
+  issues: TestDataIssue[];
+  subtasks: SubtaskStatistics[];
+}
+
+interface Testcase {
+  inputFile?: string;
+  outputFile?: string;
+}
+
+// Interaction problems have no output files
+function isOutputRequired(problemType: ProblemType) {
+  return problemType !== ProblemType.Interaction;
+}
+
+// Analyses are cached by the UUIDs of files, which change when files are re-uploaded
+const analysisCache = new Map<string, TestDataFileAnalysis>();
+
+/**
+ * Validate the test data referenced by the normalized judge info. Files are downloaded and analyzed in a worker.
+ * Return null and show the error if failed to download the files.
+ */
+export async function validateTestData(
+  problemId: number,
+  problemType: ProblemType,
+  judgeInfo: { subtasks?: { testcases: Testcase[] }[] },
+  testData: ApiTypes.ProblemFileDto[],
+  onProgress: (analyzed: number, total: number) => void,
+  _: Localizer
+): Promise<TestDataValidationResult> {
+  const outputRequired = isOutputRequired(problemType);
+
+  // Testcases are detected by filenames when not configured
+  const subtasks: Testcase[][] = judgeInfo.subtasks
+    ? judgeInfo.subtasks.map(subtask => subtask.testcases || [])
+    : [detectTestcasesByMatchingInputToOutput(testData, true)];
+
+  const issues: TestDataIssue[] = [];
+  const files = new Map<string, ApiTypes.ProblemFileDto>();
+  const reportedMissingFiles = new Set<string>();
+  for (const testcases of subtasks)
+    for (const testcase of testcases) {
+      if (outputRequired && !testcase.outputFile && testcase.inputFile)
+        issues.push({ severity: "error", type: "MISSING_OUTPUT", filename: testcase.inputFile });
+
+      for (const filename of [testcase.inputFile, testcase.outputFile]) {
+        if (!filename) continue;
+
+        const file = testData.find(file => file.filename === filename);
+        if (file) files.set(filename, file);
+        else if (!reportedMissingFiles.has(filename)) {
+          reportedMissingFiles.add(filename);
+          issues.push({ severity: "error", type: "MISSING_FILE", filename });
+        }
+      }
+    }
+
+  const filesToAnalyze = Array.from(files.values()).filter(
+    file => file.size <= MAX_ANALYZE_FILE_SIZE && !analysisCache.has(file.uuid)
+  );
+  for (const file of files.values())
+    if (file.size > MAX_ANALYZE_FILE_SIZE)
+      issues.push({ severity: "warning", type: "TOO_LARGE", filename: file.filename });
+
+  let analyzed = 0;
+  onProgress(analyzed, filesToAnalyze.length);
+  if (filesToAnalyze.length > 0) {
+    const { requestError, response } = await api.problem.downloadProblemFiles({
+      problemId,
+      type: "TestData",
+      filenameList: filesToAnalyze.map(file => file.filename)
+    });
+    if (requestError) {
+      toast.error(requestError(_));
+      return null;
+    } else if (response.error) {
+      toast.error(_(`problem_judge_settings.error.${response.error}`));
+      return null;
+    }
+
+    const worker = createWorker<typeof import("./testDataValidator.worker")>(TestDataValidatorWorker);
+    try {
+      await pAll(
+        response.downloadInfo.map(({ filename, downloadUrl }) => async () => {
+          const file = files.get(filename);
+          const fetchResponse = await fetch(downloadUrl);
+          if (!fetchResponse.ok) throw new Error(`${filename}: ${fetchResponse.statusText}`);
+
+          analysisCache.set(file.uuid, await worker.analyzeFile(await fetchResponse.blob()));
+          onProgress(++analyzed, filesToAnalyze.length);
+        }),
+        {
+          concurrency: MAX_DOWNLOAD_CONCURRENCY
+        }
+      );
+    } catch (e) {
+      toast.error(_("problem_judge_settings.validator.download_error", { error: e.message }));
+      return null;
+    } finally {
+      worker.terminate();
+    }
+  }
+
+  const inputFilenames = new Set(subtasks.flatMap(testcases => testcases.map(testcase => testcase.inputFile)));
+  const inputFilenameOfHash = new Map<string, string>();
+  for (const [filename, file] of files) {
+    const analysis = analysisCache.get(file.uuid);
+    if (!analysis) continue;
+
+    if (analysis.notUtf8) issues.push({ severity: "warning", type: "NOT_UTF8", filename });
+    if (analysis.bom) issues.push({ severity: "warning", type: "BOM", filename });
+    if (analysis.crlfLines)
+      issues.push({
+        severity: "warning",
+        type: "CRLF",
+        filename,
+        line: analysis.firstCrlfLine,
+        lineCount: analysis.crlfLines
+      });
+    if (analysis.trailingWhitespaceLines)
+      issues.push({
+        severity: "warning",
+        type: "TRAILING_WHITESPACE",
+        filename,
+        line: analysis.firstTrailingWhitespaceLine,
+        lineCount: analysis.trailingWhitespaceLines
+      });
+
+    if (inputFilenames.has(filename)) {
+      const duplicateOf = inputFilenameOfHash.get(analysis.sha256);
+      if (duplicateOf) issues.push({ severity: "warning", type: "DUPLICATE_INPUT", filename, duplicateOf });
+      else inputFilenameOfHash.set(analysis.sha256, filename);
+    }
+  }
+
+  const getSize = (filename: string) => files.get(filename)?.size ?? 0;
+  return {
+    issues: issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1)),
+    subtasks: subtasks.map(testcases => ({
+      testcaseCount: testcases.length,
+      inputSize: testcases.reduce((size, testcase) => size + getSize(testcase.inputFile), 0),
+      outputSize: testcases.reduce((size, testcase) => size + getSize(testcase.outputFile), 0)
+    }))
+  };
+}
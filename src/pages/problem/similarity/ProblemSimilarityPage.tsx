@@ -0,0 +1,405 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Button, Checkbox, Form, Header, Input, Message, Progress, Table, TextArea } from "semantic-ui-react";
+import { observer } from "mobx-react";
+import { v4 as uuid } from "uuid";
+
+import style from "./ProblemSimilarityPage.module.less";
+
+import api from "@/api";
+import { appState } from "@/appState";
+import toast from "@/utils/toast";
+import { useLocalizer, useNavigationChecked, Link } from "@/utils/hooks";
+import UserLink from "@/components/UserLink";
+import { createWorker } from "@/utils/createWorker";
+import { defineRoute, RouteError } from "@/AppRouter";
+import { makeToBeLocalizedText } from "@/locales";
+import { getProblemIdString, getProblemUrl } from "../utils";
+import { CollectedSubmission, collectSubmissions, MAX_SUBMISSIONS } from "./collectSubmissions";
+import SimilarityMatchViewer from "./SimilarityMatchViewer";
+import SimilarityWorker from "./similarity.worker?worker";
+import type { MatchRange, SimilarityPair } from "./similarity.worker";
+
+async function fetchData(idType: "id" | "displayId", id: number) {
+  const { requestError, response } = await api.problem.getProblem({
+    [idType]: id,
+    localizedContentsOfLocale: appState.contentLocale,
+    localizedContentsTitleOnly: true,
+    permissionOfCurrentUser: true
+  });
+
+  if (requestError) throw new RouteError(requestError, { showRefresh: true, showBack: true });
+  else if (response.error) throw new RouteError(makeToBeLocalizedText(`problem_similarity.error.${response.error}`));
+  else if (!response.permissionOfCurrentUser.includes("Modify"))
+    throw new RouteError(makeToBeLocalizedText(`problem_similarity.error.PERMISSION_DENIED`));
+
+  return response;
+}
+
+interface SimilarityCluster {
+  // The indices of the submissions
+  members: number[];
+  pairs: SimilarityPair[];
+  maxSimilarity: number;
+}
+
+// Submissions connected by similar pairs are grouped into a cluster, with union-find
+function getClusters(submissionCount: number, pairs: SimilarityPair[]) {
+  const parent = [...Array(submissionCount).keys()];
+  const find = (x: number): number => (parent[x] === x ? x : (parent[x] = find(parent[x])));
+  for (const pair of pairs) parent[find(pair.a)] = find(pair.b);
+
+  const clusters = new Map<number, SimilarityCluster>();
+  for (const pair of pairs) {
+    const root = find(pair.a);
+    if (!clusters.has(root)) clusters.set(root, { members: [], pairs: [], maxSimilarity: 0 });
+    const cluster = clusters.get(root);
+    cluster.pairs.push(pair);
+    cluster.maxSimilarity = Math.max(cluster.maxSimilarity, pair.similarity);
+  }
+  for (let i = 0; i < submissionCount; i++) clusters.get(find(i))?.members.push(i);
+
+  return [...clusters.values()];
+}
+
+type SortDirection = "ascending" | "descending";
+
+function useSort<T extends string>(defaultColumn: T) {
+  const [column, setColumn] = useState<T>(defaultColumn);
+  const [direction, setDirection] = useState<SortDirection>("descending");
+
+  return {
+    column,
+    direction,
+    sorted: (value: T) => (column === value ? direction : null),
+    onClick: (value: T) => {
+      if (column === value) setDirection(direction === "ascending" ? "descending" : "ascending");
+      else {
+        setColumn(value);
+        setDirection("descending");
+      }
+    },
+    compare: (a: number, b: number) => (direction === "ascending" ? a - b : b - a)
+  };
+}
+
+interface SimilarityReport {
+  submissions: CollectedSubmission[];
+  pairs: SimilarityPair[];
+  clusters: SimilarityCluster[];
+}
+
+interface ProblemSimilarityPageProps {
+  problem: ApiTypes.GetProblemResponseDto;
+  idType: "id" | "displayId";
+}
+
+let ProblemSimilarityPage: React.FC<ProblemSimilarityPageProps> = props => {
+  const _ = useLocalizer("problem_similarity");
+  const navigation = useNavigationChecked();
+
+  const idString = getProblemIdString(props.problem.meta);
+
+  useEffect(() => {
+    appState.enterNewPage(`${_(".title")} ${idString}`, "problem_set", false);
+  }, [appState.locale, props.problem]);
+
+  const [acceptedOnly, setAcceptedOnly] = useState(true);
+  const [latestPerUser, setLatestPerUser] = useState(true);
+  const [minSimilarity, setMinSimilarity] = useState(50);
+  const [minMatchLength, setMinMatchLength] = useState(10);
+  const [baseCode, setBaseCode] = useState("");
+
+  const [progress, setProgress] = useState<{ phase: "query" | "download" | "analyze"; done?: number; total?: number }>(
+    null
+  );
+  const [report, setReport] = useState<SimilarityReport>(null);
+
+  // The worker keeps the analyzed submissions to get the matches of a pair
+  const refWorker = useRef<createWorker<typeof import("./similarity.worker")>>();
+  useEffect(() => () => refWorker.current?.terminate(), []);
+
+  async function onGenerate() {
+    if (progress) return;
+
+    setReport(null);
+    setSelectedCluster(null);
+    setSelectedPair(null);
+    setProgress({ phase: "query", done: 0 });
+    const submissions = await collectSubmissions(
+      props.problem.meta.id,
+      { acceptedOnly, latestPerUser },
+      (phase, done, total) => setProgress({ phase, done, total }),
+      _
+    );
+    if (!submissions) return setProgress(null);
+
+    setProgress({ phase: "analyze" });
+    refWorker.current ??= createWorker<typeof import("./similarity.worker")>(SimilarityWorker);
+    try {
+      const pairs = await refWorker.current.analyze(
+        submissions.map(({ meta, code }) => ({ code, language: meta.codeLanguage })),
+        { minMatchLength, minSimilarity: minSimilarity / 100, baseCode }
+      );
+      setReport({ submissions, pairs, clusters: getClusters(submissions.length, pairs) });
+    } catch (e) {
+      toast.error(_(".analyze_error", { error: e.message }));
+    }
+    setProgress(null);
+  }
+
+  // Begin cluster table
+  const clusterSort = useSort<"size" | "maxSimilarity">("maxSimilarity");
+  const sortedClusters = useMemo(
+    () =>
+      report &&
+      [...report.clusters].sort((a, b) =>
+        clusterSort.column === "size"
+          ? clusterSort.compare(a.members.length, b.members.length)
+          : clusterSort.compare(a.maxSimilarity, b.maxSimilarity)
+      ),
+    [report, clusterSort.column, clusterSort.direction]
+  );
+  const [selectedCluster, setSelectedCluster] = useState<SimilarityCluster>(null);
+  // End cluster table
+
+  // Begin pair table
+  const pairSort = useSort<"similarity" | "a" | "b">("similarity");
+  const sortedPairs = useMemo(
+    () =>
+      selectedCluster &&
+      [...selectedCluster.pairs].sort((x, y) =>
+        pairSort.column === "similarity"
+          ? pairSort.compare(x.similarity, y.similarity)
+          : pairSort.compare(
+              report.submissions[x[pairSort.column]].meta.id,
+              report.submissions[y[pairSort.column]].meta.id
+            )
+      ),
+    [selectedCluster, pairSort.column, pairSort.direction]
+  );
+  const [selectedPair, setSelectedPair] = useState<SimilarityPair>(null);
+  const [matches, setMatches] = useState<[MatchRange[], MatchRange[]]>(null);
+
+  async function onSelectPair(pair: SimilarityPair) {
+    setSelectedPair(pair);
+    setMatches(null);
+    try {
+      setMatches(await refWorker.current.getMatches(pair.a, pair.b));
+    } catch (e) {
+      toast.error(_(".analyze_error", { error: e.message }));
+    }
+  }
+  // End pair table
+
+  const submissionCell = (index: number) => {
+    const { meta } = report.submissions[index];
+    return (
+      <>
+        <Link href={`/s/${meta.id}`}>#{meta.id}</Link>
+        <UserLink user={meta.submitter} />
+      </>
+    );
+  };
+
+  const percent = (x: number) => `${Math.round(x * 100)}%`;
+
+  return (
+    <>
+      <div className={style.header}>
+        <Header as="h1" content={`${_(".title")} ${idString}`} />
+        <Button
+          content={_(".back_to_problem")}
+          onClick={() => navigation.navigate(getProblemUrl(props.problem.meta, { use: props.idType }))}
+        />
+      </div>
+      <div className={style.notes}>{_(".notes", { maxSubmissions: MAX_SUBMISSIONS })}</div>
+      <Form className={style.options}>
+        <Form.Group inline>
+          <Form.Field>
+            <Checkbox
+              checked={acceptedOnly}
+              label={_(".accepted_only")}
+              onChange={(e, { checked }) => setAcceptedOnly(checked)}
+            />
+          </Form.Field>
+          <Form.Field>
+            <Checkbox
+              checked={latestPerUser}
+              label={_(".latest_per_user")}
+              onChange={(e, { checked }) => setLatestPerUser(checked)}
+            />
+          </Form.Field>
+        </Form.Group>
+        <Form.Group widths="equal">
+          <Form.Field>
+            <label>{_(".min_similarity")}</label>
+            <Input
+              type="number"
+              min={1}
+              max={100}
+              label={{ basic: true, content: "%" }}
+              labelPosition="right"
+              value={minSimilarity}
+              onChange={(e, { value }) => Number(value) >= 1 && Number(value) <= 100 && setMinSimilarity(Number(value))}
+            />
+          </Form.Field>
+          <Form.Field>
+            <label>{_(".min_match_length")}</label>
+            <Input
+              type="number"
+              min={3}
+              max={100}
+              value={minMatchLength}
+              onChange={(e, { value }) =>
+                Number.isInteger(Number(value)) &&
+                Number(value) >= 3 &&
+                Number(value) <= 100 &&
+                setMinMatchLength(Number(value))
+              }
+            />
+          </Form.Field>
+        </Form.Group>
+        <Form.Field>
+          <label>{_(".base_code")}</label>
+          <TextArea
+            className="monospace"
+            rows={4}
+            placeholder={_(".base_code_placeholder")}
+            value={baseCode}
+            onChange={(e, { value }) => setBaseCode(value as string)}
+          />
+        </Form.Field>
+        <Button primary loading={!!progress} disabled={!!progress} content={_(".generate")} onClick={onGenerate} />
+      </Form>
+      {progress && (
+        <Progress
+          className={style.progress}
+          percent={progress.phase === "download" && progress.total ? (progress.done / progress.total) * 100 : 100}
+          active
+          indicating={progress.phase !== "download"}
+          label={_(`.progress.${progress.phase}`, { done: progress.done, total: progress.total })}
+        />
+      )}
+      {report && (
+        <>
+          <Message
+            info
+            content={_(".summary", {
+              submissionCount: report.submissions.length,
+              pairCount: report.pairs.length,
+              clusterCount: report.clusters.length
+            })}
+          />
+          {report.clusters.length > 0 && (
+            <>
+              <Header as="h3" content={_(".clusters")} />
+              <Table sortable selectable celled unstackable compact>
+                <Table.Header>
+                  <Table.Row>
+                    <Table.HeaderCell
+                      width={2}
+                      sorted={clusterSort.sorted("size")}
+                      onClick={() => clusterSort.onClick("size")}
+                    >
+                      {_(".cluster_size")}
+                    </Table.HeaderCell>
+                    <Table.HeaderCell
+                      width={3}
+                      sorted={clusterSort.sorted("maxSimilarity")}
+                      onClick={() => clusterSort.onClick("maxSimilarity")}
+                    >
+                      {_(".max_similarity")}
+                    </Table.HeaderCell>
+                    <Table.HeaderCell>{_(".members")}</Table.HeaderCell>
+                  </Table.Row>
+                </Table.Header>
+                <Table.Body>
+                  {sortedClusters.map((cluster, i) => (
+                    <Table.Row
+                      key={i}
+                      className={style.clickable}
+                      active={cluster === selectedCluster}
+                      onClick={() => (setSelectedCluster(cluster), setSelectedPair(null))}
+                    >
+                      <Table.Cell>{cluster.members.length}</Table.Cell>
+                      <Table.Cell>{percent(cluster.maxSimilarity)}</Table.Cell>
+                      <Table.Cell className={style.members}>
+                        {cluster.members.map(index => (
+                          <UserLink key={index} user={report.submissions[index].meta.submitter} />
+                        ))}
+                      </Table.Cell>
+                    </Table.Row>
+                  ))}
+                </Table.Body>
+              </Table>
+            </>
+          )}
+          {selectedCluster && (
+            <>
+              <Header as="h3" content={_(".pairs")} />
+              <Table sortable selectable celled unstackable compact>
+                <Table.Header>
+                  <Table.Row>
+                    <Table.HeaderCell sorted={pairSort.sorted("a")} onClick={() => pairSort.onClick("a")}>
+                      {_(".submission_a")}
+                    </Table.HeaderCell>
+                    <Table.HeaderCell sorted={pairSort.sorted("b")} onClick={() => pairSort.onClick("b")}>
+                      {_(".submission_b")}
+                    </Table.HeaderCell>
+                    <Table.HeaderCell
+                      width={4}
+                      sorted={pairSort.sorted("similarity")}
+                      onClick={() => pairSort.onClick("similarity")}
+                    >
+                      {_(".similarity")}
+                    </Table.HeaderCell>
+                  </Table.Row>
+                </Table.Header>
+                <Table.Body>
+                  {sortedPairs.map(pair => (
+                    <Table.Row
+                      key={`${pair.a}-${pair.b}`}
+                      className={style.clickable}
+                      active={pair === selectedPair}
+                      onClick={() => onSelectPair(pair)}
+                    >
+                      <Table.Cell className={style.members}>{submissionCell(pair.a)}</Table.Cell>
+                      <Table.Cell className={style.members}>{submissionCell(pair.b)}</Table.Cell>
+                      <Table.Cell>
+                        {percent(pair.similarityA)} / {percent(pair.similarityB)}
+                      </Table.Cell>
+                    </Table.Row>
+                  ))}
+                </Table.Body>
+              </Table>
+            </>
+          )}
+          {selectedPair && matches && (
+            <SimilarityMatchViewer
+              submissions={[report.submissions[selectedPair.a], report.submissions[selectedPair.b]]}
+              similarities={[selectedPair.similarityA, selectedPair.similarityB]}
+              ranges={matches}
+            />
+          )}
+        </>
+      )}
+    </>
+  );
+};
+
+ProblemSimilarityPage = observer(ProblemSimilarityPage);
+
+export default {
+  byId: defineRoute(async request => {
+    const id = parseInt(request.params["id"]);
+    const problem = await fetchData("id", id);
+
+    return <ProblemSimilarityPage key={uuid()} idType="id" problem={problem} />;
+  }),
+  byDisplayId: defineRoute(async request => {
+    const displayId = parseInt(request.params["displayId"]);
+    const problem = await fetchData("displayId", displayId);
+
+    return <ProblemSimilarityPage key={uuid()} idType="displayId" problem={problem} />;
+  })
+};
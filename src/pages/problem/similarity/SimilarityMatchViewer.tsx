@@ -0,0 +1,68 @@
+import React from "react";
+import { Grid, Header, Segment } from "semantic-ui-react";
+import { observer } from "mobx-react";
+
+import style from "./ProblemSimilarityPage.module.less";
+
+import { useLocalizer, Link } from "@/utils/hooks";
+import UserLink from "@/components/UserLink";
+import { CollectedSubmission } from "./collectSubmissions";
+import type { MatchRange } from "./similarity.worker";
+
+interface SimilarityMatchCodeProps {
+  submission: CollectedSubmission;
+  similarity: number;
+  ranges: MatchRange[];
+}
+
+const SimilarityMatchCode: React.FC<SimilarityMatchCodeProps> = props => {
+  const _ = useLocalizer("problem_similarity");
+
+  const segments: React.ReactNode[] = [];
+  let position = 0;
+  for (const [start, end] of props.ranges) {
+    segments.push(props.submission.code.slice(position, start));
+    segments.push(<mark key={start}>{props.submission.code.slice(start, end)}</mark>);
+    position = end;
+  }
+  segments.push(props.submission.code.slice(position));
+
+  return (
+    <>
+      <Header as="h4" className={style.viewerHeader}>
+        <Link href={`/s/${props.submission.meta.id}`}>#{props.submission.meta.id}</Link>
+        <UserLink user={props.submission.meta.submitter} />
+        <span className={style.viewerSimilarity}>{_(".matched", { percent: Math.round(props.similarity * 100) })}</span>
+      </Header>
+      <Segment className={style.viewerCode}>
+        <pre className="monospace">{segments}</pre>
+      </Segment>
+    </>
+  );
+};
+
+interface SimilarityMatchViewerProps {
+  submissions: [CollectedSubmission, CollectedSubmission];
+  similarities: [number, number];
+  ranges: [MatchRange[], MatchRange[]];
+}
+
+let SimilarityMatchViewer: React.FC<SimilarityMatchViewerProps> = props => {
+  return (
+    <Grid columns={2} stackable>
+      {[0, 1].map(i => (
+        <Grid.Column key={i}>
+          <SimilarityMatchCode
+            submission={props.submissions[i]}
+            similarity={props.similarities[i]}
+            ranges={props.ranges[i]}
+          />
+        </Grid.Column>
+      ))}
+    </Grid>
+  );
+};
+
+SimilarityMatchViewer = observer(SimilarityMatchViewer);
+
+export default SimilarityMatchViewer;
@@ -0,0 +1,95 @@
+import pAll from "p-all";
+
+import api from "@/api";
+import { appState } from "@/appState";
+import toast from "@/utils/toast";
+import { Localizer } from "@/locales";
+
+// Too many submissions make the report slow and unreadable
+export const MAX_SUBMISSIONS = 1000;
+const SUBMISSIONS_PER_REQUEST = 100;
+const MAX_DOWNLOAD_CONCURRENCY = 5;
+
+export interface CollectedSubmission {
+  meta: ApiTypes.SubmissionMetaDto;
+  code: string;
+}
+
+export interface CollectSubmissionsOptions {
+  acceptedOnly: boolean;
+  // Only the latest submission of each user is collected
+  latestPerUser: boolean;
+}
+
+/**
+ * Query the submissions of the problem page by page, then get the code of each submission.
+ * Return null and show the error if failed.
+ */
+export async function collectSubmissions(
+  problemId: number,
+  options: CollectSubmissionsOptions,
+  onProgress: (phase: "query" | "download", done: number, total?: number) => void,
+  _: Localizer
+): Promise<CollectedSubmission[]> {
+  // Submissions are returned from the latest one
+  const submissions: ApiTypes.SubmissionMetaDto[] = [];
+  const users = new Set<number>();
+  let maxId: number = null,
+    hasMore = true;
+  while (hasMore && submissions.length < MAX_SUBMISSIONS) {
+    const { requestError, response } = await api.submission.querySubmission({
+      locale: appState.locale,
+      problemId,
+      problemDisplayId: null,
+      submitter: null,
+      codeLanguage: null,
+      status: options.acceptedOnly ? "Accepted" : null,
+      minId: null,
+      maxId,
+      takeCount: SUBMISSIONS_PER_REQUEST
+    });
+    if (requestError) return toast.error(requestError(_)), null;
+    else if (response.error) return toast.error(_(`problem_similarity.error.${response.error}`)), null;
+
+    for (const submission of response.submissions) {
+      if (options.latestPerUser && users.has(submission.submitter.id)) continue;
+      users.add(submission.submitter.id);
+      if (submissions.length < MAX_SUBMISSIONS) submissions.push(submission);
+    }
+
+    hasMore = response.hasSmallerId && response.submissions.length > 0;
+    if (hasMore) maxId = response.submissions[response.submissions.length - 1].id - 1;
+    onProgress("query", submissions.length);
+  }
+
+  let downloaded = 0;
+  onProgress("download", downloaded, submissions.length);
+  try {
+    const codes = await pAll(
+      submissions.map(submission => async () => {
+        const { requestError, response } = await api.submission.getSubmissionDetail({
+          submissionId: submission.id.toString(),
+          locale: appState.locale
+        });
+        if (requestError) throw new Error(requestError(_));
+        else if (response.error) throw new Error(_(`problem_similarity.error.${response.error}`));
+
+        onProgress("download", ++downloaded, submissions.length);
+        const code = (response.content as { code?: unknown })?.code;
+        return typeof code === "string" ? code : null;
+      }),
+      {
+        concurrency: MAX_DOWNLOAD_CONCURRENCY
+      }
+    );
+
+    // Submissions without code (e.g. of submit-answer problems) are skipped
+    return submissions
+      .map((meta, i) => ({ meta, code: codes[i] }))
+      .filter(submission => submission.code != null)
+      .reverse();
+  } catch (e) {
+    toast.error(_("problem_similarity.download_error", { error: e.message }));
+    return null;
+  }
+}
@@ -0,0 +1,182 @@
+import { exposeWorkerFunctions } from "@/utils/createWorker";
+import { CodeToken, tokenizeCode } from "./tokenizeCode";
+
+export interface SimilarityDocument {
+  code: string;
+  language: string;
+}
+
+export interface SimilarityOptions {
+  // The length of token sequences to be matched (k in winnowing)
+  minMatchLength: number;
+  // In [0, 1], pairs less similar than this are not returned
+  minSimilarity: number;
+  // The code given to everyone, e.g. a template, which is not counted as copying
+  baseCode?: string;
+}
+
+export interface SimilarityPair {
+  // The indices of the documents
+  a: number;
+  b: number;
+  // The ratios of the fingerprints of each document found in the other one
+  similarityA: number;
+  similarityB: number;
+  similarity: number;
+}
+
+// [start, end) in the code
+export type MatchRange = [number, number];
+
+// Fingerprints shared by more documents than this are likely from common code, not copying
+const MIN_COMMON_DOCUMENT_COUNT = 10;
+const COMMON_DOCUMENT_RATIO = 0.5;
+
+// Each fingerprint is selected from a window of this many consecutive k-gram hashes
+const WINNOWING_WINDOW_SIZE = 4;
+
+interface AnalyzedDocument {
+  tokens: CodeToken[];
+  // hash -> start indices of the k-grams in the tokens
+  fingerprints: Map<number, number[]>;
+}
+
+let analyzedDocuments: AnalyzedDocument[] = [];
+let ignoredHashes = new Set<number>();
+let k = 0;
+
+function hashTokens(tokens: CodeToken[], tokenIds: Map<string, number>) {
+  const ids = tokens.map(token => {
+    if (!tokenIds.has(token.text)) tokenIds.set(token.text, tokenIds.size + 1);
+    return tokenIds.get(token.text);
+  });
+
+  // Rolling polynomial hash of each k-gram, modulo 2^32
+  const BASE = 1000003;
+  let highestPower = 1;
+  for (let i = 1; i < k; i++) highestPower = Math.imul(highestPower, BASE);
+
+  const hashes: number[] = [];
+  let hash = 0;
+  ids.forEach((id, i) => {
+    if (i >= k) hash = (hash - Math.imul(ids[i - k], highestPower)) | 0;
+    hash = (Math.imul(hash, BASE) + id) | 0;
+    if (i >= k - 1) hashes.push(hash >>> 0);
+  });
+
+  return hashes;
+}
+
+// Select the minimum hash of each window (the rightmost one if tied), as in the winnowing algorithm
+function winnow(hashes: number[]) {
+  const fingerprints = new Map<number, number[]>();
+  let lastSelected = -1;
+  for (
+    let windowStart = 0;
+    windowStart + WINNOWING_WINDOW_SIZE <= Math.max(hashes.length, WINNOWING_WINDOW_SIZE);
+    windowStart++
+  ) {
+    let selected = -1;
+    for (let i = windowStart; i < Math.min(windowStart + WINNOWING_WINDOW_SIZE, hashes.length); i++)
+      if (selected === -1 || hashes[i] <= hashes[selected]) selected = i;
+
+    if (selected !== -1 && selected !== lastSelected) {
+      if (!fingerprints.has(hashes[selected])) fingerprints.set(hashes[selected], []);
+      fingerprints.get(hashes[selected]).push(selected);
+      lastSelected = selected;
+    }
+  }
+
+  return fingerprints;
+}
+
+/**
+ * Compute the fingerprints of each document and find the pairs of similar documents.
+ * The analyzed documents are kept in the worker for getMatches().
+ */
+export function analyze(documents: SimilarityDocument[], options: SimilarityOptions): SimilarityPair[] {
+  k = options.minMatchLength;
+  const tokenIds = new Map<string, number>();
+  analyzedDocuments = documents.map(document => {
+    const tokens = tokenizeCode(document.code, document.language);
+    return { tokens, fingerprints: winnow(hashTokens(tokens, tokenIds)) };
+  });
+
+  // The base code is tokenized in every language of the documents
+  ignoredHashes = new Set();
+  if (options.baseCode)
+    for (const language of new Set(documents.map(document => document.language)))
+      for (const hash of hashTokens(tokenizeCode(options.baseCode, language), tokenIds)) ignoredHashes.add(hash);
+
+  // hash -> indices of the documents containing it
+  const documentsOfHash = new Map<number, number[]>();
+  analyzedDocuments.forEach(({ fingerprints }, i) => {
+    for (const hash of fingerprints.keys()) {
+      if (!documentsOfHash.has(hash)) documentsOfHash.set(hash, []);
+      documentsOfHash.get(hash).push(i);
+    }
+  });
+
+  const maxDocumentCount = Math.max(MIN_COMMON_DOCUMENT_COUNT, documents.length * COMMON_DOCUMENT_RATIO);
+  for (const [hash, documentIndices] of documentsOfHash)
+    if (documentIndices.length > maxDocumentCount) ignoredHashes.add(hash);
+
+  const fingerprintCounts = analyzedDocuments.map(
+    ({ fingerprints }) => [...fingerprints.keys()].filter(hash => !ignoredHashes.has(hash)).length
+  );
+
+  // a * documents.length + b -> count of shared fingerprints
+  const sharedCounts = new Map<number, number>();
+  for (const [hash, documentIndices] of documentsOfHash) {
+    if (ignoredHashes.has(hash)) continue;
+    for (let i = 0; i < documentIndices.length; i++)
+      for (let j = i + 1; j < documentIndices.length; j++) {
+        const key = documentIndices[i] * documents.length + documentIndices[j];
+        sharedCounts.set(key, (sharedCounts.get(key) || 0) + 1);
+      }
+  }
+
+  const pairs: SimilarityPair[] = [];
+  for (const [key, sharedCount] of sharedCounts) {
+    const a = Math.floor(key / documents.length),
+      b = key % documents.length;
+    const similarityA = sharedCount / fingerprintCounts[a],
+      similarityB = sharedCount / fingerprintCounts[b];
+    const similarity = Math.max(similarityA, similarityB);
+    if (similarity >= options.minSimilarity) pairs.push({ a, b, similarityA, similarityB, similarity });
+  }
+
+  return pairs.sort((x, y) => y.similarity - x.similarity);
+}
+
+function getMatchRanges(document: AnalyzedDocument, sharedHashes: number[]) {
+  const matched = new Array<boolean>(document.tokens.length).fill(false);
+  for (const hash of sharedHashes)
+    for (const start of document.fingerprints.get(hash))
+      for (let i = start; i < start + k && i < document.tokens.length; i++) matched[i] = true;
+
+  const ranges: MatchRange[] = [];
+  matched.forEach((isMatched, i) => {
+    if (!isMatched) return;
+    const lastRange = ranges[ranges.length - 1];
+    if (lastRange && matched[i - 1]) lastRange[1] = document.tokens[i].end;
+    else ranges.push([document.tokens[i].start, document.tokens[i].end]);
+  });
+
+  return ranges;
+}
+
+/**
+ * Get the ranges of the code matched between two documents analyzed in the last analyze() call.
+ */
+export function getMatches(a: number, b: number): [MatchRange[], MatchRange[]] {
+  const documentA = analyzedDocuments[a],
+    documentB = analyzedDocuments[b];
+  const sharedHashes = [...documentA.fingerprints.keys()].filter(
+    hash => documentB.fingerprints.has(hash) && !ignoredHashes.has(hash)
+  );
+
+  return [getMatchRanges(documentA, sharedHashes), getMatchRanges(documentB, sharedHashes)];
+}
+
+exposeWorkerFunctions({ analyze, getMatches });
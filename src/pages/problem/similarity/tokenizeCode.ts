@@ -0,0 +1,95 @@
+import { CodeLanguage } from "@/interfaces/CodeLanguage";
+
+export interface CodeToken {
+  // Identifiers, numbers and strings are normalized to placeholders, so renaming variables doesn't hide copying
+  text: string;
+  // The range in the original code, to highlight matches
+  start: number;
+  end: number;
+}
+
+const cStyleComments = [/\/\/[^\n]*/y, /\/\*[\s\S]*?(\*\/|$)/y];
+
+const languageComments: Record<CodeLanguage, RegExp[]> = {
+  [CodeLanguage.Cpp]: cStyleComments,
+  [CodeLanguage.C]: cStyleComments,
+  [CodeLanguage.Cuda]: cStyleComments,
+  [CodeLanguage.Java]: cStyleComments,
+  [CodeLanguage.Kotlin]: cStyleComments,
+  [CodeLanguage.Rust]: cStyleComments,
+  [CodeLanguage.Swift]: cStyleComments,
+  [CodeLanguage.Go]: cStyleComments,
+  [CodeLanguage.CSharp]: cStyleComments,
+  [CodeLanguage.Pascal]: [/\/\/[^\n]*/y, /\{[^}]*(\}|$)/y, /\(\*[\s\S]*?(\*\)|$)/y],
+  [CodeLanguage.Python]: [/#[^\n]*/y],
+  [CodeLanguage.Haskell]: [/--[^\n]*/y, /\{-[\s\S]*?(-\}|$)/y],
+  [CodeLanguage.FSharp]: [/\/\/[^\n]*/y, /\(\*[\s\S]*?(\*\)|$)/y]
+};
+
+// Case-insensitive languages
+const caseInsensitiveLanguages = [CodeLanguage.Pascal];
+
+// Keywords and common library names of all supported languages, which are kept in the tokens to keep the structure
+const KEYWORDS = new Set(
+  (
+    "if else elif for foreach while do loop repeat until return break continue switch case default goto try catch " +
+    "except finally throw throws raise class struct union enum interface trait impl record object new delete this " +
+    "self super public private protected static const final void int long short char bool boolean double float " +
+    "unsigned signed auto template typename using namespace include define import package from def lambda yield " +
+    "with as in is not and or xor pass none true false null nil fn let mut match func var go chan select range " +
+    "defer map type begin end then procedure function program uses of to downto array string where data module " +
+    "instance deriving val fun when sizeof vector pair set queue stack priority_queue sort min max swap memset " +
+    "printf scanf cin cout endl print input readln writeln read write println scanner system std"
+  ).split(" ")
+);
+
+const commonTokenRegexes: [RegExp, (text: string, normalizeCase: boolean) => string][] = [
+  // Python's triple-quoted strings
+  [/"""[\s\S]*?("""|$)|'''[\s\S]*?('''|$)/y, () => "$str"],
+  [/"(\\.|[^"\\\n])*"?|'(\\.|[^'\\\n])*'?/y, () => "$str"],
+  [/\d[\w.]*/y, () => "$num"],
+  [
+    /[A-Za-z_$][\w$]*'*/y,
+    (text, normalizeCase) => {
+      const word = normalizeCase ? text.toLowerCase() : text;
+      return KEYWORDS.has(word) ? word : "$id";
+    }
+  ],
+  [/<<=|>>=|->|=>|::|:=|\+\+|--|&&|\|\||<<|>>|[<>=!+\-*/%&|^]=|\S/y, text => text]
+];
+
+const whitespaceRegex = /\s+/y;
+
+/**
+ * Split the code into normalized tokens. Comments and whitespaces are skipped.
+ */
+export function tokenizeCode(code: string, language: CodeLanguage | string) {
+  const comments = languageComments[language] || cStyleComments;
+  const normalizeCase = caseInsensitiveLanguages.includes(language as CodeLanguage);
+
+  const tokens: CodeToken[] = [];
+  for (let i = 0; i < code.length; ) {
+    const match = (regex: RegExp) => {
+      regex.lastIndex = i;
+      const result = regex.exec(code);
+      return result && result[0].length > 0 ? result[0] : null;
+    };
+
+    let text = match(whitespaceRegex) || comments.map(match).find(text => text);
+    if (text) {
+      i += text.length;
+      continue;
+    }
+
+    for (const [regex, normalize] of commonTokenRegexes) {
+      text = match(regex);
+      if (!text) continue;
+
+      tokens.push({ text: normalize(text, normalizeCase), start: i, end: i + text.length });
+      i += text.length;
+      break;
+    }
+  }
+
+  return tokens;
+}
@@ -18,6 +18,7 @@ import {
 import { observer } from "mobx-react";
 import update from "immutability-helper";
 import objectPath from "object-path";
+import { useDebouncedCallback } from "use-debounce";
 import { v4 as uuid } from "uuid";
 
 import style from "./ProblemViewPage.module.less";
@@ -39,6 +40,11 @@ import {
 } from "@/utils/hooks";
 import toast from "@/utils/toast";
 import copyToClipboard from "@/utils/copyToClipboard";
+import formatDateTime from "@/utils/formatDateTime";
+import { CodeDraft, getCodeDrafts, saveCodeDraft } from "@/utils/codeDrafts";
+import { CodeTemplate, getAutoInsertedCodeTemplate } from "@/utils/codeTemplates";
+import * as SyntaxChecker from "@/utils/SyntaxChecker";
+import * as LocalRunner from "@/utils/LocalRunner";
 import { isValidDisplayId } from "@/utils/validators";
 import PermissionManager from "@/components/LazyPermissionManager";
 import { sortTags } from "../problemTag";
@@ -46,13 +52,18 @@ import { defineRoute, RouteError } from "@/AppRouter";
 import { StatusIcon } from "@/components/StatusText";
 import { ProblemType } from "@/interfaces/ProblemType";
 import { ProblemTypeView } from "./common/interface";
+import { hasExtraSourceFiles } from "./common";
+import CodeDraftHistory from "./common/CodeDraftHistory";
+import LocalRunView from "./common/LocalRunView";
 import MarkdownContent, { MarkdownContentPatcher } from "@/markdown/MarkdownContent";
 import { callApiWithFileUpload } from "@/utils/callApiWithFileUpload";
 import { getProblemDisplayName, getProblemUrl } from "../utils";
 import { onEnterPress } from "@/utils/onEnterPress";
 import { downloadProblemFile, downloadProblemFilesAsArchive } from "../files/ProblemFilesPage";
+import { exportProblemPackage } from "../files/import/problemPackage";
 import { makeToBeLocalizedText } from "@/locales";
 import { EmojiRenderer } from "@/components/EmojiRenderer";
+import { getContestProblemIndex, getContestProblemLetter, getContestUrl } from "@/pages/contest/utils";
 
 export function useProblemViewMarkdownContentPatcher(problemId: number): MarkdownContentPatcher {
   const _ = useLocalizer();
@@ -102,9 +113,10 @@ export function useProblemViewMarkdownContentPatcher(problemId: number): Markdow
   };
 }
 
-async function fetchData(idType: "id" | "displayId", id: number, locale: Locale) {
+async function fetchData(idType: "id" | "displayId", id: number, locale: Locale, contestId?: number) {
   const { requestError, response } = await api.problem.getProblem({
     [idType]: id,
+    contestId,
     localizedContentsOfLocale: locale,
     tagsOfLocale: locale,
     samples: true,
@@ -128,6 +140,12 @@ interface ProblemViewPageProps {
   requestedLocale: Locale;
   problem: ApiTypes.GetProblemResponseDto;
   ProblemTypeView: ProblemTypeView<any>;
+
+  // If the problem is viewed as a problem of a contest
+  contest?: {
+    meta: ApiTypes.ContestMetaDto;
+    index: number;
+  };
 }
 
 let ProblemViewPage: React.FC<ProblemViewPageProps> = props => {
@@ -136,15 +154,17 @@ let ProblemViewPage: React.FC<ProblemViewPageProps> = props => {
 
   const isMobile = useScreenWidthWithin(0, 768);
 
-  const [idString, title, all] = getProblemDisplayName(
+  const [problemIdString, title, all] = getProblemDisplayName(
     props.problem.meta,
     props.problem.localizedContentsOfLocale.title,
     _,
     "tuple"
   );
+  const idString = props.contest ? getContestProblemLetter(props.contest.index) : problemIdString;
 
   useEffect(() => {
-    appState.enterNewPage(`${all} - ${_(".title")}`, "problem_set");
+    if (props.contest) appState.enterNewPage(`${idString}. ${title} - ${props.contest.meta.title}`, "contests");
+    else appState.enterNewPage(`${all} - ${_(".title")}`, "problem_set");
   }, [appState.locale, props.problem]);
 
   const recaptcha = useRecaptcha();
@@ -286,6 +306,12 @@ let ProblemViewPage: React.FC<ProblemViewPageProps> = props => {
   );
   // End Permission Manager
 
+  // Begin export package
+  const [exportPackagePending, onExportPackage] = useAsyncCallbackPending(async () => {
+    await exportProblemPackage(props.problem.meta.id, `Problem_${problemIdString}.zip`, _);
+  });
+  // End export package
+
   // Begin delete
   const [deletePending, onDelete] = useAsyncCallbackPending(async () => {
     const { requestError, response } = await api.problem.deleteProblem({
@@ -364,14 +390,26 @@ let ProblemViewPage: React.FC<ProblemViewPageProps> = props => {
 
   const [submitPending, setSubmitPending] = useState(false);
 
-  async function onSubmit(onGetSubmitFile?: () => Promise<Blob>) {
+  async function onSubmit(onGetSubmitFile?: () => Promise<Blob>, skipSyntaxCheck = false) {
     if (submitPending) return;
     setSubmitPending(true);
 
+    if (enableSyntaxCheck && appState.checkSyntaxBeforeSubmit && !skipSyntaxCheck) {
+      const diagnostics = await runSyntaxCheck();
+      if (diagnostics?.some(diagnostic => diagnostic.severity === "error")) {
+        refSyntaxErrorCount.current = diagnostics.filter(diagnostic => diagnostic.severity === "error").length;
+        refSubmitFileGetter.current = onGetSubmitFile;
+        syntaxErrorDialog.open();
+        setSubmitPending(false);
+        return;
+      }
+    }
+
     const { uploadError, requestError, response } = await callApiWithFileUpload(
       api.submission.submit,
       {
         problemId: props.problem.meta.id,
+        contestId: props.contest?.meta.id,
         content: submissionContent
       },
       () => recaptcha("SubmitProblem"),
@@ -391,6 +429,240 @@ let ProblemViewPage: React.FC<ProblemViewPageProps> = props => {
   }
   // End submit
 
+  // Begin drafts
+  const DRAFT_SAVE_DELAY = 1000;
+
+  const enableDrafts = ProblemTypeView.enableDrafts() && !!appState.currentUser;
+  const [drafts, setDrafts] = useState<CodeDraft[]>([]);
+
+  // Problem types with drafts enabled submit code with these fields
+  const codeSubmissionContent = submissionContent as Pick<CodeDraft, "language" | "code" | "compileAndRunOptions">;
+  function getDraftOfSubmissionContent(): Omit<CodeDraft, "id" | "userId" | "time"> {
+    return {
+      problemId: props.problem.meta.id,
+      problemName: all,
+      language: codeSubmissionContent.language,
+      code: codeSubmissionContent.code,
+      compileAndRunOptions: codeSubmissionContent.compileAndRunOptions
+    };
+  }
+
+  // Auto-save the code after the user stops typing, only if modified by the user
+  const saveDraft = useDebouncedCallback((draft: Omit<CodeDraft, "id" | "userId" | "time">) => {
+    saveCodeDraft(draft).catch(e => console.error("Failed to save draft:", e));
+  }, DRAFT_SAVE_DELAY);
+  useEffect(() => {
+    if (enableDrafts && modified && codeSubmissionContent.code) saveDraft(getDraftOfSubmissionContent());
+  }, [submissionContent]);
+
+  // Save the pending draft immediately when leaving the page or closing the tab
+  useEffect(() => {
+    const onPageHide = () => saveDraft.flush();
+    window.addEventListener("pagehide", onPageHide);
+    return () => {
+      window.removeEventListener("pagehide", onPageHide);
+      saveDraft.flush();
+    };
+  }, []);
+
+  function restoreDraft(draft: CodeDraft) {
+    setModified(true);
+    setSubmissionContent(submissionContent => ({
+      ...submissionContent,
+      language: draft.language,
+      code: draft.code,
+      compileAndRunOptions: draft.compileAndRunOptions
+    }));
+
+    // Start a new snapshot to prevent the latest snapshot from being overwritten by the restored one
+    saveDraft.cancel();
+    saveCodeDraft({ ...draft, problemName: all }, true).catch(e => console.error("Failed to save draft:", e));
+
+    restoreDraftDialog.close();
+    draftHistoryDialog.close();
+  }
+
+  // Prompt to restore the latest draft if it's newer than the last submission
+  useEffect(() => {
+    if (!enableDrafts) return;
+
+    (async () => {
+      let drafts: CodeDraft[];
+      try {
+        drafts = await getCodeDrafts(props.problem.meta.id);
+      } catch (e) {
+        return console.error("Failed to load drafts:", e);
+      }
+
+      const lastSubmission = props.problem.lastSubmission.lastSubmission;
+      const latestDraft = drafts[0];
+      if (
+        latestDraft &&
+        (!lastSubmission || latestDraft.time > +new Date(lastSubmission.submitTime)) &&
+        latestDraft.code !== codeSubmissionContent.code
+      ) {
+        setDrafts(drafts);
+        restoreDraftDialog.open();
+      }
+    })();
+  }, []);
+
+  const restoreDraftDialog = useDialog(
+    {},
+    () => <Header icon="history" content={_(".submit.draft.restore_title")} />,
+    () =>
+      drafts[0] &&
+      _(
+        props.problem.lastSubmission.lastSubmission
+          ? ".submit.draft.restore_content"
+          : ".submit.draft.restore_content_no_submission",
+        {
+          language: _(`code_language.${drafts[0].language}.name`),
+          time: formatDateTime(drafts[0].time)[1]
+        }
+      ),
+    () => (
+      <>
+        <Button
+          content={_(
+            props.problem.lastSubmission.lastSubmission ? ".submit.draft.use_last_submission" : ".submit.draft.discard"
+          )}
+          onClick={() => restoreDraftDialog.close()}
+        />
+        <Button primary content={_(".submit.draft.restore")} onClick={() => restoreDraft(drafts[0])} />
+      </>
+    )
+  );
+
+  const [draftHistoryKey, setDraftHistoryKey] = useState(0);
+  async function openDraftHistory() {
+    try {
+      setDrafts(await getCodeDrafts(props.problem.meta.id));
+    } catch (e) {
+      return toast.error(_(".submit.draft.load_error", { error: String(e) }));
+    }
+
+    setDraftHistoryKey(key => key + 1);
+    draftHistoryDialog.open();
+  }
+
+  const draftHistoryDialog = useDialog(
+    {},
+    () => <Header icon="history" content={_(".submit.draft_history")} />,
+    () => <CodeDraftHistory key={draftHistoryKey} drafts={drafts} onRestore={restoreDraft} />,
+    () => <Button content={_(".submit.draft.close")} onClick={() => draftHistoryDialog.close()} />
+  );
+  // End drafts
+
+  // Begin code templates
+  // Code templates are enabled for the same problem types as drafts
+  const enableCodeTemplates = enableDrafts;
+
+  // The auto-inserted template is replaced with the new language's one when switching language, if not modified
+  const refAutoInsertedCode = useRef<string>(null);
+  useEffect(() => {
+    if (!enableCodeTemplates || !inSubmitView) return;
+
+    const { language, code } = codeSubmissionContent;
+    if (code && code !== refAutoInsertedCode.current) return;
+
+    const template = getAutoInsertedCodeTemplate(language);
+    refAutoInsertedCode.current = template?.code ?? null;
+    if ((template?.code || "") !== code)
+      setSubmissionContent(submissionContent => ({ ...submissionContent, code: template?.code || "" }));
+  }, [inSubmitView, codeSubmissionContent.language]);
+
+  function insertCodeTemplate(template: CodeTemplate) {
+    refAutoInsertedCode.current = null;
+    updateSubmissionContent("code", template.code);
+  }
+  // End code templates
+
+  // Begin syntax check
+  // Problem types with drafts enabled submit code in a single language
+  // The code linked with extra source files may use their declarations, which can't be checked without them
+  const enableSyntaxCheck =
+    ProblemTypeView.enableDrafts() &&
+    SyntaxChecker.isLanguageSupported(codeSubmissionContent.language) &&
+    !hasExtraSourceFiles(props.problem.judgeInfo, codeSubmissionContent.language);
+  const [syntaxDiagnostics, setSyntaxDiagnostics] = useState<SyntaxChecker.SyntaxDiagnostic[]>([]);
+  const [pendingSyntaxCheck, setPendingSyntaxCheck] = useState(false);
+
+  useEffect(() => setSyntaxDiagnostics([]), [codeSubmissionContent.language]);
+
+  // Return null if failed to check, e.g. failed to load the toolchain
+  async function runSyntaxCheck() {
+    setPendingSyntaxCheck(true);
+    try {
+      const extraFiles = await ProblemTypeView.getSyntaxCheckFiles?.(
+        props.problem.meta.id,
+        props.problem.judgeInfo,
+        codeSubmissionContent.language
+      );
+      const diagnostics = await SyntaxChecker.check(
+        codeSubmissionContent.code,
+        codeSubmissionContent.language,
+        codeSubmissionContent.compileAndRunOptions,
+        extraFiles
+      );
+      setSyntaxDiagnostics(diagnostics);
+      return diagnostics;
+    } catch (e) {
+      console.error("Failed to check syntax:", e);
+      toast.error(_(".submit.syntax_check.error", { error: String(e) }));
+      return null;
+    } finally {
+      setPendingSyntaxCheck(false);
+    }
+  }
+
+  async function onCheckSyntax() {
+    if (pendingSyntaxCheck) return;
+
+    const diagnostics = await runSyntaxCheck();
+    if (!diagnostics) return;
+
+    const errors = diagnostics.filter(diagnostic => diagnostic.severity === "error").length;
+    const warnings = diagnostics.length - errors;
+    if (errors) toast.error(_(".submit.syntax_check.errors", { errors: String(errors), warnings: String(warnings) }));
+    else if (warnings) toast.warning(_(".submit.syntax_check.warnings", { warnings: String(warnings) }));
+    else toast.success(_(".submit.syntax_check.no_problems"));
+  }
+
+  // Errors found when checking before submit are confirmed, since the check may differ from the judge's compiler
+  const refSyntaxErrorCount = useRef(0);
+  const refSubmitFileGetter = useRef<() => Promise<Blob>>();
+  const syntaxErrorDialog = useDialog(
+    {},
+    () => <Header icon="warning sign" content={_(".submit.syntax_check.confirm_title")} />,
+    () => _(".submit.syntax_check.confirm_content", { errors: String(refSyntaxErrorCount.current) }),
+    () => (
+      <>
+        <Button content={_(".submit.syntax_check.cancel")} onClick={() => syntaxErrorDialog.close()} />
+        <Button
+          negative
+          content={_(".submit.syntax_check.submit_anyway")}
+          onClick={() => (syntaxErrorDialog.close(), onSubmit(refSubmitFileGetter.current, true))}
+        />
+      </>
+    )
+  );
+  // End syntax check
+
+  // Begin local run
+  // Interaction and communication problems can't run without the judge's interactor
+  const enableLocalRun =
+    props.problem.meta.type === ProblemType.Traditional &&
+    LocalRunner.isLanguageSupported(codeSubmissionContent.language, codeSubmissionContent.compileAndRunOptions);
+
+  const localRunDialog = useDialog(
+    { size: "large" },
+    () => <Header icon="play circle outline" content={_(".submit.local_run.title")} />,
+    () => <LocalRunView code={codeSubmissionContent.code} samples={props.problem.samples || []} />,
+    () => <Button content={_(".submit.local_run.close")} onClick={() => localRunDialog.close()} />
+  );
+  // End local run
+
   const navigateToLogin = useLoginOrRegisterNavigation("login");
 
   const statistic = (
@@ -412,6 +684,10 @@ let ProblemViewPage: React.FC<ProblemViewPageProps> = props => {
     <>
       {permissionManager}
       {deleteDialog.element}
+      {restoreDraftDialog.element}
+      {draftHistoryDialog.element}
+      {syntaxErrorDialog.element}
+      {localRunDialog.element}
       <div className={style.topContainer}>
         <div className={style.titleSection}>
           <Header as="h1" className={style.header}>
@@ -509,6 +785,7 @@ let ProblemViewPage: React.FC<ProblemViewPageProps> = props => {
       </div>
       <Divider className={style.divider} />
       <ProblemTypeView.SubmitView
+        problemId={props.problem.meta.id}
         judgeInfo={props.problem.judgeInfo}
         lastSubmission={props.problem.lastSubmission}
         inSubmitView={inSubmitView}
@@ -517,6 +794,12 @@ let ProblemViewPage: React.FC<ProblemViewPageProps> = props => {
         onCloseSubmitView={closeSubmitView}
         onUpdateSubmissionContent={updateSubmissionContent}
         onSubmit={onSubmit}
+        onOpenDraftHistory={enableDrafts ? openDraftHistory : null}
+        onInsertCodeTemplate={enableCodeTemplates ? insertCodeTemplate : null}
+        syntaxDiagnostics={enableSyntaxCheck ? syntaxDiagnostics : null}
+        pendingSyntaxCheck={pendingSyntaxCheck}
+        onCheckSyntax={enableSyntaxCheck ? onCheckSyntax : null}
+        onOpenLocalRun={enableLocalRun ? localRunDialog.open : null}
       />
       <div className={style.statementView} style={{ display: inSubmitView ? "none" : null }}>
         <div className={style.leftContainer}>
@@ -636,6 +919,14 @@ let ProblemViewPage: React.FC<ProblemViewPageProps> = props => {
         <div className={style.rightContainer}>
           <div className={style.actionMenusWrapper}>
             <Menu pointing secondary vertical className={style.actionMenu}>
+              {props.contest && (
+                <Menu.Item
+                  name={_(".action.back_to_contest")}
+                  icon="arrow left"
+                  as={Link}
+                  href={getContestUrl(props.contest.meta)}
+                />
+              )}
               {props.problem.submittable && props.ProblemTypeView.isSubmittable(props.problem.judgeInfo) && (
                 <Popup
                   trigger={
@@ -668,7 +959,7 @@ let ProblemViewPage: React.FC<ProblemViewPageProps> = props => {
                         }
                 }}
               />
-              {ProblemTypeView.enableStatistics() && (
+              {!props.contest && ProblemTypeView.enableStatistics() && (
                 <Menu.Item
                   name={_(".action.statistics")}
                   icon="sort content ascending"
@@ -676,26 +967,28 @@ let ProblemViewPage: React.FC<ProblemViewPageProps> = props => {
                   href={getProblemUrl(props.problem.meta, { subRoute: "statistics/fastest" })}
                 />
               )}
-              <Menu.Item
-                as={Link}
-                href={{
-                  pathname: "/d",
-                  query: {
-                    problemId: props.problem.meta.id
-                  }
-                }}
-              >
-                <Icon name="comments" />
-                {_(".action.discussion")}
-                {props.problem.discussionCount ? (
-                  <Label
-                    className={style.discussionCount}
-                    circular
-                    content={props.problem.discussionCount}
-                    size="tiny"
-                  />
-                ) : null}
-              </Menu.Item>
+              {!props.contest && (
+                <Menu.Item
+                  as={Link}
+                  href={{
+                    pathname: "/d",
+                    query: {
+                      problemId: props.problem.meta.id
+                    }
+                  }}
+                >
+                  <Icon name="comments" />
+                  {_(".action.discussion")}
+                  {props.problem.discussionCount ? (
+                    <Label
+                      className={style.discussionCount}
+                      circular
+                      content={props.problem.discussionCount}
+                      size="tiny"
+                    />
+                  ) : null}
+                </Menu.Item>
+              )}
               <Menu.Item
                 name={_(".action.files")}
                 icon="folder open"
@@ -727,6 +1020,21 @@ let ProblemViewPage: React.FC<ProblemViewPageProps> = props => {
                   href={getProblemUrl(props.problem.meta, { subRoute: "judge-settings" })}
                 />
               )}
+              {props.problem.permissionOfCurrentUser.includes("Modify") && (
+                <Menu.Item
+                  name={_(".action.similarity")}
+                  icon="copy"
+                  as={Link}
+                  href={getProblemUrl(props.problem.meta, { subRoute: "similarity" })}
+                />
+              )}
+              {props.problem.permissionOfCurrentUser.includes("Modify") && (
+                <Menu.Item onClick={() => !exportPackagePending && onExportPackage()}>
+                  <Icon name="archive" />
+                  {_(".action.export_package")}
+                  <Loader size="tiny" active={exportPackagePending} />
+                </Menu.Item>
+              )}
               {
                 // Normal users won't interested in permissions
                 // Only show permission manage button when the user have write permission
@@ -812,6 +1120,8 @@ async function getProblemTypeView(type: ProblemType): Promise<ProblemTypeView<an
           return import("./types/InteractionProblemView");
         case ProblemType.SubmitAnswer:
           return import("./types/SubmitAnswerProblemView");
+        case ProblemType.Communication:
+          return import("./types/CommunicationProblemView");
       }
     })()
   ).default;
@@ -847,5 +1157,33 @@ export default {
         ProblemTypeView={await getProblemTypeView(problem.meta.type as ProblemType)}
       />
     );
+  }),
+  byContest: defineRoute(async request => {
+    const contestId = parseInt(request.params["id"]);
+    const requestedLocale: Locale = request.query["locale"] in Locale && (request.query["locale"] as Locale);
+
+    const { requestError, response } = await api.contest.getContest({
+      contestId,
+      locale: requestedLocale || appState.contentLocale
+    });
+    if (requestError) throw new RouteError(requestError, { showRefresh: true, showBack: true });
+    else if (response.error) throw new RouteError(makeToBeLocalizedText(`contest.error.${response.error}`));
+
+    const index = getContestProblemIndex(request.params["letter"]);
+    const contestProblem = response.problems[index];
+    if (!contestProblem) throw new RouteError(makeToBeLocalizedText("problem.error.NO_SUCH_PROBLEM"));
+
+    const problem = await fetchData("id", contestProblem.meta.id, requestedLocale || appState.contentLocale, contestId);
+
+    return (
+      <ProblemViewPage
+        key={uuid()}
+        idType="id"
+        requestedLocale={requestedLocale}
+        problem={problem}
+        ProblemTypeView={await getProblemTypeView(problem.meta.type as ProblemType)}
+        contest={{ meta: response.meta, index }}
+      />
+    );
   })
 };
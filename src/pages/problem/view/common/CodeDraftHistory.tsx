@@ -0,0 +1,66 @@
+import React, { useState } from "react";
+import { Button, Table } from "semantic-ui-react";
+import { observer } from "mobx-react";
+
+import style from "./CodeDraftHistory.module.less";
+
+import { useLocalizer } from "@/utils/hooks";
+import { HighlightedCodeBox } from "@/components/CodeBox";
+import TimeAgo from "@/components/TimeAgo";
+import formatFileSize from "@/utils/formatFileSize";
+import { CodeDraft } from "@/utils/codeDrafts";
+
+interface CodeDraftHistoryProps {
+  drafts: CodeDraft[];
+  onRestore: (draft: CodeDraft) => void;
+}
+
+let CodeDraftHistory: React.FC<CodeDraftHistoryProps> = props => {
+  const _ = useLocalizer("problem");
+
+  const [selectedDraft, setSelectedDraft] = useState(props.drafts[0]);
+
+  if (props.drafts.length === 0) return <p>{_(".submit.draft.no_drafts")}</p>;
+
+  return (
+    <>
+      <div className={style.tableWrapper}>
+        <Table selectable compact unstackable>
+          <Table.Header>
+            <Table.Row>
+              <Table.HeaderCell>{_(".submit.draft.time")}</Table.HeaderCell>
+              <Table.HeaderCell>{_(".submit.draft.language")}</Table.HeaderCell>
+              <Table.HeaderCell>{_(".submit.draft.size")}</Table.HeaderCell>
+              <Table.HeaderCell />
+            </Table.Row>
+          </Table.Header>
+          <Table.Body>
+            {props.drafts.map(draft => (
+              <Table.Row key={draft.id} active={draft === selectedDraft} onClick={() => setSelectedDraft(draft)}>
+                <Table.Cell>
+                  <TimeAgo time={new Date(draft.time)} />
+                </Table.Cell>
+                <Table.Cell>{_(`code_language.${draft.language}.name`)}</Table.Cell>
+                <Table.Cell>{formatFileSize(new Blob([draft.code]).size, 1)}</Table.Cell>
+                <Table.Cell textAlign="right">
+                  <Button size="mini" content={_(".submit.draft.restore")} onClick={() => props.onRestore(draft)} />
+                </Table.Cell>
+              </Table.Row>
+            ))}
+          </Table.Body>
+        </Table>
+      </div>
+      {selectedDraft && (
+        <HighlightedCodeBox
+          segmentClassName={style.preview}
+          code={selectedDraft.code}
+          language={selectedDraft.language}
+        />
+      )}
+    </>
+  );
+};
+
+CodeDraftHistory = observer(CodeDraftHistory);
+
+export default CodeDraftHistory;
@@ -0,0 +1,179 @@
+import React, { useState } from "react";
+import { Button, Form, Icon, Table, TextArea } from "semantic-ui-react";
+import { observer } from "mobx-react";
+
+import style from "./LocalRunView.module.less";
+
+import { useLocalizer } from "@/utils/hooks";
+import toast from "@/utils/toast";
+import StatusText from "@/components/StatusText";
+import { CodeBox } from "@/components/CodeBox";
+import * as LocalRunner from "@/utils/LocalRunner";
+
+// null for not run yet
+type RunState = LocalRunner.LocalRunOutput | "Running";
+
+interface LocalRunViewProps {
+  code: string;
+  samples: ApiTypes.ProblemSampleDataMemberDto[];
+}
+
+let LocalRunView: React.FC<LocalRunViewProps> = props => {
+  const _ = useLocalizer("problem");
+
+  const [sampleResults, setSampleResults] = useState<RunState[]>(() => props.samples.map(() => null));
+  const [customInput, setCustomInput] = useState("");
+  const [customResult, setCustomResult] = useState<RunState>(null);
+
+  // The index of the selected sample, or -1 for the custom input
+  const [selectedIndex, setSelectedIndex] = useState(props.samples.length > 0 ? 0 : -1);
+  const [pending, setPending] = useState(false);
+
+  // Return null if failed, e.g. failed to load the runtime
+  async function runCode(input: string, expectedOutput?: string) {
+    try {
+      return await LocalRunner.run(props.code, input, expectedOutput);
+    } catch (e) {
+      console.error("Failed to run code locally:", e);
+      toast.error(_(".submit.local_run.error", { error: String(e) }));
+      return null;
+    }
+  }
+
+  async function onRunSamples(indexes: number[]) {
+    setPending(true);
+    for (const index of indexes) {
+      const setResult = (result: RunState) =>
+        setSampleResults(results => results.map((oldResult, i) => (i === index ? result : oldResult)));
+
+      setResult("Running");
+      const sample = props.samples[index];
+      const result = await runCode(sample.inputData, sample.outputData);
+      setResult(result);
+      if (!result) break;
+    }
+    setPending(false);
+  }
+
+  async function onRunCustomInput() {
+    setPending(true);
+    setCustomResult("Running");
+    setCustomResult(await runCode(customInput));
+    setPending(false);
+  }
+
+  function renderStatus(result: RunState) {
+    if (result === "Running") return <StatusText status="Running" statusText={_(".submit.local_run.running")} />;
+    if (result?.status) return <StatusText status={result.status} />;
+    if (result) return <StatusText status="Accepted" statusText={_(".submit.local_run.finished")} />;
+    return null;
+  }
+
+  function renderResult(result: RunState) {
+    if (!result || result === "Running") return null;
+    return (
+      <>
+        {result.stdout != null && (
+          <CodeBox className={style.output} title={_(".submit.local_run.stdout")} content={result.stdout} />
+        )}
+        {result.stderr && (
+          <CodeBox className={style.output} title={_(".submit.local_run.stderr")} content={result.stderr} />
+        )}
+      </>
+    );
+  }
+
+  const selectedSample = props.samples[selectedIndex];
+
+  return (
+    <>
+      <div className={style.notes}>
+        {_(".submit.local_run.notes", { timeLimit: String(LocalRunner.LOCAL_RUN_TIME_LIMIT / 1000) })}
+      </div>
+      <div className={style.tableWrapper}>
+        <Table selectable compact unstackable>
+          <Table.Body>
+            {props.samples.map((sample, i) => (
+              <Table.Row key={i} active={i === selectedIndex} onClick={() => setSelectedIndex(i)}>
+                <Table.Cell>{_(".submit.local_run.sample", { index: String(i + 1) })}</Table.Cell>
+                <Table.Cell>{renderStatus(sampleResults[i])}</Table.Cell>
+                <Table.Cell>
+                  {sampleResults[i] && sampleResults[i] !== "Running" && (
+                    <>{Math.round((sampleResults[i] as LocalRunner.LocalRunOutput).time)} ms</>
+                  )}
+                </Table.Cell>
+                <Table.Cell textAlign="right">
+                  <Button
+                    size="mini"
+                    icon="play"
+                    disabled={pending}
+                    onClick={e => (e.stopPropagation(), setSelectedIndex(i), onRunSamples([i]))}
+                  />
+                </Table.Cell>
+              </Table.Row>
+            ))}
+            <Table.Row active={selectedIndex === -1} onClick={() => setSelectedIndex(-1)}>
+              <Table.Cell>{_(".submit.local_run.custom_input")}</Table.Cell>
+              <Table.Cell>{renderStatus(customResult)}</Table.Cell>
+              <Table.Cell>
+                {customResult && customResult !== "Running" && <>{Math.round(customResult.time)} ms</>}
+              </Table.Cell>
+              <Table.Cell />
+            </Table.Row>
+          </Table.Body>
+        </Table>
+      </div>
+      <div className={style.actions}>
+        {props.samples.length > 0 && (
+          <Button
+            primary
+            icon="play"
+            content={_(".submit.local_run.run_samples")}
+            disabled={pending}
+            onClick={() => onRunSamples(props.samples.map((sample, i) => i))}
+          />
+        )}
+        <Button
+          icon="play"
+          content={_(".submit.local_run.run_custom_input")}
+          disabled={pending}
+          onClick={() => (setSelectedIndex(-1), onRunCustomInput())}
+        />
+      </div>
+      {selectedSample ? (
+        <>
+          <CodeBox className={style.output} title={_(".submit.local_run.input")} content={selectedSample.inputData} />
+          <CodeBox
+            className={style.output}
+            title={_(".submit.local_run.expected_output")}
+            content={selectedSample.outputData}
+          />
+          {renderResult(sampleResults[selectedIndex])}
+        </>
+      ) : (
+        <>
+          <Form>
+            <TextArea
+              className={style.customInput + " monospace"}
+              rows={5}
+              placeholder={_(".submit.local_run.custom_input_placeholder")}
+              value={customInput}
+              onChange={(e, { value }) => setCustomInput(value as string)}
+            />
+          </Form>
+          {renderResult(customResult)}
+        </>
+      )}
+      {pending && (
+        <div className={style.notes}>
+          <Icon name="spinner" loading />
+          {_(".submit.local_run.pending")}
+        </div>
+      )}
+    </>
+  );
+};
+
+LocalRunView = observer(LocalRunView);
+
+export default LocalRunView;
@@ -1,5 +1,5 @@
 import React, { PropsWithChildren } from "react";
-import { Header, Menu, Button, Checkbox } from "semantic-ui-react";
+import { Header, Menu, Button, Checkbox, Dropdown } from "semantic-ui-react";
 import { observer } from "mobx-react";
 
 import style from "./SubmitViewFrame.module.less";
@@ -7,6 +7,8 @@ import style from "./SubmitViewFrame.module.less";
 import { useLocalizer, Link } from "@/utils/hooks";
 import StatusText from "@/components/StatusText";
 import ScoreText from "@/components/ScoreText";
+import { appState } from "@/appState";
+import { CodeTemplate, getCodeTemplates } from "@/utils/codeTemplates";
 
 interface SubmitViewFrameProps {
   showSkipSamples: boolean;
@@ -22,17 +24,55 @@ interface SubmitViewFrameProps {
   onCloseSubmitView: () => void;
   onUpdateSubmissionContent: (path: string, value: unknown) => void;
   onSubmit: (onGetSubmitFile?: () => Promise<Blob>) => void;
+  onOpenDraftHistory?: () => void;
+  onInsertCodeTemplate?: (template: CodeTemplate) => void;
+  pendingSyntaxCheck?: boolean;
+  onCheckSyntax?: () => void;
+  onOpenLocalRun?: () => void;
 }
 
 let SubmitViewFrame: React.FC<SubmitViewFrameProps> = props => {
   const _ = useLocalizer("problem");
 
+  const codeTemplates = getCodeTemplates((props.submissionContent as { language: string }).language);
+
   return (
     <div className={style.submitView} style={{ display: props.inSubmitView ? null : "none" }}>
       <div className={style.leftContainer}>{props.mainContent}</div>
       <div className={style.rightContainer}>
         <Menu pointing secondary vertical className={style.actionMenu}>
           <Menu.Item name={_(".submit.back_to_statement")} icon="arrow left" onClick={props.onCloseSubmitView} />
+          {props.onOpenDraftHistory && (
+            <Menu.Item name={_(".submit.draft_history")} icon="history" onClick={props.onOpenDraftHistory} />
+          )}
+          {props.onInsertCodeTemplate && (
+            <Dropdown item icon="file code outline" text={_(".submit.code_template.insert")}>
+              <Dropdown.Menu>
+                {codeTemplates.length > 0 ? (
+                  codeTemplates.map((template, i) => (
+                    <Dropdown.Item key={i} text={template.name} onClick={() => props.onInsertCodeTemplate(template)} />
+                  ))
+                ) : (
+                  <Dropdown.Item
+                    as={Link}
+                    href={`/u/${appState.currentUser.username}/edit/preference`}
+                    text={_(".submit.code_template.no_templates")}
+                  />
+                )}
+              </Dropdown.Menu>
+            </Dropdown>
+          )}
+          {props.onCheckSyntax && (
+            <Menu.Item
+              name={_(".submit.syntax_check.check")}
+              icon={props.pendingSyntaxCheck ? "spinner loading" : "check circle outline"}
+              disabled={props.pendingSyntaxCheck}
+              onClick={props.onCheckSyntax}
+            />
+          )}
+          {props.onOpenLocalRun && (
+            <Menu.Item name={_(".submit.local_run.title")} icon="play circle outline" onClick={props.onOpenLocalRun} />
+          )}
           <div />
         </Menu>
         {props.sidebarContent}
@@ -44,6 +84,14 @@ let SubmitViewFrame: React.FC<SubmitViewFrameProps> = props => {
             onChange={(e, { checked }) => props.onUpdateSubmissionContent("skipSamples", checked)}
           />
         )}
+        {props.onCheckSyntax && (
+          <Checkbox
+            className={style.checkSyntaxBeforeSubmit}
+            label={_(".submit.syntax_check.check_before_submit")}
+            checked={appState.checkSyntaxBeforeSubmit}
+            onChange={(e, { checked }) => (appState.checkSyntaxBeforeSubmit = checked)}
+          />
+        )}
         <Button
           className={style.submitButton}
           primary
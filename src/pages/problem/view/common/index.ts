@@ -22,6 +22,11 @@ export function getLimit(judgeInfo: any, limit: "timeLimit" | "memoryLimit") {
   return min + " - " + max;
 }
 
+// The extra source files are compiled with the user's code, but they're not visible to users
+export function hasExtraSourceFiles(judgeInfo: any, language: string) {
+  return Object.keys(judgeInfo?.extraSourceFiles?.[language]?.files || {}).length > 0;
+}
+
 export function hasAnySubtaskTestcase(judgeInfo: any) {
   return (
     Array.isArray(judgeInfo?.subtasks) &&
@@ -1,11 +1,15 @@
 import { SemanticSIZES } from "semantic-ui-react";
 
+import { CodeTemplate } from "@/utils/codeTemplates";
+import { SyntaxDiagnostic } from "@/utils/SyntaxChecker";
+
 export interface ProblemTypeLabelsProps<JudgeInfo> {
   size: SemanticSIZES;
   judgeInfo: JudgeInfo;
 }
 
 export interface ProblemTypeSubmitViewProps<JudgeInfo, SubmissionContent = object> {
+  problemId: number;
   judgeInfo: JudgeInfo;
   lastSubmission: ApiTypes.ProblemLastSubmissionDto;
 
@@ -16,6 +20,14 @@ export interface ProblemTypeSubmitViewProps<JudgeInfo, SubmissionContent = objec
   onCloseSubmitView: () => void;
   onUpdateSubmissionContent: (path: string, value: unknown) => void;
   onSubmit: (onGetSubmitFile?: () => Promise<Blob>) => Promise<void>;
+  onOpenDraftHistory?: () => void;
+  onInsertCodeTemplate?: (template: CodeTemplate) => void;
+
+  // The offline syntax check is enabled only if the language is supported
+  syntaxDiagnostics?: SyntaxDiagnostic[];
+  pendingSyntaxCheck?: boolean;
+  onCheckSyntax?: () => void;
+  onOpenLocalRun?: () => void;
 }
 
 export interface ProblemTypeView<JudgeInfo, SubmissionContent = object> {
@@ -24,4 +36,8 @@ export interface ProblemTypeView<JudgeInfo, SubmissionContent = object> {
   getDefaultSubmissionContent: () => SubmissionContent;
   isSubmittable: (judgeInfo: JudgeInfo) => boolean;
   enableStatistics: () => boolean;
+  // Whether the code in the submit view is auto-saved as local drafts
+  enableDrafts: () => boolean;
+  // The files put beside the code in the offline syntax check, e.g. the grader's header
+  getSyntaxCheckFiles?: (problemId: number, judgeInfo: JudgeInfo, language: string) => Promise<Record<string, string>>;
 }
@@ -0,0 +1,101 @@
+import React from "react";
+import { Icon, Label } from "semantic-ui-react";
+import { observer } from "mobx-react";
+
+import { useLocalizer } from "@/utils/hooks";
+import { CodeLanguage } from "@/interfaces/CodeLanguage";
+import CodeEditor from "@/components/LazyCodeEditor";
+
+import { JudgeInfoCommunication } from "../../judge-settings/types/CommunicationProblemEditor";
+import { ProblemTypeLabelsProps, ProblemTypeSubmitViewProps, ProblemTypeView } from "../common/interface";
+import SubmitViewFrame from "../common/SubmitViewFrame";
+import CodeLanguageAndOptions from "../common/CodeLanguageAndOptions";
+import { getLimit, hasAnySubtaskTestcase } from "../common";
+
+type CommunicationProblemLabelsProps = ProblemTypeLabelsProps<JudgeInfoCommunication>;
+
+const CommunicationProblemLabels: React.FC<CommunicationProblemLabelsProps> = React.memo(props => {
+  const _ = useLocalizer("problem");
+
+  const timeLimit = getLimit(props.judgeInfo, "timeLimit");
+  const memoryLimit = getLimit(props.judgeInfo, "memoryLimit");
+  const processCount = props.judgeInfo?.communication?.processCount;
+
+  return (
+    <>
+      {timeLimit && (
+        <Label size={props.size} color="pink">
+          <Icon name="clock" />
+          {timeLimit + " ms"}
+        </Label>
+      )}
+      {memoryLimit && (
+        <Label size={props.size} color="blue">
+          <Icon name="microchip" />
+          {memoryLimit + " MiB"}
+        </Label>
+      )}
+      {processCount > 1 && (
+        <Label size={props.size} color="teal">
+          <Icon name="sitemap" />
+          {_(".process_count", { count: processCount })}
+        </Label>
+      )}
+    </>
+  );
+});
+
+interface SubmissionContent {
+  language: CodeLanguage;
+  code: string;
+  compileAndRunOptions: any;
+  skipSamples?: boolean;
+}
+
+type CommunicationProblemSubmitViewProps = ProblemTypeSubmitViewProps<JudgeInfoCommunication, SubmissionContent>;
+
+let CommunicationProblemSubmitView: React.FC<CommunicationProblemSubmitViewProps> = props => {
+  return (
+    <>
+      <SubmitViewFrame
+        {...props}
+        showSkipSamples={props.judgeInfo.runSamples}
+        mainContent={
+          <SubmitViewFrame.EditorWrapper>
+            <CodeEditor
+              language={props.submissionContent.language}
+              value={props.submissionContent.code}
+              onChange={newValue => props.onUpdateSubmissionContent("code", newValue)}
+              diagnostics={props.syntaxDiagnostics}
+            />
+          </SubmitViewFrame.EditorWrapper>
+        }
+        sidebarContent={
+          <>
+            <CodeLanguageAndOptions objectPath="" {...props} />
+          </>
+        }
+        submitDisabled={!props.submissionContent.code}
+      />
+    </>
+  );
+};
+
+CommunicationProblemSubmitView = observer(CommunicationProblemSubmitView);
+
+const communicationProblemViews: ProblemTypeView<JudgeInfoCommunication> = {
+  Labels: CommunicationProblemLabels,
+  SubmitView: CommunicationProblemSubmitView,
+  getDefaultSubmissionContent: () =>
+    Object.assign(
+      {
+        code: ""
+      },
+      CodeLanguageAndOptions.getDefault()
+    ),
+  isSubmittable: hasAnySubtaskTestcase,
+  enableStatistics: () => true,
+  enableDrafts: () => true
+};
+
+export default communicationProblemViews;
@@ -56,6 +56,7 @@ let InteractionProblemSubmitView: React.FC<InteractionProblemSubmitViewProps> =
               language={props.submissionContent.language}
               value={props.submissionContent.code}
               onChange={newValue => props.onUpdateSubmissionContent("code", newValue)}
+              diagnostics={props.syntaxDiagnostics}
             />
           </SubmitViewFrame.EditorWrapper>
         }
@@ -83,7 +84,8 @@ const interactionProblemViews: ProblemTypeView<JudgeInfoInteraction> = {
       CodeLanguageAndOptions.getDefault()
     ),
   isSubmittable: hasAnySubtaskTestcase,
-  enableStatistics: () => true
+  enableStatistics: () => true,
+  enableDrafts: () => true
 };
 
 export default interactionProblemViews;
@@ -161,7 +161,8 @@ const SubmitAnswerProblemViews: ProblemTypeView<JudgeInfoSubmitAnswer> = {
   SubmitView: SubmitAnswerProblemSubmitView,
   getDefaultSubmissionContent: () => ({}),
   isSubmittable: hasAnySubtaskTestcase,
-  enableStatistics: () => false
+  enableStatistics: () => false,
+  enableDrafts: () => false
 };
 
 export default SubmitAnswerProblemViews;
@@ -1,10 +1,12 @@
 import React from "react";
-import { Icon, Label, Popup } from "semantic-ui-react";
+import { Button, Header, Icon, Label, Popup } from "semantic-ui-react";
 import { observer } from "mobx-react";
 
 import style from "./TraditionalProblemView.module.less";
 
+import api from "@/api";
 import { useLocalizer } from "@/utils/hooks";
+import toast from "@/utils/toast";
 import { CodeLanguage, getPreferredCompileAndRunOptions } from "@/interfaces/CodeLanguage";
 import CodeEditor from "@/components/LazyCodeEditor";
 
@@ -13,6 +15,7 @@ import { ProblemTypeLabelsProps, ProblemTypeSubmitViewProps, ProblemTypeView } f
 import SubmitViewFrame from "../common/SubmitViewFrame";
 import CodeLanguageAndOptions from "../common/CodeLanguageAndOptions";
 import { getLimit, hasAnySubtaskTestcase } from "../common";
+import { downloadProblemFile } from "../../files/ProblemFilesPage";
 
 type TraditionalProblemLabelsProps = ProblemTypeLabelsProps<JudgeInfoTraditional>;
 
@@ -82,16 +85,65 @@ interface SubmissionContent {
 
 type TraditionalProblemSubmitViewProps = ProblemTypeSubmitViewProps<JudgeInfoTraditional, SubmissionContent>;
 
+// The header files' content, fetched once per problem and filename
+const headerContentCache = new Map<string, Promise<string>>();
+
+async function fetchHeaderContent(problemId: number, filename: string) {
+  const { requestError, response } = await api.problem.downloadProblemFiles({
+    problemId,
+    type: "AdditionalFile",
+    filenameList: [filename]
+  });
+  if (requestError || response.error || response.downloadInfo.length === 0) return null;
+
+  const fileResponse = await fetch(response.downloadInfo[0].downloadUrl);
+  if (!fileResponse.ok) return null;
+  return await fileResponse.text();
+}
+
+function getHeaderContent(problemId: number, filename: string) {
+  const key = `${problemId}/${filename}`;
+  if (!headerContentCache.has(key)) {
+    const promise = fetchHeaderContent(problemId, filename).catch(() => null);
+    promise.then(content => content == null && headerContentCache.delete(key));
+    headerContentCache.set(key, promise);
+  }
+  return headerContentCache.get(key);
+}
+
 let TraditionalProblemSubmitView: React.FC<TraditionalProblemSubmitViewProps> = props => {
+  const _ = useLocalizer("problem");
+
   const allowedLanguages = React.useMemo(
     () =>
       Object.values(CodeLanguage).filter(codeLanguage => {
+        // In grader mode, only the languages with a grader could be submitted
+        if (props.judgeInfo.grader) return !!props.judgeInfo.grader[codeLanguage];
+
         const lang = props.judgeInfo.extraSourceFiles?.[codeLanguage] ?? { files: {}, flags: [] };
         return Object.keys(lang.files).length > 0 || lang.flags.length > 0;
       }),
     [props.judgeInfo]
   );
 
+  const graderConfig = props.judgeInfo.grader?.[props.submissionContent.language];
+
+  const [headerContent, setHeaderContent] = React.useState<string>(null);
+  React.useEffect(() => {
+    setHeaderContent(null);
+    if (!graderConfig?.header) return;
+
+    let canceled = false;
+    getHeaderContent(props.problemId, graderConfig.header).then(content => {
+      if (canceled) return;
+      if (content == null) toast.error(_(".submit.grader.failed_to_load_header"));
+      else setHeaderContent(content);
+    });
+    return () => {
+      canceled = true;
+    };
+  }, [props.problemId, graderConfig?.header]);
+
   React.useEffect(() => {
     if (allowedLanguages.length === 0) {
       return;
@@ -116,17 +168,55 @@ let TraditionalProblemSubmitView: React.FC<TraditionalProblemSubmitViewProps> =
         {...props}
         showSkipSamples={props.judgeInfo.runSamples}
         mainContent={
-          <SubmitViewFrame.EditorWrapper>
-            <CodeEditor
-              language={props.submissionContent.language}
-              value={props.submissionContent.code}
-              onChange={newValue => props.onUpdateSubmissionContent("code", newValue)}
-            />
-          </SubmitViewFrame.EditorWrapper>
+          graderConfig?.header ? (
+            <div className={style.graderEditors}>
+              <div className={style.userCode}>
+                <SubmitViewFrame.EditorWrapper>
+                  <CodeEditor
+                    language={props.submissionContent.language}
+                    value={props.submissionContent.code}
+                    onChange={newValue => props.onUpdateSubmissionContent("code", newValue)}
+                    diagnostics={props.syntaxDiagnostics}
+                  />
+                </SubmitViewFrame.EditorWrapper>
+              </div>
+              <div className={style.header}>
+                <Header size="tiny" className={style.headerFilename}>
+                  <Icon name="lock" />
+                  <Header.Content>{graderConfig.header}</Header.Content>
+                </Header>
+                <SubmitViewFrame.EditorWrapper>
+                  <CodeEditor
+                    language={props.submissionContent.language}
+                    value={headerContent ?? ""}
+                    options={{ readOnly: true }}
+                  />
+                </SubmitViewFrame.EditorWrapper>
+              </div>
+            </div>
+          ) : (
+            <SubmitViewFrame.EditorWrapper>
+              <CodeEditor
+                language={props.submissionContent.language}
+                value={props.submissionContent.code}
+                onChange={newValue => props.onUpdateSubmissionContent("code", newValue)}
+                diagnostics={props.syntaxDiagnostics}
+              />
+            </SubmitViewFrame.EditorWrapper>
+          )
         }
         sidebarContent={
           <>
             <CodeLanguageAndOptions objectPath="" allowedLanguages={allowedLanguages.length > 0 ? allowedLanguages : null} {...props} />
+            {graderConfig?.stub && (
+              <Button
+                className={style.downloadStub}
+                fluid
+                icon="download"
+                content={_(".submit.grader.download_stub")}
+                onClick={() => downloadProblemFile(props.problemId, "AdditionalFile", graderConfig.stub, _)}
+              />
+            )}
           </>
         }
         submitDisabled={!props.submissionContent.code}
@@ -148,7 +238,16 @@ const traditionalProblemViews: ProblemTypeView<JudgeInfoTraditional> = {
       CodeLanguageAndOptions.getDefault()
     ),
   isSubmittable: hasAnySubtaskTestcase,
-  enableStatistics: () => true
+  enableStatistics: () => true,
+  enableDrafts: () => true,
+  getSyntaxCheckFiles: async (problemId, judgeInfo, language) => {
+    const header = judgeInfo.grader?.[language]?.header;
+    if (!header) return {};
+
+    const content = await getHeaderContent(problemId, header);
+    if (content == null) throw new Error(`Failed to load ${header}`);
+    return { [header]: content };
+  }
 };
 
 export default traditionalProblemViews;
@@ -0,0 +1,382 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Table, Header, Button, Message, Segment } from "semantic-ui-react";
+import { observer } from "mobx-react";
+import { v4 as uuid } from "uuid";
+
+import style from "./SubmissionComparePage.module.less";
+
+import api from "@/api";
+import { appState } from "@/appState";
+import { useLocalizer, useNavigationChecked, useScreenWidthWithin, Link } from "@/utils/hooks";
+import {
+  SubmissionItem,
+  SubmissionHeader,
+  SubmissionHeaderMobile,
+  SubmissionItemMobile
+} from "../componments/SubmissionItem";
+import StatusText from "@/components/StatusText";
+import formatFileSize from "@/utils/formatFileSize";
+import { formatSubmissionTime } from "@/utils/formatSubmissionTime";
+import { diffSequences } from "@/utils/diff";
+import { defineRoute, RouteError } from "@/AppRouter";
+import { makeToBeLocalizedText } from "@/locales";
+import type { SubmissionProgress } from "../submission/SubmissionPage";
+
+async function fetchSubmission(submissionId: number) {
+  const { requestError, response } = await api.submission.getSubmissionDetail({
+    submissionId: submissionId.toString(),
+    locale: appState.locale
+  });
+
+  if (requestError) throw new RouteError(requestError, { showRefresh: true, showBack: true });
+  else if (response.error) throw new RouteError(makeToBeLocalizedText(`submission.error.${response.error}`));
+
+  return response;
+}
+
+type SubmissionDetail = Awaited<ReturnType<typeof fetchSubmission>>;
+
+// Testcases of the two submissions are matched by their positions in samples and subtasks
+interface TestcaseItem {
+  key: string;
+  title: string;
+  status: string;
+  time?: number;
+  memory?: number;
+}
+
+function getTestcaseItems(progress: SubmissionProgress, _: ReturnType<typeof useLocalizer>) {
+  const items: TestcaseItem[] = [];
+  if (!progress) return items;
+
+  const addItem = (key: string, title: string, testcase: SubmissionProgress["samples"][number]) => {
+    const result = testcase.testcaseHash && progress.testcaseResult[testcase.testcaseHash];
+    items.push({
+      key,
+      title,
+      status: testcase.waiting ? "Waiting" : testcase.running ? "Running" : !result ? "Skipped" : result.status,
+      time: result?.time,
+      memory: result?.memory
+    });
+  };
+
+  (progress.samples || []).forEach((testcase, i) =>
+    addItem(`sample-${i}`, `${_(".sample_testcase")} #${i + 1}`, testcase)
+  );
+  const subtasks = progress.subtasks || [];
+  subtasks.forEach((subtask, i) =>
+    subtask.testcases.forEach((testcase, j) =>
+      addItem(
+        `subtask-${i}-${j}`,
+        subtasks.length === 1
+          ? `${_(".testcase.title")} #${j + 1}`
+          : `${_(".subtask.title")} #${i + 1} ${_(".testcase.title")} #${j + 1}`,
+        testcase
+      )
+    )
+  );
+
+  return items;
+}
+
+function getCode(submission: SubmissionDetail) {
+  const code = (submission.content as { code?: unknown })?.code;
+  return typeof code === "string" ? code : null;
+}
+
+type CodeDiffViewMode = "SideBySide" | "Inline";
+
+interface CodeDiffRow {
+  // The 0-based line indices in the code of the two submissions
+  a?: number;
+  b?: number;
+}
+
+// Pair the deleted and inserted lines between two equal lines as changed lines
+function getCodeDiffRows(linesA: string[], linesB: string[]) {
+  const rows: CodeDiffRow[] = [];
+  let deleted: number[] = [],
+    inserted: number[] = [];
+  const flush = () => {
+    for (let i = 0; i < Math.max(deleted.length, inserted.length); i++) rows.push({ a: deleted[i], b: inserted[i] });
+    deleted = [];
+    inserted = [];
+  };
+  for (const edit of diffSequences(linesA, linesB)) {
+    if (edit.type === "delete") deleted.push(edit.a);
+    else if (edit.type === "insert") inserted.push(edit.b);
+    else {
+      flush();
+      rows.push({ a: edit.a, b: edit.b });
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+let CodeHighlighter: typeof import("@/utils/CodeHighlighter");
+
+function useHighlightedLines(code: string, language: string) {
+  const [lines, setLines] = useState<string[]>(null);
+  useEffect(() => {
+    let canceled = false;
+    (async () => {
+      CodeHighlighter ||= await import("@/utils/CodeHighlighter");
+      const loadPrismPromise = CodeHighlighter.loadPrism();
+      if (loadPrismPromise) await loadPrismPromise;
+      const result = await CodeHighlighter.highlightLines(code, language);
+      if (!canceled) setLines(result);
+    })();
+    return () => void (canceled = true);
+  }, [code, language]);
+
+  return lines;
+}
+
+interface CodeDiffViewProps {
+  codeA: string;
+  codeB: string;
+  languageA: string;
+  languageB: string;
+}
+
+let CodeDiffView: React.FC<CodeDiffViewProps> = props => {
+  const _ = useLocalizer("submission");
+  const isMobile = useScreenWidthWithin(0, 768);
+
+  const [viewMode, setViewMode] = useState<CodeDiffViewMode>(isMobile ? "Inline" : "SideBySide");
+
+  const [linesA, linesB] = useMemo(
+    () => [props.codeA, props.codeB].map(code => code.split("\r").join("").split("\n")),
+    [props.codeA, props.codeB]
+  );
+  const rows = useMemo(() => getCodeDiffRows(linesA, linesB), [linesA, linesB]);
+  const isDifferent = (row: CodeDiffRow) => row.a == null || row.b == null || linesA[row.a] !== linesB[row.b];
+
+  const htmlLinesA = useHighlightedLines(props.codeA, props.languageA);
+  const htmlLinesB = useHighlightedLines(props.codeB, props.languageB);
+
+  const deletedCount = rows.filter(row => row.a != null && isDifferent(row)).length;
+  const insertedCount = rows.filter(row => row.b != null && isDifferent(row)).length;
+
+  const lineNumber = (index: number) => <td className={style.lineNumber}>{index != null && index + 1}</td>;
+  const line = (index: number, side: "a" | "b", className?: string) => {
+    const htmlLines = side === "a" ? htmlLinesA : htmlLinesB;
+    return index == null ? (
+      <td className={className} />
+    ) : htmlLines ? (
+      <td className={className} dangerouslySetInnerHTML={{ __html: htmlLines[index] }} />
+    ) : (
+      <td className={className}>{(side === "a" ? linesA : linesB)[index]}</td>
+    );
+  };
+
+  return (
+    <>
+      <div className={style.toolbar}>
+        <Button.Group size="mini">
+          {(["SideBySide", "Inline"] as const).map(mode => (
+            <Button
+              key={mode}
+              icon={mode === "SideBySide" ? "columns" : "bars"}
+              title={_(`.output_diff.view_mode.${mode}`)}
+              active={viewMode === mode}
+              onClick={() => setViewMode(mode)}
+            />
+          ))}
+        </Button.Group>
+        <span className={style.diffStatistics}>
+          {deletedCount + insertedCount === 0 ? (
+            _(".compare.no_difference")
+          ) : (
+            <>
+              <span className={style.deletedCount}>-{deletedCount}</span>
+              <span className={style.insertedCount}>+{insertedCount}</span>
+            </>
+          )}
+        </span>
+      </div>
+      <div className={style.codeDiffContainer + " monospace highlighted"}>
+        <table className={style.diffTable}>
+          <tbody>
+            {viewMode === "SideBySide"
+              ? rows.map((row, i) => {
+                  const different = isDifferent(row);
+                  return (
+                    <tr key={i}>
+                      {lineNumber(row.a)}
+                      {line(row.a, "a", different ? style.deleted : null)}
+                      {lineNumber(row.b)}
+                      {line(row.b, "b", different ? style.inserted : null)}
+                    </tr>
+                  );
+                })
+              : rows.flatMap((row, i) =>
+                  !isDifferent(row)
+                    ? [
+                        <tr key={i}>
+                          {lineNumber(row.a)}
+                          {lineNumber(row.b)}
+                          <td className={style.sign} />
+                          {line(row.b, "b")}
+                        </tr>
+                      ]
+                    : [
+                        row.a != null && (
+                          <tr key={`${i}-a`}>
+                            {lineNumber(row.a)}
+                            {lineNumber(null)}
+                            <td className={style.sign + " " + style.deleted}>-</td>
+                            {line(row.a, "a", style.deleted)}
+                          </tr>
+                        ),
+                        row.b != null && (
+                          <tr key={`${i}-b`}>
+                            {lineNumber(null)}
+                            {lineNumber(row.b)}
+                            <td className={style.sign + " " + style.inserted}>+</td>
+                            {line(row.b, "b", style.inserted)}
+                          </tr>
+                        )
+                      ]
+                )}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+};
+
+CodeDiffView = observer(CodeDiffView);
+
+interface SubmissionComparePageProps {
+  submissions: [SubmissionDetail, SubmissionDetail];
+}
+
+let SubmissionComparePage: React.FC<SubmissionComparePageProps> = props => {
+  const _ = useLocalizer("submission");
+  const navigation = useNavigationChecked();
+
+  const [a, b] = props.submissions;
+
+  useEffect(() => {
+    appState.enterNewPage(`${_(".compare.title")} #${a.meta.id} - #${b.meta.id}`, "submissions");
+  }, [appState.locale, props.submissions]);
+
+  const isMobile = useScreenWidthWithin(0, 768);
+
+  const testcaseRows = useMemo(() => {
+    const itemsA = getTestcaseItems(a.progress as SubmissionProgress, _);
+    const itemsB = getTestcaseItems(b.progress as SubmissionProgress, _);
+    const keys = [...new Set([...itemsA, ...itemsB].map(item => item.key))];
+    return keys.map(key => [itemsA.find(item => item.key === key), itemsB.find(item => item.key === key)]);
+  }, [props.submissions, appState.locale]);
+
+  const codeA = getCode(a),
+    codeB = getCode(b);
+
+  const testcaseCells = (item: TestcaseItem) =>
+    !item ? (
+      <Table.Cell colSpan={isMobile ? 1 : 3} />
+    ) : (
+      <>
+        <Table.Cell>
+          <StatusText status={item.status} />
+        </Table.Cell>
+        {!isMobile && (
+          <>
+            <Table.Cell>{item.time == null ? "-" : formatSubmissionTime(item.time)}</Table.Cell>
+            <Table.Cell>{item.memory == null ? "-" : formatFileSize(item.memory * 1024, 1)}</Table.Cell>
+          </>
+        )}
+      </>
+    );
+
+  return (
+    <>
+      <div className={style.header}>
+        <Header as="h1" content={_(".compare.title")} />
+        <Button
+          className={style.swapButton}
+          icon="exchange"
+          content={_(".compare.swap")}
+          onClick={() =>
+            navigation.navigate({ pathname: "/s/compare", query: { a: String(b.meta.id), b: String(a.meta.id) } })
+          }
+        />
+      </div>
+      <Table textAlign="center" basic="very" unstackable fixed>
+        <Table.Header>{isMobile ? <SubmissionHeaderMobile /> : <SubmissionHeader page="submissions" />}</Table.Header>
+        <Table.Body>
+          {props.submissions.map(submission =>
+            isMobile ? (
+              <SubmissionItemMobile key={submission.meta.id} submission={submission.meta} />
+            ) : (
+              <SubmissionItem key={submission.meta.id} submission={submission.meta} page="submissions" />
+            )
+          )}
+        </Table.Body>
+      </Table>
+      {a.meta.problem.id !== b.meta.problem.id && <Message warning content={_(".compare.different_problems")} />}
+      <Header as="h3" content={_(".compare.code")} />
+      {codeA != null && codeB != null ? (
+        <CodeDiffView codeA={codeA} codeB={codeB} languageA={a.meta.codeLanguage} languageB={b.meta.codeLanguage} />
+      ) : (
+        <Segment placeholder className={style.placeholder} content={_(".compare.code_unavailable")} />
+      )}
+      <Header as="h3" content={_(".compare.testcases")} />
+      {testcaseRows.length > 0 ? (
+        <Table textAlign="center" celled compact unstackable>
+          <Table.Header>
+            <Table.Row>
+              <Table.HeaderCell rowSpan={2}>{_(".testcase.title")}</Table.HeaderCell>
+              {props.submissions.map(submission => (
+                <Table.HeaderCell key={submission.meta.id} colSpan={isMobile ? 1 : 3}>
+                  <Link href={`/s/${submission.meta.id}`}>#{submission.meta.id}</Link>
+                </Table.HeaderCell>
+              ))}
+            </Table.Row>
+            <Table.Row>
+              {props.submissions.map(submission => (
+                <React.Fragment key={submission.meta.id}>
+                  <Table.HeaderCell>{_(".compare.status")}</Table.HeaderCell>
+                  {!isMobile && (
+                    <>
+                      <Table.HeaderCell>{_(".compare.time")}</Table.HeaderCell>
+                      <Table.HeaderCell>{_(".compare.memory")}</Table.HeaderCell>
+                    </>
+                  )}
+                </React.Fragment>
+              ))}
+            </Table.Row>
+          </Table.Header>
+          <Table.Body>
+            {testcaseRows.map(([itemA, itemB]) => (
+              <Table.Row
+                key={(itemA || itemB).key}
+                className={itemA?.status !== itemB?.status ? style.differentStatus : null}
+              >
+                <Table.Cell textAlign="left">{(itemA || itemB).title}</Table.Cell>
+                {testcaseCells(itemA)}
+                {testcaseCells(itemB)}
+              </Table.Row>
+            ))}
+          </Table.Body>
+        </Table>
+      ) : (
+        <Segment placeholder className={style.placeholder} content={_(".compare.testcases_unavailable")} />
+      )}
+    </>
+  );
+};
+
+SubmissionComparePage = observer(SubmissionComparePage);
+
+export default defineRoute(async request => {
+  const submissions = await Promise.all(
+    [request.query.a, request.query.b].map(id => fetchSubmission(parseInt(id) || 0))
+  );
+
+  return <SubmissionComparePage key={uuid()} submissions={submissions as [SubmissionDetail, SubmissionDetail]} />;
+});
@@ -2,6 +2,7 @@ import { mount, lazy } from "navi";
 
 export default {
   s: mount({
+    "/compare": lazy(() => import("./compare/SubmissionComparePage")),
     "/:id": lazy(() => import("./submission/SubmissionPage")),
     "/": lazy(() => import("./submissions/SubmissionsPage"))
   })
@@ -0,0 +1,322 @@
+import React, { useMemo } from "react";
+import { Grid, Header } from "semantic-ui-react";
+import { observer } from "mobx-react";
+import { Bar, Doughnut, Line } from "react-chartjs-2";
+import {
+  Chart as ChartJS,
+  ArcElement,
+  BarElement,
+  LineElement,
+  PointElement,
+  LinearScale,
+  CategoryScale,
+  Filler,
+  Legend,
+  Tooltip,
+  ChartOptions
+} from "chart.js";
+import dayjs from "dayjs";
+
+import style from "./SubmissionStatisticsPage.module.less";
+
+import { appState } from "@/appState";
+import { useLocalizer, useScreenWidthWithin } from "@/utils/hooks";
+import { getScoreColor } from "@/components/ScoreText";
+
+ChartJS.register(
+  ArcElement,
+  BarElement,
+  LineElement,
+  PointElement,
+  LinearScale,
+  CategoryScale,
+  Filler,
+  Legend,
+  Tooltip
+);
+
+// Colors of the code languages, in the order of the counts
+const CODE_LANGUAGE_COLORS = [
+  "#0b62a4",
+  "#f7bb3b",
+  "#25ad40",
+  "#ff694f",
+  "#7a92a3",
+  "#4da74d",
+  "#afd8f8",
+  "#edc240",
+  "#cb4b4b",
+  "#9440ed"
+];
+
+// The statuses' colors are defined in the theme, e.g. --theme-status-time-limit-exceeded
+function getStatusColor(status: string) {
+  const name = status.replace(/[A-Z]/g, c => "-" + c.toLowerCase());
+  return getComputedStyle(document.body).getPropertyValue(`--theme-status${name}`).trim() || "#888";
+}
+
+// The bar and line charts share the same tooltip and axes
+function getBarOrLineOptions(
+  getTooltipTitle: (label: string, dataIndex: number) => string,
+  getTooltipLabel: (value: string, datasetLabel: string) => string,
+  showLegend = false
+): ChartOptions<"bar" | "line"> {
+  return {
+    plugins: {
+      tooltip: {
+        padding: 10,
+        displayColors: showLegend,
+        titleFont: {
+          size: 13,
+          style: "initial"
+        },
+        bodyFont: {
+          size: 13
+        },
+        callbacks: {
+          title: tooltip => (tooltip.length >= 1 ? getTooltipTitle(tooltip[0].label, tooltip[0].dataIndex) : ""),
+          label: tooltip => getTooltipLabel(tooltip.formattedValue, tooltip.dataset.label)
+        }
+      },
+      legend: {
+        display: showLegend
+      }
+    },
+    scales: {
+      y: {
+        beginAtZero: true,
+        ticks: {
+          padding: 10,
+          maxTicksLimit: 5,
+          font: {
+            size: 13
+          },
+          color: "#888"
+        },
+        grid: {
+          drawBorder: false,
+          color: "#ccc"
+        }
+      },
+      x: {
+        ticks: {
+          font: {
+            size: 13
+          },
+          color: "#888",
+          maxRotation: 0,
+          autoSkipPadding: 20
+        },
+        grid: {
+          display: false
+        }
+      }
+    },
+    maintainAspectRatio: false
+  };
+}
+
+function getDoughnutOptions(showLegend: boolean): ChartOptions<"doughnut"> {
+  return {
+    plugins: {
+      tooltip: {
+        padding: 10,
+        bodyFont: {
+          size: 13
+        }
+      },
+      legend: {
+        display: showLegend,
+        position: "right",
+        labels: {
+          font: {
+            size: 13
+          }
+        }
+      }
+    },
+    maintainAspectRatio: false
+  };
+}
+
+// The days without submissions are not returned by the server, fill them with zeros
+function fillDailyCounts(dailyCounts: ApiTypes.SubmissionDailyCountDto[]) {
+  if (dailyCounts.length === 0) return [];
+
+  const countOfDate = new Map(dailyCounts.map(dailyCount => [dailyCount.date, dailyCount]));
+  const result: ApiTypes.SubmissionDailyCountDto[] = [];
+  const lastDate = dayjs(dailyCounts[dailyCounts.length - 1].date);
+  for (let date = dayjs(dailyCounts[0].date); !date.isAfter(lastDate); date = date.add(1, "day")) {
+    const dateString = date.format("YYYY-MM-DD");
+    result.push(countOfDate.get(dateString) || { date: dateString, count: 0, acceptedCount: 0 });
+  }
+
+  return result;
+}
+
+interface SubmissionStatisticsOverviewProps {
+  scores: number[];
+  overview: ApiTypes.QuerySubmissionStatisticsOverviewResponseDto;
+}
+
+let SubmissionStatisticsOverview: React.FC<SubmissionStatisticsOverviewProps> = props => {
+  const _ = useLocalizer("submission_statistics");
+
+  const isMobile = useScreenWidthWithin(0, 768);
+
+  const scores: [number, number][] = Object.entries(props.scores)
+    .filter(([score, count]) => count)
+    .map(([score, count]) => [Number(score), Number(count)]);
+
+  const statusCounts = [...props.overview.statusCounts].sort((a, b) => b.count - a.count);
+  const codeLanguageCounts = [...props.overview.codeLanguageCounts].sort((a, b) => b.count - a.count);
+  const dailyCounts = fillDailyCounts(props.overview.dailyCounts);
+
+  // Read the colors from the theme again after it's changed
+  const [statusColors, acceptedColor] = useMemo(
+    () => [statusCounts.map(({ status }) => getStatusColor(status)), getStatusColor("Accepted")],
+    [appState.theme, props.overview]
+  );
+
+  return (
+    <>
+      {scores.length > 0 && (
+        <>
+          <Header as="h1" textAlign="center" className={style.headerChart}>
+            {_(".header_score_distribution")}
+          </Header>
+          <div className={style.chartContainer}>
+            <Bar
+              options={getBarOrLineOptions(
+                label => _(".chart_tooltip.score") + label,
+                value => _(".chart_tooltip.count") + value
+              )}
+              data={{
+                labels: scores.map(([score, count]) => score),
+                datasets: [
+                  {
+                    data: scores.map(([score, count]) => count),
+                    backgroundColor: scores.map(([score, count]) => getScoreColor(score))
+                  }
+                ]
+              }}
+            />
+          </div>
+        </>
+      )}
+      <Grid columns={isMobile ? 1 : 2} className={style.overviewGrid}>
+        <Grid.Column>
+          <Header as="h1" textAlign="center" className={style.headerChart}>
+            {_(".header_status_breakdown")}
+          </Header>
+          <div className={style.chartContainer}>
+            <Doughnut
+              options={getDoughnutOptions(!isMobile)}
+              data={{
+                labels: statusCounts.map(({ status }) => status.replace(/([A-Z])/g, " $1").trimStart()),
+                datasets: [
+                  {
+                    data: statusCounts.map(({ count }) => count),
+                    backgroundColor: statusColors
+                  }
+                ]
+              }}
+            />
+          </div>
+        </Grid.Column>
+        <Grid.Column>
+          <Header as="h1" textAlign="center" className={style.headerChart}>
+            {_(".header_language_share")}
+          </Header>
+          <div className={style.chartContainer}>
+            <Doughnut
+              options={getDoughnutOptions(!isMobile)}
+              data={{
+                labels: codeLanguageCounts.map(({ codeLanguage }) => _(`code_language.${codeLanguage}.name`)),
+                datasets: [
+                  {
+                    data: codeLanguageCounts.map(({ count }) => count),
+                    backgroundColor: codeLanguageCounts.map(
+                      (count, i) => CODE_LANGUAGE_COLORS[i % CODE_LANGUAGE_COLORS.length]
+                    )
+                  }
+                ]
+              }}
+            />
+          </div>
+        </Grid.Column>
+      </Grid>
+      {props.overview.timeUsedHistogram.length > 0 && (
+        <>
+          <Header as="h1" textAlign="center" className={style.headerChart}>
+            {_(".header_time_used_histogram")}
+          </Header>
+          <div className={style.chartContainer}>
+            <Bar
+              options={getBarOrLineOptions(
+                (label, dataIndex) =>
+                  _(".chart_tooltip.time_used", {
+                    min: props.overview.timeUsedHistogram[dataIndex].minTimeUsed,
+                    max: props.overview.timeUsedHistogram[dataIndex].maxTimeUsed
+                  }),
+                value => _(".chart_tooltip.count") + value
+              )}
+              data={{
+                labels: props.overview.timeUsedHistogram.map(({ minTimeUsed }) => minTimeUsed),
+                datasets: [
+                  {
+                    data: props.overview.timeUsedHistogram.map(({ count }) => count),
+                    backgroundColor: acceptedColor
+                  }
+                ]
+              }}
+            />
+          </div>
+        </>
+      )}
+      {dailyCounts.length > 0 && (
+        <>
+          <Header as="h1" textAlign="center" className={style.headerChart}>
+            {_(".header_submissions_over_time")}
+          </Header>
+          <div className={style.chartContainer}>
+            <Line
+              options={getBarOrLineOptions(
+                label => label,
+                (value, datasetLabel) => `${datasetLabel}: ${value}`,
+                true
+              )}
+              data={{
+                labels: dailyCounts.map(({ date }) => date),
+                datasets: [
+                  {
+                    label: _(".chart_legend.submissions"),
+                    data: dailyCounts.map(({ count }) => count),
+                    backgroundColor: "rgba(11, 98, 164, 0.08)",
+                    borderColor: "#0b62a4",
+                    fill: true,
+                    pointRadius: 0,
+                    pointHitRadius: 10
+                  },
+                  {
+                    label: _(".chart_legend.accepted_submissions"),
+                    data: dailyCounts.map(({ acceptedCount }) => acceptedCount),
+                    backgroundColor: "rgba(37, 173, 64, 0.08)",
+                    borderColor: acceptedColor,
+                    fill: true,
+                    pointRadius: 0,
+                    pointHitRadius: 10
+                  }
+                ]
+              }}
+            />
+          </div>
+        </>
+      )}
+    </>
+  );
+};
+
+SubmissionStatisticsOverview = observer(SubmissionStatisticsOverview);
+
+export default SubmissionStatisticsOverview;
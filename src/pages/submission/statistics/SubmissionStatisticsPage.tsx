@@ -30,6 +30,8 @@ import { getScoreColor } from "@/components/ScoreText";
 import { defineRoute, RouteError } from "@/AppRouter";
 import { getProblemIdString } from "@/pages/problem/utils";
 import { makeToBeLocalizedText } from "@/locales";
+import getTimeZone from "@/utils/getTimeZone";
+import SubmissionStatisticsOverview from "./SubmissionStatisticsOverview";
 
 ChartJS.register(BarElement, LineElement, PointElement, LinearScale, CategoryScale, Title, Tooltip);
 
@@ -42,35 +44,61 @@ export enum SubmissionStatisticsType {
   Earliest = "Earliest"
 }
 
+// The overview shows charts of all submissions, instead of a ranking of accepted submissions
+const OVERVIEW = "Overview";
+
+type SubmissionStatisticsTab = SubmissionStatisticsType | typeof OVERVIEW;
+
 // We use lower case type in URLs
-function getType(type: string): SubmissionStatisticsType {
+function getType(type: string): SubmissionStatisticsTab {
+  if (type.toLowerCase() === OVERVIEW.toLowerCase()) return OVERVIEW;
   return (
     Object.values(SubmissionStatisticsType).find(s => s.toLowerCase() === type.toLowerCase()) ||
     SubmissionStatisticsType.Fastest
   );
 }
 
-async function fetchData(id: number, idType: "id" | "displayId", type: SubmissionStatisticsType, page: number) {
-  const { requestError, response } = await api.submission.querySubmissionStatistics({
-    [idType === "id" ? "problemId" : "problemDisplayId"]: id,
-    statisticsType: type,
-    locale: appState.locale,
-    skipCount: SUBMISSIONS_PER_PAGE * (page - 1),
-    takeCount: SUBMISSIONS_PER_PAGE
-  });
+async function fetchData(
+  id: number,
+  idType: "id" | "displayId",
+  type: SubmissionStatisticsTab,
+  page: number
+): Promise<[ApiTypes.QuerySubmissionStatisticsResponseDto, ApiTypes.QuerySubmissionStatisticsOverviewResponseDto]> {
+  const idKey = idType === "id" ? "problemId" : "problemDisplayId";
+  const [statistics, overview] = await Promise.all([
+    // The overview only uses the score distribution in the statistics
+    api.submission.querySubmissionStatistics({
+      [idKey]: id,
+      statisticsType: type === OVERVIEW ? SubmissionStatisticsType.Fastest : type,
+      locale: appState.locale,
+      skipCount: type === OVERVIEW ? 0 : SUBMISSIONS_PER_PAGE * (page - 1),
+      takeCount: type === OVERVIEW ? 0 : SUBMISSIONS_PER_PAGE
+    }),
+    type === OVERVIEW
+      ? api.submission.querySubmissionStatisticsOverview({
+          [idKey]: id,
+          timezone: getTimeZone()
+        })
+      : null
+  ]);
 
-  if (requestError) throw new RouteError(requestError, { showRefresh: true, showBack: true });
-  else if (response.error) throw new RouteError(makeToBeLocalizedText(`submission_statistics.error.${response.error}`));
+  for (const { requestError, response } of overview ? [statistics, overview] : [statistics]) {
+    if (requestError) throw new RouteError(requestError, { showRefresh: true, showBack: true });
+    else if (response.error)
+      throw new RouteError(makeToBeLocalizedText(`submission_statistics.error.${response.error}`));
+  }
 
-  return response;
+  return [statistics.response, overview ? overview.response : null];
 }
 
 interface SubmissionStatisticsPageProps {
   idType: "id" | "displayId";
   id: number;
-  type: SubmissionStatisticsType;
+  type: SubmissionStatisticsTab;
   currentPage: number;
   response: ApiTypes.QuerySubmissionStatisticsResponseDto;
+  // Only for the overview
+  overview?: ApiTypes.QuerySubmissionStatisticsOverviewResponseDto;
 }
 
 let SubmissionStatisticsPage: React.FC<SubmissionStatisticsPageProps> = props => {
@@ -99,16 +127,30 @@ let SubmissionStatisticsPage: React.FC<SubmissionStatisticsPageProps> = props =>
       ? "memoryUsed"
       : null;
 
+  const emptyPlaceholder = (
+    <Segment placeholder>
+      <Header icon>
+        <Icon name="file" />
+        {_(".empty")}
+      </Header>
+      <Segment.Inline>
+        <Button primary onClick={() => navigation.goBack()}>
+          {_(".empty_goback")}
+        </Button>
+      </Segment.Inline>
+    </Segment>
+  );
+
   return (
     <>
       <Header as="h1" className={style.header}>
-        {_(".header")}
+        {props.type === OVERVIEW ? _(".header_overview") : _(".header")}
         <Menu compact className={style.headerDropdown}>
           <Dropdown
             simple
             item
             value={props.type}
-            options={Object.values(SubmissionStatisticsType).map(type => ({
+            options={[OVERVIEW, ...Object.values(SubmissionStatisticsType)].map(type => ({
               key: type,
               value: type,
               text: _(`.type.${type}`),
@@ -117,18 +159,14 @@ let SubmissionStatisticsPage: React.FC<SubmissionStatisticsPageProps> = props =>
           />
         </Menu>
       </Header>
-      {props.response.submissions.length === 0 ? (
-        <Segment placeholder>
-          <Header icon>
-            <Icon name="file" />
-            {_(".empty")}
-          </Header>
-          <Segment.Inline>
-            <Button primary onClick={() => navigation.goBack()}>
-              {_(".empty_goback")}
-            </Button>
-          </Segment.Inline>
-        </Segment>
+      {props.type === OVERVIEW ? (
+        props.overview.statusCounts.length === 0 ? (
+          emptyPlaceholder
+        ) : (
+          <SubmissionStatisticsOverview scores={props.response.scores} overview={props.overview} />
+        )
+      ) : props.response.submissions.length === 0 ? (
+        emptyPlaceholder
       ) : (
         <>
           <Table textAlign="center" basic="very" className={style.table} unstackable fixed>
@@ -165,7 +203,7 @@ let SubmissionStatisticsPage: React.FC<SubmissionStatisticsPageProps> = props =>
           )}
         </>
       )}
-      {scores.length > 0 && (
+      {props.type !== OVERVIEW && scores.length > 0 && (
         <>
           <Header as="h1" textAlign="center" className={style.headerChart}>
             {_(".header_score_distribution")}
@@ -398,9 +436,18 @@ export default {
     let currentPage = parseInt(request.params.page) || 1;
     if (currentPage < 1) currentPage = 1;
 
-    const response = await fetchData(id, "id", type, currentPage);
+    const [response, overview] = await fetchData(id, "id", type, currentPage);
 
-    return <SubmissionStatisticsPage id={id} idType="id" type={type} currentPage={currentPage} response={response} />;
+    return (
+      <SubmissionStatisticsPage
+        id={id}
+        idType="id"
+        type={type}
+        currentPage={currentPage}
+        response={response}
+        overview={overview}
+      />
+    );
   }),
   byDisplayId: defineRoute(async request => {
     const displayId = parseInt(request.params["displayId"]) || 0;
@@ -409,7 +456,7 @@ export default {
     let currentPage = parseInt(request.params.page) || 1;
     if (currentPage < 1) currentPage = 1;
 
-    const response = await fetchData(displayId, "displayId", type, currentPage);
+    const [response, overview] = await fetchData(displayId, "displayId", type, currentPage);
 
     return (
       <SubmissionStatisticsPage
@@ -419,6 +466,7 @@ export default {
         type={type}
         currentPage={currentPage}
         response={response}
+        overview={overview}
       />
     );
   })
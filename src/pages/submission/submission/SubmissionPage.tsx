@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect, useMemo } from "react";
-import { Table, Icon, Accordion, Grid, SemanticWIDTHS, Button, Popup, Ref, Menu } from "semantic-ui-react";
+import { Table, Icon, Accordion, Grid, SemanticWIDTHS, Button, Popup, Ref, Menu, Header } from "semantic-ui-react";
 import { observer } from "mobx-react";
 import { v4 as uuid } from "uuid";
 import { patch } from "jsondiffpatch";
@@ -9,7 +9,7 @@ import style from "./SubmissionPage.module.less";
 import { appState } from "@/appState";
 import api from "@/api";
 import toast from "@/utils/toast";
-import { useLocalizer, useSocket, useScreenWidthWithin, useNavigationChecked } from "@/utils/hooks";
+import { useLocalizer, useSocket, useScreenWidthWithin, useNavigationChecked, useDialog } from "@/utils/hooks";
 import { SubmissionHeader, SubmissionItem, SubmissionItemExtraRows } from "../componments/SubmissionItem";
 import StatusText from "@/components/StatusText";
 import formatFileSize from "@/utils/formatFileSize";
@@ -23,6 +23,8 @@ import { SubmissionProgressMessageMetaOnly, SubmissionProgressType } from "../co
 import { makeToBeLocalizedText } from "@/locales";
 import { EmojiRenderer } from "@/components/EmojiRenderer";
 import { formatSubmissionTime } from "@/utils/formatSubmissionTime";
+import OutputDiffView from "./common/OutputDiffView";
+import SubmissionCompareSelector from "./common/SubmissionCompareSelector";
 
 async function fetchData(submissionId: number) {
   const { requestError, response } = await api.submission.getSubmissionDetail({
@@ -494,28 +496,27 @@ let SubmissionPage: React.FC<SubmissionPageProps> = props => {
                 ansiMessage={testcaseResult.input}
               />
             )}
-            {testcaseResult.output && (
-              <OmittableAnsiCodeBox
-                title={
-                  <>
-                    <strong>{_(".testcase.output")}</strong>
-                    {testcaseResult.testcaseInfo.outputFile && (
-                      <span
-                        className={"monospace " + style.fileNameWrapper}
-                        onClick={() => onDownload(testcaseResult.testcaseInfo.outputFile)}
-                      >
-                        <EmojiRenderer>
-                          <span className={style.fileName}>{testcaseResult.testcaseInfo.outputFile}</span>
-                        </EmojiRenderer>
-                        <Icon name="download" />
-                      </span>
-                    )}
-                  </>
-                }
-                ansiMessage={testcaseResult.output}
-              />
-            )}
-            <OmittableAnsiCodeBox title={_(".testcase.user_output")} ansiMessage={testcaseResult.userOutput} />
+            <OutputDiffView
+              outputTitle={
+                <>
+                  <strong>{_(".testcase.output")}</strong>
+                  {testcaseResult.testcaseInfo.outputFile && (
+                    <span
+                      className={"monospace " + style.fileNameWrapper}
+                      onClick={() => onDownload(testcaseResult.testcaseInfo.outputFile)}
+                    >
+                      <EmojiRenderer>
+                        <span className={style.fileName}>{testcaseResult.testcaseInfo.outputFile}</span>
+                      </EmojiRenderer>
+                      <Icon name="download" />
+                    </span>
+                  )}
+                </>
+              }
+              output={testcaseResult.output}
+              userOutput={testcaseResult.userOutput}
+              status={testcaseResult.status}
+            />
             <OmittableAnsiCodeBox title={_(".testcase.user_error")} ansiMessage={testcaseResult.userError} />
             {getAdditionalSections(testcaseResult)}
             <OmittableAnsiCodeBox title={_(".testcase.system_message")} ansiMessage={testcaseResult.systemMessage} />
@@ -793,125 +794,147 @@ let SubmissionPage: React.FC<SubmissionPageProps> = props => {
   const [togglePublicPopupOpen, setTogglePublicPopupOpen] = useState(false);
   const [deletePopupOpen, setDeletePopupOpen] = useState(false);
 
+  const compareDialog = useDialog(
+    {},
+    () => <Header icon="exchange" content={_(".compare.compare_with_title", { id: String(meta.id) })} />,
+    () => (
+      <SubmissionCompareSelector
+        submission={meta}
+        onSelect={submissionId => (
+          compareDialog.close(),
+          navigation.navigate({ pathname: "/s/compare", query: { a: String(meta.id), b: String(submissionId) } })
+        )}
+      />
+    ),
+    () => <Button content={_(".compare.cancel")} onClick={() => compareDialog.close()} />
+  );
+
   const showRejudge = props.permissionRejudge;
   const showCancel = props.permissionCancel && progressMeta.pending;
   const showTogglePublic = props.permissionSetPublic;
   const showDelete = props.permissionDelete;
 
-  const statusPopup = (statusNode: JSX.Element) =>
-    !showRejudge && !showCancel ? (
-      statusNode
-    ) : (
-      <>
-        <Ref innerRef={e => e && e.tagName === "TD" && setStatusNodeRef(e)}>
-          <Popup
-            className={style.operationsPopup}
-            trigger={statusNode}
-            open={operationsPopupOpen}
-            onOpen={() => !cancelPopupOpen && !rejudgePopupOpen && setOperationsPopupOpen(true)}
-            onClose={() => setOperationsPopupOpen(false)}
-            disabled={operationPending}
-            hoverable
-            content={
-              <Menu vertical className={style.operations}>
-                {showCancel && (
-                  <Menu.Item
-                    content={
-                      <>
-                        <Icon name="ban" />
-                        {_(".cancel")}
-                      </>
-                    }
-                    onClick={() => (setOperationsPopupOpen(false), setCancelPopupOpen(true))}
-                  />
-                )}
-                {showRejudge && (
-                  <Menu.Item
-                    content={
-                      <>
-                        <Icon name="refresh" />
-                        {_(".rejudge")}
-                      </>
-                    }
-                    onClick={() => (setOperationsPopupOpen(false), setRejudgePopupOpen(true))}
-                  />
-                )}
-                {showTogglePublic && (
-                  <Menu.Item
-                    content={
-                      <>
-                        <Icon name={meta.isPublic ? "eye slash" : "eye"} />
-                        {_(meta.isPublic ? ".set_non_public" : ".set_public")}
-                      </>
-                    }
-                    onClick={() => (setOperationsPopupOpen(false), setTogglePublicPopupOpen(true))}
-                  />
-                )}
-                {showDelete && (
-                  <Menu.Item
-                    content={
-                      <>
-                        <Icon name="delete" />
-                        {_(".delete")}
-                      </>
-                    }
-                    onClick={() => (setOperationsPopupOpen(false), setDeletePopupOpen(true))}
-                  />
-                )}
-              </Menu>
-            }
-            position="bottom left"
-            on="hover"
-          />
-        </Ref>
-        {showCancel && (
-          <Popup
-            open={cancelPopupOpen}
-            onClose={() => setCancelPopupOpen(false)}
-            context={statusNodeRef}
-            content={<Button negative content={_(".confirm_cancel")} loading={operationPending} onClick={onCancel} />}
-            position="bottom left"
-          />
-        )}
-        {showRejudge && (
-          <Popup
-            open={rejudgePopupOpen}
-            onClose={() => setRejudgePopupOpen(false)}
-            context={statusNodeRef}
-            content={<Button negative content={_(".confirm_rejudge")} loading={operationPending} onClick={onRejudge} />}
-            position="bottom left"
-          />
-        )}
-        {showTogglePublic && (
-          <Popup
-            open={togglePublicPopupOpen}
-            onClose={() => setTogglePublicPopupOpen(false)}
-            context={statusNodeRef}
-            content={
-              <Button
-                positive={!meta.isPublic}
-                content={_(meta.isPublic ? ".confirm_set_non_public" : ".confirm_set_public")}
-                loading={operationPending}
-                onClick={onTogglePublic}
+  const statusPopup = (statusNode: JSX.Element) => (
+    <>
+      <Ref innerRef={e => e && e.tagName === "TD" && setStatusNodeRef(e)}>
+        <Popup
+          className={style.operationsPopup}
+          trigger={statusNode}
+          open={operationsPopupOpen}
+          onOpen={() => !cancelPopupOpen && !rejudgePopupOpen && setOperationsPopupOpen(true)}
+          onClose={() => setOperationsPopupOpen(false)}
+          disabled={operationPending}
+          hoverable
+          content={
+            <Menu vertical className={style.operations}>
+              <Menu.Item
+                content={
+                  <>
+                    <Icon name="exchange" />
+                    {_(".compare_with")}
+                  </>
+                }
+                onClick={() => (setOperationsPopupOpen(false), compareDialog.open())}
               />
-            }
-            position="bottom left"
-          />
-        )}
-        {showDelete && (
-          <Popup
-            open={deletePopupOpen}
-            onClose={() => setDeletePopupOpen(false)}
-            context={statusNodeRef}
-            content={<Button negative content={_(".confirm_delete")} loading={operationPending} onClick={onDelete} />}
-            position="bottom left"
-          />
-        )}
-      </>
-    );
+              {showCancel && (
+                <Menu.Item
+                  content={
+                    <>
+                      <Icon name="ban" />
+                      {_(".cancel")}
+                    </>
+                  }
+                  onClick={() => (setOperationsPopupOpen(false), setCancelPopupOpen(true))}
+                />
+              )}
+              {showRejudge && (
+                <Menu.Item
+                  content={
+                    <>
+                      <Icon name="refresh" />
+                      {_(".rejudge")}
+                    </>
+                  }
+                  onClick={() => (setOperationsPopupOpen(false), setRejudgePopupOpen(true))}
+                />
+              )}
+              {showTogglePublic && (
+                <Menu.Item
+                  content={
+                    <>
+                      <Icon name={meta.isPublic ? "eye slash" : "eye"} />
+                      {_(meta.isPublic ? ".set_non_public" : ".set_public")}
+                    </>
+                  }
+                  onClick={() => (setOperationsPopupOpen(false), setTogglePublicPopupOpen(true))}
+                />
+              )}
+              {showDelete && (
+                <Menu.Item
+                  content={
+                    <>
+                      <Icon name="delete" />
+                      {_(".delete")}
+                    </>
+                  }
+                  onClick={() => (setOperationsPopupOpen(false), setDeletePopupOpen(true))}
+                />
+              )}
+            </Menu>
+          }
+          position="bottom left"
+          on="hover"
+        />
+      </Ref>
+      {showCancel && (
+        <Popup
+          open={cancelPopupOpen}
+          onClose={() => setCancelPopupOpen(false)}
+          context={statusNodeRef}
+          content={<Button negative content={_(".confirm_cancel")} loading={operationPending} onClick={onCancel} />}
+          position="bottom left"
+        />
+      )}
+      {showRejudge && (
+        <Popup
+          open={rejudgePopupOpen}
+          onClose={() => setRejudgePopupOpen(false)}
+          context={statusNodeRef}
+          content={<Button negative content={_(".confirm_rejudge")} loading={operationPending} onClick={onRejudge} />}
+          position="bottom left"
+        />
+      )}
+      {showTogglePublic && (
+        <Popup
+          open={togglePublicPopupOpen}
+          onClose={() => setTogglePublicPopupOpen(false)}
+          context={statusNodeRef}
+          content={
+            <Button
+              positive={!meta.isPublic}
+              content={_(meta.isPublic ? ".confirm_set_non_public" : ".confirm_set_public")}
+              loading={operationPending}
+              onClick={onTogglePublic}
+            />
+          }
+          position="bottom left"
+        />
+      )}
+      {showDelete && (
+        <Popup
+          open={deletePopupOpen}
+          onClose={() => setDeletePopupOpen(false)}
+          context={statusNodeRef}
+          content={<Button negative content={_(".confirm_delete")} loading={operationPending} onClick={onDelete} />}
+          position="bottom left"
+        />
+      )}
+    </>
+  );
 
   return (
     <>
+      {compareDialog.element}
       {!isMobile && (
         <Table textAlign="center" basic="very" unstackable fixed={isWideScreen} compact={isWideScreen ? false : "very"}>
           <Table.Header>
@@ -984,6 +1007,8 @@ export default defineRoute(async request => {
           return import("./types/InteractionProblemSubmissionView");
         case "SubmitAnswer":
           return import("./types/SubmitAnswerProblemSubmissionView");
+        case "Communication":
+          return import("./types/CommunicationProblemSubmissionView");
       }
     })()
   ).default;
@@ -994,9 +1019,7 @@ export default defineRoute(async request => {
       ProblemTypeSubmissionView.getHighlightLanguageList(queryResult.content)) ||
     [];
 
-  if (highlightLanguageList.some(lang => CodeFormatter.isLanguageSupported(lang))) {
-    await CodeFormatter.ready;
-  }
+  await Promise.all(highlightLanguageList.map(lang => CodeFormatter.load(lang)));
 
   return (
     <SubmissionPage key={uuid()} {...(queryResult as any)} ProblemTypeSubmissionView={ProblemTypeSubmissionView} />
@@ -21,7 +21,7 @@ const FormattableCodeBox = React.forwardRef<HTMLPreElement, FormattableCodeBoxPr
   const _ = useLocalizer("submission");
 
   const defaultFormatted = !appState.userPreference.codeFormatter?.disableByDefault;
-  const options = appState.userPreference.codeFormatter?.options || CodeFormatter.defaultOptions;
+  const options = CodeFormatter.getOptions(props.language, appState.userPreference.codeFormatter);
 
   const languageFormattable = CodeFormatter.isLanguageSupported(props.language);
 
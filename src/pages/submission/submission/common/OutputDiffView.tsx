@@ -0,0 +1,362 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Button, Dropdown } from "semantic-ui-react";
+import { observer } from "mobx-react";
+import { set as setMobX } from "mobx";
+import debounce from "lodash/debounce";
+
+import style from "./OutputDiffView.module.less";
+
+import api from "@/api";
+import { appState } from "@/appState";
+import toast from "@/utils/toast";
+import { Localizer } from "@/locales";
+import { useLocalizer } from "@/utils/hooks";
+import { diffSequences } from "@/utils/diff";
+import { OmittableAnsiCodeBox, OmittableString } from "@/components/CodeBox";
+
+type ViewMode = ApiTypes.UserPreferenceOutputDiffDto["viewMode"];
+type CompareMode = ApiTypes.UserPreferenceOutputDiffDto["compareMode"];
+
+const VIEW_MODES: ViewMode[] = ["Separate", "SideBySide", "Inline"];
+const VIEW_MODE_ICONS: Record<ViewMode, string> = {
+  Separate: "clone outline",
+  SideBySide: "columns",
+  Inline: "bars"
+};
+const COMPARE_MODES: CompareMode[] = ["Line", "Token", "IgnoreWhitespace"];
+
+// Changes in a short time are saved together
+const SAVE_PREFERENCE_DELAY = 3000;
+
+let pendingPreferenceDelta: ApiTypes.UserPreferenceOutputDiffDto = {};
+
+// Only the output diff field is changed, the others are fetched again to keep the changes made in other tabs
+const flushOutputDiffPreference = debounce(async (_: Localizer) => {
+  const delta = pendingPreferenceDelta;
+  pendingPreferenceDelta = {};
+  if (!appState.currentUser) return;
+
+  const userId = appState.currentUser.id;
+  const { requestError, response } = await api.user.getUserPreference({ userId });
+  if (requestError) {
+    toast.error(requestError(_));
+    return;
+  } else if (response.error) {
+    toast.error(_(`user_edit.errors.${response.error}`));
+    return;
+  }
+
+  const { requestError: updateRequestError, response: updateResponse } = await api.user.updateUserPreference({
+    userId,
+    preference: {
+      ...response.preference,
+      outputDiff: { ...response.preference.outputDiff, ...delta }
+    }
+  });
+  if (updateRequestError) toast.error(updateRequestError(_));
+  else if (updateResponse.error) toast.error(_(`user_edit.errors.${updateResponse.error}`));
+}, SAVE_PREFERENCE_DELAY);
+
+// The last selected modes are remembered as the default of the testcases shown later
+function saveOutputDiffPreference(delta: ApiTypes.UserPreferenceOutputDiffDto, _: Localizer) {
+  setMobX(appState.userPreference, { outputDiff: { ...appState.userPreference.outputDiff, ...delta } });
+  pendingPreferenceDelta = { ...pendingPreferenceDelta, ...delta };
+  flushOutputDiffPreference(_);
+}
+
+function splitOmittableString(omittableString: OmittableString): [lines: string[], omittedLength: number] {
+  const content = omittableString || "";
+  const text = (typeof content === "string" ? content : content.data).replace(/\x1b\[[0-9;]*m/g, "");
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return [lines, typeof content === "string" ? 0 : content.omittedLength];
+}
+
+function normalizeWhitespace(line: string) {
+  return line.trim().split(/\s+/).join(" ");
+}
+
+interface DiffRow {
+  // The 0-based line indices in the expected output and the user output
+  expected?: number;
+  user?: number;
+}
+
+// Pair the deleted and inserted lines between two equal lines as changed lines
+function getDiffRows(expectedLines: string[], userLines: string[], compareMode: CompareMode): DiffRow[] {
+  const edits =
+    compareMode === "IgnoreWhitespace"
+      ? diffSequences(expectedLines.map(normalizeWhitespace), userLines.map(normalizeWhitespace), (x, y) => x === y)
+      : diffSequences(expectedLines, userLines);
+
+  const rows: DiffRow[] = [];
+  let deleted: number[] = [],
+    inserted: number[] = [];
+  const flush = () => {
+    for (let i = 0; i < Math.max(deleted.length, inserted.length); i++)
+      rows.push({ expected: deleted[i], user: inserted[i] });
+    deleted = [];
+    inserted = [];
+  };
+  for (const edit of edits) {
+    if (edit.type === "delete") deleted.push(edit.a);
+    else if (edit.type === "insert") inserted.push(edit.b);
+    else {
+      flush();
+      rows.push({ expected: edit.a, user: edit.b });
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+interface DiffLineProps {
+  line: string;
+  // The line on the other side to highlight the differing tokens
+  otherLine?: string;
+  side: "expected" | "user";
+}
+
+const DiffLine: React.FC<DiffLineProps> = props => {
+  const tokens = useMemo(() => {
+    if (props.otherLine == null) return null;
+
+    const tokenize = (line: string) => line.split(/(\s+)/).filter(token => token);
+    const [a, b] = props.side === "expected" ? [props.line, props.otherLine] : [props.otherLine, props.line];
+    const tokensA = tokenize(a),
+      tokensB = tokenize(b);
+    return diffSequences(tokensA, tokensB)
+      .filter(edit => edit.type === "equal" || edit.type === (props.side === "expected" ? "delete" : "insert"))
+      .map(edit =>
+        edit.type === "equal"
+          ? { text: props.side === "expected" ? tokensA[edit.a] : tokensB[edit.b], changed: false }
+          : { text: edit.type === "delete" ? tokensA[edit.a] : tokensB[edit.b], changed: true }
+      );
+  }, [props.line, props.otherLine, props.side]);
+
+  return (
+    <>
+      {tokens
+        ? tokens.map((token, i) => (
+            <span key={i} className={token.changed ? style.changedToken : null}>
+              {token.text}
+            </span>
+          ))
+        : props.line}
+    </>
+  );
+};
+
+interface OutputDiffViewProps {
+  outputTitle: React.ReactNode;
+  output: OmittableString;
+  userOutput: OmittableString;
+  status: string;
+}
+
+let OutputDiffView: React.FC<OutputDiffViewProps> = props => {
+  const _ = useLocalizer("submission");
+
+  // Only WA testcases are shown in the preferred view mode by default
+  const [viewMode, setViewMode] = useState<ViewMode>(
+    (props.status === "WrongAnswer" && appState.userPreference.outputDiff?.viewMode) || "Separate"
+  );
+  const [compareMode, setCompareMode] = useState<CompareMode>(
+    appState.userPreference.outputDiff?.compareMode || "Line"
+  );
+
+  function onChangeViewMode(newViewMode: ViewMode) {
+    setViewMode(newViewMode);
+    saveOutputDiffPreference({ viewMode: newViewMode }, _);
+  }
+
+  function onChangeCompareMode(newCompareMode: CompareMode) {
+    setCompareMode(newCompareMode);
+    saveOutputDiffPreference({ compareMode: newCompareMode }, _);
+  }
+
+  // There's nothing to compare if the expected output or the user output is unavailable
+  const comparable = !!props.output && !!props.userOutput;
+  const [[expectedLines, expectedOmittedLength], [userLines, userOmittedLength]] = useMemo(
+    () => [splitOmittableString(props.output), splitOmittableString(props.userOutput)],
+    [props.output, props.userOutput]
+  );
+  const rows = useMemo(
+    () => (!comparable || viewMode === "Separate" ? [] : getDiffRows(expectedLines, userLines, compareMode)),
+    [expectedLines, userLines, compareMode, viewMode, comparable]
+  );
+  const isDifferent = (row: DiffRow) =>
+    row.expected == null ||
+    row.user == null ||
+    (compareMode === "IgnoreWhitespace"
+      ? normalizeWhitespace(expectedLines[row.expected]) !== normalizeWhitespace(userLines[row.user])
+      : expectedLines[row.expected] !== userLines[row.user]);
+  const firstDifferentRowIndex = rows.findIndex(isDifferent);
+
+  const refContainer = useRef<HTMLDivElement>();
+  const refFirstDifferentRow = useRef<HTMLTableRowElement>();
+  function scrollToFirstDifference() {
+    if (refContainer.current && refFirstDifferentRow.current)
+      refContainer.current.scrollTop = refFirstDifferentRow.current.offsetTop - refContainer.current.clientHeight / 3;
+  }
+  useEffect(scrollToFirstDifference, [viewMode, compareMode]);
+
+  // In inline mode, a changed line is shown as a deleted row and an inserted row, the former is marked
+  const firstDifferentRowProps = (i: number, condition = true) =>
+    i === firstDifferentRowIndex && condition ? { ref: refFirstDifferentRow, className: style.firstDifference } : null;
+
+  const renderLine = (row: DiffRow, side: "expected" | "user") => {
+    const line = side === "expected" ? expectedLines[row.expected] : userLines[row.user];
+    const otherLine = side === "expected" ? userLines[row.user] : expectedLines[row.expected];
+    return (
+      <DiffLine line={line} otherLine={compareMode === "Token" && isDifferent(row) ? otherLine : null} side={side} />
+    );
+  };
+
+  const omittedLabel = (omittedLength: number) =>
+    _(omittedLength === 1 ? "components.code_box.omitted" : "components.code_box.omitted_s", {
+      count: omittedLength
+    });
+
+  const toolbar = (
+    <div className={style.toolbar}>
+      <strong>{_(".output_diff.title")}</strong>
+      <Button.Group size="mini" className={style.viewModes}>
+        {VIEW_MODES.map(mode => (
+          <Button
+            key={mode}
+            icon={VIEW_MODE_ICONS[mode]}
+            title={_(`.output_diff.view_mode.${mode}`)}
+            active={viewMode === mode}
+            onClick={() => onChangeViewMode(mode)}
+          />
+        ))}
+      </Button.Group>
+      {viewMode !== "Separate" && (
+        <>
+          <Dropdown
+            className={style.compareMode}
+            inline
+            value={compareMode}
+            options={COMPARE_MODES.map(mode => ({
+              key: mode,
+              value: mode,
+              text: _(`.output_diff.compare_mode.${mode}`)
+            }))}
+            onChange={(e, { value }) => onChangeCompareMode(value as CompareMode)}
+          />
+          <Button
+            className={style.jumpButton}
+            size="mini"
+            basic
+            disabled={firstDifferentRowIndex === -1}
+            content={
+              firstDifferentRowIndex === -1
+                ? _(".output_diff.no_difference")
+                : _(".output_diff.first_difference", {
+                    line: String((rows[firstDifferentRowIndex].user ?? rows[firstDifferentRowIndex].expected ?? 0) + 1)
+                  })
+            }
+            onClick={scrollToFirstDifference}
+          />
+        </>
+      )}
+    </div>
+  );
+
+  if (!comparable || viewMode === "Separate")
+    return (
+      <>
+        {comparable && toolbar}
+        {props.output && <OmittableAnsiCodeBox title={props.outputTitle} ansiMessage={props.output} />}
+        <OmittableAnsiCodeBox title={_(".testcase.user_output")} ansiMessage={props.userOutput} />
+      </>
+    );
+
+  const lineNumber = (index: number) => <td className={style.lineNumber}>{index != null && index + 1}</td>;
+
+  return (
+    <>
+      {toolbar}
+      <div className={style.outputTitle}>{props.outputTitle}</div>
+      <div className={style.container + " monospace"} ref={refContainer}>
+        <table className={style.diffTable}>
+          <tbody>
+            {viewMode === "SideBySide"
+              ? rows.map((row, i) => {
+                  const different = isDifferent(row);
+                  return (
+                    <tr key={i} {...firstDifferentRowProps(i)}>
+                      {lineNumber(row.expected)}
+                      <td className={different ? style.deleted : null}>
+                        {row.expected != null && renderLine(row, "expected")}
+                      </td>
+                      {lineNumber(row.user)}
+                      <td className={different ? style.inserted : null}>
+                        {row.user != null && renderLine(row, "user")}
+                      </td>
+                    </tr>
+                  );
+                })
+              : rows.flatMap((row, i) =>
+                  !isDifferent(row)
+                    ? [
+                        <tr key={i}>
+                          {lineNumber(row.expected)}
+                          {lineNumber(row.user)}
+                          <td className={style.sign} />
+                          <td>{renderLine(row, "user")}</td>
+                        </tr>
+                      ]
+                    : [
+                        row.expected != null && (
+                          <tr key={`${i}-expected`} {...firstDifferentRowProps(i)}>
+                            {lineNumber(row.expected)}
+                            {lineNumber(null)}
+                            <td className={style.sign + " " + style.deleted}>-</td>
+                            <td className={style.deleted}>{renderLine(row, "expected")}</td>
+                          </tr>
+                        ),
+                        row.user != null && (
+                          <tr key={`${i}-user`} {...firstDifferentRowProps(i, row.expected == null)}>
+                            {lineNumber(null)}
+                            {lineNumber(row.user)}
+                            <td className={style.sign + " " + style.inserted}>+</td>
+                            <td className={style.inserted}>{renderLine(row, "user")}</td>
+                          </tr>
+                        )
+                      ]
+                )}
+            {(expectedOmittedLength > 0 || userOmittedLength > 0) &&
+              (viewMode === "SideBySide" ? (
+                <tr className={style.omitted}>
+                  <td colSpan={2}>{expectedOmittedLength > 0 && omittedLabel(expectedOmittedLength)}</td>
+                  <td colSpan={2}>{userOmittedLength > 0 && omittedLabel(userOmittedLength)}</td>
+                </tr>
+              ) : (
+                <>
+                  {expectedOmittedLength > 0 && (
+                    <tr className={style.omitted}>
+                      <td colSpan={3} />
+                      <td>- {omittedLabel(expectedOmittedLength)}</td>
+                    </tr>
+                  )}
+                  {userOmittedLength > 0 && (
+                    <tr className={style.omitted}>
+                      <td colSpan={3} />
+                      <td>+ {omittedLabel(userOmittedLength)}</td>
+                    </tr>
+                  )}
+                </>
+              ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+};
+
+OutputDiffView = observer(OutputDiffView);
+
+export default OutputDiffView;
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from "react";
+import { Header, Input, Button, Table, Placeholder } from "semantic-ui-react";
+import { observer } from "mobx-react";
+
+import style from "./SubmissionCompareSelector.module.less";
+
+import api from "@/api";
+import { appState } from "@/appState";
+import toast from "@/utils/toast";
+import { useLocalizer } from "@/utils/hooks";
+import StatusText from "@/components/StatusText";
+import { formatSubmissionTime } from "@/utils/formatSubmissionTime";
+import formatDateTime from "@/utils/formatDateTime";
+import { onEnterPress } from "@/utils/onEnterPress";
+
+const CANDIDATES_COUNT = 10;
+
+interface SubmissionCompareSelectorProps {
+  submission: Pick<ApiTypes.SubmissionMetaDto, "id" | "problem">;
+  onSelect: (submissionId: number) => void;
+}
+
+let SubmissionCompareSelector: React.FC<SubmissionCompareSelectorProps> = props => {
+  const _ = useLocalizer("submission");
+
+  // The fastest submission of the problem and the recent submissions of the current user to the problem
+  // undefined for loading, null or empty for none
+  const [fastestSubmission, setFastestSubmission] = useState<ApiTypes.SubmissionMetaDto>();
+  const [mySubmissions, setMySubmissions] = useState<ApiTypes.SubmissionMetaDto[]>();
+
+  useEffect(() => {
+    (async () => {
+      const [statisticsResult, submissionsResult] = await Promise.all([
+        api.submission.querySubmissionStatistics({
+          locale: appState.locale,
+          problemId: props.submission.problem.id,
+          statisticsType: "Fastest",
+          skipCount: 0,
+          takeCount: 1
+        }),
+        appState.currentUser
+          ? api.submission.querySubmission({
+              locale: appState.locale,
+              problemId: props.submission.problem.id,
+              problemDisplayId: null,
+              submitter: appState.currentUser.username,
+              codeLanguage: null,
+              status: null,
+              minId: null,
+              maxId: null,
+              takeCount: CANDIDATES_COUNT + 1
+            })
+          : null
+      ]);
+
+      if (statisticsResult.requestError) toast.error(statisticsResult.requestError(_));
+      setFastestSubmission(statisticsResult.response?.submissions?.[0] || null);
+
+      if (submissionsResult?.requestError) toast.error(submissionsResult.requestError(_));
+      setMySubmissions(
+        (submissionsResult?.response?.submissions || [])
+          .filter(submission => submission.id !== props.submission.id)
+          .slice(0, CANDIDATES_COUNT)
+      );
+    })();
+  }, [props.submission]);
+
+  const [inputId, setInputId] = useState("");
+  const inputIdValid = Number.isSafeInteger(Number(inputId)) && Number(inputId) > 0;
+
+  const candidateRows = (submissions: ApiTypes.SubmissionMetaDto[]) =>
+    submissions.map(submission => (
+      <Table.Row key={submission.id} className={style.candidate} onClick={() => props.onSelect(submission.id)}>
+        <Table.Cell>#{submission.id}</Table.Cell>
+        <Table.Cell>
+          <StatusText status={submission.status} />
+        </Table.Cell>
+        <Table.Cell>{formatSubmissionTime(submission.timeUsed)}</Table.Cell>
+        <Table.Cell>{submission.submitter.username}</Table.Cell>
+        <Table.Cell textAlign="right">{formatDateTime(submission.submitTime)[0]}</Table.Cell>
+      </Table.Row>
+    ));
+
+  const loading = (
+    <Placeholder fluid>
+      <Placeholder.Line />
+      <Placeholder.Line />
+    </Placeholder>
+  );
+
+  return (
+    <>
+      <Header as="h4" content={_(".compare.submission_id")} />
+      <Input
+        className={style.inputId}
+        placeholder={_(".compare.submission_id_placeholder")}
+        value={inputId}
+        onChange={(e, { value }) => setInputId(value.trim())}
+        onKeyPress={onEnterPress(() => inputIdValid && props.onSelect(Number(inputId)))}
+        action={
+          <Button
+            primary
+            content={_(".compare.compare")}
+            disabled={!inputIdValid}
+            onClick={() => props.onSelect(Number(inputId))}
+          />
+        }
+      />
+      <Header as="h4" content={_(".compare.fastest_submission")} />
+      {fastestSubmission === undefined ? (
+        loading
+      ) : !fastestSubmission ? (
+        <div className={style.notes}>{_(".compare.no_fastest_submission")}</div>
+      ) : (
+        <Table selectable compact unstackable>
+          <Table.Body>{candidateRows([fastestSubmission])}</Table.Body>
+        </Table>
+      )}
+      {appState.currentUser && (
+        <>
+          <Header as="h4" content={_(".compare.my_submissions")} />
+          {mySubmissions === undefined ? (
+            loading
+          ) : mySubmissions.length === 0 ? (
+            <div className={style.notes}>{_(".compare.no_my_submissions")}</div>
+          ) : (
+            <Table selectable compact unstackable>
+              <Table.Body>{candidateRows(mySubmissions)}</Table.Body>
+            </Table>
+          )}
+        </>
+      )}
+    </>
+  );
+};
+
+SubmissionCompareSelector = observer(SubmissionCompareSelector);
+
+export default SubmissionCompareSelector;
@@ -0,0 +1,124 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Button, Checkbox, Form, Header } from "semantic-ui-react";
+import { observer } from "mobx-react";
+
+import style from "./SubmissionsPage.module.less";
+
+import { useDialog, useLocalizer } from "@/utils/hooks";
+import toast from "@/utils/toast";
+import {
+  exportSubmissions,
+  SubmissionExportColumn,
+  submissionExportColumns,
+  SubmissionExportFormat
+} from "./exportSubmissions";
+import type { SubmissionsQuery } from "./SubmissionsPage";
+
+interface SubmissionExporterProps {
+  query: SubmissionsQuery;
+  refOpen: React.Ref<() => void>;
+}
+
+let SubmissionExporter: React.FC<SubmissionExporterProps> = props => {
+  const _ = useLocalizer("submissions.export");
+
+  const [format, setFormat] = useState<SubmissionExportFormat>("csv");
+  const [columns, setColumns] = useState<SubmissionExportColumn[]>(submissionExportColumns);
+
+  // null if not exporting
+  const [exportedCount, setExportedCount] = useState<number>(null);
+  const refAbortCallbackReceiver = useRef<{ abort?: () => void }>({});
+
+  function onToggleColumn(column: SubmissionExportColumn, checked: boolean) {
+    // Keep the order of the columns
+    setColumns(submissionExportColumns.filter(c => (c === column ? checked : columns.includes(c))));
+  }
+
+  async function onExport() {
+    if (exportedCount != null) return;
+
+    setExportedCount(0);
+    const success = await exportSubmissions(
+      props.query,
+      format,
+      columns,
+      setExportedCount,
+      refAbortCallbackReceiver.current,
+      _
+    );
+    setExportedCount(null);
+
+    if (success) {
+      toast.success(_(".success"));
+      dialog.close();
+    }
+  }
+
+  function onClose() {
+    if (exportedCount != null) refAbortCallbackReceiver.current.abort?.();
+    dialog.close();
+  }
+
+  const dialog = useDialog(
+    {
+      size: "small",
+      onClose: () => exportedCount == null && onClose()
+    },
+    () => <Header icon="download" content={_(".title")} />,
+    () => (
+      <Form>
+        <p>{_(".description")}</p>
+        <Form.Group inline>
+          <label>{_(".format")}</label>
+          {(["csv", "json"] as const).map(value => (
+            <Form.Radio
+              key={value}
+              label={value.toUpperCase()}
+              checked={format === value}
+              disabled={exportedCount != null}
+              onChange={() => setFormat(value)}
+            />
+          ))}
+        </Form.Group>
+        <Form.Field>
+          <label>{_(".columns")}</label>
+        </Form.Field>
+        <div className={style.exportColumns}>
+          {submissionExportColumns.map(column => (
+            <Checkbox
+              key={column}
+              label={_(`.column.${column}`)}
+              checked={columns.includes(column)}
+              disabled={exportedCount != null}
+              onChange={(e, { checked }) => onToggleColumn(column, checked)}
+            />
+          ))}
+        </div>
+        {exportedCount != null && <p className={style.exportProgress}>{_(".progress", { count: exportedCount })}</p>}
+      </Form>
+    ),
+    () => (
+      <>
+        <Button content={exportedCount != null ? _(".abort") : _(".cancel")} onClick={onClose} />
+        <Button
+          primary
+          content={_(".export")}
+          loading={exportedCount != null}
+          disabled={exportedCount != null || columns.length === 0}
+          onClick={onExport}
+        />
+      </>
+    )
+  );
+
+  useEffect(() => {
+    if (typeof props.refOpen === "function") props.refOpen(dialog.open);
+    else (props.refOpen as React.MutableRefObject<() => void>).current = dialog.open;
+  }, [props.refOpen, dialog.open]);
+
+  return dialog.element;
+};
+
+SubmissionExporter = observer(SubmissionExporter);
+
+export default SubmissionExporter;
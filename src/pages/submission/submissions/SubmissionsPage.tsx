@@ -29,10 +29,11 @@ import {
 import { SimplePagination } from "@/components/Pagination";
 import { defineRoute, RouteError } from "@/AppRouter";
 import { SubmissionProgressMessageMetaOnly, SubmissionProgressType } from "../common";
+import SubmissionExporter from "./SubmissionExporter";
 
 const SUBMISSIONS_PER_PAGE = appState.serverPreference.pagination.submissions;
 
-interface SubmissionsQuery {
+export interface SubmissionsQuery {
   problemId: number;
   problemDisplayId: number;
   submitter: string;
@@ -202,8 +203,11 @@ let SubmissionsPage: React.FC<SubmissionsPageProps> = props => {
   const isWideScreen = useScreenWidthWithin(1024, Infinity);
   const isMobile = useScreenWidthWithin(0, 768);
 
+  const refOpenExporter = useRef<() => void>();
+
   return (
     <>
+      <SubmissionExporter query={props.query} refOpen={refOpenExporter} />
       <Form className={style.queryForm}>
         <Form.Group inline unstackable>
           <Form.Input
@@ -294,6 +298,12 @@ let SubmissionsPage: React.FC<SubmissionsPageProps> = props => {
               onClick={() => onFilter(true)}
             />
           )}
+          <Button
+            className={(isWideScreen ? "labeled icon " : "") + style.exportButton}
+            icon="download"
+            content={isWideScreen ? _(".export.button") : null}
+            onClick={() => refOpenExporter.current()}
+          />
         </Form.Group>
       </Form>
       {submissions.length === 0 ? (
@@ -0,0 +1,140 @@
+import api from "@/api";
+import { appState } from "@/appState";
+import toast from "@/utils/toast";
+import streamsaver from "@/utils/streamsaver";
+import { Localizer } from "@/locales";
+import { getProblemIdString } from "@/pages/problem/utils";
+import type { SubmissionsQuery } from "./SubmissionsPage";
+
+const SUBMISSIONS_PER_REQUEST = 100;
+
+export type SubmissionExportFormat = "csv" | "json";
+
+export type SubmissionExportColumn =
+  | "id"
+  | "submit_time"
+  | "problem_id"
+  | "problem_title"
+  | "submitter"
+  | "submitter_nickname"
+  | "code_language"
+  | "status"
+  | "score"
+  | "time_used"
+  | "memory_used"
+  | "answer_size"
+  | "is_public";
+
+const columnValueGetters: Record<
+  SubmissionExportColumn,
+  (submission: ApiTypes.SubmissionMetaDto) => string | number | boolean
+> = {
+  id: submission => submission.id,
+  submit_time: submission => submission.submitTime,
+  problem_id: submission => getProblemIdString(submission.problem),
+  problem_title: submission => submission.problemTitle,
+  submitter: submission => submission.submitter.username,
+  submitter_nickname: submission => submission.submitter.nickname,
+  code_language: submission => submission.codeLanguage,
+  status: submission => submission.status,
+  score: submission => submission.score,
+  time_used: submission => submission.timeUsed,
+  memory_used: submission => submission.memoryUsed,
+  answer_size: submission => submission.answerSize,
+  is_public: submission => submission.isPublic
+};
+
+export const submissionExportColumns = Object.keys(columnValueGetters) as SubmissionExportColumn[];
+
+function escapeCsvField(value: string | number | boolean) {
+  const text = value == null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatRow(
+  submission: ApiTypes.SubmissionMetaDto,
+  format: SubmissionExportFormat,
+  columns: SubmissionExportColumn[]
+) {
+  const values = columns.map(column => columnValueGetters[column](submission));
+  return format === "csv"
+    ? values.map(escapeCsvField).join(",") + "\r\n"
+    : JSON.stringify(Object.fromEntries(columns.map((column, i) => [column, values[i] ?? null])));
+}
+
+/**
+ * Query all submissions matching the query page by page from the largest ID, and stream them to a downloaded file.
+ * The file is written while querying, so a large export doesn't need to be kept in the memory.
+ *
+ * Return false and show the error if failed or aborted.
+ */
+export async function exportSubmissions(
+  query: SubmissionsQuery,
+  format: SubmissionExportFormat,
+  columns: SubmissionExportColumn[],
+  onProgress: (exportedCount: number) => void,
+  abortCallbackReceiver: { abort?: () => void },
+  _: Localizer
+) {
+  const fileStream = streamsaver.createWriteStream(`submissions.${format}`);
+  const writer = fileStream.getWriter();
+  const encoder = new TextEncoder();
+  const write = (text: string) => writer.write(encoder.encode(text));
+
+  let aborted = false;
+  abortCallbackReceiver.abort = () => (aborted = true);
+  window.addEventListener("unload", abortCallbackReceiver.abort);
+
+  try {
+    // The BOM makes spreadsheet applications recognize the CSV as UTF-8
+    await write(format === "csv" ? "\ufeff" + columns.join(",") + "\r\n" : "[");
+
+    let maxId = query.maxId ?? null,
+      exportedCount = 0;
+    while (!aborted) {
+      const { requestError, response } = await api.submission.querySubmission({
+        locale: appState.locale,
+        problemId: query.problemId ?? null,
+        problemDisplayId: query.problemDisplayId ?? null,
+        submitter: query.submitter ?? null,
+        codeLanguage: query.codeLanguage ?? null,
+        status: query.status ?? null,
+        minId: null,
+        maxId,
+        takeCount: SUBMISSIONS_PER_REQUEST
+      });
+      if (requestError) throw new Error(requestError(_));
+      else if (response.error) throw new Error(_(`submissions.query_error.${response.error}`));
+
+      // The minimum ID is checked locally, since a query with it returns the submissions next to it, not the latest ones
+      const submissions = response.submissions.filter(
+        submission => query.minId == null || submission.id >= query.minId
+      );
+      for (const submission of submissions) {
+        const row = formatRow(submission, format, columns);
+        await write(format === "json" ? (exportedCount === 0 ? "\n" : ",\n") + row : row);
+        exportedCount++;
+      }
+      onProgress(exportedCount);
+
+      if (!response.hasSmallerId || submissions.length === 0 || submissions.length < response.submissions.length) break;
+      maxId = submissions[submissions.length - 1].id - 1;
+    }
+
+    if (aborted) {
+      await writer.abort();
+      return false;
+    }
+
+    if (format === "json") await write("\n]\n");
+    await writer.close();
+    return true;
+  } catch (e) {
+    // Aborting an errored stream rejects
+    await writer.abort().catch(() => {});
+    toast.error(_("submissions.export.error", { error: e.message }));
+    return false;
+  } finally {
+    window.removeEventListener("unload", abortCallbackReceiver.abort);
+  }
+}
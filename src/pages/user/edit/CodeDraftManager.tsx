@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from "react";
+import { Button, Popup, Table } from "semantic-ui-react";
+import { observer } from "mobx-react";
+
+import style from "./UserEdit.module.less";
+
+import { Link, useAsyncCallbackPending, useLocalizer } from "@/utils/hooks";
+import toast from "@/utils/toast";
+import TimeAgo from "@/components/TimeAgo";
+import { EmojiRenderer } from "@/components/EmojiRenderer";
+import { CodeDraft, deleteCodeDrafts, getAllCodeDrafts } from "@/utils/codeDrafts";
+import { getProblemUrl } from "@/pages/problem/utils";
+
+interface ProblemDrafts {
+  problemId: number;
+  problemName: string;
+  languages: string[];
+  snapshotCount: number;
+  latestTime: number;
+}
+
+// Drafts are sorted by time descending, so the first draft of each problem is the latest
+function groupDraftsByProblem(drafts: CodeDraft[]) {
+  const problems = new Map<number, ProblemDrafts>();
+  for (const draft of drafts) {
+    const problem = problems.get(draft.problemId);
+    if (!problem)
+      problems.set(draft.problemId, {
+        problemId: draft.problemId,
+        problemName: draft.problemName,
+        languages: [draft.language],
+        snapshotCount: 1,
+        latestTime: draft.time
+      });
+    else {
+      if (!problem.languages.includes(draft.language)) problem.languages.push(draft.language);
+      problem.snapshotCount++;
+    }
+  }
+  return Array.from(problems.values());
+}
+
+let CodeDraftManager: React.FC = () => {
+  const _ = useLocalizer("user_edit.preference");
+
+  // null for loading
+  const [problems, setProblems] = useState<ProblemDrafts[]>(null);
+  async function loadDrafts() {
+    try {
+      setProblems(groupDraftsByProblem(await getAllCodeDrafts()));
+    } catch (e) {
+      toast.error(_(".drafts.error", { error: String(e) }));
+      setProblems([]);
+    }
+  }
+
+  useEffect(() => {
+    loadDrafts();
+  }, []);
+
+  const [clearAllOpen, setClearAllOpen] = useState(false);
+  const [pending, onDelete] = useAsyncCallbackPending(async (problemId?: number) => {
+    try {
+      await deleteCodeDrafts(problemId);
+      if (problemId == null) toast.success(_(".drafts.success_clear"));
+    } catch (e) {
+      toast.error(_(".drafts.error", { error: String(e) }));
+    }
+
+    setClearAllOpen(false);
+    await loadDrafts();
+  });
+
+  if (!problems) return null;
+  if (problems.length === 0) return <div className={style.notes}>{_(".drafts.no_drafts")}</div>;
+
+  return (
+    <>
+      <Table compact unstackable>
+        <Table.Header>
+          <Table.Row>
+            <Table.HeaderCell>{_(".drafts.problem")}</Table.HeaderCell>
+            <Table.HeaderCell>{_(".drafts.languages")}</Table.HeaderCell>
+            <Table.HeaderCell>{_(".drafts.snapshots")}</Table.HeaderCell>
+            <Table.HeaderCell>{_(".drafts.last_saved")}</Table.HeaderCell>
+            <Table.HeaderCell />
+          </Table.Row>
+        </Table.Header>
+        <Table.Body>
+          {problems.map(problem => (
+            <Table.Row key={problem.problemId}>
+              <Table.Cell>
+                <Link href={getProblemUrl(problem.problemId)}>
+                  <EmojiRenderer>
+                    <span>{problem.problemName}</span>
+                  </EmojiRenderer>
+                </Link>
+              </Table.Cell>
+              <Table.Cell>
+                {problem.languages.map(language => _(`code_language.${language}.name`)).join(", ")}
+              </Table.Cell>
+              <Table.Cell>{problem.snapshotCount}</Table.Cell>
+              <Table.Cell>
+                <TimeAgo time={new Date(problem.latestTime)} />
+              </Table.Cell>
+              <Table.Cell textAlign="right">
+                <Button
+                  size="mini"
+                  icon="delete"
+                  title={_(".drafts.delete")}
+                  disabled={pending}
+                  onClick={() => onDelete(problem.problemId)}
+                />
+              </Table.Cell>
+            </Table.Row>
+          ))}
+        </Table.Body>
+      </Table>
+      <Popup
+        trigger={<Button negative content={_(".drafts.clear")} disabled={pending} />}
+        open={clearAllOpen}
+        onOpen={() => setClearAllOpen(true)}
+        onClose={() => !pending && setClearAllOpen(false)}
+        content={<Button negative loading={pending} content={_(".drafts.confirm_clear")} onClick={() => onDelete()} />}
+        on="click"
+        position="top center"
+      />
+    </>
+  );
+};
+
+CodeDraftManager = observer(CodeDraftManager);
+
+export default CodeDraftManager;
@@ -0,0 +1,214 @@
+import React, { useState } from "react";
+import { Button, Checkbox, Form, Menu, Table } from "semantic-ui-react";
+import { observer } from "mobx-react";
+
+import style from "./CodeTemplatesEditor.module.less";
+
+import { useLocalizer } from "@/utils/hooks";
+import toast from "@/utils/toast";
+import downloadFile from "@/utils/downloadFile";
+import openUploadDialog from "@/utils/openUploadDialog";
+import { CodeLanguage, getPreferredCodeLanguage } from "@/interfaces/CodeLanguage";
+import CodeEditor from "@/components/LazyCodeEditor";
+import {
+  CodeSnippet,
+  CodeTemplate,
+  CodeTemplates,
+  MAX_CODE_SNIPPET_COUNT,
+  MAX_CODE_TEMPLATE_COUNT,
+  MAX_CODE_TEMPLATE_LENGTH,
+  parseCodeTemplatesJson
+} from "@/utils/codeTemplates";
+
+interface CodeTemplatesEditorProps {
+  pending?: boolean;
+  value: CodeTemplates;
+  onChange: (value: CodeTemplates) => void;
+}
+
+let CodeTemplatesEditor: React.FC<CodeTemplatesEditorProps> = props => {
+  const _ = useLocalizer("user_edit.preference");
+
+  const templates = props.value.templates || [];
+  const snippets = props.value.snippets || [];
+
+  const [tab, setTab] = useState<"templates" | "snippets">("templates");
+  const [selectedIndex, setSelectedIndex] = useState(templates.length > 0 ? 0 : -1);
+  const items: (CodeTemplate | CodeSnippet)[] = tab === "templates" ? templates : snippets;
+  const selectedTemplate = tab === "templates" ? templates[selectedIndex] : null;
+  const selectedSnippet = tab === "snippets" ? snippets[selectedIndex] : null;
+
+  function onSwitchTab(newTab: typeof tab) {
+    setTab(newTab);
+    setSelectedIndex((newTab === "templates" ? templates : snippets).length > 0 ? 0 : -1);
+  }
+
+  function updateItem(changes: Record<string, string>) {
+    if (tab === "templates")
+      props.onChange({
+        ...props.value,
+        templates: templates.map((template, i) => (i === selectedIndex ? { ...template, ...changes } : template))
+      });
+    else
+      props.onChange({
+        ...props.value,
+        snippets: snippets.map((snippet, i) => (i === selectedIndex ? { ...snippet, ...changes } : snippet))
+      });
+  }
+
+  function onAdd() {
+    const language = getPreferredCodeLanguage();
+    if (tab === "templates")
+      props.onChange({
+        ...props.value,
+        templates: [...templates, { language, name: _(".code_templates.new_template"), code: "" }]
+      });
+    else
+      props.onChange({
+        ...props.value,
+        snippets: [...snippets, { language, prefix: "snippet", description: "", body: "" }]
+      });
+    setSelectedIndex(items.length);
+  }
+
+  function onDelete(index: number) {
+    if (tab === "templates") props.onChange({ ...props.value, templates: templates.filter((item, i) => i !== index) });
+    else props.onChange({ ...props.value, snippets: snippets.filter((item, i) => i !== index) });
+
+    if (index < selectedIndex) setSelectedIndex(selectedIndex - 1);
+    else if (index === selectedIndex) setSelectedIndex(Math.min(index, items.length - 2));
+  }
+
+  function onExport() {
+    const json = JSON.stringify({ autoInsert: props.value.autoInsert !== false, templates, snippets }, null, 2);
+    const url = URL.createObjectURL(new Blob([json], { type: "application/json" }));
+    downloadFile(url, "code-templates.json");
+    URL.revokeObjectURL(url);
+  }
+
+  function onImport() {
+    openUploadDialog(async files => {
+      const imported = parseCodeTemplatesJson(await files[0].text());
+      if (!imported) return toast.error(_(".code_templates.import_error"));
+
+      props.onChange(imported);
+      setSelectedIndex((tab === "templates" ? imported.templates : imported.snippets).length > 0 ? 0 : -1);
+      toast.success(
+        _(".code_templates.import_success", {
+          templates: String(imported.templates.length),
+          snippets: String(imported.snippets.length)
+        })
+      );
+    }, ".json");
+  }
+
+  const maxCount = tab === "templates" ? MAX_CODE_TEMPLATE_COUNT : MAX_CODE_SNIPPET_COUNT;
+
+  return (
+    <>
+      <Checkbox
+        className={style.autoInsert}
+        checked={props.value.autoInsert !== false}
+        label={_(".code_templates.auto_insert")}
+        onChange={(e, { checked }) => !props.pending && props.onChange({ ...props.value, autoInsert: checked })}
+      />
+      <Menu secondary pointing className={style.menu}>
+        <Menu.Item
+          active={tab === "templates"}
+          content={_(".code_templates.templates", { count: String(templates.length) })}
+          onClick={() => onSwitchTab("templates")}
+        />
+        <Menu.Item
+          active={tab === "snippets"}
+          content={_(".code_templates.snippets", { count: String(snippets.length) })}
+          onClick={() => onSwitchTab("snippets")}
+        />
+        <Menu.Menu position="right">
+          <Menu.Item icon="upload" content={_(".code_templates.import")} onClick={onImport} />
+          <Menu.Item icon="download" content={_(".code_templates.export")} onClick={onExport} />
+        </Menu.Menu>
+      </Menu>
+      {items.length > 0 && (
+        <div className={style.list}>
+          <Table selectable compact unstackable>
+            <Table.Body>
+              {items.map((item, i) => (
+                <Table.Row key={i} active={i === selectedIndex} onClick={() => setSelectedIndex(i)}>
+                  <Table.Cell>{_(`code_language.${item.language}.name`)}</Table.Cell>
+                  <Table.Cell>{"name" in item ? item.name : <code>{item.prefix}</code>}</Table.Cell>
+                  <Table.Cell>{"description" in item && item.description}</Table.Cell>
+                  <Table.Cell textAlign="right">
+                    <Button
+                      size="mini"
+                      icon="delete"
+                      disabled={props.pending}
+                      onClick={e => (e.stopPropagation(), onDelete(i))}
+                    />
+                  </Table.Cell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table>
+        </div>
+      )}
+      <Button
+        className={style.addButton}
+        icon="add"
+        disabled={props.pending || items.length >= maxCount}
+        content={_(tab === "templates" ? ".code_templates.add_template" : ".code_templates.add_snippet")}
+        onClick={onAdd}
+      />
+      {(selectedTemplate || selectedSnippet) && (
+        <Form className={style.form}>
+          <Form.Group widths="equal">
+            <Form.Select
+              label={_(".code_templates.language")}
+              value={(selectedTemplate || selectedSnippet).language}
+              options={Object.values(CodeLanguage).map(language => ({
+                key: language,
+                value: language,
+                text: _(`code_language.${language}.name`)
+              }))}
+              onChange={(e, { value }) => updateItem({ language: value as string })}
+            />
+            {selectedTemplate ? (
+              <Form.Input
+                label={_(".code_templates.name")}
+                value={selectedTemplate.name}
+                onChange={(e, { value }) => value.length <= 100 && updateItem({ name: value })}
+              />
+            ) : (
+              <>
+                <Form.Input
+                  label={_(".code_templates.prefix")}
+                  value={selectedSnippet.prefix}
+                  onChange={(e, { value }) => value.length <= 100 && updateItem({ prefix: value })}
+                />
+                <Form.Input
+                  label={_(".code_templates.description")}
+                  value={selectedSnippet.description}
+                  onChange={(e, { value }) => value.length <= 1000 && updateItem({ description: value })}
+                />
+              </>
+            )}
+          </Form.Group>
+          <CodeEditor
+            key={`${tab}-${selectedIndex}`}
+            className={style.editor}
+            language={(selectedTemplate || selectedSnippet).language}
+            value={selectedTemplate ? selectedTemplate.code : selectedSnippet.body}
+            onChange={value =>
+              value.length <= MAX_CODE_TEMPLATE_LENGTH &&
+              updateItem(selectedTemplate ? { code: value } : { body: value })
+            }
+          />
+          {selectedSnippet && <div className={style.notes}>{_(".code_templates.snippet_notes")}</div>}
+        </Form>
+      )}
+    </>
+  );
+};
+
+CodeTemplatesEditor = observer(CodeTemplatesEditor);
+
+export default CodeTemplatesEditor;
@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from "react";
-import { Form, Header, Checkbox, TextArea, Button, Select, Flag, Icon, Input } from "semantic-ui-react";
+import React, { useState, useEffect, useMemo } from "react";
+import { Form, Header, Checkbox, TextArea, Button, Select, Flag, Icon, Input, Segment } from "semantic-ui-react";
 import { observer } from "mobx-react";
 import { set as setMobX } from "mobx";
 
@@ -16,16 +16,22 @@ import { CodeLanguage, filterValidCompileAndRunOptions } from "@/interfaces/Code
 import { CodeBox, HighlightedCodeBox } from "@/components/CodeBox";
 import { RouteError } from "@/AppRouter";
 import CodeLanguageAndOptions from "@/components/CodeLanguageAndOptions";
+import CodeDraftManager from "./CodeDraftManager";
+import CodeTemplatesEditor from "./CodeTemplatesEditor";
+import { CodeTemplates } from "@/utils/codeTemplates";
+import type { EditorKeybinding } from "@/components/CodeEditor";
 import { availableCodeFonts, availableContentFonts } from "@/misc/fonts";
 import { makeToBeLocalizedText } from "@/locales";
 import { themeList } from "@/themes";
+import { NotificationKind, notificationKinds } from "@/pages/notification/utils";
 
 export async function fetchData(username: string) {
   const { requestError, response } = await api.user.getUserPreference({ username });
   if (requestError) throw new RouteError(requestError, { showRefresh: true, showBack: true });
   else if (response.error) throw new RouteError(makeToBeLocalizedText(`user_edit.errors.${response.error}`));
 
-  await CodeFormatter.ready;
+  // The formatter selected by default in the preview
+  await CodeFormatter.load(CodeLanguage.Cpp);
 
   return response;
 }
@@ -70,10 +76,30 @@ const PreferenceView: React.FC<PreferenceViewProps> = props => {
   const [markdownEditorFont, setMarkdownEditorFont] = useState(
     (props.preference.font?.markdownEditorFont || "content") as "content" | "code"
   );
-  const [codeFormatterOptions, setCodeFormatterOptions] = useState(props.preference.codeFormatter?.options || "");
+  const [editorKeybinding, setEditorKeybinding] = useState<EditorKeybinding>(
+    props.preference.code?.editorKeybinding || "Default"
+  );
+  const [codeTemplates, setCodeTemplates] = useState<CodeTemplates>(
+    props.preference.codeTemplates || { autoInsert: true, templates: [], snippets: [] }
+  );
+  const [codeFormatterOptions, setCodeFormatterOptions] = useState<Record<CodeFormatter.CodeFormatterName, string>>(
+    () =>
+      Object.fromEntries(
+        (Object.keys(CodeFormatter.formatters) as CodeFormatter.CodeFormatterName[]).map(name => [
+          name,
+          (name === "astyle"
+            ? props.preference.codeFormatter?.options
+            : props.preference.codeFormatter?.formatterOptions?.[name]) || ""
+        ])
+      ) as Record<CodeFormatter.CodeFormatterName, string>
+  );
+  const [selectedCodeFormatter, setSelectedCodeFormatter] = useState<CodeFormatter.CodeFormatterName>("astyle");
   const [doNotFormatCodeByDefault, setDoNotFormatCodeByDefault] = useState(
     !!props.preference.codeFormatter?.disableByDefault
   );
+  const [disabledNotificationKinds, setDisabledNotificationKinds] = useState<NotificationKind[]>(
+    props.preference.notification?.disabledKinds || []
+  );
 
   // Validate the code language and options value to prevent garbage data on server
   const [defaultCodeLanguage, setDefaultCodeLanguage] = useState(
@@ -111,13 +137,23 @@ const PreferenceView: React.FC<PreferenceViewProps> = props => {
         markdownEditorFont
       },
       codeFormatter: {
-        options: codeFormatterOptions,
+        options: codeFormatterOptions.astyle,
+        formatterOptions: Object.fromEntries(
+          Object.entries(codeFormatterOptions).filter(([name, options]) => name !== "astyle" && options)
+        ),
         disableByDefault: doNotFormatCodeByDefault
       },
       code: {
         defaultLanguage: defaultCodeLanguage,
-        defaultCompileAndRunOptions: defaultCompileAndRunOptions
-      }
+        defaultCompileAndRunOptions: defaultCompileAndRunOptions,
+        editorKeybinding
+      },
+      codeTemplates,
+      notification: {
+        disabledKinds: disabledNotificationKinds
+      },
+      // Not editable here, changed in the submission page
+      outputDiff: props.preference.outputDiff
     };
 
     const { requestError, response } = await api.user.updateUserPreference({
@@ -157,10 +193,56 @@ return 1234567890;`;
   const formatPreviewCode =
     "#include<world.h>\n\nint main() {\n// ~ Switch on the power line / Remember to put on PROTECTION ~\nworld.start();\n\n// ~ Lay down your pieces / And let's begin OBJECT CREATION ~\n// ~ Fill in my data / Parameters INITIALIZATION ~\nauto*me = World::createObject(\"me\",world,parameters...);\nauto &you = *World::createObject(\"you\",world,parameters...);\n\n// ~ Set up our new world ~\nauto& world = World{me,you};\n\n// ~ And let's begin the SIMULATION ~\nworld.beginSimulation();\n\n      switch(me->type) {\n        case Object::SET_OF_POINTS:\n          // ~ If I'm a set of points / Then I will give you my DIMENSION ~\n        you << dynamic_cast<Set<Point>*>(me)->getDimension(); break;\n    case Object::CIRCLE:\n  // ~ If I'm a circle / Then I will give you my CIRCUMFERENCE ~\n  you << dynamic_cast<Circle* >(me)->getCircumference();\n  break;\n    case Object::SINE_WAVE:\n      // ~ If I'm a sine wave / Then you can sit on all my TANGENTS ~\n          for (auto&tangent:dynamic_cast<SineWave*>(me)->getTangents())\n        you.sitOn(tangent);\n      break;\n    default:\n  // ~ If I approach infinity / Then you can be my LIMITATIONS ~\n    you.limit()>>me->limit();\n}\n\n    // ~ Switch my current / To AC to DC ~\n    me->setCurrent(CurrentType::AC),me->setCurrent(CurrentType::DC);\n\n    // ~ And then blind my vision / So dizzy, so dizzy ~\n    delete me->vision;\n\n// ~ Oh, we can travel / From A.D to B.C ~\nworld.setTime(CommonEra::AD,2016y+6m+16d);\nworld.setTime(CommonEra::BC,-2016y+6m+16d);\n\n    // ~ And we can unite / So deeply, so deeply ~\n    world.unite(you, *me);\n\n    // ~ If I can, if I can, give you all THE SIMULATIONS ~\n    if (std::all_of(world.simulations.begin(), world.simulations.end(), [&] (auto &simulation) {\nreturn you << me->run(simulation);\n}))\n        // ~ Then I can, then I can, be your only SATISFACTION ~\n        you.satisfactions = std::vector{me};\n\n    // ~ If I can make you happy / Then I'll run the EXECUTION ~\n    try\n    {\n      me->execute(you.nextCommand());\n    } catch (const NotHappyException &e) {}\n\n    // ~ Though we are trapped in this strange, strange SIMULATION ~\n    world.trap(me);\n\n    // ~ EXECUTION / EXECUTION / EXECUTION / EXECUTION ~\n    // ~ EXECUTION / EXECUTION / EXECUTION / EXECUTION ~\n    // ~ EXECUTION / EXECUTION / EXECUTION / EXECUTION ~\n    for (size_t i = 0; i < 3; i++){\n      for (size_t j = 0; j < 4; j++) world.continueExecution();\n    }\n\n    // ~ EIN / DOS / TROIS / NE / FEM / LIU / EXECUTION ~\n    for (size_t i = 1; i <= 6; i++)\n        sleepms(500);\n    world.continueExecution();\n\n    // ~ If I can, if I can, give you all the EXECUTION ~\n    if (std::all_of(world.begin(), world.end(), [&] (auto &object) {\n      return me->execute(object);\n }))\n        // ~ Then I can, then I can, be your only EXECUTION ~\n        me->execute(you.nextCommand());\n\n    // ~ If I can, have you back ~\n    if (*me << you)\n        // ~ Then I will run the EXECUTION ~\n        me->execute(you.nextCommand());\n    \n// ~ Though we are trapped / We are trapped ah ~\nworld.trap(me);\n\n// ~ I've studied / I've studied how to properly / LO-O-OVE ~\nme->study(Knowledge::Love);\n// ~ Question me / Question me / I can answer all / LO-O-OVE ~\nyou.question(me, Knowledge::Love);\n// ~ I know the algebraic expression of / LO-O-OVE ~\nme->answer(you, Knowledge::Love);\n// ~ Though you are free / I am trapped, trapped in / LO-O-OVE ~\nworld.trap(me);\n\n// ~ EXECUTION ~\nworld.execute(me);\n}\n";
 
-  const [formatPreviewSuccess, formattedPreviewCode] = CodeFormatter.format(
-    formatPreviewCode,
-    CodeLanguage.Cpp,
-    codeFormatterOptions || CodeFormatter.defaultOptions
+  const formatPreviewCodes: Record<CodeFormatter.CodeFormatterName, [CodeLanguage, string]> = {
+    astyle: [CodeLanguage.Cpp, formatPreviewCode],
+    ruff: [
+      CodeLanguage.Python,
+      "import sys\nfrom world import World,Object\n\ndef simulate( world:World,me,you ) :\n  world.start()\n  if me.type==Object.CIRCLE: you.append(me.get_circumference())\n  elif me.type == Object.SINE_WAVE :\n      for tangent in me.get_tangents( ): you.sit_on(tangent)\n  return all([you << me.run(simulation) for simulation in world.simulations ])\n\nif __name__=='__main__':\n    simulate(World( ),*sys.argv[1:3])\n"
+    ],
+    rustfmt: [
+      CodeLanguage.Rust,
+      'use std::io::{self,Read};\n\nfn main(){\nlet mut input=String::new();io::stdin().read_to_string(&mut input).unwrap();\n    let numbers:Vec<i64>=input.split_whitespace().map(|x|x.parse().unwrap()).collect();\n  match numbers.iter().max() {\n      Some(max)=>println!("{}",max),\n    None=>{}\n  }\n}\n'
+    ],
+    gofmt: [
+      CodeLanguage.Go,
+      'package main\nimport "fmt"\n\nfunc main(){\n  var n int\n    fmt.Scan(&n)\n  sum:=0\nfor i:=1;i<=n;i++{\n    sum+=i\n  }\n      fmt.Println(sum)\n}\n'
+    ],
+    ptop: [
+      CodeLanguage.Pascal,
+      "program Sum;\nvar n,i,sum:longint;\nBEGIN\nreadln(n);\nsum:=0;\nfor i:=1 to n do\nBEGIN\nif i mod 2=0 then\nsum:=sum+i\nelse\nsum:=sum-i;\nEND;\nwriteln(sum);\nEND.\n"
+    ]
+  };
+
+  // The formatters are loaded when selected
+  const [loadedCodeFormatterCount, setLoadedCodeFormatterCount] = useState(0);
+  useEffect(() => {
+    const [language] = formatPreviewCodes[selectedCodeFormatter];
+    if (!CodeFormatter.isLoaded(language))
+      CodeFormatter.load(language).then(() => setLoadedCodeFormatterCount(count => count + 1));
+  }, [selectedCodeFormatter]);
+
+  // The options of each loaded formatter are validated by formatting its preview code
+  const formatPreviewResults = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.entries(formatPreviewCodes).map(([name, [language, code]]) => [
+          name,
+          CodeFormatter.isLoaded(language)
+            ? CodeFormatter.format(
+                code,
+                language,
+                codeFormatterOptions[name] || CodeFormatter.formatters[name].defaultOptions
+              )
+            : null
+        ])
+      ) as Record<CodeFormatter.CodeFormatterName, [boolean, string]>,
+    [codeFormatterOptions, loadedCodeFormatterCount]
+  );
+  const [formatPreviewSuccess, formattedPreviewCode] = formatPreviewResults[selectedCodeFormatter] || [true, null];
+  // A formatter that failed to load can't validate its options, which shouldn't block saving
+  const allCodeFormatterOptionsValid = Object.entries(formatPreviewResults).every(
+    ([name, result]) =>
+      !result || result[0] || CodeFormatter.isLoadFailed(formatPreviewCodes[name as CodeFormatter.CodeFormatterName][0])
   );
 
   return (
@@ -392,6 +474,18 @@ return 1234567890;`;
             onChange={() => setMarkdownEditorFont("code")}
           />
         </Form.Group>
+        <Form.Group inline>
+          <label className={style.formLabel}>{_(".appearance.editor_keybinding.editor_keybinding")}</label>
+          {(["Default", "Vim", "Emacs"] as const).map(keybinding => (
+            <Form.Radio
+              key={keybinding}
+              label={_(`.appearance.editor_keybinding.${keybinding}`)}
+              value={keybinding}
+              checked={editorKeybinding === keybinding}
+              onChange={() => (setModified(true), setEditorKeybinding(keybinding))}
+            />
+          ))}
+        </Form.Group>
       </Form>
       <Header className={style.sectionHeader} size="large" content={_(".code_language.header")} />
       <Form className={style.notFullWidth + " " + style.headerMargin}>
@@ -405,23 +499,53 @@ return 1234567890;`;
         />
       </Form>
       <div className={style.notes}>{_(".code_language.content_notes")}</div>
+      <Header className={style.sectionHeader} size="large" content={_(".code_templates.header")} />
+      <div className={style.notes}>{_(".code_templates.notes")}</div>
+      <CodeTemplatesEditor
+        pending={pending}
+        value={codeTemplates}
+        onChange={value => (setModified(true), setCodeTemplates(value))}
+      />
       <Header className={style.sectionHeader} size="large" content={_(".code_formatter.header")} />
-      <Header className={style.header} size="tiny" content={_(".code_formatter.astyle_options")} />
+      <Header className={style.header} size="tiny" content={_(".code_formatter.formatter")} />
+      <Select
+        className={style.notFullWidth}
+        fluid
+        value={selectedCodeFormatter}
+        onChange={(e, { value }) => setSelectedCodeFormatter(value as CodeFormatter.CodeFormatterName)}
+        options={Object.entries(CodeFormatter.formatters).map(([name, formatter]) => ({
+          key: name,
+          value: name,
+          text: (
+            <>
+              {_(`.code_formatter.formatters.${name}`)}
+              <div className={style.notes + " " + style.selectOptionNotes}>
+                {formatter.languages.map(language => _(`code_language.${language}.name`)).join(", ")}
+              </div>
+            </>
+          )
+        }))}
+      />
+      <Header className={style.header} size="tiny" content={_(".code_formatter.options")} />
       <Form>
         <TextArea
           className={style.textarea + " monospace"}
           rows="5"
-          placeholder={CodeFormatter.defaultOptions}
-          value={codeFormatterOptions}
+          placeholder={CodeFormatter.formatters[selectedCodeFormatter].defaultOptions}
+          value={codeFormatterOptions[selectedCodeFormatter]}
           onChange={(e, { value }: { value: string }) =>
-            value.length < 1024 && !pending && (setModified(true), setCodeFormatterOptions(value))
+            value.length < 1024 &&
+            !pending &&
+            (setModified(true), setCodeFormatterOptions({ ...codeFormatterOptions, [selectedCodeFormatter]: value }))
           }
         />
       </Form>
       <div className={style.notes}>
         {_(".code_formatter.notes_before")}
-        <a href="http://astyle.sourceforge.net/astyle.html" target="_blank" rel="noreferrer noopener">
-          &nbsp;{_(".code_formatter.notes_link")}&nbsp;
+        <a href={CodeFormatter.formatters[selectedCodeFormatter].documentUrl} target="_blank" rel="noreferrer noopener">
+          &nbsp;
+          {_(".code_formatter.notes_link", { formatter: _(`.code_formatter.formatters.${selectedCodeFormatter}`) })}
+          &nbsp;
         </a>
         {_(".code_formatter.notes_after")}
       </div>
@@ -436,18 +560,47 @@ return 1234567890;`;
         size="tiny"
         content={_(formatPreviewSuccess ? ".code_formatter.preview" : ".code_formatter.error")}
       />
-      <HighlightedCodeBox
-        segmentClassName={style.formatPreviewCodeBoxSegment + " " + style.scrollableCodeBoxSegment}
-        segment={{
-          color: formatPreviewSuccess ? "green" : "red"
-        }}
-        language={formatPreviewSuccess ? "cpp" : null}
-        code={formattedPreviewCode}
-      />
+      {formattedPreviewCode == null ? (
+        <Segment className={style.formatPreviewCodeBoxSegment} loading />
+      ) : (
+        <HighlightedCodeBox
+          segmentClassName={style.formatPreviewCodeBoxSegment + " " + style.scrollableCodeBoxSegment}
+          segment={{
+            color: formatPreviewSuccess ? "green" : "red"
+          }}
+          language={formatPreviewSuccess ? formatPreviewCodes[selectedCodeFormatter][0] : null}
+          code={formattedPreviewCode}
+        />
+      )}
+      <Header className={style.sectionHeader} size="large" content={_(".notification.header")} />
+      <div className={style.notes}>{_(".notification.notes")}</div>
+      {notificationKinds.map(kind => (
+        <div key={kind}>
+          <Checkbox
+            className={style.checkbox}
+            checked={!disabledNotificationKinds.includes(kind)}
+            label={_(`.notification.kinds.${kind}`)}
+            onChange={(e, { checked }) =>
+              !pending &&
+              (setModified(true),
+              setDisabledNotificationKinds(
+                checked ? disabledNotificationKinds.filter(k => k !== kind) : [...disabledNotificationKinds, kind]
+              ))
+            }
+          />
+        </div>
+      ))}
+      {appState.currentUser?.id === props.meta.id && (
+        <>
+          <Header className={style.sectionHeader} size="large" content={_(".drafts.header")} />
+          <div className={style.notes}>{_(".drafts.notes")}</div>
+          <CodeDraftManager />
+        </>
+      )}
       <Button
         className={style.submit}
         loading={pending}
-        disabled={!formatPreviewSuccess}
+        disabled={!allCodeFormatterOptionsValid}
         primary
         content={_(".submit")}
         onClick={onSubmit}
@@ -9,6 +9,7 @@ import { appState } from "@/appState";
 import api from "@/api";
 import { useLocalizer, useScreenWidthWithin, Link } from "@/utils/hooks";
 import fixChineseSpace from "@/utils/fixChineseSpace";
+import getTimeZone from "@/utils/getTimeZone";
 import UserAvatar from "@/components/UserAvatar";
 import { defineRoute, RouteError } from "@/AppRouter";
 import { isValidUsername } from "@/utils/validators";
@@ -16,14 +17,6 @@ import { makeToBeLocalizedText } from "@/locales";
 import { EmojiRenderer } from "@/components/EmojiRenderer";
 import MarkdownContent from "@/markdown/MarkdownContent";
 
-function getTimeZone() {
-  try {
-    return Intl.DateTimeFormat().resolvedOptions().timeZone || "";
-  } catch {
-    return "";
-  }
-}
-
 async function fetchData(query: { userId?: number; username?: string }): Promise<[Date, Required<typeof response>]> {
   const now = new Date();
   const { requestError, response } = await api.user.getUserDetail({
@@ -1,62 +1,142 @@
-import * as wastyle from "wastyle";
-import astyleBinaryUrl from "wastyle/dist/astyle.wasm?url";
-
 import { CodeLanguage } from "@/interfaces/CodeLanguage";
 
-let failedMessage: string = null;
-export const ready = (async () => {
-  try {
-    await wastyle.init(astyleBinaryUrl);
-  } catch (e) {
-    console.error(`Failed to load code formatter:`, e);
-    failedMessage = e.toString();
+interface CodeFormatterBackend {
+  init(): Promise<void>;
+  format(code: string, language: CodeLanguage, options: string): string;
+}
+
+interface CodeFormatterMeta {
+  languages: CodeLanguage[];
+  defaultOptions: string;
+  // The documentation of the options
+  documentUrl: string;
+  load: () => Promise<CodeFormatterBackend>;
+}
+
+// Each backend is loaded only when a code of its languages is formatted
+export const formatters = {
+  astyle: {
+    languages: [CodeLanguage.Cpp, CodeLanguage.C, CodeLanguage.Cuda, CodeLanguage.Java, CodeLanguage.CSharp],
+    defaultOptions: [
+      "style=java",
+      "attach-namespaces",
+      "attach-classes",
+      "attach-inlines",
+      "attach-extern-c",
+      "attach-closing-while",
+      "indent-col1-comments",
+      "break-blocks",
+      "pad-oper",
+      "pad-comma",
+      "pad-header",
+      "unpad-paren",
+      "align-pointer=name",
+      "break-one-line-headers",
+      "attach-return-type",
+      "attach-return-type-decl",
+      "convert-tabs",
+      "close-templates",
+      "max-code-length=110",
+      "break-after-logical"
+    ].join(" "),
+    documentUrl: "http://astyle.sourceforge.net/astyle.html",
+    load: () => import("./formatters/astyle")
+  },
+  ruff: {
+    languages: [CodeLanguage.Python],
+    defaultOptions: "line-width=88 indent-width=4 quote-style=double",
+    documentUrl: "https://docs.astral.sh/ruff/settings/#format",
+    load: () => import("./formatters/ruff")
+  },
+  rustfmt: {
+    languages: [CodeLanguage.Rust],
+    defaultOptions: "print-width=100 tab-width=4",
+    documentUrl: "https://github.com/jinxdash/prettier-plugin-rust#configuration",
+    load: () => import("./formatters/rust")
+  },
+  gofmt: {
+    languages: [CodeLanguage.Go],
+    defaultOptions: "",
+    documentUrl: "https://pkg.go.dev/cmd/gofmt",
+    load: () => import("./formatters/gofmt")
+  },
+  ptop: {
+    languages: [CodeLanguage.Pascal],
+    defaultOptions: "indent-width=2 keyword-case=lower",
+    documentUrl: "https://wiki.freepascal.org/PTop",
+    load: () => import("./formatters/pascal")
   }
-})();
-
-export const defaultOptions = [
-  "style=java",
-  "attach-namespaces",
-  "attach-classes",
-  "attach-inlines",
-  "attach-extern-c",
-  "attach-closing-while",
-  "indent-col1-comments",
-  "break-blocks",
-  "pad-oper",
-  "pad-comma",
-  "pad-header",
-  "unpad-paren",
-  "align-pointer=name",
-  "break-one-line-headers",
-  "attach-return-type",
-  "attach-return-type-decl",
-  "convert-tabs",
-  "close-templates",
-  "max-code-length=110",
-  "break-after-logical"
-].join(" ");
-
-const languageToModeMap = {
-  [CodeLanguage.Cpp]: "c",
-  [CodeLanguage.C]: "c",
-  [CodeLanguage.Cuda]: "c",
-  [CodeLanguage.Java]: "java",
-  [CodeLanguage.CSharp]: "cs"
 };
 
-export function isLanguageSupported(language: CodeLanguage) {
-  return !!languageToModeMap[language];
+export type CodeFormatterName = keyof typeof formatters;
+
+const loadedBackends: Partial<Record<CodeFormatterName, CodeFormatterBackend>> = {};
+const failedMessages: Partial<Record<CodeFormatterName, string>> = {};
+const loadingPromises: Partial<Record<CodeFormatterName, Promise<void>>> = {};
+
+export function getFormatterOfLanguage(language: CodeLanguage | string): CodeFormatterName {
+  return (Object.keys(formatters) as CodeFormatterName[]).find(name =>
+    (formatters[name] as CodeFormatterMeta).languages.includes(language as CodeLanguage)
+  );
 }
 
-export function format(code: string, language: CodeLanguage, options: string = defaultOptions): [boolean, string] {
-  if (failedMessage) return [false, failedMessage];
+export function isLanguageSupported(language: CodeLanguage | string) {
+  return !!getFormatterOfLanguage(language);
+}
 
-  if (!languageToModeMap[language]) return [false, "Unsupported language"];
+export function isLoaded(language: CodeLanguage | string) {
+  const name = getFormatterOfLanguage(language);
+  return !!(name && (loadedBackends[name] || failedMessages[name]));
+}
 
-  let [error, result] = wastyle.format(code, `${options.trim()} mode=${languageToModeMap[language]}`);
+export function isLoadFailed(language: CodeLanguage | string) {
+  const name = getFormatterOfLanguage(language);
+  return !!(name && failedMessages[name]);
+}
+
+/**
+ * Load the formatter of the language. Loading failures are reported when formatting, so this never throws.
+ */
+export function load(language: CodeLanguage | string) {
+  const name = getFormatterOfLanguage(language);
+  if (!name) return Promise.resolve();
+
+  return (loadingPromises[name] ??= (async () => {
+    try {
+      const backend = await formatters[name].load();
+      await backend.init();
+      loadedBackends[name] = backend;
+    } catch (e) {
+      console.error(`Failed to load code formatter ${name}:`, e);
+      failedMessages[name] = e.toString();
+    }
+  })());
+}
+
+/**
+ * Get the formatter options of the language in the user preference, or the default options if not set.
+ * The astyle options are stored in `options` for compatibility.
+ */
+export function getOptions(language: CodeLanguage | string, preference: ApiTypes.UserPreferenceCodeFormatterDto) {
+  const name = getFormatterOfLanguage(language);
+  if (!name) return "";
 
-  // The space in "#include <file>"
-  result = result.replace(/^#(include|import)[\t ]*(<|")/gm, (match, p1, p2) => `#${p1} ${p2}`);
+  const options = name === "astyle" ? preference?.options : preference?.formatterOptions?.[name];
+  return options || formatters[name].defaultOptions;
+}
+
+/**
+ * Format the code with the loaded formatter of the language. Returns `[false, errorMessage]` on failure.
+ */
+export function format(code: string, language: CodeLanguage, options?: string): [boolean, string] {
+  const name = getFormatterOfLanguage(language);
+  if (!name) return [false, "Unsupported language"];
+  if (failedMessages[name]) return [false, failedMessages[name]];
+  if (!loadedBackends[name]) return [false, "Code formatter not loaded"];
 
-  return [error, result];
+  try {
+    return [true, loadedBackends[name].format(code, language, options ?? formatters[name].defaultOptions)];
+  } catch (e) {
+    return [false, e instanceof Error ? e.message : String(e)];
+  }
 }
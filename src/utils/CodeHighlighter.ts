@@ -94,3 +94,29 @@ export async function highlight(code: string, language: string, callback: (resul
   if (loadLanguagePromise) await loadLanguagePromise;
   callback(highlightSync(code, language));
 }
+
+/**
+ * Highlight each line of the code separately, for line-based views like diffs. The HTML of lines are not wrapped.
+ * Tokens across lines (e.g. block comments) may be highlighted incorrectly.
+ */
+export async function highlightLines(code: string, language: string) {
+  if (codeLanguageShownOptions[language as any]?.highlightAs) {
+    language = codeLanguageShownOptions[language as any].highlightAs;
+  }
+  const loadLanguagePromise = loadLanguages([language]);
+  if (loadLanguagePromise) await loadLanguagePromise;
+
+  const resolvedLanguage = languageAlias[normalizeLanguageName(language)];
+  return normalizeCode(code)
+    .split("\n")
+    .map(line => {
+      if (resolvedLanguage) {
+        try {
+          return Prism.highlight(line, Prism.languages[resolvedLanguage], resolvedLanguage);
+        } catch (e) {
+          console.error(`Failed to highlight, language = ${language}`, e);
+        }
+      }
+      return escapeHtml(line);
+    });
+}
@@ -0,0 +1,78 @@
+import { CodeLanguage } from "@/interfaces/CodeLanguage";
+import { createWorker } from "@/utils/createWorker";
+import LocalRunnerWorker from "./localRunner.worker?worker";
+import type { LocalRunResult } from "./localRunner.worker";
+
+// The code runs much slower in WASM than on the judge, so the time limit of the problem is not used
+export const LOCAL_RUN_TIME_LIMIT = 10000;
+
+export type LocalRunStatus = "Accepted" | "WrongAnswer" | "RuntimeError" | "TimeLimitExceeded";
+
+export interface LocalRunOutput extends Partial<LocalRunResult> {
+  // null if finished normally without expected output to compare with
+  status: LocalRunStatus;
+}
+
+// The worker with the runtime loaded is kept between runs, unless terminated due to time limit exceeded
+let workerPromise: Promise<createWorker<typeof import("./localRunner.worker")>>;
+
+function getWorker() {
+  if (!workerPromise) {
+    const worker = createWorker<typeof import("./localRunner.worker")>(LocalRunnerWorker);
+    workerPromise = worker
+      .load(`${window.cdnjs}/pyodide/${EXTERNAL_PACKAGE_VERSION["pyodide"]}/`)
+      .then(() => worker)
+      .catch(e => {
+        worker.terminate();
+        workerPromise = null;
+        throw e;
+      });
+  }
+
+  return workerPromise;
+}
+
+export function isLanguageSupported(language: CodeLanguage | string, compileAndRunOptions: unknown) {
+  // Pyodide provides Python 3 only
+  return language === CodeLanguage.Python && (compileAndRunOptions as { version?: string })?.version !== "2.7";
+}
+
+// Trailing whitespaces of each line and trailing empty lines are ignored, like most checkers
+function normalizeOutput(output: string) {
+  return output
+    .replace(/\r\n/g, "\n")
+    .split("\n")
+    .map(line => line.trimEnd())
+    .join("\n")
+    .trimEnd();
+}
+
+/**
+ * Run the code with the input in a worker. The runtime is loaded on the first run.
+ * The output is compared with the expected output if specified.
+ */
+export async function run(code: string, input: string, expectedOutput?: string): Promise<LocalRunOutput> {
+  const worker = await getWorker();
+
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<null>(resolve => (timer = setTimeout(() => resolve(null), LOCAL_RUN_TIME_LIMIT)));
+  const running = worker.runPython(code, input);
+  // Rejected when terminated below
+  running.catch(() => {});
+  const result = await Promise.race([running, timeout]);
+  clearTimeout(timer);
+
+  if (!result) {
+    // The only way to stop the running code
+    worker.terminate();
+    workerPromise = null;
+    return { status: "TimeLimitExceeded", time: LOCAL_RUN_TIME_LIMIT };
+  }
+
+  let status: LocalRunStatus = null;
+  if (result.exitCode !== 0) status = "RuntimeError";
+  else if (expectedOutput != null)
+    status = normalizeOutput(result.stdout) === normalizeOutput(expectedOutput) ? "Accepted" : "WrongAnswer";
+
+  return { ...result, status };
+}
@@ -0,0 +1,43 @@
+import { CodeLanguage } from "@/interfaces/CodeLanguage";
+import { createWorker } from "@/utils/createWorker";
+import SyntaxCheckerWorker from "./syntaxChecker.worker?worker";
+import type { SyntaxDiagnostic } from "./syntaxChecker.worker";
+
+export type { SyntaxDiagnostic };
+
+interface CompileOptions {
+  std?: string;
+}
+
+// Both GCC and Clang submissions are checked with Clang, which accepts most GCC extensions
+// The target is wasm32, where `long` is 32-bit like -m32
+const languageToClangArgs: Partial<
+  Record<CodeLanguage, (options: CompileOptions) => ["clang" | "clang++", string[], string]>
+> = {
+  [CodeLanguage.Cpp]: options => ["clang++", [`-std=${options.std || "c++11"}`, "-fexceptions"], "main.cpp"],
+  [CodeLanguage.C]: options => ["clang", [`-std=${options.std || "c11"}`], "main.c"]
+};
+
+// The worker is kept after the first check to avoid loading the toolchain again
+let worker: createWorker<typeof import("./syntaxChecker.worker")>;
+
+export function isLanguageSupported(language: CodeLanguage | string) {
+  return !!languageToClangArgs[language];
+}
+
+/**
+ * Check the syntax of the code in a worker with the WASM Clang toolchain, which is loaded on the first call.
+ * The extra files (e.g. the grader's header) are put beside the code. Diagnostics of errors and warnings are returned.
+ */
+export async function check(
+  code: string,
+  language: CodeLanguage | string,
+  compileAndRunOptions: unknown,
+  extraFiles: Record<string, string> = {}
+) {
+  if (!isLanguageSupported(language)) throw new Error("Unsupported language");
+
+  const [compiler, args, filename] = languageToClangArgs[language]((compileAndRunOptions || {}) as CompileOptions);
+  worker ??= createWorker<typeof import("./syntaxChecker.worker")>(SyntaxCheckerWorker);
+  return await worker.checkSyntax(compiler, args, filename, code, extraFiles);
+}
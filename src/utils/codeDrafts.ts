@@ -0,0 +1,134 @@
+import { appState } from "@/appState";
+
+// Code drafts of the submit view are stored in the browser's IndexedDB, which survives tab crashes
+const DATABASE_NAME = "code-drafts";
+const DATABASE_VERSION = 2;
+const STORE_NAME = "drafts";
+
+// Saves within this interval after the latest snapshot update it instead of creating a new one
+const SNAPSHOT_INTERVAL = 5 * 60 * 1000;
+
+// The number of snapshots kept for each problem and language
+export const MAX_SNAPSHOTS = 10;
+
+export interface CodeDraft {
+  id?: number;
+  // The browser may be shared by multiple users, each of them only sees its own drafts
+  userId: number;
+  problemId: number;
+  // The display name of the problem when saved, shown in the draft manager
+  problemName: string;
+  language: string;
+  code: string;
+  compileAndRunOptions: unknown;
+  // Timestamp in milliseconds
+  time: number;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let databasePromise: Promise<IDBDatabase>;
+
+function openDatabase() {
+  if (!databasePromise) {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      // The drafts saved by version 1 have no owners, so they're dropped
+      if (request.result.objectStoreNames.contains(STORE_NAME)) request.result.deleteObjectStore(STORE_NAME);
+
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: "id", autoIncrement: true });
+      store.createIndex("userId", "userId");
+      store.createIndex("userIdAndProblemId", ["userId", "problemId"]);
+      store.createIndex("userIdAndProblemIdAndLanguage", ["userId", "problemId", "language"]);
+    };
+    databasePromise = promisifyRequest(request);
+
+    // Retry next time if failed to open (e.g. in private mode of some browsers)
+    databasePromise.catch(() => (databasePromise = null));
+  }
+
+  return databasePromise;
+}
+
+async function getStore(mode: IDBTransactionMode) {
+  return (await openDatabase()).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+}
+
+// Drafts are only enabled for logged-in users
+const getCurrentUserId = () => appState.currentUser?.id ?? 0;
+
+const sortByTimeDescending = (drafts: CodeDraft[]) => drafts.sort((a, b) => b.time - a.time);
+
+/**
+ * Get the snapshots of the current user's drafts of a problem in all languages, the latest first.
+ */
+export async function getCodeDrafts(problemId: number) {
+  const store = await getStore("readonly");
+  return sortByTimeDescending(
+    await promisifyRequest<CodeDraft[]>(
+      store.index("userIdAndProblemId").getAll(IDBKeyRange.only([getCurrentUserId(), problemId]))
+    )
+  );
+}
+
+export async function getAllCodeDrafts() {
+  const store = await getStore("readonly");
+  return sortByTimeDescending(await promisifyRequest<CodeDraft[]>(store.index("userId").getAll(getCurrentUserId())));
+}
+
+/**
+ * Save a draft as a snapshot of its problem and language. Old snapshots exceeding MAX_SNAPSHOTS are removed.
+ * A new snapshot is always created if newSnapshot is true, e.g. when restoring an old snapshot.
+ */
+export async function saveCodeDraft(draft: Omit<CodeDraft, "id" | "userId" | "time">, newSnapshot = false) {
+  const userId = getCurrentUserId();
+  const store = await getStore("readwrite");
+  const snapshots = sortByTimeDescending(
+    await promisifyRequest<CodeDraft[]>(
+      store.index("userIdAndProblemIdAndLanguage").getAll(IDBKeyRange.only([userId, draft.problemId, draft.language]))
+    )
+  );
+
+  const latest = snapshots[0];
+  if (
+    latest &&
+    latest.code === draft.code &&
+    JSON.stringify(latest.compileAndRunOptions) === JSON.stringify(draft.compileAndRunOptions)
+  )
+    return;
+
+  const record: CodeDraft = {
+    userId,
+    problemId: draft.problemId,
+    problemName: draft.problemName,
+    language: draft.language,
+    code: draft.code,
+    compileAndRunOptions: draft.compileAndRunOptions,
+    time: Date.now()
+  };
+  if (latest && !newSnapshot && record.time - latest.time < SNAPSHOT_INTERVAL) {
+    await promisifyRequest(store.put({ ...record, id: latest.id }));
+  } else {
+    await promisifyRequest(store.add(record));
+    for (const snapshot of snapshots.slice(MAX_SNAPSHOTS - 1)) await promisifyRequest(store.delete(snapshot.id));
+  }
+}
+
+/**
+ * Delete the current user's drafts of a problem, or of all problems if problemId is not specified.
+ */
+export async function deleteCodeDrafts(problemId?: number) {
+  const userId = getCurrentUserId();
+  const store = await getStore("readwrite");
+  const keys = await promisifyRequest(
+    problemId == null
+      ? store.index("userId").getAllKeys(userId)
+      : store.index("userIdAndProblemId").getAllKeys(IDBKeyRange.only([userId, problemId]))
+  );
+  for (const key of keys) await promisifyRequest(store.delete(key));
+}
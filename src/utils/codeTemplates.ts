@@ -0,0 +1,71 @@
+import { appState } from "@/appState";
+import { CodeLanguage } from "@/interfaces/CodeLanguage";
+
+export type CodeTemplate = ApiTypes.UserPreferenceCodeTemplateDto;
+export type CodeSnippet = ApiTypes.UserPreferenceCodeSnippetDto;
+export type CodeTemplates = ApiTypes.UserPreferenceCodeTemplatesDto;
+
+// Limit the size of preference saved on server
+export const MAX_CODE_TEMPLATE_COUNT = 50;
+export const MAX_CODE_SNIPPET_COUNT = 200;
+export const MAX_CODE_TEMPLATE_LENGTH = 20000;
+
+export function getCodeTemplates(language: string) {
+  return (appState.userPreference.codeTemplates?.templates || []).filter(template => template.language === language);
+}
+
+export function getCodeSnippets(language: string) {
+  return (appState.userPreference.codeTemplates?.snippets || []).filter(snippet => snippet.language === language);
+}
+
+/**
+ * The first template of the language is inserted to the empty editor automatically, if enabled.
+ */
+export function getAutoInsertedCodeTemplate(language: string) {
+  if (appState.userPreference.codeTemplates?.autoInsert === false) return null;
+  return getCodeTemplates(language)[0] || null;
+}
+
+const isValidLanguage = (language: unknown) => Object.values(CodeLanguage).includes(language as CodeLanguage);
+const isString = (value: unknown, maxLength: number) => typeof value === "string" && value.length <= maxLength;
+
+/**
+ * Parse and validate the exported JSON of code templates. Invalid items are dropped.
+ * Return null if the JSON is invalid.
+ */
+export function parseCodeTemplatesJson(json: string): CodeTemplates {
+  let data: CodeTemplates;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    return null;
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) return null;
+
+  const templates = (Array.isArray(data.templates) ? data.templates : [])
+    .filter(
+      template =>
+        template &&
+        isValidLanguage(template.language) &&
+        isString(template.name, 100) &&
+        isString(template.code, MAX_CODE_TEMPLATE_LENGTH)
+    )
+    .map(({ language, name, code }) => ({ language, name, code }));
+  const snippets = (Array.isArray(data.snippets) ? data.snippets : [])
+    .filter(
+      snippet =>
+        snippet &&
+        isValidLanguage(snippet.language) &&
+        isString(snippet.prefix, 100) &&
+        snippet.prefix &&
+        (snippet.description == null || isString(snippet.description, 1000)) &&
+        isString(snippet.body, MAX_CODE_TEMPLATE_LENGTH)
+    )
+    .map(({ language, prefix, description, body }) => ({ language, prefix, description: description || "", body }));
+
+  return {
+    autoInsert: data.autoInsert !== false,
+    templates: templates.slice(0, MAX_CODE_TEMPLATE_COUNT),
+    snippets: snippets.slice(0, MAX_CODE_SNIPPET_COUNT)
+  };
+}
@@ -1,7 +1,77 @@
 // https://github.com/developit/workerize-loader/issues/3#issuecomment-393165124
+//
+// A worker module exposes its exported functions with exposeWorkerFunctions() and is imported with Vite's "?worker"
+// suffix. The functions are called with the returned object, like what workerize-loader did:
+//
+//   import ExampleWorker from "./example.worker?worker";
+//   const worker = createWorker<typeof import("./example.worker")>(ExampleWorker);
+//   await worker.exampleFunction(...);
 
-type WorkerType<T> = T & Pick<Worker, "terminate">;
-export function createWorker<T>(workerPath: T): WorkerType<T> {
-  return (workerPath as any)();
+type PromisifiedFunctions<T> = {
+  [K in keyof T]: T[K] extends (...args: infer A) => infer R ? (...args: A) => Promise<Awaited<R>> : never;
+};
+
+type WorkerType<T> = PromisifiedFunctions<T> & Pick<Worker, "terminate">;
+
+interface WorkerRequest {
+  id: number;
+  name: string;
+  args: unknown[];
+}
+
+interface WorkerResponse {
+  id: number;
+  result?: unknown;
+  error?: string;
+}
+
+export function createWorker<T>(WorkerConstructor: new () => Worker): WorkerType<T> {
+  const worker = new WorkerConstructor();
+
+  let lastRequestId = 0;
+  const pendingRequests = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+
+  worker.addEventListener("message", (e: MessageEvent<WorkerResponse>) => {
+    const request = pendingRequests.get(e.data.id);
+    if (!request) return;
+
+    pendingRequests.delete(e.data.id);
+    if (e.data.error != null) request.reject(new Error(e.data.error));
+    else request.resolve(e.data.result);
+  });
+
+  return new Proxy({} as WorkerType<T>, {
+    get(target, name) {
+      // Don't be treated as a thenable
+      if (name === "then" || typeof name !== "string") return undefined;
+
+      if (name === "terminate")
+        return () => {
+          worker.terminate();
+          for (const { reject } of pendingRequests.values()) reject(new Error("Worker terminated"));
+          pendingRequests.clear();
+        };
+
+      return (...args: unknown[]) =>
+        new Promise((resolve, reject) => {
+          const id = ++lastRequestId;
+          pendingRequests.set(id, { resolve, reject });
+          worker.postMessage({ id, name, args } as WorkerRequest);
+        });
+    }
+  });
 }
 export type createWorker<T> = WorkerType<T>;
+
+// Call in a worker module
+export function exposeWorkerFunctions(functions: Record<string, (...args: any[]) => unknown>) {
+  self.addEventListener("message", async (e: MessageEvent<WorkerRequest>) => {
+    const { id, name, args } = e.data;
+    try {
+      const result = await functions[name](...args);
+      self.postMessage({ id, result } as WorkerResponse);
+    } catch (error) {
+      self.postMessage({ id, error: String(error?.message ?? error) } as WorkerResponse);
+    }
+  });
+}
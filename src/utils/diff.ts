@@ -0,0 +1,78 @@
+export type DiffEdit =
+  | { type: "equal"; a: number; b: number }
+  | { type: "delete"; a: number }
+  | { type: "insert"; b: number };
+
+/**
+ * Compute the shortest edit script from a to b with Myers' algorithm. If the edit distance exceeds maxEditDistance,
+ * the differing part is treated as deleted and re-inserted as a whole, to limit the time and memory usage.
+ */
+export function diffSequences<T>(
+  a: T[],
+  b: T[],
+  equals: (x: T, y: T) => boolean = (x, y) => x === y,
+  maxEditDistance = 2000
+): DiffEdit[] {
+  // Strip the common prefix and suffix
+  let start = 0;
+  while (start < a.length && start < b.length && equals(a[start], b[start])) start++;
+  let endA = a.length,
+    endB = b.length;
+  while (endA > start && endB > start && equals(a[endA - 1], b[endB - 1])) endA--, endB--;
+
+  const n = endA - start,
+    m = endB - start,
+    max = n + m;
+
+  // trace[d][k + d] is the furthest x on diagonal k with d edits
+  const trace: Int32Array[] = [];
+  const v = new Int32Array(2 * max + 3);
+  const offset = max + 1;
+  let editDistance = -1;
+  search: for (let d = 0; d <= Math.min(max, maxEditDistance); d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && equals(a[start + x], b[start + y])) x++, y++;
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        editDistance = d;
+        break search;
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+
+  const middle: DiffEdit[] = [];
+  if (editDistance === -1) {
+    for (let i = start; i < endA; i++) middle.push({ type: "delete", a: i });
+    for (let i = start; i < endB; i++) middle.push({ type: "insert", b: i });
+  } else {
+    let x = n,
+      y = m;
+    for (let d = editDistance; d > 0; d--) {
+      const previous = trace[d - 1];
+      const k = x - y;
+      const previousK = k === -d || (k !== d && previous[k - 1 + d - 1] < previous[k + 1 + d - 1]) ? k + 1 : k - 1;
+      const previousX = previous[previousK + d - 1],
+        previousY = previousX - previousK;
+
+      while (x > previousX && y > previousY) x--, y--, middle.push({ type: "equal", a: start + x, b: start + y });
+      if (previousK === k + 1) middle.push({ type: "insert", b: start + previousY });
+      else middle.push({ type: "delete", a: start + previousX });
+
+      x = previousX;
+      y = previousY;
+    }
+    while (x > 0 && y > 0) x--, y--, middle.push({ type: "equal", a: start + x, b: start + y });
+    middle.reverse();
+  }
+
+  const result: DiffEdit[] = [];
+  for (let i = 0; i < start; i++) result.push({ type: "equal", a: i, b: i });
+  result.push(...middle);
+  for (let i = 0; endA + i < a.length; i++) result.push({ type: "equal", a: endA + i, b: endB + i });
+  return result;
+}
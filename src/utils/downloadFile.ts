@@ -1,6 +1,6 @@
-export default function downloadFile(url: string) {
+export default function downloadFile(url: string, filename = "") {
   const link = document.createElement("a");
   link.href = url;
-  link.download = "";
+  link.download = filename;
   link.click();
 }
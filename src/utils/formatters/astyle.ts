@@ -0,0 +1,26 @@
+import * as wastyle from "wastyle";
+import astyleBinaryUrl from "wastyle/dist/astyle.wasm?url";
+
+import { CodeLanguage } from "@/interfaces/CodeLanguage";
+
+const languageToModeMap = {
+  [CodeLanguage.Cpp]: "c",
+  [CodeLanguage.C]: "c",
+  [CodeLanguage.Cuda]: "c",
+  [CodeLanguage.Java]: "java",
+  [CodeLanguage.CSharp]: "cs"
+};
+
+export async function init() {
+  await wastyle.init(astyleBinaryUrl);
+}
+
+export function format(code: string, language: CodeLanguage, options: string) {
+  let [success, result] = wastyle.format(code, `${options.trim()} mode=${languageToModeMap[language]}`);
+  if (!success) throw new Error(result);
+
+  // The space in "#include <file>"
+  result = result.replace(/^#(include|import)[\t ]*(<|")/gm, (match, p1, p2) => `#${p1} ${p2}`);
+
+  return result;
+}
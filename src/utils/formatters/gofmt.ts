@@ -0,0 +1,15 @@
+import initGofmt, { format as formatWithGofmt } from "@wasm-fmt/gofmt/gofmt_web.js";
+import gofmtBinaryUrl from "@wasm-fmt/gofmt/gofmt.wasm?url";
+
+import { CodeLanguage } from "@/interfaces/CodeLanguage";
+import { checkUnknownOptions, parseFormatterOptions } from "./options";
+
+export async function init() {
+  await initGofmt(gofmtBinaryUrl);
+}
+
+// gofmt has no options by design
+export function format(code: string, language: CodeLanguage, options: string) {
+  checkUnknownOptions(parseFormatterOptions(options), []);
+  return formatWithGofmt(code);
+}
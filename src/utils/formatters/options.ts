@@ -0,0 +1,36 @@
+/**
+ * Parse options in the form of AStyle's, e.g. "line-width=88 quote-style=single preview".
+ * A flag without value is parsed as "true".
+ */
+export function parseFormatterOptions(options: string) {
+  const result: Record<string, string> = {};
+  for (const option of options.trim().split(/\s+/)) {
+    if (!option) continue;
+
+    const [key, ...value] = option.split("=");
+    result[key] = value.length > 0 ? value.join("=") : "true";
+  }
+  return result;
+}
+
+export function parseIntegerOption(options: Record<string, string>, key: string, defaultValue: number) {
+  if (!(key in options)) return defaultValue;
+
+  const value = Number(options[key]);
+  if (!Number.isSafeInteger(value) || value <= 0) throw new Error(`Invalid value of option "${key}"`);
+  return value;
+}
+
+// The first value is the default
+export function parseEnumOption<T extends string>(options: Record<string, string>, key: string, values: T[]) {
+  if (!(key in options)) return values[0];
+
+  const value = options[key] as T;
+  if (!values.includes(value))
+    throw new Error(`Invalid value of option "${key}", expected one of ${values.join(", ")}`);
+  return value;
+}
+
+export function checkUnknownOptions(options: Record<string, string>, knownKeys: string[]) {
+  for (const key of Object.keys(options)) if (!knownKeys.includes(key)) throw new Error(`Unknown option "${key}"`);
+}
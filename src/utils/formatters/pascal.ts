@@ -0,0 +1,151 @@
+import { CodeLanguage } from "@/interfaces/CodeLanguage";
+import { checkUnknownOptions, parseEnumOption, parseFormatterOptions, parseIntegerOption } from "./options";
+
+// A ptop-style formatter without external dependencies. It re-indents each line by the blocks and converts the case
+// of keywords. Line breaks are kept, since breaking lines needs a full parser
+
+interface Token {
+  type: "whitespace" | "newline" | "comment" | "string" | "number" | "word" | "symbol";
+  text: string;
+}
+
+const tokenRegexes: [Token["type"], RegExp][] = [
+  ["newline", /\n/y],
+  ["whitespace", /[^\S\n]+/y],
+  ["comment", /\{[^}]*\}?|\(\*[\s\S]*?(\*\)|$)|\/\/[^\n]*/y],
+  ["string", /'([^'\n]|'')*'?|#\$?[0-9a-fA-F]+/y],
+  ["number", /\$[0-9a-fA-F]+|\d+(\.\d+)?([eE][+-]?\d+)?/y],
+  ["word", /&?[A-Za-z_][A-Za-z0-9_]*/y],
+  ["symbol", /:=|<=|>=|<>|\.\.|\(\.|\.\)|[^\s]/y]
+];
+
+function tokenize(code: string) {
+  const tokens: Token[] = [];
+  for (let i = 0; i < code.length; ) {
+    for (const [type, regex] of tokenRegexes) {
+      regex.lastIndex = i;
+      const match = regex.exec(code);
+      if (!match) continue;
+
+      tokens.push({ type, text: match[0] });
+      i += match[0].length;
+      break;
+    }
+  }
+  return tokens;
+}
+
+const KEYWORDS = new Set(
+  (
+    "and array as asm begin case class const constructor destructor div do downto else end except exports file " +
+    "finalization finally for function goto if implementation in inherited initialization inline interface is " +
+    "label library mod nil not object of on or packed procedure program property raise record repeat set shl shr " +
+    "string then threadvar to try type unit until uses var while with xor"
+  ).split(" ")
+);
+
+// Declarations in these sections are indented
+const SECTION_KEYWORDS = new Set(["uses", "label", "const", "type", "var", "threadvar"]);
+const SECTION_ENDING_KEYWORDS = new Set([
+  ...SECTION_KEYWORDS,
+  "begin",
+  "procedure",
+  "function",
+  "constructor",
+  "destructor",
+  "implementation",
+  "initialization",
+  "finalization"
+]);
+
+// A single statement after these keywords is indented if it's on the next line
+const SINGLE_STATEMENT_KEYWORDS = new Set(["then", "else", "do"]);
+
+type KeywordCase = "lower" | "upper" | "preserve";
+
+function convertKeywordCase(word: string, keywordCase: KeywordCase) {
+  if (keywordCase === "preserve" || !KEYWORDS.has(word.toLowerCase())) return word;
+  return keywordCase === "lower" ? word.toLowerCase() : word.toUpperCase();
+}
+
+// Spaces in a line are collapsed, with spaces around ":=" and after ","
+function joinTokens(line: Token[], keywordCase: KeywordCase) {
+  let text = "";
+  line.forEach((token, i) => {
+    if (token.type === "whitespace") {
+      if (![line[i - 1].text, line[i + 1].text].some(neighbor => neighbor === ":=" || neighbor === ",")) text += " ";
+    } else if (token.text === ":=") text += " := ";
+    else if (token.text === ",") text += ", ";
+    else if (token.type === "word") text += convertKeywordCase(token.text, keywordCase);
+    else text += token.text;
+  });
+  return text.trimEnd();
+}
+
+export async function init() {}
+
+export function format(code: string, language: CodeLanguage, options: string) {
+  const parsedOptions = parseFormatterOptions(options);
+  checkUnknownOptions(parsedOptions, ["indent-width", "keyword-case"]);
+  const indentWidth = parseIntegerOption(parsedOptions, "indent-width", 2);
+  const keywordCase = parseEnumOption<KeywordCase>(parsedOptions, "keyword-case", ["lower", "upper", "preserve"]);
+
+  // Split the tokens into lines. Multi-line comments and strings belong to the line they start
+  const lines: Token[][] = [[]];
+  for (const token of tokenize(code.replace(/\r\n?/g, "\n")))
+    if (token.type === "newline") lines.push([]);
+    else lines[lines.length - 1].push(token);
+
+  // The opening keywords of the blocks not closed yet
+  const blocks: string[] = [];
+  let inSection = false;
+  let pendingSingleStatement = false;
+
+  const result: string[] = [];
+  for (const line of lines) {
+    while (line.length > 0 && line[0].type === "whitespace") line.shift();
+    while (line.length > 0 && line[line.length - 1].type === "whitespace") line.pop();
+
+    // Keep at most one empty line
+    if (line.length === 0) {
+      if (result.length > 0 && result[result.length - 1] !== "") result.push("");
+      continue;
+    }
+
+    const significantTokens = line.filter(token => token.type !== "whitespace" && token.type !== "comment");
+    const words = significantTokens.map(token => (token.type === "word" ? token.text.toLowerCase() : token.text));
+    const firstWord = words[0];
+
+    if (SECTION_ENDING_KEYWORDS.has(firstWord) && blocks.length === 0) inSection = false;
+
+    let dedent = 0;
+    if ((firstWord === "end" || firstWord === "until") && blocks.length > 0) blocks.pop();
+    else if (firstWord === "except" || firstWord === "finally") dedent = 1;
+
+    const singleStatementIndent = pendingSingleStatement && firstWord !== "begin" ? 1 : 0;
+    if (significantTokens.length > 0) pendingSingleStatement = false;
+
+    const indentLevel = Math.max(0, blocks.length + (inSection ? 1 : 0) + singleStatementIndent - dedent);
+    result.push(" ".repeat(indentLevel * indentWidth) + joinTokens(line, keywordCase));
+
+    // Find the blocks opened or closed by the rest of the line
+    words.forEach((word, i) => {
+      if (i === 0 && (word === "end" || word === "until")) return;
+
+      if (word === "begin" || word === "repeat" || word === "try" || word === "asm") blocks.push(word);
+      // A case in a record is a variant part, closed by the record's end
+      else if (word === "case" && blocks[blocks.length - 1] !== "record") blocks.push(word);
+      else if (word === "record") blocks.push(word);
+      // Not for forward declarations or class references, e.g. "TFoo = class;" and "TFooClass = class of TFoo"
+      else if ((word === "class" || word === "object") && words[i - 1] === "=" && ![";", "of"].includes(words[i + 1]))
+        blocks.push(word);
+      else if ((word === "end" || word === "until") && blocks.length > 0) blocks.pop();
+    });
+
+    if (SECTION_KEYWORDS.has(firstWord) && blocks.length === 0) inSection = true;
+    if (SINGLE_STATEMENT_KEYWORDS.has(words[words.length - 1])) pendingSingleStatement = true;
+  }
+
+  while (result.length > 0 && result[result.length - 1] === "") result.pop();
+  return result.join("\n") + "\n";
+}
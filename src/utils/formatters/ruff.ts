@@ -0,0 +1,28 @@
+import initRuff, { format as formatWithRuff } from "@wasm-fmt/ruff_fmt/ruff_fmt_web.js";
+import ruffBinaryUrl from "@wasm-fmt/ruff_fmt/ruff_fmt_bg.wasm?url";
+
+import { CodeLanguage } from "@/interfaces/CodeLanguage";
+import { checkUnknownOptions, parseEnumOption, parseFormatterOptions, parseIntegerOption } from "./options";
+
+export async function init() {
+  await initRuff(ruffBinaryUrl);
+}
+
+export function format(code: string, language: CodeLanguage, options: string) {
+  const parsedOptions = parseFormatterOptions(options);
+  checkUnknownOptions(parsedOptions, [
+    "line-width",
+    "indent-width",
+    "indent-style",
+    "quote-style",
+    "magic-trailing-comma"
+  ]);
+
+  return formatWithRuff(code, "main.py", {
+    line_width: parseIntegerOption(parsedOptions, "line-width", 88),
+    indent_width: parseIntegerOption(parsedOptions, "indent-width", 4),
+    indent_style: parseEnumOption(parsedOptions, "indent-style", ["space", "tab"]),
+    quote_style: parseEnumOption(parsedOptions, "quote-style", ["double", "single", "preserve"]),
+    magic_trailing_comma: parseEnumOption(parsedOptions, "magic-trailing-comma", ["respect", "ignore"])
+  });
+}
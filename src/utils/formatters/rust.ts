@@ -0,0 +1,21 @@
+import { format as formatWithPrettier } from "prettier/standalone";
+import * as rustPlugin from "prettier-plugin-rust";
+
+import { CodeLanguage } from "@/interfaces/CodeLanguage";
+import { checkUnknownOptions, parseEnumOption, parseFormatterOptions, parseIntegerOption } from "./options";
+
+// The plugin is pure JavaScript, nothing to load
+export async function init() {}
+
+export function format(code: string, language: CodeLanguage, options: string) {
+  const parsedOptions = parseFormatterOptions(options);
+  checkUnknownOptions(parsedOptions, ["print-width", "tab-width", "use-tabs"]);
+
+  return formatWithPrettier(code, {
+    parser: "jinx-rust",
+    plugins: [rustPlugin],
+    printWidth: parseIntegerOption(parsedOptions, "print-width", 100),
+    tabWidth: parseIntegerOption(parsedOptions, "tab-width", 4),
+    useTabs: parseEnumOption(parsedOptions, "use-tabs", ["false", "true"]) === "true"
+  });
+}
@@ -0,0 +1,81 @@
+import type { PyodideInterface } from "pyodide";
+
+import { exposeWorkerFunctions } from "@/utils/createWorker";
+
+export interface LocalRunResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  // In milliseconds, excluding the time to load the runtime
+  time: number;
+}
+
+// Each run executes the code as __main__ in a new namespace with a new stdin
+// The frame of exec() is removed from the traceback of uncaught exceptions
+const PYTHON_RUNNER = `
+import sys, traceback
+
+def __run_main(code):
+    sys.stdin = open(0, "r", closefd=False)
+    try:
+        exec(compile(code, "main.py", "exec"), {"__name__": "__main__"})
+        return 0
+    except SystemExit as e:
+        return 0 if e.code is None else e.code if isinstance(e.code, int) else 1
+    except BaseException as e:
+        traceback.print_exception(type(e), e, e.__traceback__.tb_next)
+        return 1
+    finally:
+        sys.stdout.flush()
+        sys.stderr.flush()
+`;
+
+let pyodide: PyodideInterface;
+let runMain: (code: string) => number;
+const output = { stdout: "", stderr: "" };
+
+function createOutputWriter(stream: keyof typeof output) {
+  const decoder = new TextDecoder();
+  return (buffer: Uint8Array) => {
+    output[stream] += decoder.decode(buffer, { stream: true });
+    return buffer.length;
+  };
+}
+
+export async function load(indexURL: string) {
+  if (pyodide) return;
+
+  // importScripts() throws in module workers, which Vite creates in dev mode, so load the ES module build
+  const { loadPyodide }: typeof import("pyodide") = await import(/* @vite-ignore */ `${indexURL}pyodide.mjs`);
+  pyodide = await loadPyodide({ indexURL });
+
+  pyodide.setStdout({ write: createOutputWriter("stdout") });
+  pyodide.setStderr({ write: createOutputWriter("stderr") });
+
+  pyodide.runPython(PYTHON_RUNNER);
+  runMain = pyodide.globals.get("__run_main");
+}
+
+export function runPython(code: string, input: string): LocalRunResult {
+  if (!pyodide) throw new Error("Python runtime not loaded");
+
+  output.stdout = output.stderr = "";
+
+  // Return the whole input at once, then EOF
+  let pendingInput = new TextEncoder().encode(input);
+  pyodide.setStdin({
+    stdin: () => {
+      const data = pendingInput;
+      pendingInput = null;
+      return data;
+    }
+  });
+
+  const startTime = performance.now();
+  const exitCode = runMain(code);
+  const time = performance.now() - startTime;
+
+  return { stdout: output.stdout, stderr: output.stderr, exitCode, time };
+}
+
+exposeWorkerFunctions({ load, runPython });
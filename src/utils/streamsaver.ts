@@ -0,0 +1,11 @@
+import streamsaver from "streamsaver";
+
+// Firefox have no WritableStream
+if (!window.WritableStream || true) {
+  (streamsaver as any).WritableStream = (await import("web-streams-polyfill/ponyfill/es6")).WritableStream;
+}
+if (window.apiEndpoint.toLowerCase().startsWith("https://")) {
+  (streamsaver as any).mitm = `${window.apiEndpoint}api/cors/streamsaver/mitm.html`;
+}
+
+export default streamsaver;
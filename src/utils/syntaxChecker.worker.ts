@@ -0,0 +1,151 @@
+import { commands, Exit } from "@yowasp/clang";
+
+import { exposeWorkerFunctions } from "@/utils/createWorker";
+
+export interface SyntaxDiagnostic {
+  severity: "error" | "warning";
+  // 1-based, the column is in UTF-16 code units like Monaco's
+  line: number;
+  column: number;
+  message: string;
+}
+
+// The GCC-specific header used by most solutions is not provided by libc++
+// Headers unavailable in WASI (e.g. <csignal>, <thread>) are excluded
+const BITS_STDCXX_H = `
+#include <cassert>
+#include <cctype>
+#include <cerrno>
+#include <cfloat>
+#include <climits>
+#include <clocale>
+#include <cmath>
+#include <cstdarg>
+#include <cstddef>
+#include <cstdio>
+#include <cstdlib>
+#include <cstring>
+#include <ctime>
+#include <algorithm>
+#include <bitset>
+#include <complex>
+#include <deque>
+#include <exception>
+#include <fstream>
+#include <functional>
+#include <iomanip>
+#include <ios>
+#include <iosfwd>
+#include <iostream>
+#include <istream>
+#include <iterator>
+#include <limits>
+#include <list>
+#include <locale>
+#include <map>
+#include <memory>
+#include <new>
+#include <numeric>
+#include <ostream>
+#include <queue>
+#include <set>
+#include <sstream>
+#include <stack>
+#include <stdexcept>
+#include <streambuf>
+#include <string>
+#include <typeinfo>
+#include <utility>
+#include <valarray>
+#include <vector>
+#if __cplusplus >= 201103L
+#include <array>
+#include <cfenv>
+#include <chrono>
+#include <cinttypes>
+#include <cstdint>
+#include <forward_list>
+#include <initializer_list>
+#include <random>
+#include <ratio>
+#include <regex>
+#include <tuple>
+#include <type_traits>
+#include <typeindex>
+#include <unordered_map>
+#include <unordered_set>
+#endif
+#if __cplusplus >= 201703L
+#include <any>
+#include <optional>
+#include <string_view>
+#include <variant>
+#endif
+#if __cplusplus >= 202002L
+#include <bit>
+#include <compare>
+#include <concepts>
+#include <numbers>
+#include <ranges>
+#include <span>
+#endif
+`;
+
+// e.g. "main.cpp:3:5: error: expected ';' after expression"
+const DIAGNOSTIC_REGEX = /^([^:\n]+):(\d+):(\d+): (fatal error|error|warning): (.*)$/gm;
+
+/**
+ * Clang reports columns in bytes, convert them to UTF-16 code units.
+ */
+function byteColumnToCharColumn(lineText: string, byteColumn: number) {
+  const bytes = new TextEncoder().encode(lineText).subarray(0, byteColumn - 1);
+  return new TextDecoder().decode(bytes).length + 1;
+}
+
+/**
+ * Run Clang with -fsyntax-only on the code. The WASM toolchain is downloaded on the first call.
+ * The arguments are passed to Clang before the source file. The extra files are put in the same directory.
+ */
+export async function checkSyntax(
+  compiler: "clang" | "clang++",
+  args: string[],
+  filename: string,
+  code: string,
+  extraFiles: Record<string, string>
+): Promise<SyntaxDiagnostic[]> {
+  const decoder = new TextDecoder();
+  let output = "";
+  try {
+    await commands[compiler](
+      [...args, "-fsyntax-only", "-fno-color-diagnostics", "-fno-caret-diagnostics", "-I", "include", filename],
+      {
+        ...extraFiles,
+        [filename]: code,
+        include: { bits: { "stdc++.h": BITS_STDCXX_H } }
+      },
+      {
+        stdout: null,
+        stderr: bytes => {
+          if (bytes) output += decoder.decode(bytes, { stream: true });
+        }
+      }
+    );
+  } catch (e) {
+    // Clang exits with non-zero code if there're errors
+    if (!(e instanceof Exit)) throw e;
+  }
+
+  const lines = code.split("\n");
+  return Array.from(output.matchAll(DIAGNOSTIC_REGEX))
+    .filter(([, file]) => file === filename)
+    .map(
+      ([, , line, column, severity, message]): SyntaxDiagnostic => ({
+        severity: severity === "warning" ? "warning" : "error",
+        line: Number(line),
+        column: byteColumnToCharColumn(lines[Number(line) - 1] ?? "", Number(column)),
+        message
+      })
+    );
+}
+
+exposeWorkerFunctions({ checkSyntax });
@@ -13,3 +13,162 @@ export const createZipStream: (underlyingSource: UnderlyingSource<FileLike>) =>
 export async function createZipBlob(underlyingSource: UnderlyingSource<FileLike>): Promise<Blob> {
   return await new Response(createZipStream(underlyingSource)).blob();
 }
+
+export interface ZipEntry {
+  name: string;
+  directory: boolean;
+  size: number;
+  blob(): Promise<Blob>;
+  text(): Promise<string>;
+}
+
+export class ZipFormatError extends Error {}
+
+// Thrown when extracting a deflated entry in a browser without "deflate-raw" DecompressionStream (Chrome < 103,
+// Firefox < 113, Safari < 16.4), e.g. the ones served by the legacy build
+export class ZipDecompressionUnsupportedError extends Error {}
+
+declare global {
+  interface Window {
+    // Missing in the DOM typings of TypeScript 4.7
+    DecompressionStream?: new (format: "deflate" | "deflate-raw" | "gzip") => TransformStream<Uint8Array, Uint8Array>;
+  }
+}
+
+const SIGNATURE_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const SIGNATURE_ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR = 0x07064b50;
+const SIGNATURE_ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const SIGNATURE_CENTRAL_DIRECTORY_FILE_HEADER = 0x02014b50;
+const SIGNATURE_LOCAL_FILE_HEADER = 0x04034b50;
+
+// Older browsers have DecompressionStream without "deflate-raw", whose constructor throws
+function createInflateStream(name: string) {
+  try {
+    return new window.DecompressionStream("deflate-raw");
+  } catch {
+    throw new ZipDecompressionUnsupportedError(`Couldn't decompress ${name} in this browser`);
+  }
+}
+
+async function readBytes(blob: Blob, start: number, end: number) {
+  return new DataView(await blob.slice(start, end).arrayBuffer());
+}
+
+function getUint64(view: DataView, offset: number) {
+  return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+}
+
+// Archives created on Windows with Chinese locale usually have GBK encoded filenames
+function decodeFilename(bytes: Uint8Array, isUtf8: boolean) {
+  if (!isUtf8) {
+    try {
+      return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    } catch {
+      return new TextDecoder("gbk").decode(bytes);
+    }
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Read the entries of a zip archive. Only "stored" and "deflated" entries could be extracted, with the browser's
+ * native DecompressionStream.
+ */
+export async function readZip(file: Blob): Promise<ZipEntry[]> {
+  // The end of central directory record is at least 22 bytes, followed by a comment up to 65535 bytes
+  const tailStart = Math.max(0, file.size - 22 - 65535);
+  const tail = await readBytes(file, tailStart, file.size);
+  let eocdOffset = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--)
+    if (tail.getUint32(i, true) === SIGNATURE_END_OF_CENTRAL_DIRECTORY) {
+      eocdOffset = i;
+      break;
+    }
+  if (eocdOffset === -1) throw new ZipFormatError("End of central directory not found");
+
+  let entryCount = tail.getUint16(eocdOffset + 10, true);
+  let centralDirectorySize = tail.getUint32(eocdOffset + 12, true);
+  let centralDirectoryOffset = tail.getUint32(eocdOffset + 16, true);
+
+  if (eocdOffset >= 20 && tail.getUint32(eocdOffset - 20, true) === SIGNATURE_ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR) {
+    const zip64EocdOffset = getUint64(tail, eocdOffset - 20 + 8);
+    const zip64Eocd = await readBytes(file, zip64EocdOffset, zip64EocdOffset + 56);
+    if (zip64Eocd.getUint32(0, true) !== SIGNATURE_ZIP64_END_OF_CENTRAL_DIRECTORY)
+      throw new ZipFormatError("Invalid zip64 end of central directory");
+    entryCount = getUint64(zip64Eocd, 32);
+    centralDirectorySize = getUint64(zip64Eocd, 40);
+    centralDirectoryOffset = getUint64(zip64Eocd, 48);
+  }
+
+  const centralDirectory = await readBytes(file, centralDirectoryOffset, centralDirectoryOffset + centralDirectorySize);
+  const entries: ZipEntry[] = [];
+  for (let i = 0, offset = 0; i < entryCount; i++) {
+    if (centralDirectory.getUint32(offset, true) !== SIGNATURE_CENTRAL_DIRECTORY_FILE_HEADER)
+      throw new ZipFormatError("Invalid central directory file header");
+
+    const flags = centralDirectory.getUint16(offset + 8, true);
+    const method = centralDirectory.getUint16(offset + 10, true);
+    let compressedSize = centralDirectory.getUint32(offset + 20, true);
+    let size = centralDirectory.getUint32(offset + 24, true);
+    const filenameLength = centralDirectory.getUint16(offset + 28, true);
+    const extraLength = centralDirectory.getUint16(offset + 30, true);
+    const commentLength = centralDirectory.getUint16(offset + 32, true);
+    let localHeaderOffset = centralDirectory.getUint32(offset + 42, true);
+    const name = decodeFilename(
+      new Uint8Array(centralDirectory.buffer, centralDirectory.byteOffset + offset + 46, filenameLength),
+      !!(flags & 0x800)
+    );
+
+    // The zip64 extended information extra field contains only the fields overflowed in the header
+    for (let extraOffset = offset + 46 + filenameLength; extraOffset < offset + 46 + filenameLength + extraLength; ) {
+      const id = centralDirectory.getUint16(extraOffset, true);
+      const length = centralDirectory.getUint16(extraOffset + 2, true);
+      if (id === 0x0001) {
+        let fieldOffset = extraOffset + 4;
+        const readField = () => {
+          const value = getUint64(centralDirectory, fieldOffset);
+          fieldOffset += 8;
+          return value;
+        };
+        if (size === 0xffffffff) size = readField();
+        if (compressedSize === 0xffffffff) compressedSize = readField();
+        if (localHeaderOffset === 0xffffffff) localHeaderOffset = readField();
+      }
+      extraOffset += 4 + length;
+    }
+
+    offset += 46 + filenameLength + extraLength + commentLength;
+
+    const directory = name.endsWith("/");
+    const getCompressedData = async () => {
+      const localHeader = await readBytes(file, localHeaderOffset, localHeaderOffset + 30);
+      if (localHeader.getUint32(0, true) !== SIGNATURE_LOCAL_FILE_HEADER)
+        throw new ZipFormatError(`Invalid local file header of ${name}`);
+      const dataOffset = localHeaderOffset + 30 + localHeader.getUint16(26, true) + localHeader.getUint16(28, true);
+      return file.slice(dataOffset, dataOffset + compressedSize);
+    };
+    const blob = async (): Promise<Blob> => {
+      if (flags & 0x1) throw new ZipFormatError(`Encrypted entry ${name} is not supported`);
+
+      const data = await getCompressedData();
+      switch (method) {
+        case 0:
+          return data;
+        case 8:
+          return await new Response(new Response(data).body.pipeThrough(createInflateStream(name))).blob();
+        default:
+          throw new ZipFormatError(`Unsupported compression method ${method} of ${name}`);
+      }
+    };
+
+    entries.push({
+      name,
+      directory,
+      size,
+      blob,
+      text: async () => await (await blob()).text()
+    });
+  }
+
+  return entries;
+}
@@ -30,3 +30,32 @@ interface Window {
 }
 
 declare const EXTERNAL_PACKAGE_VERSION: readonly Record<string, string>;
+
+// monaco-vim doesn't ship type definitions
+declare module "monaco-vim" {
+  import type * as Monaco from "monaco-editor";
+
+  export function initVimMode(
+    editor: Monaco.editor.IStandaloneCodeEditor,
+    statusBarNode?: HTMLElement
+  ): { dispose(): void };
+}
+
+// The typings of @wasm-fmt re-export with ".d.ts" extensions, which TypeScript 4.7 can't resolve
+declare module "@wasm-fmt/gofmt/gofmt_web.js" {
+  export default function init(wasmUrl: string): Promise<unknown>;
+  export function format(code: string): string;
+}
+
+declare module "@wasm-fmt/ruff_fmt/ruff_fmt_web.js" {
+  export interface Config {
+    indent_style?: "tab" | "space";
+    indent_width?: number;
+    line_width?: number;
+    quote_style?: "single" | "double" | "preserve";
+    magic_trailing_comma?: "respect" | "ignore";
+  }
+
+  export default function init(wasmUrl: string): Promise<unknown>;
+  export function format(code: string, filename?: string, config?: Config): string;
+}
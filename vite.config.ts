@@ -135,6 +135,7 @@ const externalPackageVersions = Object.fromEntries(
     "mathjax-full",
     "twemoji",
     "prismjs",
+    "pyodide",
 
     ...Object.keys(baseExternalPackages)
   ].map(packageName => [
@@ -266,11 +267,20 @@ export default defineConfig({
       "top-level-await": true
     }
   },
+  worker: {
+    rollupOptions: {
+      output: {
+        // Code splitting is not supported in the default IIFE format of workers
+        inlineDynamicImports: true
+      }
+    }
+  },
   define: {
     EXTERNAL_PACKAGE_VERSION: JSON.stringify(externalPackageVersions)
   },
   optimizeDeps: {
-    exclude: ["mobx-utils/mobx-utils.module.js"],
+    // @yowasp/clang loads its WASM files relative to import.meta.url, which breaks if pre-bundled
+    exclude: ["mobx-utils/mobx-utils.module.js", "@yowasp/clang"],
     esbuildOptions: {
       // Node.js global to browser globalThis
       define: {